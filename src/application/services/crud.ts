@@ -1,9 +1,29 @@
 import { ApplicationError, ErrorType } from "#config/errors.js";
+import type { ClientSession } from "mongodb";
 import type { IService, IRepository, MongoDocument } from "#domain/index.js";
 import type {
+  BulkOptions,
+  BulkRemoveOptions,
+  BulkResult,
+  BulkUpdateItem,
+  ChangeHandlers,
+  ChangeSubscription,
+  EntityChange,
+  FindQuery,
+  IChangeFeed,
+  IUnitOfWork,
   Logger,
   PaginatedResult,
   PaginationOptions,
+  ProjectedDocument,
+  ProjectionOptions,
+  QueryOptions,
+  RemoveOptions,
+  ReplaceOptions,
+  ReplaceResult,
+  SessionOptions,
+  UpdateOptions,
+  WatchOptions,
 } from "#domain/index.js";
 
 /**
@@ -20,25 +40,61 @@ export class CrudService<TEntity> implements IService<TEntity> {
    *
    * @param {IRepository<TEntity, TQuery>} repository - Repository for data persistence operations
    * @param {Logger} logger - Logger instance for operation tracking and debugging
+   * @param {IUnitOfWork} [unitOfWork] - Transaction runner used by `withTransaction`
+   * @param {IChangeFeed<TEntity>} [changeFeed] - Change feed notified of every mutation, used by `watch`
    */
   public constructor(
     private readonly repository: IRepository<TEntity>,
     private readonly logger: Logger,
+    private readonly unitOfWork?: IUnitOfWork,
+    private readonly changeFeed?: IChangeFeed<TEntity>,
   ) {}
 
+  /**
+   * Runs a set of operations atomically. The work receives the transaction
+   * session and must pass it to every service or repository call it makes,
+   * including calls on other services sharing the same MongoDB client.
+   * Transient transaction errors are retried by running the work again.
+   *
+   * @param {(session: ClientSession) => Promise<T>} work - Operations to run atomically
+   * @returns {Promise<T>} The value returned by the work
+   * @throws {ApplicationError} When no unit of work is configured or the transaction fails
+   */
+  public async withTransaction<T>(
+    work: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    if (!this.unitOfWork) {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: "Transactions require a unit of work to be configured",
+        statusCode: 500,
+      });
+    }
+
+    this.logger.debug("Service: Running transactional work");
+    return this.unitOfWork.withTransaction(work);
+  }
+
   /**
    * Creates a new entity after performing business logic validation.
    * Logs operation details and handles business rule enforcement.
    *
    * @param {TEntity} data - Entity data to be created
+   * @param {SessionOptions} [options] - Optional session to run the operation in
    * @returns {Promise<MongoDocument<TEntity>>} Created entity with metadata
    * @throws {ValidationError} When entity data fails business validation
    * @throws {ApplicationError} When creation operation fails
    */
-  public async create(data: TEntity): Promise<MongoDocument<TEntity>> {
-    this.logger.debug("Service: Creating new entity", { data });
+  public async create(
+    data: TEntity,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity>> {
+    // Values may be sensitive (e.g. encrypted fields), only log field names
+    this.logger.debug("Service: Creating new entity", {
+      fields: Object.keys(data as object),
+    });
 
-    const result = await this.repository.create(data);
+    const result = await this.repository.create(data, options);
 
     if (!result) {
       throw new ApplicationError({
@@ -52,6 +108,11 @@ export class CrudService<TEntity> implements IService<TEntity> {
       entityId: result._id,
       createdAt: result.createdAt,
     });
+    this.publishChange({
+      operation: "create",
+      documentId: String(result._id),
+      document: result,
+    });
 
     return result;
   }
@@ -60,14 +121,42 @@ export class CrudService<TEntity> implements IService<TEntity> {
    * Retrieves an entity by ID with additional business logic checks.
    *
    * @param {string} id - Unique identifier of the entity
+   * @param {QueryOptions} [options] - Optional read options, including a projection
    * @returns {Promise<MongoDocument<TEntity>>} Retrieved entity with metadata
    * @throws {ApplicationError} When entity is not found or access is denied
    */
-  public async read(id: string): Promise<MongoDocument<TEntity>> {
-    this.logger.debug("Service: Reading entity by ID", { id });
+  public async read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Read options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity>> {
+    this.logger.debug("Service: Reading entity by ID", {
+      id,
+      includeDeleted: options?.includeDeleted,
+      projection: options?.projection,
+    });
 
-    const result: MongoDocument<TEntity> | null =
-      await this.repository.read(id);
+    const result: MongoDocument<TEntity> | null = await this.repository.read(
+      id,
+      options,
+    );
 
     if (!result) {
       throw new ApplicationError({
@@ -90,19 +179,27 @@ export class CrudService<TEntity> implements IService<TEntity> {
    *
    * @param {string} id - Unique identifier of the entity to update
    * @param {Partial<TEntity>} data - Partial entity data for updates
+   * @param {UpdateOptions} [options] - Optional update preconditions
    * @returns {Promise<MongoDocument<TEntity>>} Updated entity with metadata
    * @throws {ValidationError} When update data fails validation
+   * @throws {ConcurrencyError} When the expected version is no longer current
    * @throws {ApplicationError} When entity not found or update fails
    */
   public async update(
     id: string,
     data: Partial<TEntity>,
+    options?: UpdateOptions,
   ): Promise<MongoDocument<TEntity>> {
-    this.logger.debug("Service: Updating entity", { id, data });
+    this.logger.debug("Service: Updating entity", {
+      id,
+      fields: Object.keys(data),
+      expectedVersion: options?.expectedVersion,
+    });
 
     const result: MongoDocument<TEntity> | null = await this.repository.update(
       id,
       data,
+      options,
     );
 
     if (!result) {
@@ -110,12 +207,67 @@ export class CrudService<TEntity> implements IService<TEntity> {
         type: ErrorType.NOT_FOUND_ERROR,
         message: `Entity with ID ${id} not found for update`,
         statusCode: 404,
-        metadata: { requestedId: id, updateData: data },
+        metadata: { requestedId: id, fields: Object.keys(data) },
       });
     }
 
     this.logger.info("Service: Entity updated successfully", {
       entityId: result._id,
+      version: result.__v,
+    });
+    this.publishChange({
+      operation: "update",
+      documentId: String(result._id),
+      document: result,
+    });
+
+    return result;
+  }
+
+  /**
+   * Replaces an existing entity, or creates it with the given identifier
+   * when `upsert` is set.
+   *
+   * @param {string} id - Unique identifier of the entity to replace
+   * @param {TEntity} data - Complete entity data
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag
+   * @returns {Promise<ReplaceResult<TEntity>>} Stored entity and whether it was created
+   * @throws {ConcurrencyError} When the expected version is no longer current
+   * @throws {ApplicationError} When entity not found (without upsert) or replace fails
+   */
+  public async replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity>> {
+    this.logger.debug("Service: Replacing entity", {
+      id,
+      expectedVersion: options?.expectedVersion,
+      upsert: options?.upsert === true,
+    });
+
+    const result = await this.repository.replace(id, data, options);
+
+    if (!result) {
+      throw new ApplicationError({
+        type: ErrorType.NOT_FOUND_ERROR,
+        message: `Entity with ID ${id} not found for replace`,
+        statusCode: 404,
+        metadata: { requestedId: id },
+      });
+    }
+
+    const { document, created } = result;
+    this.logger.info(
+      created
+        ? "Service: Entity created by replace"
+        : "Service: Entity replaced successfully",
+      { entityId: document._id, version: document.__v },
+    );
+    this.publishChange({
+      operation: created ? "create" : "update",
+      documentId: String(document._id),
+      document,
     });
 
     return result;
@@ -125,16 +277,17 @@ export class CrudService<TEntity> implements IService<TEntity> {
    * Removes an entity with business logic checks and cascading operations.
    *
    * @param {string} id - Unique identifier of the entity to remove
+   * @param {RemoveOptions} [options] - Optional removal metadata
    * @returns {Promise<void>} Resolves when entity is successfully removed
    * @throws {ApplicationError} When entity not found or removal fails
    */
-  public async remove(id: string): Promise<void> {
+  public async remove(id: string, options?: RemoveOptions): Promise<void> {
     this.logger.debug("Service: Removing entity", { id });
 
     // Check if entity exists and validate removal permissions
-    await this.read(id);
+    await this.read(id, { session: options?.session });
 
-    const removed: boolean = await this.repository.remove(id);
+    const removed: boolean = await this.repository.remove(id, options);
 
     if (!removed) {
       throw new ApplicationError({
@@ -146,25 +299,117 @@ export class CrudService<TEntity> implements IService<TEntity> {
     }
 
     this.logger.info("Service: Entity removed successfully", { entityId: id });
+    this.publishChange({ operation: "delete", documentId: id });
 
     return;
   }
 
+  /**
+   * Restores a soft-deleted entity.
+   *
+   * @param {string} id - Unique identifier of the entity to restore
+   * @param {SessionOptions} [options] - Optional session to run the operation in
+   * @returns {Promise<MongoDocument<TEntity>>} Restored entity with metadata
+   * @throws {ApplicationError} When no soft-deleted entity is found or restore fails
+   */
+  public async restore(
+    id: string,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity>> {
+    this.logger.debug("Service: Restoring entity", { id });
+
+    const result: MongoDocument<TEntity> | null = await this.repository.restore(
+      id,
+      options,
+    );
+
+    if (!result) {
+      throw new ApplicationError({
+        type: ErrorType.NOT_FOUND_ERROR,
+        message: `Deleted entity with ID ${id} not found for restore`,
+        statusCode: 404,
+        metadata: { requestedId: id },
+      });
+    }
+
+    this.logger.info("Service: Entity restored successfully", {
+      entityId: result._id,
+    });
+    this.publishChange({
+      operation: "restore",
+      documentId: String(result._id),
+      document: result,
+    });
+
+    return result;
+  }
+
+  /**
+   * Permanently removes an entity, including soft-deleted ones.
+   *
+   * @param {string} id - Unique identifier of the entity to purge
+   * @param {SessionOptions} [options] - Optional session to run the operation in
+   * @returns {Promise<void>} Resolves when entity is successfully purged
+   * @throws {ApplicationError} When entity not found or purge fails
+   */
+  public async purge(id: string, options?: SessionOptions): Promise<void> {
+    this.logger.debug("Service: Purging entity", { id });
+
+    await this.read(id, { includeDeleted: true, session: options?.session });
+
+    const purged: boolean = await this.repository.purge(id, options);
+
+    if (!purged) {
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Failed to purge entity - operation unsuccessful",
+        statusCode: 500,
+        metadata: { entityId: id },
+      });
+    }
+
+    this.logger.info("Service: Entity purged successfully", { entityId: id });
+    this.publishChange({ operation: "delete", documentId: id });
+  }
+
   /**
    * Finds entities matching query criteria with business logic filtering.
    *
-   * @param {TQuery} query - Query criteria for entity filtering
-   * @param {PaginationOptions} [options] - Optional pagination parameters
+   * @param {FindQuery<TEntity>} query - Query criteria for entity filtering
+   * @param {PaginationOptions} [options] - Optional pagination parameters, including a projection
    * @returns {Promise<PaginatedResult<MongoDocument<TEntity>>>} Paginated results
    * @throws {ValidationError} When query parameters are invalid
    */
   public async find(
-    query: Partial<TEntity>,
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async find(
+    query: FindQuery<TEntity>,
     options?: PaginationOptions,
-  ): Promise<PaginatedResult<MongoDocument<TEntity>>> {
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & Partial<ProjectionOptions>} [options] - Pagination options
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity> | ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions & Partial<ProjectionOptions>,
+  ): Promise<
+    | PaginatedResult<MongoDocument<TEntity>>
+    | PaginatedResult<ProjectedDocument<TEntity>>
+  > {
+    // The session is not serializable, keep it out of the logs
+    const { session: _session, ...pagination } = options ?? {};
     this.logger.debug("Service: Finding entities with query", {
-      query,
-      options,
+      filterFields: Object.keys(query),
+      options: pagination,
     });
 
     const result = await this.repository.find(query, options);
@@ -175,4 +420,150 @@ export class CrudService<TEntity> implements IService<TEntity> {
     });
     return result;
   }
+
+  /**
+   * Creates many entities in one operation.
+   *
+   * @param {TEntity[]} items - Entities to create
+   * @param {BulkOptions} [options] - Ordering and session options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Per-item results
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  public async bulkCreate(
+    items: TEntity[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    this.logger.debug("Service: Bulk creating entities", {
+      count: items.length,
+      ordered: options?.ordered,
+    });
+
+    const result = await this.repository.bulkCreate(items, options);
+
+    this.logger.info("Service: Bulk create completed", {
+      succeeded: result.succeeded,
+      failed: result.failed,
+      skipped: result.skipped,
+    });
+    this.publishBulkChanges("create", result);
+    return result;
+  }
+
+  /**
+   * Updates many entities in one operation.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Entity ids with their update data
+   * @param {BulkOptions} [options] - Ordering and session options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Per-item results
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  public async bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    this.logger.debug("Service: Bulk updating entities", {
+      count: items.length,
+      ordered: options?.ordered,
+    });
+
+    const result = await this.repository.bulkUpdate(items, options);
+
+    this.logger.info("Service: Bulk update completed", {
+      succeeded: result.succeeded,
+      failed: result.failed,
+      skipped: result.skipped,
+    });
+    this.publishBulkChanges("update", result);
+    return result;
+  }
+
+  /**
+   * Removes many entities in one operation.
+   *
+   * @param {string[]} ids - Identifiers of the entities to remove
+   * @param {BulkRemoveOptions} [options] - Ordering, session and removal options
+   * @returns {Promise<BulkResult<never>>} Per-item results
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  public async bulkRemove(
+    ids: string[],
+    options?: BulkRemoveOptions,
+  ): Promise<BulkResult<never>> {
+    this.logger.debug("Service: Bulk removing entities", {
+      count: ids.length,
+      ordered: options?.ordered,
+    });
+
+    const result = await this.repository.bulkRemove(ids, options);
+
+    this.logger.info("Service: Bulk remove completed", {
+      succeeded: result.succeeded,
+      failed: result.failed,
+      skipped: result.skipped,
+    });
+    this.publishBulkChanges("delete", result);
+    return result;
+  }
+
+  /**
+   * Subscribes to the changes applied to the entities.
+   *
+   * @param {WatchOptions<TEntity>} options - Filter and resume position
+   * @param {ChangeHandlers<TEntity>} handlers - Event and error callbacks
+   * @returns {Promise<ChangeSubscription>} Active subscription
+   * @throws {ApplicationError} When no change feed is configured or it cannot be opened
+   */
+  public async watch(
+    options: WatchOptions<TEntity>,
+    handlers: ChangeHandlers<TEntity>,
+  ): Promise<ChangeSubscription> {
+    if (!this.changeFeed) {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: "Watching changes requires a change feed to be configured",
+        statusCode: 500,
+      });
+    }
+
+    this.logger.debug("Service: Watching changes", {
+      filterFields: Object.keys(options.filter ?? {}),
+      resumeAfter: options.resumeAfter,
+    });
+    return this.changeFeed.watch(options, handlers);
+  }
+
+  /**
+   * Notifies the change feed of an applied change. Feeds that rely on the
+   * service (no replica set) never run inside transactions, so changes are
+   * published as soon as the repository call returns.
+   *
+   * @param {EntityChange<TEntity>} change - Applied change
+   * @private
+   */
+  private publishChange(change: EntityChange<TEntity>): void {
+    this.changeFeed?.publish(change);
+  }
+
+  /**
+   * Publishes a change for every successful item of a bulk operation.
+   *
+   * @param {"create" | "update" | "delete"} operation - Kind of change
+   * @param {BulkResult<MongoDocument<TEntity>>} result - Outcome of the operation
+   * @private
+   */
+  private publishBulkChanges(
+    operation: "create" | "update" | "delete",
+    result: BulkResult<MongoDocument<TEntity>>,
+  ): void {
+    for (const item of result.results) {
+      if (item.status !== "success" || item.id === undefined) {
+        continue;
+      }
+      this.publishChange({
+        operation,
+        documentId: item.id,
+        ...(operation !== "delete" && item.data && { document: item.data }),
+      });
+    }
+  }
 }
@@ -12,6 +12,8 @@ export enum ErrorType {
   SERVER_ERROR = "SERVER_ERROR",
   AUTHORIZATION_ERROR = "AUTHORIZATION_ERROR",
   ROUTE_NOT_FOUND = "ROUTE_NOT_FOUND",
+  CONCURRENCY_ERROR = "CONCURRENCY_ERROR",
+  PRECONDITION_REQUIRED = "PRECONDITION_REQUIRED",
 }
 
 export type ErrorName = "CONFIG_ERROR" | "TypeError" | "Error" | "SERVER_ERROR";
@@ -107,6 +109,49 @@ export class ValidationError extends ApplicationError {
   }
 }
 
+/**
+ * Raised when a write is conditioned on a version that is no longer current
+ * (a stale `If-Match` header). Carries the current version so the client can
+ * refetch and retry.
+ *
+ * @class ConcurrencyError
+ * @extends {ApplicationError}
+ */
+export class ConcurrencyError extends ApplicationError {
+  public readonly expectedVersion?: number;
+  public readonly currentVersion?: number;
+
+  /**
+   * Creates a concurrency error for a failed version precondition.
+   *
+   * @param {Object} params - Concurrency error parameters
+   * @param {string} params.message - Human-readable error description
+   * @param {number} [params.expectedVersion] - Version the client expected
+   * @param {number} [params.currentVersion] - Version currently stored
+   * @param {Record<string, unknown>} [params.metadata] - Additional error context
+   */
+  public constructor({
+    message,
+    expectedVersion,
+    currentVersion,
+    metadata,
+  }: {
+    message: string;
+    expectedVersion?: number;
+    currentVersion?: number;
+    metadata?: Record<string, unknown>;
+  }) {
+    super({
+      type: ErrorType.CONCURRENCY_ERROR,
+      message,
+      statusCode: 412,
+      metadata: { ...metadata, expectedVersion, currentVersion },
+    });
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
 /**
  *
  */
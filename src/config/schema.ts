@@ -24,15 +24,197 @@ export const configSchema: Schema<AppConfig> = {
   },
 
   mongo: {
+    uri: {
+      doc: "Mongodb connection string, overrides host and port",
+      format: String,
+      default: null,
+      nullable: true,
+      env: "MONGO_URI",
+      sensitive: true,
+    },
     host: {
-      doc: "Mongodb ServerHost",
+      doc: "Mongodb ServerHost, or a comma-separated host:port list",
       format: String,
       default: "localhost",
+      env: "MONGO_HOST",
     },
     port: {
       doc: "Mongodb ServerPort",
       format: String,
       default: "27017",
+      env: "MONGO_PORT",
+    },
+    auth: {
+      username: {
+        doc: "Mongodb user",
+        format: String,
+        default: null,
+        nullable: true,
+        env: "MONGO_USERNAME",
+      },
+      password: {
+        doc: "Mongodb password",
+        format: String,
+        default: null,
+        nullable: true,
+        env: "MONGO_PASSWORD",
+        sensitive: true,
+      },
+      source: {
+        doc: "Database holding the Mongodb user",
+        format: String,
+        default: null,
+        nullable: true,
+        env: "MONGO_AUTH_SOURCE",
+      },
+      mechanism: {
+        doc: "Mongodb authentication mechanism",
+        format: [
+          "DEFAULT",
+          "SCRAM-SHA-1",
+          "SCRAM-SHA-256",
+          "MONGODB-X509",
+          "MONGODB-AWS",
+          "MONGODB-OIDC",
+          "PLAIN",
+          "GSSAPI",
+        ],
+        default: null,
+        nullable: true,
+        env: "MONGO_AUTH_MECHANISM",
+      },
+    },
+    replicaSet: {
+      doc: "Mongodb replica set name",
+      format: String,
+      default: null,
+      nullable: true,
+      env: "MONGO_REPLICA_SET",
+    },
+    tls: {
+      enabled: {
+        doc: "Connect to Mongodb over TLS",
+        format: Boolean,
+        default: null,
+        nullable: true,
+        env: "MONGO_TLS",
+      },
+      caFile: {
+        doc: "Certificate authority file",
+        format: String,
+        default: null,
+        nullable: true,
+        env: "MONGO_TLS_CA_FILE",
+      },
+      certificateKeyFile: {
+        doc: "Client certificate and key file",
+        format: String,
+        default: null,
+        nullable: true,
+        env: "MONGO_TLS_CERTIFICATE_KEY_FILE",
+      },
+      certificateKeyFilePassword: {
+        doc: "Password of the client key",
+        format: String,
+        default: null,
+        nullable: true,
+        env: "MONGO_TLS_CERTIFICATE_KEY_FILE_PASSWORD",
+        sensitive: true,
+      },
+      allowInvalidCertificates: {
+        doc: "Accept invalid server certificates (development only)",
+        format: Boolean,
+        default: null,
+        nullable: true,
+        env: "MONGO_TLS_ALLOW_INVALID_CERTIFICATES",
+      },
+    },
+    pool: {
+      maxSize: {
+        doc: "Maximum number of pooled connections",
+        format: "nat",
+        default: null,
+        nullable: true,
+        env: "MONGO_MAX_POOL_SIZE",
+      },
+      minSize: {
+        doc: "Minimum number of pooled connections",
+        format: "nat",
+        default: null,
+        nullable: true,
+        env: "MONGO_MIN_POOL_SIZE",
+      },
+      maxIdleTimeMS: {
+        doc: "Time an idle pooled connection is kept",
+        format: "nat",
+        default: null,
+        nullable: true,
+        env: "MONGO_MAX_IDLE_TIME_MS",
+      },
+    },
+    timeouts: {
+      connectMS: {
+        doc: "Timeout of a connection attempt",
+        format: "nat",
+        default: null,
+        nullable: true,
+        env: "MONGO_CONNECT_TIMEOUT_MS",
+      },
+      serverSelectionMS: {
+        doc: "Time to wait for a suitable server",
+        format: "nat",
+        default: null,
+        nullable: true,
+        env: "MONGO_SERVER_SELECTION_TIMEOUT_MS",
+      },
+      socketMS: {
+        doc: "Inactivity timeout of a socket",
+        format: "nat",
+        default: null,
+        nullable: true,
+        env: "MONGO_SOCKET_TIMEOUT_MS",
+      },
+    },
+    retryWrites: {
+      doc: "Retry writes once on transient errors",
+      format: Boolean,
+      default: null,
+      nullable: true,
+      env: "MONGO_RETRY_WRITES",
+    },
+    retryReads: {
+      doc: "Retry reads once on transient errors",
+      format: Boolean,
+      default: null,
+      nullable: true,
+      env: "MONGO_RETRY_READS",
+    },
+    appName: {
+      doc: "Application name reported to the server",
+      format: String,
+      default: null,
+      nullable: true,
+      env: "MONGO_APP_NAME",
+    },
+    connectRetry: {
+      attempts: {
+        doc: "Number of initial connection attempts",
+        format: "nat",
+        default: 5,
+        env: "MONGO_CONNECT_ATTEMPTS",
+      },
+      initialDelayMs: {
+        doc: "Delay before the first connection retry, doubled on each attempt",
+        format: "nat",
+        default: 500,
+        env: "MONGO_CONNECT_RETRY_DELAY_MS",
+      },
+      maxDelayMs: {
+        doc: "Maximum delay between connection attempts",
+        format: "nat",
+        default: 10000,
+        env: "MONGO_CONNECT_RETRY_MAX_DELAY_MS",
+      },
     },
     compressionLevel: {
       doc: "Mongodb compressionLevel",
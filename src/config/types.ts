@@ -1,4 +1,4 @@
-import type { CompressorName } from "mongodb";
+import type { AuthMechanism, CompressorName } from "mongodb";
 
 // The root type for our raw convict configuration object.
 export type AppConfig = {
@@ -28,9 +28,62 @@ export type DatabaseConfig = {
   collection: string;
 };
 
+// Unset optional values are reported as null by convict.
 export type MongoConfig = {
+  // Full connection string; host and port are then ignored. The other
+  // settings below override the options of the connection string.
+  uri?: string;
+  // Host name, or a comma-separated "host:port" list for a replica set.
   host: string;
   port: string;
+  auth?: MongoAuthConfig;
+  replicaSet?: string;
+  tls?: MongoTlsConfig;
+  pool?: MongoPoolConfig;
+  timeouts?: MongoTimeoutsConfig;
+  retryWrites?: boolean;
+  retryReads?: boolean;
+  appName?: string;
+  connectRetry?: MongoConnectRetryConfig;
   compressionLevel?: 0 | 6 | 1 | 8 | 2 | 3 | 4 | 5 | 7 | 9;
   compresors?: Array<CompressorName>;
 };
+
+export type MongoAuthConfig = {
+  username?: string;
+  password?: string;
+  // Database holding the user (default: "admin").
+  source?: string;
+  // e.g. "SCRAM-SHA-256", "MONGODB-X509".
+  mechanism?: AuthMechanism;
+};
+
+export type MongoTlsConfig = {
+  enabled?: boolean;
+  caFile?: string;
+  certificateKeyFile?: string;
+  certificateKeyFilePassword?: string;
+  allowInvalidCertificates?: boolean;
+};
+
+export type MongoPoolConfig = {
+  maxSize?: number;
+  minSize?: number;
+  maxIdleTimeMS?: number;
+};
+
+export type MongoTimeoutsConfig = {
+  connectMS?: number;
+  serverSelectionMS?: number;
+  socketMS?: number;
+};
+
+// Retries of the initial connection, with exponential backoff.
+export type MongoConnectRetryConfig = {
+  // Total number of connection attempts (default: 5).
+  attempts?: number;
+  // Delay before the first retry, doubled on each attempt (default: 500).
+  initialDelayMs?: number;
+  // Upper bound of the delay between attempts (default: 10000).
+  maxDelayMs?: number;
+};
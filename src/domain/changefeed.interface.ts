@@ -0,0 +1,98 @@
+import type { MongoDocument } from "./models/mongodocument";
+import type { FindQuery } from "./mongo.interface";
+
+/**
+ * Kind of change reported by a change feed. Soft deletes are reported as
+ * `delete`, clearing `deletedAt` as `restore`.
+ */
+export type ChangeOperation = "create" | "update" | "delete" | "restore";
+
+/**
+ * A change applied to an entity, as published by the service.
+ *
+ * @template TEntity - The domain entity type
+ */
+export interface EntityChange<TEntity> {
+  /** Kind of change */
+  operation: ChangeOperation;
+  /** Identifier of the changed entity */
+  documentId: string;
+  /** Entity after the change; absent for deletes */
+  document?: MongoDocument<TEntity>;
+}
+
+/**
+ * A change delivered to the subscribers of a change feed.
+ *
+ * @template TEntity - The domain entity type
+ */
+export interface ChangeEvent<TEntity> extends EntityChange<TEntity> {
+  /** Event identifier, accepted back as `resumeAfter` to resume the feed */
+  id: string;
+  /** When the change was applied */
+  timestamp: Date;
+}
+
+/**
+ * Options for subscribing to a change feed.
+ *
+ * @template TEntity - The domain entity type
+ */
+export interface WatchOptions<TEntity> {
+  /** Only deliver changes whose entity matches this filter. Deletes are always delivered */
+  filter?: FindQuery<TEntity>;
+  /** Identifier of the last event received: deliver the changes that followed it */
+  resumeAfter?: string;
+}
+
+/**
+ * Callbacks receiving the events of a change feed subscription.
+ *
+ * @template TEntity - The domain entity type
+ */
+export interface ChangeHandlers<TEntity> {
+  /** Called for every matching change */
+  onChange: (event: ChangeEvent<TEntity>) => void;
+  /** Called once when the subscription fails; no event follows */
+  onError: (error: Error) => void;
+}
+
+/**
+ * An active change feed subscription.
+ */
+export interface ChangeSubscription {
+  /**
+   * Stops delivering events and releases the underlying resources.
+   *
+   * @returns {Promise<void>} Resolves once the subscription is closed
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Source of the changes applied to a collection.
+ *
+ * @template TEntity - The domain entity type
+ */
+export interface IChangeFeed<TEntity> {
+  /**
+   * Reports a change applied through the service. Feeds reading the changes
+   * from the database itself ignore it.
+   *
+   * @param {EntityChange<TEntity>} change - Applied change
+   */
+  publish(change: EntityChange<TEntity>): void;
+
+  /**
+   * Subscribes to the changes of the collection.
+   *
+   * @param {WatchOptions<TEntity>} options - Filter and resume position
+   * @param {ChangeHandlers<TEntity>} handlers - Event and error callbacks
+   * @returns {Promise<ChangeSubscription>} Active subscription
+   * @throws {ApplicationError} When the subscription cannot be opened
+   */
+  watch(
+    options: WatchOptions<TEntity>,
+    handlers: ChangeHandlers<TEntity>,
+  ): Promise<ChangeSubscription>;
+}
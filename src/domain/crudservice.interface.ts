@@ -1,5 +1,26 @@
 import type { MongoDocument } from "./models/mongodocument";
-import type { PaginatedResult, PaginationOptions } from "./mongo.interface";
+import type {
+  BulkOptions,
+  BulkRemoveOptions,
+  BulkResult,
+  BulkUpdateItem,
+  FindQuery,
+  PaginatedResult,
+  PaginationOptions,
+  ProjectedDocument,
+  ProjectionOptions,
+  QueryOptions,
+  RemoveOptions,
+  ReplaceOptions,
+  ReplaceResult,
+  SessionOptions,
+  UpdateOptions,
+} from "./mongo.interface";
+import type {
+  ChangeHandlers,
+  ChangeSubscription,
+  WatchOptions,
+} from "./changefeed.interface";
 import { ApplicationError } from "#config/errors.js";
 
 /**
@@ -15,55 +36,171 @@ export interface IService<TEntity> {
    * Creates a new entity after performing business logic validation.
    *
    * @param {TEntity} data - The entity data to be created.
+   * @param {SessionOptions} [options] - Optional session to run the operation in.
    * @returns {Promise<MongoDocument<TEntity>>} A promise that resolves to the newly created entity.
    * @throws {ValidationError} When the entity data fails business validation rules.
    * @throws {ApplicationError} When the creation operation fails for other reasons (e.g., database error).
    */
-  create(data: TEntity): Promise<MongoDocument<TEntity>>;
+  create(
+    data: TEntity,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity>>;
 
   /**
    * Retrieves a single entity by its unique identifier.
    *
    * @param {string} id - The unique identifier of the entity to retrieve.
+   * @param {QueryOptions} [options] - Optional read options.
    * @returns {Promise<MongoDocument<TEntity>>} A promise that resolves to the found entity.
    * @throws {NotFoundError} When no entity with the given ID is found.
    * @throws {ApplicationError} For other database-related failures.
    */
-  read(id: string): Promise<MongoDocument<TEntity>>;
+  read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity>>;
+  read(id: string, options?: QueryOptions): Promise<MongoDocument<TEntity>>;
 
   /**
    * Updates an existing entity with partial data after performing business logic validation.
    *
    * @param {string} id - The unique identifier of the entity to update.
    * @param {Partial<TEntity>} data - An object containing the fields to update.
+   * @param {UpdateOptions} [options] - Optional update preconditions.
    * @returns {Promise<MongoDocument<TEntity>>} A promise that resolves to the updated entity.
    * @throws {NotFoundError} When no entity with the given ID is found.
    * @throws {ValidationError} When the update data fails business validation.
+   * @throws {ConcurrencyError} When the expected version is no longer current.
    * @throws {ApplicationError} For other update failures.
    */
-  update(id: string, data: Partial<TEntity>): Promise<MongoDocument<TEntity>>;
+  update(
+    id: string,
+    data: Partial<TEntity>,
+    options?: UpdateOptions,
+  ): Promise<MongoDocument<TEntity>>;
 
   /**
-   * Permanently removes an entity from the system after checking business rules.
+   * Replaces an existing entity with complete data, or creates it with the
+   * given identifier when `upsert` is set.
+   *
+   * @param {string} id - The unique identifier of the entity to replace.
+   * @param {TEntity} data - The complete entity data.
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag.
+   * @returns {Promise<ReplaceResult<TEntity>>} A promise that resolves to the stored entity and whether it was created.
+   * @throws {NotFoundError} When no entity with the given ID is found and upsert is not set.
+   * @throws {ConcurrencyError} When the expected version is no longer current.
+   * @throws {ApplicationError} For other replace failures.
+   */
+  replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity>>;
+
+  /**
+   * Removes an entity from the system after checking business rules.
+   * The entity is soft-deleted when the repository is configured for it.
    *
    * @param {string} id - The unique identifier of the entity to remove.
+   * @param {RemoveOptions} [options] - Optional removal metadata.
    * @returns {Promise<void>} A promise that resolves when the entity has been successfully removed.
    * @throws {NotFoundError} When no entity with the given ID is found.
    * @throws {ApplicationError} If the removal is not permitted by business rules or if a database error occurs.
    */
-  remove(id: string): Promise<void>;
+  remove(id: string, options?: RemoveOptions): Promise<void>;
+
+  /**
+   * Restores a soft-deleted entity.
+   *
+   * @param {string} id - The unique identifier of the entity to restore.
+   * @param {SessionOptions} [options] - Optional session to run the operation in.
+   * @returns {Promise<MongoDocument<TEntity>>} A promise that resolves to the restored entity.
+   * @throws {NotFoundError} When no soft-deleted entity with the given ID is found.
+   * @throws {ApplicationError} For database-related failures.
+   */
+  restore(
+    id: string,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity>>;
+
+  /**
+   * Permanently removes an entity, including soft-deleted ones.
+   *
+   * @param {string} id - The unique identifier of the entity to purge.
+   * @param {SessionOptions} [options] - Optional session to run the operation in.
+   * @returns {Promise<void>} A promise that resolves when the entity has been purged.
+   * @throws {NotFoundError} When no entity with the given ID is found.
+   * @throws {ApplicationError} For database-related failures.
+   */
+  purge(id: string, options?: SessionOptions): Promise<void>;
 
   /**
    * Finds multiple entities that match the specified query criteria, with pagination.
    *
-   * @param {Partial<TEntity>} query - The query criteria for filtering entities.
+   * @param {FindQuery<TEntity>} query - The query criteria for filtering entities.
    * @param {PaginationOptions} [options] - Optional parameters for pagination and sorting.
    * @returns {Promise<PaginatedResult<MongoDocument<TEntity>>>} A promise that resolves to the paginated list of found entities.
    * @throws {ValidationError} If the query or pagination parameters are invalid.
    * @throws {ApplicationError} For database-related query failures.
    */
   find(
-    query: Partial<TEntity>,
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  find(
+    query: FindQuery<TEntity>,
     options?: PaginationOptions,
   ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+
+  /**
+   * Creates many entities at once, reporting the outcome of each item.
+   *
+   * @param {TEntity[]} items - The entities to create.
+   * @param {BulkOptions} [options] - Ordering and session options.
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} A promise that resolves to the per-item results.
+   * @throws {ApplicationError} When the operation fails as a whole.
+   */
+  bulkCreate(
+    items: TEntity[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>>;
+
+  /**
+   * Updates many entities at once, reporting the outcome of each item.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - The entity ids with their update data.
+   * @param {BulkOptions} [options] - Ordering and session options.
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} A promise that resolves to the per-item results.
+   * @throws {ApplicationError} When the operation fails as a whole.
+   */
+  bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>>;
+
+  /**
+   * Removes many entities at once, reporting the outcome of each id.
+   *
+   * @param {string[]} ids - The identifiers of the entities to remove.
+   * @param {BulkRemoveOptions} [options] - Ordering, session and removal options.
+   * @returns {Promise<BulkResult<never>>} A promise that resolves to the per-item results.
+   * @throws {ApplicationError} When the operation fails as a whole.
+   */
+  bulkRemove(
+    ids: string[],
+    options?: BulkRemoveOptions,
+  ): Promise<BulkResult<never>>;
+
+  /**
+   * Subscribes to the changes applied to the entities.
+   *
+   * @param {WatchOptions<TEntity>} options - Filter and resume position.
+   * @param {ChangeHandlers<TEntity>} handlers - Event and error callbacks.
+   * @returns {Promise<ChangeSubscription>} A promise that resolves to the active subscription.
+   * @throws {ApplicationError} When no change feed is configured or it cannot be opened.
+   */
+  watch(
+    options: WatchOptions<TEntity>,
+    handlers: ChangeHandlers<TEntity>,
+  ): Promise<ChangeSubscription>;
 }
@@ -1,4 +1,6 @@
 export type * from "./models/mongodocument.js";
+export type * from "./changefeed.interface.js";
 export type * from "./crudservice.interface.js";
 export type * from "./logger.interface.js";
 export type * from "./mongo.interface.js";
+export type * from "./unitofwork.interface.js";
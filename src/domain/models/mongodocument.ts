@@ -1,8 +1,30 @@
 import type { ObjectId } from "mongodb";
 
+/**
+ * Identifier of a stored entity: an ObjectId, or a string for the other
+ * id strategies (UUID, ULID, natural key, custom).
+ */
+export type EntityId = ObjectId | string;
+
 export type MongoDocument<TEntity> = TEntity & {
-  _id: ObjectId;
+  _id: EntityId;
   createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string | null;
+  updatedBy?: string | null;
+  __v?: number;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
 };
 
-export type InputDocument<T> = Omit<MongoDocument<T>, "_id" | "createdAt">;
+export type InputDocument<T> = Omit<
+  MongoDocument<T>,
+  | "_id"
+  | "createdAt"
+  | "updatedAt"
+  | "createdBy"
+  | "updatedBy"
+  | "__v"
+  | "deletedAt"
+  | "deletedBy"
+>;
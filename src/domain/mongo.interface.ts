@@ -1,4 +1,6 @@
-import type { MongoDocument } from "./models/mongodocument";
+import type { ClientSession } from "mongodb";
+import type { ErrorType } from "#config/errors.js";
+import type { EntityId, MongoDocument } from "./models/mongodocument";
 
 /**
  * Generic repository interface that defines the contract for data persistence
@@ -12,87 +14,326 @@ export interface IRepository<TEntity> {
    * Creates a new entity in the persistence layer.
    *
    * @param {TEntity} data - The entity data to be persisted
+   * @param {SessionOptions} [options] - Optional session to run the operation in
    * @returns {Promise<MongoDocument<TEntity> | null>} Created entity with metadata or null if creation failed
    * @throws {ApplicationError} When creation fails due to validation or persistence issues
    */
-  create(data: TEntity): Promise<MongoDocument<TEntity> | null>;
+  create(
+    data: TEntity,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
 
   /**
-   * Retrieves a single entity by its unique identifier.
+   * Retrieves a single entity by its unique identifier. With a projection
+   * only the selected fields are returned.
    *
    * @param {string} id - The unique identifier of the entity
+   * @param {QueryOptions} [options] - Optional read options
    * @returns {Promise<MongoDocument<TEntity> | null>} Found entity or null if not exists
    * @throws {ApplicationError} When database operation fails
    */
-  read(id: string): Promise<MongoDocument<TEntity> | null>;
+  read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
 
   /**
    * Updates an existing entity with partial data.
    *
    * @param {string} id - The unique identifier of the entity to update
    * @param {Partial<TEntity>} data - Partial entity data for updates
+   * @param {UpdateOptions} [options] - Optional update preconditions
    * @returns {Promise<MongoDocument<TEntity> | null>} Updated entity or null if not found
+   * @throws {ConcurrencyError} When the expected version is no longer current
    * @throws {ApplicationError} When update operation fails
    */
   update(
     id: string,
     data: Partial<TEntity>,
+    options?: UpdateOptions,
   ): Promise<MongoDocument<TEntity> | null>;
 
   /**
-   * Permanently removes an entity from the persistence layer.
+   * Replaces an entity with complete data. `_id`, `createdAt` and `createdBy`
+   * are kept, every other field comes from the data. With `upsert` a missing
+   * entity is created with the given identifier.
+   *
+   * @param {string} id - The unique identifier of the entity to replace
+   * @param {TEntity} data - Complete entity data
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag
+   * @returns {Promise<ReplaceResult<TEntity> | null>} Stored entity and whether it was created, null if not found
+   * @throws {ConcurrencyError} When the expected version is no longer current
+   * @throws {ApplicationError} When replace operation fails
+   */
+  replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity> | null>;
+
+  /**
+   * Removes an entity from the persistence layer. When soft delete is enabled
+   * the entity is only marked as deleted, otherwise it is permanently removed.
    *
    * @param {string} id - The unique identifier of the entity to remove
+   * @param {RemoveOptions} [options] - Optional removal metadata
    * @returns {Promise<boolean>} True if entity was deleted, false if not found
    * @throws {ApplicationError} When deletion operation fails
    */
-  remove(id: string): Promise<boolean>;
+  remove(id: string, options?: RemoveOptions): Promise<boolean>;
+
+  /**
+   * Restores a soft-deleted entity.
+   *
+   * @param {string} id - The unique identifier of the entity to restore
+   * @param {SessionOptions} [options] - Optional session to run the operation in
+   * @returns {Promise<MongoDocument<TEntity> | null>} Restored entity or null if no deleted entity was found
+   * @throws {ApplicationError} When restore operation fails
+   */
+  restore(
+    id: string,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
 
   /**
-   * Finds multiple entities matching the specified query criteria.
+   * Permanently removes an entity, whether it is soft-deleted or not.
    *
-   * @param {TQuery} query - Query criteria for filtering entities
+   * @param {string} id - The unique identifier of the entity to purge
+   * @param {SessionOptions} [options] - Optional session to run the operation in
+   * @returns {Promise<boolean>} True if entity was deleted, false if not found
+   * @throws {ApplicationError} When deletion operation fails
+   */
+  purge(id: string, options?: SessionOptions): Promise<boolean>;
+
+  /**
+   * Finds multiple entities matching the specified query criteria. With a
+   * projection only the selected fields of each entity are returned.
+   *
+   * @param {FindQuery<TEntity>} query - Query criteria for filtering entities
    * @param {PaginationOptions} [options] - Optional pagination parameters
    * @returns {Promise<PaginatedResult<MongoDocument<TEntity>>>} Paginated results matching query
    * @throws {ApplicationError} When query operation fails
    */
   find(
-    query: Partial<TEntity>,
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  find(
+    query: FindQuery<TEntity>,
     options?: PaginationOptions,
   ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
 
   /**
    * Finds the first entity matching the specified query criteria.
    *
-   * @param {TQuery} query - Query criteria for finding entity
+   * @param {FindQuery<TEntity>} query - Query criteria for finding entity
+   * @param {QueryOptions} [options] - Optional query options
    * @returns {Promise<MongoDocument<TEntity> | null>} First matching entity or null
    * @throws {ApplicationError} When query operation fails
    */
-  findOne(query: Partial<TEntity>): Promise<MongoDocument<TEntity> | null>;
+  findOne(
+    query: FindQuery<TEntity>,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
 
   /**
    * Counts the total number of entities matching the query criteria.
    *
-   * @param {TQuery} query - Query criteria for counting entities
+   * @param {FindQuery<TEntity>} query - Query criteria for counting entities
+   * @param {QueryOptions} [options] - Optional query options
    * @returns {Promise<number>} Total count of matching entities
    * @throws {ApplicationError} When count operation fails
    */
-  count(query: Partial<TEntity>): Promise<number>;
+  count(query: FindQuery<TEntity>, options?: QueryOptions): Promise<number>;
+
+  /**
+   * Creates many entities in a single round trip.
+   *
+   * @param {TEntity[]} items - Entities to persist
+   * @param {BulkOptions} [options] - Ordering and session options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  bulkCreate(
+    items: TEntity[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>>;
+
+  /**
+   * Applies partial updates to many entities in a single round trip.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Entity ids with their update data
+   * @param {BulkOptions} [options] - Ordering and session options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>>;
+
+  /**
+   * Removes many entities at once, honouring soft delete like `remove`.
+   *
+   * @param {string[]} ids - Identifiers of the entities to remove
+   * @param {BulkRemoveOptions} [options] - Ordering, session and removal options
+   * @returns {Promise<BulkResult<never>>} Outcome of every id, by position
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  bulkRemove(
+    ids: string[],
+    options?: BulkRemoveOptions,
+  ): Promise<BulkResult<never>>;
+}
+
+/**
+ * Operators that can be applied to a single field in a find query.
+ *
+ * @template TValue - Type of a single field value
+ */
+export interface FieldOperators<TValue> {
+  $eq?: TValue;
+  $ne?: TValue;
+  $gt?: TValue;
+  $gte?: TValue;
+  $lt?: TValue;
+  $lte?: TValue;
+  $in?: TValue[];
+  $nin?: TValue[];
+  /** Array fields only: every value must be present */
+  $all?: TValue[];
+  /** String fields only */
+  $regex?: string;
+  $exists?: boolean;
+}
+
+/**
+ * Query accepted by find operations: an exact value or a set of operators
+ * per field, audit fields included. Array fields match on their elements.
+ *
+ * @template TEntity - The domain entity type
+ */
+export type FindQuery<TEntity> = {
+  [K in keyof MongoDocument<TEntity>]?:
+    | MongoDocument<TEntity>[K]
+    | FieldValue<MongoDocument<TEntity>[K]>
+    | FieldOperators<FieldValue<MongoDocument<TEntity>[K]>>;
+};
+
+/**
+ * Type of a single value of a field, the element type for array fields.
+ */
+type FieldValue<T> = T extends ReadonlyArray<infer E> ? E : T;
+
+/**
+ * Options for running a repository operation inside a client session,
+ * typically one owned by a transaction.
+ */
+export interface SessionOptions {
+  /** Session the operation takes part in */
+  session?: ClientSession;
+}
+
+/**
+ * Options shared by every read operation of a repository.
+ */
+export interface QueryOptions extends SessionOptions {
+  /** Include soft-deleted entities in the result */
+  includeDeleted?: boolean;
+  /** Reference fields to replace with the referenced entities, dotted for nested ones */
+  expand?: string[];
+}
+
+/**
+ * Field selection in MongoDB style: `1` includes a field, `0` excludes it.
+ * Inclusions and exclusions cannot be mixed, `_id` is always returned.
+ */
+export type Projection = Record<string, 0 | 1>;
+
+/**
+ * Options selecting the fields returned by a read operation.
+ */
+export interface ProjectionOptions {
+  /** Fields to include or exclude */
+  projection: Projection;
+}
+
+/**
+ * Entity returned by a projected read: only `_id` is guaranteed.
+ *
+ * @template TEntity - The domain entity type
+ */
+export type ProjectedDocument<TEntity> = Partial<MongoDocument<TEntity>> & {
+  _id: EntityId;
+};
+
+/**
+ * Options for removing an entity.
+ */
+export interface RemoveOptions extends SessionOptions {
+  /** Actor recorded as `deletedBy` when the entity is soft-deleted, defaults to the request actor */
+  deletedBy?: string;
+}
+
+/**
+ * Options for updating an entity.
+ */
+export interface UpdateOptions extends SessionOptions {
+  /** Only apply the update if the stored `__v` still equals this version */
+  expectedVersion?: number;
+}
+
+/**
+ * Options for replacing an entity.
+ */
+export interface ReplaceOptions extends UpdateOptions {
+  /** Create the entity with the given identifier when it does not exist */
+  upsert?: boolean;
+}
+
+/**
+ * Outcome of a replace.
+ *
+ * @template TEntity - The domain entity type
+ */
+export interface ReplaceResult<TEntity> {
+  /** Entity as stored */
+  document: MongoDocument<TEntity>;
+  /** True when the entity did not exist and was created */
+  created: boolean;
 }
 
 /**
  * Pagination configuration options for controlling result sets.
  * Provides consistent pagination across different repository implementations.
  */
-export interface PaginationOptions {
+export interface PaginationOptions extends QueryOptions {
   /** Number of records to skip (offset) */
   skip?: number;
   /** Maximum number of records to return */
   limit?: number;
-  /** Field name to sort by */
+  /** Field name to sort by, or `textScore` to sort by relevance when searching */
   sortBy?: string;
   /** Sort direction: ascending (1) or descending (-1) */
   sortOrder?: 1 | -1;
+  /** Use keyset (cursor) pagination instead of skip/limit. Implied by `after`/`before` */
+  useCursor?: boolean;
+  /** Opaque cursor token: return the page that follows this position */
+  after?: string;
+  /** Opaque cursor token: return the page that precedes this position */
+  before?: string;
+  /** Full-text search terms, matched against the text index of the collection */
+  search?: string;
+  /** Return the relevance score of each result as `_score` (requires `search`) */
+  includeScore?: boolean;
 }
 
 /**
@@ -108,10 +349,93 @@ export interface PaginatedResult<T> {
   skip: number;
   /** Number of entities per page */
   limit: number;
-  /** Total count of entities matching query */
-  total: number;
+  /** Total count of entities matching query (not computed in cursor mode) */
+  total?: number;
   /** Whether there are more pages available */
   hasNext: boolean;
   /** Whether there are previous pages available */
   hasPrevious: boolean;
+  /** Cursor token for the next page (cursor mode only) */
+  nextCursor?: string | null;
+  /** Cursor token for the previous page (cursor mode only) */
+  prevCursor?: string | null;
+}
+
+/**
+ * Options for bulk operations.
+ */
+export interface BulkOptions extends SessionOptions {
+  /** Stop at the first failing item (default) or process every item */
+  ordered?: boolean;
+}
+
+/**
+ * Options for removing many entities.
+ */
+export interface BulkRemoveOptions extends BulkOptions {
+  /** Actor recorded as `deletedBy` when entities are soft-deleted */
+  deletedBy?: string;
+}
+
+/**
+ * A single entry of a bulk update.
+ *
+ * @template TEntity - The domain entity type
+ */
+export interface BulkUpdateItem<TEntity> {
+  /** Identifier of the entity to update */
+  id: string;
+  /** Fields to update */
+  data: Partial<TEntity>;
+}
+
+/**
+ * Outcome of one item of a bulk operation. Items that were not attempted
+ * because an earlier item failed in ordered mode are reported as `skipped`.
+ *
+ * @template T - The type of entities returned for successful items
+ */
+export interface BulkItemResult<T> {
+  /** Position of the item in the request */
+  index: number;
+  /** Identifier of the affected entity, when known */
+  id?: string;
+  /** Whether the item was applied, failed or never attempted */
+  status: "success" | "failed" | "skipped";
+  /** Resulting entity for successful creates and updates */
+  data?: T;
+  /** Reason of the failure */
+  error?: BulkItemError;
+}
+
+/**
+ * Reason a bulk item failed.
+ */
+export interface BulkItemError {
+  /** Error category, same values as request level errors */
+  type: ErrorType;
+  /** Human readable description */
+  message: string;
+  /** Field that caused the failure, when known */
+  field?: string;
+  /** Every field of the violated unique constraint (duplicates only) */
+  fields?: string[];
+}
+
+/**
+ * Aggregated outcome of a bulk operation.
+ *
+ * @template T - The type of entities returned for successful items
+ */
+export interface BulkResult<T> {
+  /** Whether the operation stopped at the first failure */
+  ordered: boolean;
+  /** Number of items applied */
+  succeeded: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Number of items never attempted */
+  skipped: number;
+  /** Outcome of every item, sorted by index */
+  results: BulkItemResult<T>[];
 }
@@ -0,0 +1,18 @@
+import type { ClientSession } from "mongodb";
+
+/**
+ * Runs a set of repository operations as a single atomic unit. Every
+ * operation of the work must be given the provided session.
+ */
+export interface IUnitOfWork {
+  /**
+   * Executes the work inside a transaction, committing it when the work
+   * resolves and aborting it when it throws. Transient failures are retried
+   * by running the whole work again.
+   *
+   * @param {(session: ClientSession) => Promise<T>} work - Operations to run atomically
+   * @returns {Promise<T>} The value returned by the work
+   * @throws {ApplicationError} When the transaction cannot be committed
+   */
+  withTransaction<T>(work: (session: ClientSession) => Promise<T>): Promise<T>;
+}
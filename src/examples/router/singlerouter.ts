@@ -21,5 +21,5 @@ type Product = { name: string; price: number };
     },
   });
 
-  await builder.buildServer();
+  await builder.start();
 })();
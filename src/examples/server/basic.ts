@@ -25,5 +25,5 @@ type Product = { name: string; price: number };
     },
   });
 
-  await builder.buildServer(); // runs immediately
+  await builder.start(); // runs immediately
 })();
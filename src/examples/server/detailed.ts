@@ -92,5 +92,5 @@ In production, implement JWT or API key authentication.
     },
   });
 
-  await builder.buildServer(); // runs immediately
+  await builder.start(); // runs immediately
 })();
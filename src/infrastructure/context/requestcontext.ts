@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import { ApplicationError, ErrorType } from "#root/config/errors.js";
+
+/**
+ * Request-scoped values made available to every layer handling a request,
+ * without threading them through each method signature.
+ */
+export type RequestContext = {
+  /** Identifier of the user or service performing the request */
+  actor?: string;
+  /** Tenant the request is served for, in a multi-tenant API */
+  tenantId?: string;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a callback with the given request context. Every asynchronous
+ * continuation started inside the callback sees the same context.
+ *
+ * @param {RequestContext} context - Context for the duration of the callback
+ * @param {() => T} callback - Function to run inside the context
+ * @returns {T} The callback result
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  callback: () => T,
+): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * Returns the context of the request currently being handled.
+ *
+ * @returns {RequestContext | undefined} Current context, or undefined outside a request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Returns the tenant of the request currently being handled. Tenant-scoped
+ * repositories and change feeds refuse to run without one.
+ *
+ * @returns {string} Tenant identifier
+ * @throws {ApplicationError} When no tenant is set, e.g. outside a request (CONFIG_ERROR)
+ */
+export function requireTenantId(): string {
+  const tenantId = storage.getStore()?.tenantId;
+  if (tenantId === undefined) {
+    throw new ApplicationError({
+      type: ErrorType.CONFIG_ERROR,
+      message: "No tenant in the request context",
+      statusCode: 500,
+    });
+  }
+  return tenantId;
+}
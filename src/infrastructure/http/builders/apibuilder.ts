@@ -5,21 +5,61 @@ import rateLimit from "express-rate-limit";
 import cookieParser from "cookie-parser";
 import Helmet from "helmet";
 import type { MongoClient } from "mongodb";
+import type { Server } from "node:http";
 import type { Router } from "express";
 import type { Express, Request, Response, NextFunction } from "express";
 
 import { CrudService } from "#application/services/crud.js";
 import { CrudController, createCrudRouter } from "../routing/index.js";
 import { globalErrorHandler } from "../middlewares/errorhandler.js";
-import { MongoDbRepository, MongoConnection } from "../../persistance/index.js";
+import {
+  EncryptedChangeFeed,
+  EncryptedRepository,
+  FieldCipher,
+  InProcessChangeFeed,
+  MongoChangeFeed,
+  MongoDbRepository,
+  MongoConnection,
+  TenantChangeFeed,
+  TenantPartitionedRepository,
+  TenantScopedRepository,
+  UnitOfWork,
+  runMigrations,
+  supportsChangeStreams,
+} from "../../persistance/index.js";
+import { requireTenantId } from "../../context/index.js";
 import { WinstonLogger } from "../../logger/winston.logger.js";
 import { checkCorsOptions } from "../security/corsoptions.js";
 import { createSwaggerMiddleware } from "../swagger/middleware.js";
-import { ErrorType, RouteError } from "#config/errors.js";
-
-import type { ApiBuilderOptions } from "./types.js";
-import type { AppConfig } from "#config/types.js";
-import type { MongoDocument } from "#domain/index.js";
+import { ServerLifecycle } from "./lifecycle.js";
+import { HealthMonitor } from "./health.js";
+import {
+  describeEncryptedFields,
+  describeReferences,
+} from "../../tools/schemabuilder/index.js";
+import { ApplicationError, ErrorType, RouteError } from "#config/errors.js";
+
+import type {
+  ApiBuilderOptions,
+  HealthCheck,
+  NestedResourceOptions,
+  ShutdownHook,
+} from "./types.js";
+import type {
+  IndexDefinition,
+  ReferenceScope,
+  SchemaValidationOptions,
+  TextSearchFields,
+  UniqueConstraint,
+} from "../../persistance/types.js";
+import type {
+  NestedRouterOptions,
+  SoftDeleteOptions,
+  StreamOptions,
+} from "../routing/index.js";
+import type { SwaggerNestedResource } from "../swagger/types.js";
+import type { AppConfig, MongoConfig } from "#config/types.js";
+import type { IChangeFeed, IRepository, MongoDocument } from "#domain/index.js";
 import { localConfig } from "#config/local.js";
 
 /**
@@ -30,7 +70,11 @@ import { localConfig } from "#config/local.js";
  */
 export class ApiBuilder<TEntity> {
   private readonly options: ApiBuilderOptions<TEntity>;
+  private readonly softDelete: SoftDeleteOptions | undefined;
+  private readonly stream: StreamOptions | undefined;
   private readonly mongoConnection: MongoConnection;
+  private readonly lifecycle: ServerLifecycle;
+  private readonly health: HealthMonitor;
   private readonly logger: WinstonLogger;
   private readonly config: AppConfig;
   private readonly app: Express;
@@ -42,40 +86,58 @@ export class ApiBuilder<TEntity> {
    */
   public constructor(options: ApiBuilderOptions<TEntity>) {
     this.options = options;
+    this.softDelete =
+      options.softDelete === true ? {} : options.softDelete || undefined;
+    this.stream = options.stream === true ? {} : options.stream || undefined;
     this.app = express();
 
     this.config = this.buildConfigFromOptions(options);
     this.logger = new WinstonLogger();
 
-    this.mongoConnection = new MongoConnection(this.config.mongo, this.logger);
+    this.mongoConnection =
+      options.mongoConnection ??
+      new MongoConnection(this.config.mongo, this.logger);
+    this.lifecycle = new ServerLifecycle(this.logger, options.shutdown);
+
+    // Registered first, so that it runs after the user hooks. A shared
+    // connection is left to its owner.
+    if (!options.mongoConnection) {
+      this.lifecycle.onShutdown(() => this.mongoConnection.disconnect());
+    }
 
-    this.registerForShutdown();
+    this.health = new HealthMonitor(
+      this.lifecycle,
+      this.logger,
+      options.health,
+    );
+    if (!options.repository) {
+      this.health.addMongoConnection("mongodb", this.mongoConnection);
+    }
   }
 
   /**
    * Builds and returns an Express Router with proper error handling middleware.
    * The router includes validation middleware and delegates errors to global handler.
+   * Child resources are built with the same connection and mounted under
+   * each entity.
    *
    * @returns {Promise<Router>} Configured Express router with error handling
    */
   public async buildRouter(): Promise<Router> {
-    const service: CrudService<TEntity> = await this.initializeService();
-    const controller: CrudController<TEntity> = new CrudController<TEntity>(
-      service,
-      this.logger,
-    );
-
-    const router: Router = createCrudRouter(controller, this.options.schema);
-    return router;
+    return this.createRouter(true);
   }
 
   /**
-   * Builds and runs a standalone Express server with comprehensive middleware setup
-   * including the global error handler as the final middleware.
+   * Builds and starts a standalone Express server with comprehensive middleware
+   * setup including the global error handler as the final middleware.
+   * A builder starts once: after stop() it cannot be started again.
    *
-   * @returns {Promise<Express>} Configured Express application
+   * @returns {Promise<Server>} The listening HTTP server
+   * @throws {Error} When the server is already started or was stopped
    */
-  public async buildServer(): Promise<Express> {
+  public async start(): Promise<Server> {
+    this.lifecycle.assertStartable();
+
     // Apply basic middleware
     this.setupBasicMiddleware();
 
@@ -88,9 +150,7 @@ export class ApiBuilder<TEntity> {
     const router = await this.buildRouter();
     this.app.use(`/api/v1/${this.options.database.collection}`, router);
 
-    this.app.get("/health", (_req: Request, res: Response) => {
-      res.status(200).json({ status: "ok" });
-    });
+    this.app.use(this.health.router());
 
     this.app.use((req: Request, _res: Response, _next: NextFunction) => {
       throw new RouteError({
@@ -103,25 +163,64 @@ export class ApiBuilder<TEntity> {
     // CRITICAL: Global error handler MUST be the last middleware
     this.app.use(globalErrorHandler);
 
-    // Start server
-    return new Promise((resolve, reject) => {
-      try {
-        const server = this.app.listen(this.options.apiPort, () => {
-          this.logger.info(
-            `🚀 ApiBuilder server running on http://localhost:${this.options.apiPort}`,
-          );
-          resolve(this.app);
-        });
+    try {
+      const server = await this.lifecycle.listen(
+        this.app,
+        this.options.apiPort,
+      );
+      this.logger.info(
+        `🚀 ApiBuilder server running on http://localhost:${this.options.apiPort}`,
+      );
+      return server;
+    } catch (error) {
+      this.logger.error("Server startup failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
 
-        server.on("error", (error) => {
-          this.logger.error("Server startup failed", { error: error.message });
-          reject(error);
-        });
-      } catch (error) {
-        this.logger.error("Failed to start server", { error });
-        reject(error);
-      }
-    });
+  /**
+   * Stops the server gracefully: in-flight requests are drained, the shutdown
+   * hooks run, then the MongoDB connection is closed unless it was shared
+   * through the mongoConnection option. Also releases the connection of a
+   * builder only used for buildRouter().
+   *
+   * @returns {Promise<void>} Resolves once everything is closed
+   */
+  public async stop(): Promise<void> {
+    await this.lifecycle.stop();
+  }
+
+  /**
+   * Registers work to run on stop(), after the server is drained and before
+   * the MongoDB connection is closed. Hooks run last registered first.
+   *
+   * @param {ShutdownHook} hook - Shutdown work
+   */
+  public onShutdown(hook: ShutdownHook): void {
+    this.lifecycle.onShutdown(hook);
+  }
+
+  /**
+   * Registers a dependency check of GET /health/ready.
+   *
+   * @param {string} name - Dependency name
+   * @param {HealthCheck} check - Throws or rejects when the dependency is down
+   */
+  public addHealthCheck(name: string, check: HealthCheck): void {
+    this.health.addCheck(name, check);
+  }
+
+  /**
+   * Builds and runs a standalone Express server.
+   *
+   * @deprecated Use start(), which returns the HTTP server to stop.
+   * @returns {Promise<Express>} Configured Express application
+   */
+  public async buildServer(): Promise<Express> {
+    await this.start();
+    return this.app;
   }
 
   /**
@@ -161,8 +260,14 @@ export class ApiBuilder<TEntity> {
         serverUrl: `http://localhost:${this.options.apiPort || 5000}`,
         schema: this.options.schema,
         uniqueFields: this.options.uniqueFields as
-          | (string | number)[]
-          | undefined,
+          UniqueConstraint[] | undefined,
+        softDelete: this.softDelete !== undefined,
+        stream: this.stream !== undefined,
+        upsert: this.options.upsert,
+        textSearchFields: this.textSearchFieldNames(),
+        idStrategy: this.options.idStrategy,
+        tenantHeader: this.tenantHeader(),
+        children: this.nestedSwagger(this.options.children),
       });
       this.logger.info(
         `  📚 Swagger docs available at http://localhost:${this.options.apiPort}${swaggerPath}`,
@@ -229,47 +334,548 @@ export class ApiBuilder<TEntity> {
     next();
   }
 
+  /**
+   * Builds the router of the resource and of its children. Children run in
+   * the request context opened by their parent router, so they inherit its
+   * actor and tenant instead of opening a context of their own.
+   *
+   * @param {boolean} requestContext - Whether the router opens the request context
+   * @returns {Promise<Router>} Configured Express router
+   * @private
+   */
+  private async createRouter(requestContext: boolean): Promise<Router> {
+    const service: CrudService<TEntity> = await this.initializeService();
+    const controller: CrudController<TEntity> = new CrudController<TEntity>(
+      service,
+      this.logger,
+      {
+        softDelete: this.softDelete,
+        requireIfMatch: this.options.requireIfMatch,
+        upsert: this.options.upsert,
+        stream: this.stream,
+      },
+    );
+
+    const children: NestedRouterOptions[] = [];
+    for (const { path, param, field, ...child } of this.options.children ??
+      []) {
+      const builder = new ApiBuilder({
+        ...child,
+        apiPort: this.options.apiPort,
+        mongoConfig: this.options.mongoConfig,
+        mongoConnection: this.mongoConnection,
+        tenancy: this.options.tenancy,
+        encryption: this.options.encryption,
+        resolveActor: this.options.resolveActor,
+      });
+      children.push({
+        path,
+        param,
+        field,
+        router: await builder.createRouter(false),
+      });
+    }
+
+    const router: Router = createCrudRouter(controller, this.options.schema, {
+      softDelete: this.softDelete !== undefined,
+      resolveActor: this.options.resolveActor,
+      tenant: this.options.tenancy?.resolve,
+      requestContext,
+      maxBulkItems: this.options.maxBulkItems,
+      stream: this.stream !== undefined,
+      children,
+    });
+    return router;
+  }
+
   /**
    * Initializes the service layer with proper dependency injection.
+   * Pending migrations are applied before the collection is initialized.
+   * A configured repository replaces MongoDB; transactions are then unavailable.
+   * When streaming is enabled the service is given a change feed.
+   * With tenancy, the repository and the change feed are tenant-scoped.
    * @returns {Promise<CrudService<TEntity>>} Configured service instance
+   * @throws {ApplicationError} When a repository instance is combined with collection or database isolation, or natural-key or custom ids with field isolation (CONFIG_ERROR)
    * @private
    */
   private async initializeService(): Promise<CrudService<TEntity>> {
+    const { repository } = this.options;
+    const cipher = this.fieldCipher();
+    if (repository) {
+      if (typeof repository !== "function" && this.partitioned()) {
+        throw new ApplicationError({
+          type: ErrorType.CONFIG_ERROR,
+          message:
+            "Collection and database tenant isolation require a repository factory",
+          metadata: { isolation: this.options.tenancy?.isolation },
+        });
+      }
+      return new CrudService<TEntity>(
+        this.encrypted(
+          await this.tenantRepository((tenantId) =>
+            typeof repository === "function"
+              ? repository({
+                  collection: this.collectionFor(tenantId),
+                  logger: this.logger,
+                  ...(tenantId !== undefined && { tenantId }),
+                })
+              : repository,
+          ),
+          cipher,
+        ),
+        this.logger,
+        undefined,
+        this.stream && this.inProcessChangeFeed(),
+      );
+    }
+
     await this.mongoConnection.connect();
     const mongoClient: MongoClient = this.mongoConnection.getClient();
 
-    const repository = new MongoDbRepository<MongoDocument<TEntity>>(
-      mongoClient,
-      this.options.database.name,
-      this.options.database.collection,
-      this.options.uniqueFields,
+    /**
+     * Migrates and initializes the collection of a tenant, or the shared one.
+     *
+     * @param {string} [tenantId] - Tenant of a partitioned resource
+     * @returns {Promise<IRepository<TEntity>>} Ready repository
+     */
+    const createRepository = async (
+      tenantId?: string,
+    ): Promise<IRepository<TEntity>> => {
+      const database = this.databaseFor(tenantId);
+      const collection = this.collectionFor(tenantId);
+      if (this.options.migrations) {
+        await runMigrations({
+          client: mongoClient,
+          database,
+          collection,
+          migrations: this.options.migrations,
+          logger: this.logger,
+        });
+      }
+
+      const mongoRepository = new MongoDbRepository<MongoDocument<TEntity>>(
+        mongoClient,
+        database,
+        collection,
+        this.tenantUniqueFields(),
+        this.logger,
+        {
+          softDelete: this.softDelete !== undefined,
+          textSearchFields: this.options.textSearchFields,
+          indexes: this.tenantIndexes(),
+          dropStaleIndexes: this.options.dropStaleIndexes,
+          schemaValidation: this.schemaValidation(),
+          references: describeReferences(this.options.schema),
+          expand: this.options.expand,
+          referenceScope: this.referenceScope(tenantId),
+          idStrategy: this.options.idStrategy,
+        },
+      );
+
+      await mongoRepository.initCollections();
+      return mongoRepository;
+    };
+
+    return new CrudService<TEntity>(
+      this.encrypted(await this.tenantRepository(createRepository), cipher),
       this.logger,
+      new UnitOfWork(this.mongoConnection, this.logger),
+      this.stream && (await this.createChangeFeed(mongoClient, cipher)),
+    );
+  }
+
+  /**
+   * Creates the change feed behind GET /stream: a change stream when the
+   * deployment supports it, the service mutations otherwise. With tenancy,
+   * subscribers only receive the changes of their tenant. Change streams
+   * carry the stored values, decrypted by the cipher.
+   * @param {MongoClient} mongoClient - Connected MongoDB client
+   * @param {FieldCipher} [cipher] - Cipher of the encrypted fields
+   * @returns {Promise<IChangeFeed<TEntity>>} Change feed of the collection
+   * @private
+   */
+  private async createChangeFeed(
+    mongoClient: MongoClient,
+    cipher?: FieldCipher,
+  ): Promise<IChangeFeed<TEntity>> {
+    if (await supportsChangeStreams(mongoClient)) {
+      /**
+       * Opens the change feed of a tenant's collection, or the shared one.
+       *
+       * @param {string} [tenantId] - Tenant of a partitioned resource
+       * @returns {IChangeFeed<TEntity>} Change feed of the collection
+       */
+      const feedFor = (tenantId?: string): IChangeFeed<TEntity> => {
+        const feed = new MongoChangeFeed<TEntity>(
+          mongoClient,
+          this.databaseFor(tenantId),
+          this.collectionFor(tenantId),
+          this.logger,
+        );
+        return cipher ? new EncryptedChangeFeed<TEntity>(feed, cipher) : feed;
+      };
+
+      const { tenancy } = this.options;
+      if (!tenancy) {
+        return feedFor();
+      }
+      if (this.partitioned()) {
+        return new TenantChangeFeed<TEntity>(feedFor);
+      }
+      const shared = feedFor();
+      return new TenantChangeFeed<TEntity>(
+        () => shared,
+        tenancy.field ?? "tenantId",
+      );
+    }
+
+    this.logger.info(
+      "Change streams require a replica set, streaming the changes applied by this process",
+      { collection: this.options.database.collection },
+    );
+    return this.inProcessChangeFeed();
+  }
+
+  /**
+   * Creates the cipher of the fields marked `encrypted` in the schema. The
+   * fields of unique constraints need deterministic encryption; natural
+   * keys and searched fields cannot be encrypted.
+   * @returns {FieldCipher | undefined} Cipher, undefined without encrypted fields
+   * @throws {ApplicationError} When the encryption settings are inconsistent
+   * @private
+   */
+  private fieldCipher(): FieldCipher | undefined {
+    const fields = describeEncryptedFields(this.options.schema);
+    if (Object.keys(fields).length === 0) {
+      return undefined;
+    }
+
+    const { encryption, idStrategy, textSearchFields, uniqueFields } =
+      this.options;
+    const violations: string[] = [];
+    if (!encryption) {
+      violations.push("encryption.keys is required by the encrypted fields");
+    }
+    for (const field of new Set((uniqueFields ?? []).flat().map(String))) {
+      if (fields[field] && !fields[field].deterministic) {
+        violations.push(
+          `${field}: unique fields need deterministic encryption`,
+        );
+      }
+    }
+    if (typeof idStrategy === "object" && "field" in idStrategy) {
+      if (fields[idStrategy.field]) {
+        violations.push(
+          `${idStrategy.field}: a natural key cannot be encrypted`,
+        );
+      }
+    }
+    const searched = Array.isArray(textSearchFields)
+      ? textSearchFields
+      : Object.keys(textSearchFields ?? {});
+    for (const field of searched) {
+      if (fields[field]) {
+        violations.push(`${field}: encrypted fields cannot be searched`);
+      }
+    }
+
+    if (!encryption || violations.length > 0) {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: "Invalid field encryption settings",
+        metadata: { violations },
+      });
+    }
+    return new FieldCipher(encryption.keys, fields);
+  }
+
+  /**
+   * Wraps the repository of the resource so that the encrypted fields are
+   * encrypted at rest. The unique constraints are those of the resource:
+   * the wrapped repository is already scoped to the tenant.
+   * @param {IRepository<TEntity>} repository - Repository of the resource
+   * @param {FieldCipher} [cipher] - Cipher of the encrypted fields
+   * @returns {IRepository<TEntity>} Repository encrypting the fields, the given one without cipher
+   * @private
+   */
+  private encrypted(
+    repository: IRepository<TEntity>,
+    cipher?: FieldCipher,
+  ): IRepository<TEntity> {
+    return cipher
+      ? new EncryptedRepository<TEntity>(repository, cipher, {
+          uniqueFields: this.options.uniqueFields,
+        })
+      : repository;
+  }
+
+  /**
+   * Creates a change feed fed by the service mutations, one per tenant with
+   * tenancy.
+   * @returns {IChangeFeed<TEntity>} In-process change feed
+   * @private
+   */
+  private inProcessChangeFeed(): IChangeFeed<TEntity> {
+    if (!this.options.tenancy) {
+      return new InProcessChangeFeed<TEntity>(this.logger);
+    }
+    return new TenantChangeFeed<TEntity>(
+      () => new InProcessChangeFeed<TEntity>(this.logger),
+    );
+  }
+
+  /**
+   * Scopes the repository of the resource to the tenant of each request:
+   * the shared repository is wrapped with "field" isolation, and one
+   * repository is created per tenant with "collection" or "database"
+   * isolation. Without tenancy the repository is returned as-is.
+   * @param {(tenantId?: string) => IRepository<TEntity> | Promise<IRepository<TEntity>>} create - Creates the shared repository, or the repository of a tenant
+   * @returns {Promise<IRepository<TEntity>>} Repository of the service
+   * @throws {ApplicationError} When natural-key or custom ids are combined with field isolation (CONFIG_ERROR)
+   * @private
+   */
+  private async tenantRepository(
+    create: (
+      tenantId?: string,
+    ) => IRepository<TEntity> | Promise<IRepository<TEntity>>,
+  ): Promise<IRepository<TEntity>> {
+    const { tenancy } = this.options;
+    if (!tenancy) {
+      return create();
+    }
+    if (this.partitioned()) {
+      return new TenantPartitionedRepository<TEntity>(create);
+    }
+    // Tenants share the ids of the collection, chosen ids would clash across tenants
+    if (typeof this.options.idStrategy === "object") {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message:
+          "Natural-key and custom ids require collection or database tenant isolation",
+        metadata: { isolation: tenancy.isolation ?? "field" },
+      });
+    }
+    return new TenantScopedRepository<TEntity>(
+      await create(),
+      tenancy.field ?? "tenantId",
     );
+  }
+
+  /**
+   * Tells whether each tenant gets its own collection or database.
+   * @returns {boolean} True with "collection" or "database" isolation
+   * @private
+   */
+  private partitioned(): boolean {
+    const isolation = this.options.tenancy?.isolation ?? "field";
+    return isolation !== "field";
+  }
 
-    await repository.initCollections();
-    return new CrudService<TEntity>(repository, this.logger);
+  /**
+   * Name of the collection holding the entities of a tenant.
+   * @param {string} [tenantId] - Tenant of a partitioned resource
+   * @returns {string} Collection name
+   * @private
+   */
+  private collectionFor(tenantId?: string): string {
+    const { collection } = this.options.database;
+    return tenantId !== undefined &&
+      this.options.tenancy?.isolation === "collection"
+      ? `${collection}_${tenantId}`
+      : collection;
   }
 
   /**
-   * Registers process signal handlers for graceful shutdown.
+   * Name of the database holding the entities of a tenant.
+   * @param {string} [tenantId] - Tenant of a partitioned resource
+   * @returns {string} Database name
    * @private
    */
-  private registerForShutdown(): void {
-    this.logger.debug("Registering shutdown handlers");
+  private databaseFor(tenantId?: string): string {
+    const { name } = this.options.database;
+    return tenantId !== undefined &&
+      this.options.tenancy?.isolation === "database"
+      ? `${name}_${tenantId}`
+      : name;
+  }
 
+  /**
+   * Where the references of a tenant's entities are checked and expanded
+   * from: the collections of the tenant with "collection" isolation, the
+   * entities holding the tenant of the request with "field" isolation. With
+   * "database" isolation the tenant's database already scopes them. Every
+   * referenced resource is assumed to share the tenancy of this one.
+   * @param {string} [tenantId] - Tenant of a partitioned resource
+   * @returns {ReferenceScope | undefined} Reference scope, undefined without tenancy
+   * @private
+   */
+  private referenceScope(tenantId?: string): ReferenceScope | undefined {
+    const { tenancy } = this.options;
+    if (!tenancy) {
+      return undefined;
+    }
+    if (tenancy.isolation === "collection") {
+      /**
+       * Names the tenant's collection of a referenced resource.
+       *
+       * @param {string} collection - Collection named by the reference
+       * @returns {string} Collection of the tenant
+       */
+      const collectionOf = (collection: string): string =>
+        tenantId !== undefined ? `${collection}_${tenantId}` : collection;
+      return { collection: collectionOf };
+    }
+    if (this.partitioned()) {
+      return undefined;
+    }
+
+    const field = tenancy.field ?? "tenantId";
     /**
-     * Handles graceful shutdown on process termination signals.
-     * @param {string} signal - The termination signal received (SIGINT, SIGTERM, etc.)
-     * @returns {Promise<void>} Resolves when shutdown is complete
+     * Restricts referenced entities to the tenant of the request.
+     *
+     * @returns {Record<string, string>} Tenant condition
      */
-    const shutdown = async (signal: string): Promise<void> => {
-      this.logger.info(`Received ${signal}, shutting down gracefully`);
-      await this.mongoConnection.disconnect();
-      process.exit(0);
+    const sameTenant = (): Record<string, string> => ({
+      [field]: requireTenantId(),
+    });
+    return { filter: sameTenant };
+  }
+
+  /**
+   * Unique constraints of the repository: with "field" isolation, values
+   * only have to be unique within a tenant.
+   * @returns {UniqueConstraint<MongoDocument<TEntity>>[] | undefined} Unique constraints
+   * @private
+   */
+  private tenantUniqueFields():
+    UniqueConstraint<MongoDocument<TEntity>>[] | undefined {
+    const { tenancy, uniqueFields } = this.options;
+    if (!tenancy || this.partitioned() || !uniqueFields) {
+      return uniqueFields as UniqueConstraint<MongoDocument<TEntity>>[];
+    }
+    const field = tenancy.field ?? "tenantId";
+    return uniqueFields.map((constraint) => [
+      field,
+      ...(Array.isArray(constraint) ? constraint : [constraint]),
+    ]) as UniqueConstraint<MongoDocument<TEntity>>[];
+  }
+
+  /**
+   * Indexes of the repository: with "field" isolation, the tenant field is
+   * indexed and prefixes every index (TTL indexes excepted, as they hold a
+   * single field), so that the queries of a tenant can use them.
+   * @returns {IndexDefinition[] | undefined} Index definitions
+   * @private
+   */
+  private tenantIndexes(): IndexDefinition[] | undefined {
+    const { tenancy } = this.options;
+    const indexes = this.options.indexes as IndexDefinition[] | undefined;
+    if (!tenancy || this.partitioned()) {
+      return indexes;
+    }
+    const field = tenancy.field ?? "tenantId";
+    return [
+      { fields: { [field]: 1 } },
+      ...(indexes ?? []).map((index): IndexDefinition =>
+        index.expireAfterSeconds === undefined
+          ? { ...index, fields: { [field]: 1, ...index.fields } }
+          : index,
+      ),
+    ];
+  }
+
+  /**
+   * Header documented in Swagger when the tenant is read from a header.
+   * @returns {string | undefined} Header name
+   * @private
+   */
+  private tenantHeader(): string | undefined {
+    const resolver = this.options.tenancy?.resolve;
+    return resolver && typeof resolver !== "function" && "header" in resolver
+      ? resolver.header
+      : undefined;
+  }
+
+  /**
+   * Lists the fields covered by full-text search, whatever form they were configured in.
+   * @param {TextSearchFields} [fields] - Configured fields (default: those of this builder)
+   * @returns {string[] | undefined} Field names, or undefined when search is disabled
+   * @private
+   */
+  private textSearchFieldNames(
+    fields: TextSearchFields | undefined = this.options.textSearchFields,
+  ): string[] | undefined {
+    if (!fields) {
+      return undefined;
+    }
+    return Array.isArray(fields) ? fields : Object.keys(fields);
+  }
+
+  /**
+   * Describes the child resources for the Swagger documentation, recursively.
+   * @param {NestedResourceOptions[]} [children] - Child resource options
+   * @returns {SwaggerNestedResource[] | undefined} Nested resources, or undefined without children
+   * @private
+   */
+  private nestedSwagger(
+    children?: NestedResourceOptions[],
+  ): SwaggerNestedResource[] | undefined {
+    return children?.map((child) => ({
+      path: child.path,
+      param: child.param,
+      field: child.field,
+      schema: child.schema,
+      uniqueFields: child.uniqueFields as UniqueConstraint[] | undefined,
+      softDelete: Boolean(child.softDelete),
+      stream: Boolean(child.stream),
+      upsert: child.upsert,
+      textSearchFields: this.textSearchFieldNames(child.textSearchFields),
+      idStrategy: child.idStrategy,
+      children: this.nestedSwagger(child.children),
+    }));
+  }
+
+  /**
+   * Resolves the collection validator settings from the schemaValidation option.
+   * @returns {SchemaValidationOptions | undefined} Validator settings, or undefined when disabled
+   * @private
+   */
+  private schemaValidation(): SchemaValidationOptions | undefined {
+    const setting = this.options.schemaValidation;
+    if (!setting) {
+      return undefined;
+    }
+    return {
+      schema: this.options.schema,
+      ...(setting === true ? {} : setting),
     };
+  }
 
-    process.on("SIGINT", () => shutdown("SIGINT"));
-    process.on("SIGTERM", () => shutdown("SIGTERM"));
+  /**
+   * Overlays the mongoConfig option on the convict configuration (config
+   * file and MONGO_* environment variables). Nested groups are merged per
+   * setting, so that e.g. a password from the environment is kept when the
+   * options only set the username.
+   * @param {Partial<MongoConfig>} [mongoConfig] - MongoDB settings of the options
+   * @returns {MongoConfig} - Effective MongoDB settings.
+   */
+  private buildMongoConfig(
+    mongoConfig: Partial<MongoConfig> = {},
+  ): MongoConfig {
+    const base = localConfig.mongo;
+    return {
+      ...base,
+      ...mongoConfig,
+      host: mongoConfig.host ?? base.host,
+      port: mongoConfig.port ?? base.port,
+      auth: { ...base.auth, ...mongoConfig.auth },
+      tls: { ...base.tls, ...mongoConfig.tls },
+      pool: { ...base.pool, ...mongoConfig.pool },
+      timeouts: { ...base.timeouts, ...mongoConfig.timeouts },
+      connectRetry: { ...base.connectRetry, ...mongoConfig.connectRetry },
+      compressionLevel: mongoConfig.compressionLevel ?? base.compressionLevel,
+      compresors: mongoConfig.compresors ?? base.compresors,
+    };
   }
 
   /**
@@ -283,15 +889,7 @@ export class ApiBuilder<TEntity> {
     return {
       database: options.database,
 
-      mongo: {
-        host: options.mongoConfig?.host ?? localConfig.mongo.host,
-        port: options.mongoConfig?.port ?? localConfig.mongo.port,
-        compressionLevel:
-          options.mongoConfig?.compressionLevel ??
-          localConfig.mongo.compressionLevel,
-        compresors:
-          options.mongoConfig?.compresors ?? localConfig.mongo.compresors,
-      },
+      mongo: this.buildMongoConfig(options.mongoConfig),
 
       server: {
         hostname: localConfig.server.hostname,
@@ -0,0 +1,166 @@
+import { performance } from "node:perf_hooks";
+import { Router } from "express";
+import type { Request, Response } from "express";
+
+import type { Logger } from "#domain/index.js";
+import type { MongoConnection } from "../../persistance/mongoconnection.js";
+import type { ServerLifecycle } from "./lifecycle.js";
+import type {
+  DependencyHealth,
+  HealthCheck,
+  HealthOptions,
+  ReadinessReport,
+} from "./types.js";
+
+/**
+ * @class HealthMonitor
+ * @description Serves the probes of a server: `/health/live` answers as long
+ * as the process does, `/health/ready` only while the server runs and every
+ * dependency check passes. `/health` is an alias of `/health/ready`.
+ */
+export class HealthMonitor {
+  private readonly checks = new Map<string, HealthCheck>();
+  private readonly timeoutMs: number;
+
+  /**
+   * Creates the monitor of a server.
+   *
+   * @param {ServerLifecycle} lifecycle - Lifecycle of the monitored server
+   * @param {Logger} logger - Logger instance
+   * @param {HealthOptions} [options] - Checks and check timeout
+   */
+  public constructor(
+    private readonly lifecycle: ServerLifecycle,
+    private readonly logger: Logger,
+    options: HealthOptions = {},
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    for (const [name, connection] of Object.entries(
+      options.mongoConnections ?? {},
+    )) {
+      this.addMongoConnection(name, connection);
+    }
+    for (const [name, check] of Object.entries(options.checks ?? {})) {
+      this.addCheck(name, check);
+    }
+  }
+
+  /**
+   * Registers a dependency check. A check with the same name is replaced.
+   *
+   * @param {string} name - Dependency name
+   * @param {HealthCheck} check - Throws or rejects when the dependency is down
+   */
+  public addCheck(name: string, check: HealthCheck): void {
+    this.checks.set(name, check);
+  }
+
+  /**
+   * Registers a MongoDB connection, pinged on every readiness check.
+   *
+   * @param {string} name - Dependency name
+   * @param {MongoConnection} connection - Connection to ping
+   */
+  public addMongoConnection(name: string, connection: MongoConnection): void {
+    this.addCheck(name, () => connection.ping());
+  }
+
+  /**
+   * Builds the router serving `GET /health/live`, and `GET /health/ready`
+   * with its `GET /health` alias.
+   *
+   * @returns {Router} Probe routes
+   */
+  public router(): Router {
+    const router = Router();
+
+    router.get("/health/live", (_req: Request, res: Response) => {
+      res.status(200).json({
+        status: "ok",
+        uptimeSeconds: Math.round(process.uptime()),
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    router.get(
+      ["/health", "/health/ready"],
+      async (_req: Request, res: Response) => {
+        const report = await this.readiness();
+        res.status(report.status === "ready" ? 200 : 503).json(report);
+      },
+    );
+
+    return router;
+  }
+
+  /**
+   * Runs every check concurrently and derives the readiness of the server.
+   *
+   * @returns {Promise<ReadinessReport>} Readiness and per-dependency results
+   */
+  public async readiness(): Promise<ReadinessReport> {
+    const results = await Promise.all(
+      [...this.checks].map(
+        async ([name, check]) => [name, await this.run(check)] as const,
+      ),
+    );
+    const checks = Object.fromEntries(results);
+
+    const phase = this.lifecycle.phase;
+    let status: ReadinessReport["status"];
+    if (phase === "starting") {
+      status = "starting";
+    } else if (phase !== "running") {
+      status = "stopping";
+    } else if (results.some(([, result]) => result.status === "down")) {
+      status = "degraded";
+      this.logger.warn("Readiness check failed", { checks });
+    } else {
+      status = "ready";
+    }
+
+    return { status, checks, timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * Runs one check, failing it after the timeout.
+   *
+   * @param {HealthCheck} check - Dependency check
+   * @returns {Promise<DependencyHealth>} Status and latency of the dependency
+   * @private
+   */
+  private async run(check: HealthCheck): Promise<DependencyHealth> {
+    const start = performance.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${this.timeoutMs} ms`)),
+        this.timeoutMs,
+      );
+    });
+
+    try {
+      await Promise.race([Promise.resolve().then(check), timeout]);
+      return { status: "up", latencyMs: this.elapsed(start) };
+    } catch (error) {
+      return {
+        status: "down",
+        latencyMs: this.elapsed(start),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Milliseconds elapsed since a start time, rounded to the microsecond.
+   *
+   * @param {number} start - `performance.now()` at the start
+   * @returns {number} Elapsed milliseconds
+   * @private
+   */
+  private elapsed(start: number): number {
+    return Math.round((performance.now() - start) * 1000) / 1000;
+  }
+}
@@ -0,0 +1,191 @@
+import type { Server } from "node:http";
+import type { Express } from "express";
+
+import type { Logger } from "#domain/index.js";
+import type { LifecyclePhase, ShutdownHook, ShutdownOptions } from "./types.js";
+
+/**
+ * Signals stopping a server started with `handleSignals`.
+ */
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * @class ServerLifecycle
+ * @description Starts an Express application and stops it gracefully: the
+ * server stops accepting connections, in-flight requests are drained up to a
+ * deadline, then the shutdown hooks run in reverse registration order.
+ */
+export class ServerLifecycle {
+  private server: Server | null = null;
+  private readonly hooks: ShutdownHook[] = [];
+  private stopping: Promise<void> | null = null;
+  private current: LifecyclePhase = "starting";
+  // Bound once, so that the listeners can be removed
+  private readonly signalHandler: (signal: NodeJS.Signals) => void;
+
+  /**
+   * Creates the lifecycle of a server.
+   *
+   * @param {Logger} logger - Logger instance
+   * @param {ShutdownOptions} [options] - Drain deadline and signal handling
+   */
+  public constructor(
+    private readonly logger: Logger,
+    private readonly options: ShutdownOptions = {},
+  ) {
+    this.signalHandler = this.stopOnSignal.bind(this);
+  }
+
+  /**
+   * Current state of the server: starting until it listens, stopping from
+   * the beginning of the shutdown.
+   *
+   * @returns {LifecyclePhase} Current phase
+   */
+  public get phase(): LifecyclePhase {
+    return this.current;
+  }
+
+  /**
+   * Registers work to run on shutdown. Hooks run once, last registered first.
+   *
+   * @param {ShutdownHook} hook - Shutdown work
+   */
+  public onShutdown(hook: ShutdownHook): void {
+    this.hooks.push(hook);
+  }
+
+  /**
+   * Checks that the server can still be started. A lifecycle starts once:
+   * stopping it closes the resources registered as shutdown hooks for good,
+   * so a stopped server cannot be restarted.
+   *
+   * @throws {Error} When the server is already started or was stopped
+   */
+  public assertStartable(): void {
+    if (this.server) {
+      throw new Error("Server is already started");
+    }
+    if (this.current !== "starting") {
+      throw new Error("Server was stopped and cannot be restarted");
+    }
+  }
+
+  /**
+   * Starts listening. Resolves once the port is bound.
+   *
+   * @param {Express} app - Application to serve
+   * @param {number} port - Port to listen on
+   * @returns {Promise<Server>} The listening HTTP server
+   * @throws {Error} When the server is already started, was stopped or cannot listen
+   */
+  public async listen(app: Express, port: number): Promise<Server> {
+    this.assertStartable();
+
+    const server = await new Promise<Server>((resolve, reject) => {
+      const listening = app.listen(port, () => resolve(listening));
+      listening.once("error", reject);
+    });
+    this.server = server;
+    this.current = "running";
+
+    if (this.options.handleSignals === true) {
+      SHUTDOWN_SIGNALS.forEach((signal) =>
+        process.once(signal, this.signalHandler),
+      );
+    }
+    return server;
+  }
+
+  /**
+   * Stops the server: new connections are refused, idle keep-alive
+   * connections closed, and in-flight requests given `timeoutMs` to finish
+   * before their connections are closed. The shutdown hooks run afterwards.
+   * Concurrent and repeated calls share the same shutdown.
+   *
+   * @returns {Promise<void>} Resolves once the server is closed and every hook ran
+   */
+  public async stop(): Promise<void> {
+    this.stopping ??= this.shutdown();
+    return this.stopping;
+  }
+
+  /**
+   * Runs the shutdown sequence.
+   *
+   * @returns {Promise<void>} Resolves when the sequence is complete
+   * @private
+   */
+  private async shutdown(): Promise<void> {
+    this.current = "stopping";
+    SHUTDOWN_SIGNALS.forEach((signal) =>
+      process.off(signal, this.signalHandler),
+    );
+
+    if (this.server) {
+      await this.drain(this.server);
+      this.server = null;
+    }
+
+    for (const hook of this.hooks.splice(0).reverse()) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error("Shutdown hook failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.current = "stopped";
+    this.logger.info("Shutdown complete");
+  }
+
+  /**
+   * Closes the server, waiting for in-flight requests up to the deadline.
+   *
+   * @param {Server} server - Listening server
+   * @returns {Promise<void>} Resolves once every connection is closed
+   * @private
+   */
+  private async drain(server: Server): Promise<void> {
+    const timeoutMs = this.options.timeoutMs ?? 10000;
+    this.logger.info("Stopping server, draining in-flight requests", {
+      timeoutMs,
+    });
+
+    const closed = new Promise<void>((resolve) =>
+      server.close(() => resolve()),
+    );
+    // Keep-alive connections become idle once their request is answered
+    server.closeIdleConnections();
+    const sweep = setInterval(() => server.closeIdleConnections(), 100);
+
+    let deadline: NodeJS.Timeout | undefined;
+    const expired = new Promise<"expired">((resolve) => {
+      deadline = setTimeout(() => resolve("expired"), timeoutMs);
+    });
+
+    if ((await Promise.race([closed, expired])) === "expired") {
+      this.logger.warn(
+        "Drain deadline reached, closing the remaining connections",
+      );
+      server.closeAllConnections();
+      await closed;
+    }
+    clearInterval(sweep);
+    clearTimeout(deadline);
+  }
+
+  /**
+   * Stops the server on a termination signal. The process is left to end
+   * by itself once nothing keeps it alive; the lifecycle never terminates it.
+   *
+   * @param {NodeJS.Signals} signal - Received signal
+   * @returns {Promise<void>} Resolves once the server is stopped
+   * @private
+   */
+  private async stopOnSignal(signal: NodeJS.Signals): Promise<void> {
+    this.logger.info(`Received ${signal}, shutting down gracefully`);
+    await this.stop();
+  }
+}
@@ -4,15 +4,23 @@ import type { RateLimitRequestHandler } from "express-rate-limit";
 import rateLimit from "express-rate-limit";
 import cors from "cors";
 import cookieParser from "cookie-parser";
+import type { Server } from "node:http";
 import type { Express, Request, Response, NextFunction } from "express";
 
 import { globalErrorHandler } from "../middlewares/errorhandler.js";
 import { createSwaggerMiddleware } from "../swagger/middleware.js";
 import { WinstonLogger } from "../../logger/winston.logger.js";
 import { checkCorsOptions } from "../security/corsoptions.js";
+import { ServerLifecycle } from "./lifecycle.js";
+import { HealthMonitor } from "./health.js";
 
 import { ErrorType, RouteError } from "#config/errors.js";
-import type { ServerFactoryOptions, RouterConfig } from "./types.js";
+import type {
+  HealthCheck,
+  ServerFactoryOptions,
+  RouterConfig,
+  ShutdownHook,
+} from "./types.js";
 import type { ApiServerConfig } from "#config/types.js";
 
 /**
@@ -27,6 +35,8 @@ export class ServerFactory {
   private readonly enableSwagger: boolean;
   private readonly swaggerPath: string;
   private readonly app: Express;
+  private readonly lifecycle: ServerLifecycle;
+  private readonly health: HealthMonitor;
 
   /**
    * Build API REST Server
@@ -40,15 +50,25 @@ export class ServerFactory {
     this.apiVersion = options.apiVersion || "v1";
     this.enableSwagger = options.enableSwagger !== false;
     this.swaggerPath = options.swaggerPath || "/docs";
+    this.lifecycle = new ServerLifecycle(this.logger, options.shutdown);
+    this.health = new HealthMonitor(
+      this.lifecycle,
+      this.logger,
+      options.health,
+    );
   }
 
   /**
-   * Creates and configures an Express server with multiple routers
+   * Creates, configures and starts an Express server with multiple routers.
+   * A factory starts once: after stop() it cannot be started again.
    *
    * @param {RouterConfig[]} routers - Array of router configurations
-   * @returns  {Express} - Configured Express application
+   * @returns {Promise<Server>} - The listening HTTP server
+   * @throws {Error} When the server is already started or was stopped
    */
-  public async createServer(routers: RouterConfig[]): Promise<Express> {
+  public async start(routers: RouterConfig[]): Promise<Server> {
+    this.lifecycle.assertStartable();
+
     // Apply basic middleware
     this.setupBasicMiddleware();
 
@@ -61,14 +81,8 @@ export class ServerFactory {
     // Mount all routers
     this.mountRouters(routers);
 
-    // Health check endpoint
-    this.app.get("/health", (_req: Request, res: Response) => {
-      res.status(200).json({
-        status: "ok",
-        timestamp: new Date().toISOString(),
-        version: this.apiVersion,
-      });
-    });
+    // Health check endpoints
+    this.app.use(this.health.router());
 
     this.app.use(
       "/api/v1",
@@ -98,7 +112,62 @@ export class ServerFactory {
     this.app.use(globalErrorHandler);
 
     // Start server
-    return this.startServer();
+    try {
+      const server = await this.lifecycle.listen(this.app, this.port);
+      this.logger.info(`🚀 Server running on http://localhost:${this.port}`);
+      this.logger.info(
+        `📍 API base: http://localhost:${this.port}/api/${this.apiVersion}`,
+      );
+      return server;
+    } catch (error) {
+      this.logger.error("Server startup failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the server gracefully: in-flight requests are drained, then the
+   * shutdown hooks run. Register the closing of shared resources (e.g. the
+   * MongoConnection given to the builders) as hooks.
+   *
+   * @returns {Promise<void>} Resolves once everything is closed
+   */
+  public async stop(): Promise<void> {
+    await this.lifecycle.stop();
+  }
+
+  /**
+   * Registers work to run on stop(), after the server is drained. Hooks run
+   * last registered first.
+   *
+   * @param {ShutdownHook} hook - Shutdown work
+   */
+  public onShutdown(hook: ShutdownHook): void {
+    this.lifecycle.onShutdown(hook);
+  }
+
+  /**
+   * Registers a dependency check of GET /health/ready.
+   *
+   * @param {string} name - Dependency name
+   * @param {HealthCheck} check - Throws or rejects when the dependency is down
+   */
+  public addHealthCheck(name: string, check: HealthCheck): void {
+    this.health.addCheck(name, check);
+  }
+
+  /**
+   * Creates and starts an Express server with multiple routers
+   *
+   * @deprecated Use start(), which returns the HTTP server to stop.
+   * @param {RouterConfig[]} routers - Array of router configurations
+   * @returns  {Express} - Configured Express application
+   */
+  public async createServer(routers: RouterConfig[]): Promise<Express> {
+    await this.start(routers);
+    return this.app;
   }
 
   /**
@@ -147,6 +216,13 @@ export class ServerFactory {
       serverUrl: `http://localhost:${this.port}`,
       schema: swagger.schema,
       uniqueFields: swagger.uniqueFields,
+      softDelete: swagger.softDelete,
+      stream: swagger.stream,
+      upsert: swagger.upsert,
+      textSearchFields: swagger.textSearchFields,
+      idStrategy: swagger.idStrategy,
+      tenantHeader: swagger.tenantHeader,
+      children: swagger.children,
     });
 
     this.app.use(swaggerRouter);
@@ -215,36 +291,6 @@ export class ServerFactory {
     next();
   }
 
-  /**
-   * Starts the Express server
-   * @returns {Promise<Express>} - Express
-   */
-  private async startServer(): Promise<Express> {
-    return new Promise((resolve, reject) => {
-      try {
-        const server = this.app.listen(this.port, () => {
-          this.logger.info(
-            `🚀 Server running on http://localhost:${this.port}`,
-          );
-          this.logger.info(
-            `📍 API base: http://localhost:${this.port}/api/${this.apiVersion}`,
-          );
-          resolve(this.app);
-        });
-
-        server.on("error", (error) => {
-          this.logger.error("Server startup failed", {
-            error: (error as Error).message,
-          });
-          reject(error);
-        });
-      } catch (error) {
-        this.logger.error("Failed to start server", { error });
-        reject(error);
-      }
-    });
-  }
-
   /**
    * Gets default configuration
    * @returns {AppConfig} - Application Config.
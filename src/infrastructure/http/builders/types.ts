@@ -1,4 +1,4 @@
-import type { Router } from "express";
+import type { Request, Router } from "express";
 
 import type { ZodObject, ZodType } from "zod";
 import type {
@@ -6,6 +6,24 @@ import type {
   DatabaseConfig,
   MongoConfig,
 } from "#config/index.js";
+import type { IRepository, Logger } from "#domain/index.js";
+import type {
+  SoftDeleteOptions,
+  StreamOptions,
+  TenantResolver,
+} from "../routing/types.js";
+import type { MongoConnection } from "../../persistance/mongoconnection.js";
+import type { SwaggerNestedResource } from "../swagger/types.js";
+import type {
+  ExpansionOptions,
+  IdStrategy,
+  IndexDefinition,
+  KeyProvider,
+  Migration,
+  SchemaValidationOptions,
+  TextSearchFields,
+  UniqueConstraint,
+} from "../../persistance/types.js";
 
 /**
  * Options for creating an API Builder instance.
@@ -19,14 +37,87 @@ export interface ApiBuilderOptions<T> {
 
   // Schema config.
   schema: ZodObject<Record<string, ZodType>>;
-  // Ensure unique field in database.
-  uniqueFields?: (keyof T)[];
+  // Ensure unique field in database. A tuple makes the combination unique.
+  uniqueFields?: UniqueConstraint<T>[];
+
+  // Additional indexes (compound, TTL, partial, sparse, case-insensitive).
+  indexes?: IndexDefinition<T>[];
+
+  // Drop managed "idx_*" indexes that are no longer declared (default: warn).
+  dropStaleIndexes?: boolean;
+
+  // Migrations applied before the routes are mounted, or a directory of
+  // "<version>_<name>.js" migration files.
+  migrations?: Migration[] | string;
+
+  // Enforce the schema server-side with a $jsonSchema collection validator.
+  // Defaults to validationLevel "strict" and validationAction "error".
+  schemaValidation?:
+    | boolean
+    | Pick<SchemaValidationOptions, "validationLevel" | "validationAction">;
+
+  // Storage backend replacing MongoDB, e.g. an InMemoryRepository. No
+  // database connection is opened when it is set.
+  repository?: IRepository<T> | RepositoryFactory<T>;
+
+  // Full-text search: fields of the weighted text index queried with ?q=.
+  textSearchFields?: TextSearchFields<T>;
+
+  // Soft delete: stamp deletedAt/deletedBy instead of removing documents.
+  softDelete?: boolean | SoftDeleteOptions;
+
+  // Reference expansion (?expand=): allowed paths and maximum depth. Reference
+  // fields are read from the schema (see `reference` and the "ref" field type).
+  expand?: ExpansionOptions;
+
+  // Optimistic concurrency: require an If-Match header on updates.
+  requireIfMatch?: boolean;
+
+  // PUT /:id creates the entity when the id does not exist (201).
+  upsert?: boolean;
+
+  // Format of the entity ids: ObjectId (default), UUID, ULID, a natural key
+  // field or a custom generator.
+  idStrategy?: IdStrategy;
+
+  // Resolves the actor recorded in createdBy/updatedBy/deletedBy.
+  resolveActor?: (req: Request) => string | undefined;
+
+  // Multi-tenancy: every request is served for the tenant it resolves to,
+  // and only sees the data of that tenant.
+  tenancy?: TenancyOptions;
+
+  // Keys of the fields marked `encrypted` in the schema.
+  encryption?: EncryptionOptions;
+
+  // Maximum number of items per bulk request (default 1000).
+  maxBulkItems?: number;
+
+  // Change feed over Server-Sent Events at GET /stream. Uses a change stream
+  // on replica sets, the service mutations otherwise.
+  stream?: boolean | StreamOptions;
 
   // Server Config
   serverConfig?: ApiServerConfig;
 
-  // Database Config
-  mongoConfig?: MongoConfig;
+  // Shared connection, e.g. one for every builder served by a ServerFactory.
+  // The builder then leaves closing it to its owner.
+  mongoConnection?: MongoConnection;
+
+  // Graceful shutdown of start()/stop().
+  shutdown?: ShutdownOptions;
+
+  // Checks of GET /health/ready. The MongoDB connection is checked unless a
+  // custom repository is set.
+  health?: HealthOptions;
+
+  // Child resources served at /:param/path under each entity, e.g. the items
+  // of an order at /orders/:orderId/items.
+  children?: NestedResourceOptions[];
+
+  // Database Config: a connection string (uri) or host/port, with auth, TLS,
+  // pool, timeout and retry settings. Merged over the MONGO_* variables.
+  mongoConfig?: Partial<MongoConfig>;
 
   // Swagger Docs
   swagger?: {
@@ -38,6 +129,71 @@ export interface ApiBuilderOptions<T> {
   };
 }
 
+/**
+ * Child resource of an ApiBuilder. It shares the port, the MongoDB settings
+ * and the connection of its parent.
+ */
+export type NestedResourceOptions = {
+  // Path segment of the child resource, e.g. "items"
+  path: string;
+  // Route parameter holding the parent id, e.g. "orderId"
+  param: string;
+  // Child field storing the parent id (default: the parameter name)
+  field?: string;
+} & Omit<
+  ApiBuilderOptions<Record<string, unknown>>,
+  | "apiPort"
+  | "mongoConfig"
+  | "mongoConnection"
+  | "serverConfig"
+  | "swagger"
+  | "shutdown"
+  | "health"
+  | "tenancy"
+  | "encryption"
+  | "resolveActor"
+>;
+
+/**
+ * Separation of the data of the tenants:
+ * - `"field"`: one collection, every document holds its tenant in a field
+ * - `"collection"`: a `<collection>_<tenant>` collection per tenant
+ * - `"database"`: a `<database>_<tenant>` database per tenant
+ */
+export type TenantIsolation = "field" | "collection" | "database";
+
+/**
+ * Multi-tenancy settings of an ApiBuilder. Child resources share them.
+ */
+export type TenancyOptions = {
+  // Where the tenant of a request is read from: header, subdomain, claim or function.
+  resolve: TenantResolver;
+  // Separation of the data of the tenants (default: "field").
+  isolation?: TenantIsolation;
+  // Field holding the tenant with "field" isolation (default: "tenantId").
+  field?: string;
+};
+
+/**
+ * Field encryption settings of an ApiBuilder. Child resources share them.
+ */
+export type EncryptionOptions = {
+  // Source of the keys, e.g. envKeyProvider() or fileKeyProvider(path).
+  keys: KeyProvider;
+};
+
+/**
+ * Builds the repository of a resource, for repositories that need the
+ * builder's logger or collection name. With "collection" or "database"
+ * tenant isolation it is called once per tenant, with the tenant's
+ * collection name.
+ */
+export type RepositoryFactory<T> = (context: {
+  collection: string;
+  logger: Logger;
+  tenantId?: string;
+}) => IRepository<T>;
+
 /**
  * Configuration for a single router with its Swagger documentation
  */
@@ -50,8 +206,15 @@ export interface RouterConfig {
     description?: string;
     version?: string;
     schema?: ZodObject<Record<string, ZodType>>;
-    uniqueFields?: (string | number)[];
+    uniqueFields?: UniqueConstraint[];
     resourceName?: string;
+    softDelete?: boolean;
+    stream?: boolean;
+    upsert?: boolean;
+    textSearchFields?: string[];
+    idStrategy?: IdStrategy;
+    tenantHeader?: string;
+    children?: SwaggerNestedResource[];
   };
 }
 
@@ -64,4 +227,65 @@ export interface ServerFactoryOptions {
   apiVersion?: string;
   enableSwagger?: boolean;
   swaggerPath?: string;
+  shutdown?: ShutdownOptions;
+  health?: HealthOptions;
+}
+
+/**
+ * Graceful shutdown settings of a started server.
+ */
+export interface ShutdownOptions {
+  // Time given to in-flight requests before their connections are closed
+  // (default 10000 ms).
+  timeoutMs?: number;
+  // Stop on SIGINT/SIGTERM while the server runs (default false). Enable it
+  // on one owner only, e.g. the ServerFactory serving several builders.
+  handleSignals?: boolean;
+}
+
+/**
+ * Work run on shutdown, once the server stopped accepting requests and the
+ * in-flight ones were drained, before the MongoDB connection is closed.
+ */
+export type ShutdownHook = () => void | Promise<void>;
+
+/**
+ * State of a server through start() and stop().
+ */
+export type LifecyclePhase = "starting" | "running" | "stopping" | "stopped";
+
+/**
+ * Dependency check of the readiness endpoint: the dependency is down when it
+ * throws or rejects.
+ */
+export type HealthCheck = () => void | Promise<void>;
+
+/**
+ * Readiness settings of a server.
+ */
+export interface HealthOptions {
+  // Custom checks, by dependency name.
+  checks?: Record<string, HealthCheck>;
+  // MongoDB connections to ping, by dependency name.
+  mongoConnections?: Record<string, MongoConnection>;
+  // Time after which a check counts as failed (default 2000 ms).
+  timeoutMs?: number;
+}
+
+/**
+ * Result of one dependency check.
+ */
+export interface DependencyHealth {
+  status: "up" | "down";
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Body of GET /health/ready: 200 when ready, 503 otherwise.
+ */
+export interface ReadinessReport {
+  status: "ready" | "starting" | "stopping" | "degraded";
+  checks: Record<string, DependencyHealth>;
+  timestamp: string;
 }
@@ -1,31 +1,44 @@
 import type { Request, Response, NextFunction } from "express";
 import type { ZodObject, ZodType } from "zod";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import type { RequestHandler } from "express";
-import { ValidationError } from "#root/config/errors.js";
+import { ErrorType, ValidationError } from "#root/config/errors.js";
+import type {
+  BulkItemResult,
+  BulkUpdateItem,
+  FindQuery,
+} from "#root/domain/index.js";
+import { compileFilter } from "../../tools/filtercompiler/index.js";
+import type { ParentScope } from "../routing/types.js";
 
 /**
  * Advanced validation middleware that provides comprehensive request validation
  * using Zod schemas with improved error handling and type coercion.
  *
  * @template TEntity - The domain entity type being validated
- * @param {ZodSchema} schema - Zod schema for validation
+ * @param {ZodObject<Record<string, ZodType>>} baseSchema - Zod schema for validation
  * @param {ValidationOptions} [options] - Additional validation configuration
  * @returns {RequestHandler} Express middleware function
  */
 export function validationMiddleware<TEntity>(
-  schema: ZodObject<Record<string, ZodType>>,
+  baseSchema: ZodObject<Record<string, ZodType>>,
   options: ValidationOptions = {},
 ): RequestHandler {
   const {
     allowUnknownFields = false,
     coerceTypes = true,
     strictMode = false,
+    maxBulkItems = 1000,
   } = options;
 
   return (req: Request, res: Response, next: NextFunction): void => {
     try {
       const operation = determineOperation(req);
+      const schema = scopedSchema(
+        baseSchema,
+        res.locals.parentScope as ParentScope | undefined,
+        operation,
+      );
 
       switch (operation) {
         case "CREATE":
@@ -34,6 +47,11 @@ export function validationMiddleware<TEntity>(
             strictMode,
           });
           break;
+        case "REPLACE":
+          handleReplaceValidation<TEntity>(req, res, schema, {
+            allowUnknownFields,
+          });
+          break;
         case "UPDATE":
           handleUpdateValidation<TEntity>(req, res, schema, {
             allowUnknownFields,
@@ -42,6 +60,14 @@ export function validationMiddleware<TEntity>(
         case "FIND":
           handleFindValidation<TEntity>(req, res, schema, { coerceTypes });
           break;
+        case "BULK_CREATE":
+        case "BULK_UPDATE":
+        case "BULK_DELETE":
+          handleBulkValidation(req, res, schema, operation, {
+            allowUnknownFields,
+            maxBulkItems,
+          });
+          break;
         default:
           throw new ValidationError({
             message: "Unsupported operation type",
@@ -68,6 +94,19 @@ export function validationMiddleware<TEntity>(
   };
 }
 
+/**
+ * Audit fields maintained by the repository on every document. They are not
+ * part of the resource schema but can be used as find filters.
+ */
+const auditFilterShape = {
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+  createdBy: z.coerce.string().optional(),
+  updatedBy: z.coerce.string().optional(),
+  deletedAt: z.coerce.date().nullable().optional(),
+  deletedBy: z.coerce.string().nullable().optional(),
+};
+
 /**
  * Configuration options for validation middleware behavior.
  */
@@ -78,19 +117,69 @@ interface ValidationOptions {
   coerceTypes?: boolean;
   /** Whether to use strict validation mode */
   strictMode?: boolean;
+  /** Maximum number of items accepted by a bulk request */
+  maxBulkItems?: number;
+}
+
+/**
+ * Validated bulk request stored in `res.locals.bulkDto`. Items failing the
+ * schema are not rejected as a whole, they are reported per item instead.
+ *
+ * @template T - Validated item type
+ */
+export interface BulkRequestDto<T> {
+  /** Stop at the first failing item (default) or process every item */
+  ordered: boolean;
+  /** Number of items in the request */
+  total: number;
+  /** Items that passed validation, with their position in the request */
+  items: Array<{ index: number; data: T }>;
+  /** Items that failed validation */
+  rejected: BulkItemResult<never>[];
+}
+
+/**
+ * Relaxes the parent field of a nested route on writes: the controller sets
+ * it from the URL, so the body may omit it and any value sent is replaced.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @param {ParentScope | undefined} parent - Parent of the nested route, if any
+ * @param {string} operation - Operation being validated
+ * @returns {ZodObject<Record<string, ZodType>>} Schema to validate with
+ */
+function scopedSchema(
+  schema: ZodObject<Record<string, ZodType>>,
+  parent: ParentScope | undefined,
+  operation: string,
+): ZodObject<Record<string, ZodType>> {
+  if (!parent || operation === "FIND" || !(parent.field in schema.shape)) {
+    return schema;
+  }
+  return schema.extend({ [parent.field]: z.unknown().optional() });
 }
 
 /**
  * Determines the type of operation based on HTTP method and path.
  *
  * @param {Request} req - Express request object
- * @returns {string} Operation type: CREATE, UPDATE, or FIND
+ * @returns {string} Operation type: CREATE, UPDATE, REPLACE, FIND or BULK_CREATE/UPDATE/DELETE
  */
 function determineOperation(req: Request): string {
+  if (req.route.path === "/bulk") {
+    const bulkOperations: Record<string, string> = {
+      POST: "BULK_CREATE",
+      PATCH: "BULK_UPDATE",
+      DELETE: "BULK_DELETE",
+    };
+    return bulkOperations[req.method] ?? "UNKNOWN";
+  }
   if (req.method === "POST" && req.route.path === "/") {
     return "CREATE";
   }
-  if (req.method === "PATCH" || req.method === "PUT") {
+  if (req.method === "PUT") {
+    return "REPLACE";
+  }
+  if (req.method === "PATCH") {
     return "UPDATE";
   }
   if (req.method === "GET") {
@@ -169,77 +258,177 @@ function handleUpdateValidation<TEntity>(
 }
 
 /**
- * Handles validation for entity search/find requests.
- * Validates and coerces query parameters.
+ * Handles validation for entity replace requests.
+ * Validates complete entity data against the full schema, like a creation.
  *
- * @template TEntity - Entity type being searched
+ * @template TEntity - Entity type being replaced
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
  * @param {ZodObject<Record<string, z.ZodTypeAny>>} schema - Validation schema
  * @param {Object} options - Validation options
- * @param {boolean} options.coerceTypes - Whether to attempt type coercion for query parameters
+ * @param {boolean} options.allowUnknownFields - Whether to allow fields not in schema
  */
-function handleFindValidation<TEntity>(
+function handleReplaceValidation<TEntity>(
   req: Request,
   res: Response,
   schema: ZodObject<Record<string, ZodType>>,
-  options: { coerceTypes: boolean },
+  options: { allowUnknownFields: boolean },
 ): void {
-  const queryParams = req.query as Record<string, unknown>;
+  if (!req.body || typeof req.body !== "object" || Array.isArray(req.body)) {
+    throw new ValidationError({
+      message: "Request body is required for replace",
+      field: "body",
+      violations: ["Request body must be the complete entity"],
+    });
+  }
+
+  const validationSchema = options.allowUnknownFields
+    ? schema
+    : schema.strict();
+  const parsed = validationSchema.parse(req.body);
+  res.locals.replaceDto = parsed as TEntity;
+}
+
+/**
+ * Handles validation for bulk requests. The body carries an `items` array
+ * (`ids` for deletes) and an optional `ordered` flag. Each item is validated
+ * on its own so that one bad item does not reject the whole batch.
+ *
+ * @template TEntity - Entity type being written
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {ZodObject<Record<string, z.ZodTypeAny>>} schema - Validation schema
+ * @param {string} operation - BULK_CREATE, BULK_UPDATE or BULK_DELETE
+ * @param {Object} options - Validation options
+ * @param {boolean} options.allowUnknownFields - Whether to allow fields not in schema
+ * @param {number} options.maxBulkItems - Maximum number of items per request
+ */
+function handleBulkValidation<TEntity>(
+  req: Request,
+  res: Response,
+  schema: ZodObject<Record<string, ZodType>>,
+  operation: string,
+  options: { allowUnknownFields: boolean; maxBulkItems: number },
+): void {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const key = operation === "BULK_DELETE" ? "ids" : "items";
+  const list = body[key];
 
-  // Remove pagination parameters from validation
-  const { _skip, _limit, _sortBy, _sortOrder, ...filterParams } = queryParams;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new ValidationError({
+      message: `Request body must contain a non-empty "${key}" array`,
+      field: key,
+      violations: [`${key} must be an array with at least one element`],
+    });
+  }
 
-  let processedParams = filterParams;
+  if (list.length > options.maxBulkItems) {
+    throw new ValidationError({
+      message: "Too many items in bulk request",
+      field: key,
+      violations: [
+        `At most ${options.maxBulkItems} items are allowed per request`,
+      ],
+    });
+  }
 
-  if (options.coerceTypes) {
-    processedParams = coerceQueryParameters(filterParams);
+  if (body["ordered"] !== undefined && typeof body["ordered"] !== "boolean") {
+    throw new ValidationError({
+      message: "Invalid ordered flag",
+      field: "ordered",
+      violations: ["ordered must be a boolean"],
+    });
   }
 
-  const partialSchema = schema.partial();
-  const parsed = partialSchema.parse(processedParams);
-  res.locals.findDto = parsed as Partial<TEntity>;
+  const entitySchema = options.allowUnknownFields ? schema : schema.strict();
+  const updateSchema = (
+    options.allowUnknownFields ? schema.partial() : schema.partial().strict()
+  ).refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update",
+  });
+
+  const itemSchema: ZodType =
+    operation === "BULK_CREATE"
+      ? entitySchema
+      : operation === "BULK_UPDATE"
+        ? z.object({ id: z.string().min(1), data: updateSchema }).strict()
+        : z.string().min(1);
+
+  const dto: BulkRequestDto<TEntity | BulkUpdateItem<TEntity> | string> = {
+    ordered: body["ordered"] !== false,
+    total: list.length,
+    items: [],
+    rejected: [],
+  };
+
+  list.forEach((item: unknown, index) => {
+    const parsed = itemSchema.safeParse(item);
+    if (parsed.success) {
+      dto.items.push({ index, data: parsed.data });
+      return;
+    }
+
+    const id =
+      typeof item === "string"
+        ? item
+        : typeof (item as { id?: unknown } | null)?.id === "string"
+          ? (item as { id: string }).id
+          : undefined;
+    dto.rejected.push({
+      index,
+      id,
+      status: "failed",
+      error: {
+        type: ErrorType.VALIDATION_ERROR,
+        message: parsed.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; "),
+      },
+    });
+  });
+
+  res.locals.bulkDto = dto;
 }
 
 /**
- * Attempts to coerce string query parameters to appropriate types.
- * Handles boolean, number, and date coercion.
+ * Handles validation for entity search/find requests.
+ * Compiles filter parameters, including operators such as `price[gte]=10`,
+ * into a MongoDB filter checked against the schema field types.
  *
- * @param {Record<string, unknown>} params - Raw query parameters
- * @returns {Record<string, unknown>} Coerced parameters
+ * @template TEntity - Entity type being searched
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {ZodObject<Record<string, z.ZodTypeAny>>} schema - Validation schema
+ * @param {Object} options - Validation options
+ * @param {boolean} options.coerceTypes - Whether to convert query values to the field types
  */
-function coerceQueryParameters(
-  params: Record<string, unknown>,
-): Record<string, unknown> {
-  const coerced: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(params)) {
-    if (typeof value === "string") {
-      // Boolean coercion
-      if (value === "true") {
-        coerced[key] = true;
-      } else if (value === "false") {
-        coerced[key] = false;
-      }
-      // Number coercion
-      else if (!isNaN(Number(value)) && value.trim() !== "") {
-        coerced[key] = Number(value);
-      }
-      // Date coercion (ISO format)
-      else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)) {
-        const date = new Date(value);
-        if (!isNaN(date.getTime())) {
-          coerced[key] = date;
-        } else {
-          coerced[key] = value;
-        }
-      } else {
-        coerced[key] = value;
-      }
-    } else {
-      coerced[key] = value;
-    }
-  }
+function handleFindValidation<TEntity>(
+  req: Request,
+  res: Response,
+  schema: ZodObject<Record<string, ZodType>>,
+  options: { coerceTypes: boolean },
+): void {
+  const queryParams = req.query as Record<string, unknown>;
+
+  // Remove pagination, search, field selection, expansion and stream resume parameters
+  const {
+    skip: _skip,
+    limit: _limit,
+    sortBy: _sortBy,
+    sortOrder: _sortOrder,
+    cursor: _cursor,
+    includeDeleted: _includeDeleted,
+    q: _q,
+    includeScore: _includeScore,
+    fields: _fields,
+    exclude: _exclude,
+    lastEventId: _lastEventId,
+    expand: _expand,
+    ...filterParams
+  } = queryParams;
 
-  return coerced;
+  const filter = compileFilter(schema.extend(auditFilterShape), filterParams, {
+    coerceTypes: options.coerceTypes,
+  });
+  res.locals.findDto = filter as FindQuery<TEntity>;
 }
@@ -1,6 +1,10 @@
 import type { Request, Response, NextFunction } from "express";
 import { WinstonLogger } from "../../logger/index.js";
-import { ErrorType, ValidationError } from "#root/config/errors.js";
+import {
+  ConcurrencyError,
+  ErrorType,
+  ValidationError,
+} from "#root/config/errors.js";
 import { ApplicationError } from "#root/config/errors.js";
 import { MongoServerError } from "mongodb";
 /**
@@ -28,6 +32,11 @@ export function globalErrorHandler(
     timestamp: new Date().toISOString(),
   });
 
+  // Expose the current version so the client can refetch and retry
+  if (error instanceof ConcurrencyError && error.currentVersion !== undefined) {
+    res.setHeader("ETag", `"${error.currentVersion}"`);
+  }
+
   // Handle ApplicationError instances with specific formatting
   if (error instanceof ApplicationError) {
     res.status(error.statusCode).json({
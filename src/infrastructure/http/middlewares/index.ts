@@ -1,2 +1,4 @@
 export * from "./datavalidator.js";
 export * from "./errorhandler.js";
+export * from "./projection.js";
+export * from "./requestcontext.js";
@@ -0,0 +1,116 @@
+import type { Request, Response, NextFunction } from "express";
+import type { RequestHandler } from "express";
+import type { ZodObject, ZodType } from "zod";
+import { ValidationError } from "#root/config/errors.js";
+import type { Projection } from "#root/domain/index.js";
+
+/**
+ * Audit fields maintained by the repository that can be selected alongside
+ * the schema fields. `_id` is always returned and `__v` follows the mode.
+ */
+const auditFields = [
+  "createdAt",
+  "updatedAt",
+  "createdBy",
+  "updatedBy",
+  "deletedAt",
+  "deletedBy",
+];
+
+/**
+ * Field selection middleware. Parses `?fields=name,price` (include mode) or
+ * `?exclude=content` (exclude mode) into a MongoDB projection stored in
+ * `res.locals.projection`. Field names are checked against the schema keys.
+ *
+ * In include mode `__v` is always returned so that the `ETag` header stays
+ * accurate on partial documents.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @returns {RequestHandler} Express middleware function
+ */
+export function projectionMiddleware(
+  schema: ZodObject<Record<string, ZodType>>,
+): RequestHandler {
+  const allowedFields = new Set([...Object.keys(schema.shape), ...auditFields]);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      const fields = parseFieldList(req.query["fields"], "fields");
+      const exclude = parseFieldList(req.query["exclude"], "exclude");
+
+      if (fields && exclude) {
+        throw new ValidationError({
+          message: "fields and exclude cannot be combined",
+          field: "query",
+          violations: ["Use either fields or exclude, not both"],
+        });
+      }
+
+      const selected = fields ?? exclude;
+      if (selected) {
+        const unknown = selected.filter((name) => !allowedFields.has(name));
+        if (unknown.length > 0) {
+          throw new ValidationError({
+            message: "Invalid field selection",
+            field: fields ? "fields" : "exclude",
+            violations: unknown.map((name) => `Unknown field: ${name}`),
+          });
+        }
+
+        const projection: Projection = {};
+        for (const name of selected) {
+          projection[name] = fields ? 1 : 0;
+        }
+        if (fields) {
+          projection["__v"] = 1;
+        }
+        res.locals.projection = projection;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Parses a comma separated field list. Repeated parameters are merged.
+ *
+ * @param {unknown} value - Raw query parameter value
+ * @param {string} parameter - Parameter name, used in error messages
+ * @returns {string[] | undefined} Field names, or undefined when the parameter is absent
+ * @throws {ValidationError} When the parameter is not a string or lists no field
+ */
+export function parseFieldList(
+  value: unknown,
+  parameter: string,
+): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every((entry) => typeof entry === "string")) {
+    throw new ValidationError({
+      message: `Invalid ${parameter} parameter`,
+      field: parameter,
+      violations: [`${parameter} must be a comma separated list of fields`],
+    });
+  }
+
+  const names = values
+    .flatMap((entry: string) => entry.split(","))
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  if (names.length === 0) {
+    throw new ValidationError({
+      message: `Invalid ${parameter} parameter`,
+      field: parameter,
+      violations: [`${parameter} must list at least one field`],
+    });
+  }
+
+  return [...new Set(names)];
+}
@@ -0,0 +1,100 @@
+import type { Request, Response, NextFunction } from "express";
+import type { RequestHandler } from "express";
+
+import { ValidationError } from "#root/config/errors.js";
+import { runWithRequestContext } from "../../context/index.js";
+import type { TenantResolver } from "../routing/types.js";
+
+/**
+ * Tenant identifiers: they become part of collection and database names.
+ */
+const TENANT_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Options for the request context middleware.
+ */
+export interface RequestContextOptions {
+  /** Resolves the actor (user or service id) performing the request */
+  resolveActor?: (req: Request) => string | undefined;
+  /** Resolves the tenant of a multi-tenant API. Requests without one are rejected */
+  tenant?: TenantResolver;
+}
+
+/**
+ * Creates a middleware that opens a request-scoped context for the rest of the
+ * handler chain. Repositories read the actor from it to fill audit fields,
+ * and tenant-scoped repositories the tenant.
+ *
+ * @param {RequestContextOptions} [options] - Context resolution options
+ * @returns {RequestHandler} Express middleware function
+ */
+export function requestContextMiddleware(
+  options: RequestContextOptions = {},
+): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    let tenantId: string | undefined;
+    try {
+      tenantId = options.tenant && resolveTenant(req, options.tenant);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    runWithRequestContext(
+      { actor: options.resolveActor?.(req), ...(tenantId && { tenantId }) },
+      next,
+    );
+  };
+}
+
+/**
+ * Reads the tenant of a request.
+ *
+ * @param {Request} req - Express request object
+ * @param {TenantResolver} resolver - Where the tenant is read from
+ * @returns {string} Tenant identifier
+ * @throws {ValidationError} When the tenant is missing or malformed
+ */
+function resolveTenant(req: Request, resolver: TenantResolver): string {
+  let tenantId: unknown;
+  let hint: string;
+
+  if (typeof resolver === "function") {
+    tenantId = resolver(req);
+    hint = "The request does not identify a tenant";
+  } else if ("header" in resolver) {
+    tenantId = req.get(resolver.header);
+    hint = `Send the tenant in the ${resolver.header} header`;
+  } else if ("subdomain" in resolver) {
+    const suffix = `.${resolver.subdomain}`;
+    if (req.hostname.endsWith(suffix)) {
+      tenantId = req.hostname.slice(0, -suffix.length);
+    }
+    hint = `Call the API on <tenant>${suffix}`;
+  } else {
+    const { auth, user } = req as Request & {
+      auth?: Record<string, unknown>;
+      user?: Record<string, unknown>;
+    };
+    tenantId = auth?.[resolver.claim] ?? user?.[resolver.claim];
+    hint = `The credentials must carry the ${resolver.claim} claim`;
+  }
+
+  if (tenantId === undefined || tenantId === "") {
+    throw new ValidationError({
+      message: "Tenant is required",
+      field: "tenant",
+      violations: [hint],
+    });
+  }
+  if (typeof tenantId !== "string" || !TENANT_PATTERN.test(tenantId)) {
+    throw new ValidationError({
+      message: "Invalid tenant identifier",
+      field: "tenant",
+      violations: [
+        "Tenant identifiers are 1 to 64 letters, digits, '-' or '_'",
+      ],
+    });
+  }
+  return tenantId;
+}
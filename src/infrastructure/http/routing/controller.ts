@@ -1,10 +1,30 @@
-import type { Request, Response, NextFunction } from "express";
-import { ValidationError } from "#config/errors.js";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import {
+  ApplicationError,
+  ConcurrencyError,
+  ErrorType,
+  ValidationError,
+} from "#config/errors.js";
+import { decodeCursor } from "../../persistance/cursor.js";
+import {
+  BulkResultCollector,
+  notFoundItemError,
+} from "../../persistance/bulk.js";
+import type { BulkRequestDto } from "../middlewares/datavalidator.js";
+import { parseFieldList } from "../middlewares/projection.js";
+import type { CrudControllerOptions, ParentScope } from "./types.js";
 import type {
+  BulkResult,
+  BulkUpdateItem,
+  ChangeEvent,
+  ChangeSubscription,
+  FindQuery,
   Logger,
   MongoDocument,
   IService,
   PaginationOptions,
+  ProjectedDocument,
+  Projection,
 } from "#domain/index.js";
 
 /**
@@ -20,10 +40,12 @@ export class CrudController<TEntity> {
    *
    * @param {IService<TEntity, TQuery>} service - Service layer for business logic operations
    * @param {Logger} logger - Logger instance for request/response tracking
+   * @param {CrudControllerOptions} [options] - Optional controller behaviour
    */
   public constructor(
     private readonly service: IService<TEntity>,
     private readonly logger: Logger,
+    private readonly options: CrudControllerOptions = {},
   ) {}
 
   /**
@@ -59,8 +81,9 @@ export class CrudController<TEntity> {
         });
       }
 
-      const createdEntity: MongoDocument<TEntity> =
-        await this.service.create(entityData);
+      const createdEntity: MongoDocument<TEntity> = await this.service.create(
+        this.withParent(res, entityData),
+      );
 
       const response = {
         success: true,
@@ -120,7 +143,18 @@ export class CrudController<TEntity> {
         });
       }
 
-      const entity = await this.service.read(id);
+      const projection = res.locals.projection as Projection | undefined;
+      const readOptions = {
+        includeDeleted: this.includeDeleted(req),
+        expand: this.expand(req),
+      };
+      await this.assertInParent(res, id, {
+        includeDeleted: readOptions.includeDeleted,
+      });
+      const entity = projection
+        ? await this.service.read(id, { ...readOptions, projection })
+        : await this.service.read(id, readOptions);
+      this.setETag(res, entity);
 
       const response = {
         success: true,
@@ -191,7 +225,15 @@ export class CrudController<TEntity> {
         });
       }
 
-      const updatedEntity = await this.service.update(id, updateData);
+      const expectedVersion = this.resolveExpectedVersion(req);
+      await this.assertInParent(res, id);
+
+      const updatedEntity = await this.service.update(
+        id,
+        this.withParent(res, updateData),
+        { expectedVersion },
+      );
+      this.setETag(res, updatedEntity);
 
       const response = {
         success: true,
@@ -218,6 +260,76 @@ export class CrudController<TEntity> {
     }
   }
 
+  /**
+   * Handles HTTP PUT requests replacing an entity with complete data. With
+   * the upsert option an unknown id creates the entity: 201 is returned
+   * instead of 200. All errors are passed to the global error handler via next().
+   *
+   * @param {Request} req - Express request object containing ID and entity data
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next middleware function for error handling
+   * @returns {Promise<void>} Resolves when response is sent or error is passed to next()
+   */
+  public async replace(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const entityData = res.locals.replaceDto as TEntity;
+
+      this.logger.debug("Controller: Processing replace request", {
+        entityId: id,
+        method: req.method,
+        path: req.path,
+      });
+
+      if (!id || typeof id !== "string") {
+        throw new ValidationError({
+          message: "Valid entity ID is required",
+          field: "id",
+          violations: ["ID parameter must be a valid string"],
+        });
+      }
+
+      const expectedVersion = this.resolveExpectedVersion(req);
+      await this.assertInParent(res, id, { allowMissing: this.options.upsert });
+
+      const { document, created } = await this.service.replace(
+        id,
+        this.withParent(res, entityData),
+        { expectedVersion, upsert: this.options.upsert },
+      );
+      this.setETag(res, document);
+
+      const statusCode = created ? 201 : 200;
+      const response = {
+        success: true,
+        message: created
+          ? "Entity created successfully"
+          : "Entity replaced successfully",
+        data: document,
+        timestamp: new Date().toISOString(),
+      };
+
+      this.logger.debug("Controller: Replace operation successful", {
+        entityId: document._id,
+        statusCode,
+      });
+
+      res.status(statusCode).json(response);
+    } catch (error) {
+      this.logger.error("Controller: Replace operation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        entityId: req.params["id"],
+        method: req.method,
+      });
+
+      next(error);
+    }
+  }
+
   /**
    * Handles HTTP DELETE requests for removing entities.
    * Validates ID parameter, removes entity, and returns confirmation response.
@@ -250,11 +362,22 @@ export class CrudController<TEntity> {
         });
       }
 
-      await this.service.remove(id);
+      const purge =
+        this.options.softDelete !== undefined && req.query["purge"] === "true";
+      await this.assertInParent(res, id, { includeDeleted: purge });
+
+      if (purge) {
+        await this.authorizePurge(req);
+        await this.service.purge(id);
+      } else {
+        await this.service.remove(id);
+      }
 
       const response = {
         success: true,
-        message: "Entity removed successfully",
+        message: purge
+          ? "Entity purged successfully"
+          : "Entity removed successfully",
         timestamp: new Date().toISOString(),
       };
 
@@ -292,7 +415,10 @@ export class CrudController<TEntity> {
     next: NextFunction,
   ): Promise<void> {
     try {
-      const queryFilters = res.locals.findDto as Partial<TEntity>;
+      const queryFilters = this.withParent(
+        res,
+        res.locals.findDto as FindQuery<TEntity>,
+      );
 
       // Extract pagination parameters from query string
       const paginationOptions: PaginationOptions = {
@@ -300,12 +426,44 @@ export class CrudController<TEntity> {
         limit: Math.min(parseInt(req.query["limit"] as string) || 50, 100), // Cap at 100
         sortBy: (req.query["sortBy"] as string) || "createdAt",
         sortOrder: (req.query["sortOrder"] as string) === "desc" ? -1 : 1,
+        includeDeleted: this.includeDeleted(req),
+        expand: this.expand(req),
       };
 
+      // Full-text search (?q=), combined with the field filters
+      const search = req.query["q"];
+      if (search !== undefined) {
+        if (typeof search !== "string" || search.trim() === "") {
+          throw new ValidationError({
+            message: "Search parameter must be a single non-empty value",
+            field: "q",
+            violations: ["Provide the search terms once, e.g. ?q=coffee"],
+          });
+        }
+        paginationOptions.search = search.trim();
+        paginationOptions.includeScore = req.query["includeScore"] === "true";
+      }
+
+      // Presence of ?cursor (even empty) switches to keyset pagination
+      const cursor = req.query["cursor"];
+      if (cursor !== undefined) {
+        if (typeof cursor !== "string") {
+          throw new ValidationError({
+            message: "Cursor parameter must be a single value",
+            field: "cursor",
+            violations: ["Only one cursor can be provided"],
+          });
+        }
+        paginationOptions.useCursor = true;
+        if (cursor !== "") {
+          paginationOptions[decodeCursor(cursor).direction] = cursor;
+        }
+      }
+
       this.logger.debug("Controller: Processing find request", {
         method: req.method,
         path: req.path,
-        queryFilters,
+        filterFields: Object.keys(queryFilters),
         paginationOptions,
       });
 
@@ -326,21 +484,37 @@ export class CrudController<TEntity> {
         });
       }
 
-      const result = await this.service.find(queryFilters, paginationOptions);
+      const projection = res.locals.projection as Projection | undefined;
+      const result = projection
+        ? await this.service.find(queryFilters, {
+            ...paginationOptions,
+            projection,
+          })
+        : await this.service.find(queryFilters, paginationOptions);
+
+      const pagination = paginationOptions.useCursor
+        ? {
+            limit: result.limit,
+            hasNext: result.hasNext,
+            hasPrevious: result.hasPrevious,
+            nextCursor: result.nextCursor ?? null,
+            prevCursor: result.prevCursor ?? null,
+          }
+        : {
+            skip: result.skip,
+            limit: result.limit,
+            total: result.total,
+            hasNext: result.hasNext,
+            hasPrevious: result.hasPrevious,
+            currentPage: Math.floor(result.skip / result.limit) + 1,
+            totalPages: Math.ceil((result.total ?? 0) / result.limit),
+          };
 
       const response = {
         success: true,
         message: "Entities retrieved successfully",
         data: result.data,
-        pagination: {
-          skip: result.skip,
-          limit: result.limit,
-          total: result.total,
-          hasNext: result.hasNext,
-          hasPrevious: result.hasPrevious,
-          currentPage: Math.floor(result.skip / result.limit) + 1,
-          totalPages: Math.ceil(result.total / result.limit),
-        },
+        pagination,
         timestamp: new Date().toISOString(),
       };
 
@@ -362,4 +536,703 @@ export class CrudController<TEntity> {
       next(error);
     }
   }
+
+  /**
+   * Handles HTTP GET requests streaming the changes of the entities as
+   * Server-Sent Events. The query filters of find apply, and the stream
+   * resumes after the `Last-Event-ID` header (or `lastEventId` parameter).
+   * Heartbeat comments keep idle connections open. Errors raised before the
+   * stream is opened are passed to the global error handler via next().
+   *
+   * @param {Request} req - Express request object containing query filters
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next middleware function for error handling
+   * @returns {Promise<void>} Resolves when the stream is opened or error is passed to next()
+   */
+  public async stream(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    let subscription: ChangeSubscription | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let closed = false;
+
+    res.on("close", () => {
+      closed = true;
+      clearInterval(heartbeat);
+      void subscription?.close();
+      this.logger.debug("Controller: Change stream closed", {
+        path: req.path,
+      });
+    });
+
+    try {
+      const filter = this.withParent(
+        res,
+        res.locals.findDto as FindQuery<TEntity>,
+      );
+      const lastEventId = req.get("Last-Event-ID") ?? req.query["lastEventId"];
+
+      if (lastEventId !== undefined && typeof lastEventId !== "string") {
+        throw new ValidationError({
+          message: "Last event ID must be a single value",
+          field: "lastEventId",
+          violations: ["Only one last event ID can be provided"],
+        });
+      }
+
+      this.logger.debug("Controller: Processing stream request", {
+        method: req.method,
+        path: req.path,
+        filterFields: Object.keys(filter),
+        lastEventId,
+      });
+
+      subscription = await this.service.watch(
+        { filter, resumeAfter: lastEventId || undefined },
+        {
+          onChange: this.writeChangeEvent.bind(this, res),
+          onError: this.endChangeStream.bind(this, res),
+        },
+      );
+
+      if (closed) {
+        await subscription.close();
+        return;
+      }
+
+      this.openEventStream(res);
+      heartbeat = setInterval(
+        () => res.write(": heartbeat\n\n"),
+        this.options.stream?.heartbeatIntervalMs ?? 15000,
+      );
+    } catch (error) {
+      this.logger.error("Controller: Stream operation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        path: req.path,
+        method: req.method,
+      });
+
+      // Pass error to global error handler
+      next(error);
+    }
+  }
+
+  /**
+   * Handles HTTP POST requests for restoring soft-deleted entities.
+   * All errors are passed to the global error handler via next().
+   *
+   * @param {Request} req - Express request object containing entity ID
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next middleware function for error handling
+   * @returns {Promise<void>} Resolves when response is sent or error is passed to next()
+   */
+  public async restore(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      this.logger.debug("Controller: Processing restore request", {
+        entityId: id,
+        method: req.method,
+        path: req.path,
+      });
+
+      if (!id || typeof id !== "string") {
+        throw new ValidationError({
+          message: "Valid entity ID is required",
+          field: "id",
+          violations: ["ID parameter must be a valid string"],
+        });
+      }
+
+      await this.assertInParent(res, id, { includeDeleted: true });
+      const restoredEntity = await this.service.restore(id);
+
+      const response = {
+        success: true,
+        message: "Entity restored successfully",
+        data: restoredEntity,
+        timestamp: new Date().toISOString(),
+      };
+
+      this.logger.debug("Controller: Restore operation successful", {
+        entityId: restoredEntity._id,
+        statusCode: 200,
+      });
+
+      res.status(200).json(response);
+    } catch (error) {
+      this.logger.error("Controller: Restore operation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        entityId: req.params["id"],
+        method: req.method,
+      });
+
+      // Pass error to global error handler
+      next(error);
+    }
+  }
+
+  /**
+   * Handles HTTP POST requests creating many entities at once.
+   * Responds 201 when every item was created and 207 otherwise, with the
+   * outcome of each item. All errors are passed to the global error handler via next().
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next middleware function for error handling
+   * @returns {Promise<void>} Resolves when response is sent or error is passed to next()
+   */
+  public async bulkCreate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const dto = res.locals.bulkDto as BulkRequestDto<TEntity>;
+
+      this.logger.debug("Controller: Processing bulk create request", {
+        method: req.method,
+        path: req.path,
+        total: dto.total,
+        rejected: dto.rejected.length,
+        ordered: dto.ordered,
+      });
+
+      const result = await this.runBulk(dto, (items, ordered) =>
+        this.service.bulkCreate(
+          items.map((item) => this.withParent(res, item)),
+          { ordered },
+        ),
+      );
+
+      this.sendBulkResponse(res, result, 201, "created");
+    } catch (error) {
+      this.logger.error("Controller: Bulk create operation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        path: req.path,
+        method: req.method,
+      });
+
+      // Pass error to global error handler
+      next(error);
+    }
+  }
+
+  /**
+   * Handles HTTP PATCH requests updating many entities at once.
+   * Responds 200 when every item was updated and 207 otherwise, with the
+   * outcome of each item. Bulk updates carry no expected versions, so they
+   * are refused with 428 when updates require `If-Match`. All errors are
+   * passed to the global error handler via next().
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next middleware function for error handling
+   * @returns {Promise<void>} Resolves when response is sent or error is passed to next()
+   */
+  public async bulkUpdate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      if (this.options.requireIfMatch) {
+        throw new ApplicationError({
+          type: ErrorType.PRECONDITION_REQUIRED,
+          message:
+            "Bulk updates are not available when updates require an If-Match header",
+          statusCode: 428,
+          metadata: { header: "If-Match" },
+        });
+      }
+      const dto = res.locals.bulkDto as BulkRequestDto<BulkUpdateItem<TEntity>>;
+
+      this.logger.debug("Controller: Processing bulk update request", {
+        method: req.method,
+        path: req.path,
+        total: dto.total,
+        rejected: dto.rejected.length,
+        ordered: dto.ordered,
+      });
+
+      const scoped = await this.withinParent(res, dto, ({ id }) => id);
+      const result = await this.runBulk(scoped, (items, ordered) =>
+        this.service.bulkUpdate(
+          items.map(({ id, data }) => ({
+            id,
+            data: this.withParent(res, data),
+          })),
+          { ordered },
+        ),
+      );
+
+      this.sendBulkResponse(res, result, 200, "updated");
+    } catch (error) {
+      this.logger.error("Controller: Bulk update operation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        path: req.path,
+        method: req.method,
+      });
+
+      // Pass error to global error handler
+      next(error);
+    }
+  }
+
+  /**
+   * Handles HTTP DELETE requests removing many entities at once. Entities are
+   * soft-deleted when soft delete is enabled. Responds 200 when every item was
+   * removed and 207 otherwise. All errors are passed to the global error handler via next().
+   *
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next middleware function for error handling
+   * @returns {Promise<void>} Resolves when response is sent or error is passed to next()
+   */
+  public async bulkRemove(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const dto = res.locals.bulkDto as BulkRequestDto<string>;
+
+      this.logger.debug("Controller: Processing bulk remove request", {
+        method: req.method,
+        path: req.path,
+        total: dto.total,
+        rejected: dto.rejected.length,
+        ordered: dto.ordered,
+      });
+
+      const scoped = await this.withinParent(res, dto, (id) => id);
+      const result = await this.runBulk(scoped, (ids, ordered) =>
+        this.service.bulkRemove(ids, { ordered }),
+      );
+
+      this.sendBulkResponse(res, result, 200, "removed");
+    } catch (error) {
+      this.logger.error("Controller: Bulk remove operation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        path: req.path,
+        method: req.method,
+      });
+
+      // Pass error to global error handler
+      next(error);
+    }
+  }
+
+  /**
+   * Builds the middleware mounting a nested router under the entities of
+   * this controller: the parent id of the URL must be valid and point to an
+   * existing entity, which is then exposed to the child routes as
+   * `res.locals.parentScope`.
+   *
+   * @param {string} param - Route parameter holding the parent id
+   * @param {string} field - Child field storing the parent id
+   * @returns {RequestHandler} Express middleware function
+   */
+  public parentScope(param: string, field: string): RequestHandler {
+    return async (
+      req: Request,
+      res: Response,
+      next: NextFunction,
+    ): Promise<void> => {
+      try {
+        const id = req.params[param];
+        if (!id || typeof id !== "string") {
+          throw new ValidationError({
+            message: "Valid parent ID is required",
+            field: param,
+            violations: [`${param} parameter must be a valid string`],
+          });
+        }
+
+        try {
+          await this.service.read(id);
+        } catch (error) {
+          if (error instanceof ValidationError) {
+            throw new ValidationError({
+              message: "Invalid parent identifier format",
+              field: param,
+              violations: error.violations,
+            });
+          }
+          if (
+            error instanceof ApplicationError &&
+            error.type === ErrorType.NOT_FOUND_ERROR
+          ) {
+            throw new ApplicationError({
+              type: ErrorType.NOT_FOUND_ERROR,
+              message: `Parent entity with ID ${id} not found`,
+              statusCode: 404,
+              metadata: { [param]: id },
+            });
+          }
+          throw error;
+        }
+
+        const scope: ParentScope = { param, field, id };
+        res.locals.parentScope = scope;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+
+  /**
+   * Sets the `ETag` response header from the entity version.
+   *
+   * @param {Response} res - Express response object
+   * @param {MongoDocument<TEntity> | ProjectedDocument<TEntity>} entity - Entity being returned
+   * @private
+   */
+  private setETag(
+    res: Response,
+    entity: MongoDocument<TEntity> | ProjectedDocument<TEntity>,
+  ): void {
+    res.setHeader("ETag", `"${entity.__v ?? 0}"`);
+  }
+
+  /**
+   * Resolves the version an update is conditioned on from the `If-Match` header.
+   *
+   * @param {Request} req - Express request object
+   * @returns {number | undefined} Expected version, or undefined when the update is unconditional
+   * @throws {ApplicationError} When the header is required but missing (428)
+   * @throws {ConcurrencyError} When the header cannot match any version (412)
+   * @private
+   */
+  private resolveExpectedVersion(req: Request): number | undefined {
+    const header = req.get("If-Match")?.trim();
+
+    if (!header) {
+      if (this.options.requireIfMatch) {
+        throw new ApplicationError({
+          type: ErrorType.PRECONDITION_REQUIRED,
+          message: "If-Match header is required to update this resource",
+          statusCode: 428,
+          metadata: { entityId: req.params["id"], header: "If-Match" },
+        });
+      }
+      return undefined;
+    }
+
+    if (header === "*") {
+      return undefined;
+    }
+
+    const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+    if (!match) {
+      throw new ConcurrencyError({
+        message: "If-Match header does not match the current entity version",
+        metadata: { entityId: req.params["id"], ifMatch: header },
+      });
+    }
+
+    return Number(match[1]);
+  }
+
+  /**
+   * Runs a bulk operation for the items that passed validation and merges its
+   * outcome with the validation failures. In ordered mode only the items
+   * placed before the first invalid one are sent to the service.
+   *
+   * @template TItem - Validated item type
+   * @template TResult - Entity type returned for successful items
+   * @param {BulkRequestDto<TItem>} dto - Validated bulk request
+   * @param {(items: TItem[], ordered: boolean) => Promise<BulkResult<TResult>>} execute - Service call
+   * @returns {Promise<BulkResult<TResult>>} Outcome of every item of the request
+   * @private
+   */
+  private async runBulk<TItem, TResult>(
+    dto: BulkRequestDto<TItem>,
+    execute: (items: TItem[], ordered: boolean) => Promise<BulkResult<TResult>>,
+  ): Promise<BulkResult<TResult>> {
+    const collector = new BulkResultCollector<TResult>(dto.total, dto.ordered);
+    dto.rejected.forEach((result) => collector.record(result));
+
+    const stop = collector.stopIndex();
+    const accepted = dto.items.filter(({ index }) => index < stop);
+
+    if (accepted.length > 0) {
+      const result = await execute(
+        accepted.map(({ data }) => data),
+        dto.ordered,
+      );
+      // Service results are positioned within `accepted`, map them back
+      for (const item of result.results) {
+        collector.record({ ...item, index: accepted[item.index]!.index });
+      }
+    }
+
+    return collector.build();
+  }
+
+  /**
+   * Sends the response of a bulk operation.
+   *
+   * @param {Response} res - Express response object
+   * @param {BulkResult<unknown>} result - Outcome of the operation
+   * @param {number} successStatus - Status code used when every item succeeded
+   * @param {string} action - Past participle describing the operation
+   * @private
+   */
+  private sendBulkResponse(
+    res: Response,
+    result: BulkResult<unknown>,
+    successStatus: number,
+    action: string,
+  ): void {
+    const complete = result.failed === 0 && result.skipped === 0;
+    const statusCode = complete ? successStatus : 207;
+
+    const response = {
+      success: complete,
+      message: complete
+        ? `All entities ${action} successfully`
+        : `${result.succeeded} of ${result.results.length} entities ${action}`,
+      data: result.results,
+      summary: {
+        ordered: result.ordered,
+        succeeded: result.succeeded,
+        failed: result.failed,
+        skipped: result.skipped,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    this.logger.debug("Controller: Bulk operation completed", {
+      succeeded: result.succeeded,
+      failed: result.failed,
+      skipped: result.skipped,
+      statusCode,
+    });
+
+    res.status(statusCode).json(response);
+  }
+
+  /**
+   * Sends the Server-Sent Events response headers, once.
+   *
+   * @param {Response} res - Express response object
+   * @private
+   */
+  private openEventStream(res: Response): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+  }
+
+  /**
+   * Writes a change event to the stream. The event id is the resume position
+   * and the event name the kind of change.
+   *
+   * @param {Response} res - Express response object
+   * @param {ChangeEvent<TEntity>} event - Change event
+   * @private
+   */
+  private writeChangeEvent(res: Response, event: ChangeEvent<TEntity>): void {
+    this.openEventStream(res);
+    const { id, ...change } = event;
+    res.write(
+      `id: ${id}\nevent: ${event.operation}\ndata: ${JSON.stringify(change)}\n\n`,
+    );
+  }
+
+  /**
+   * Reports a change feed failure as an `error` event and ends the stream.
+   *
+   * @param {Response} res - Express response object
+   * @param {Error} error - Change feed failure
+   * @private
+   */
+  private endChangeStream(res: Response, error: Error): void {
+    this.openEventStream(res);
+    const type =
+      error instanceof ApplicationError ? error.type : ErrorType.DATABASE_ERROR;
+    res.write(
+      `event: error\ndata: ${JSON.stringify({ type, message: error.message })}\n\n`,
+    );
+    res.end();
+  }
+
+  /**
+   * Reads the `includeDeleted` query flag. Only honoured when soft delete is enabled.
+   *
+   * @param {Request} req - Express request object
+   * @returns {boolean} Whether soft-deleted entities should be returned
+   * @private
+   */
+  private includeDeleted(req: Request): boolean {
+    return (
+      this.options.softDelete !== undefined &&
+      req.query["includeDeleted"] === "true"
+    );
+  }
+
+  /**
+   * Reads the `expand` query parameter, e.g. `?expand=productId,tagIds`.
+   *
+   * @param {Request} req - Express request object
+   * @returns {string[] | undefined} Reference paths to expand
+   * @throws {ValidationError} When the parameter is malformed
+   * @private
+   */
+  private expand(req: Request): string[] | undefined {
+    return parseFieldList(req.query["expand"], "expand");
+  }
+
+  /**
+   * Sets the parent field of written data, or of a find filter, to the
+   * parent of a nested route. Data is returned as-is outside nested routes.
+   *
+   * @template T - Data type
+   * @param {Response} res - Express response object
+   * @param {T} data - Validated data
+   * @returns {T} Data bound to the parent
+   * @private
+   */
+  private withParent<T>(res: Response, data: T): T {
+    const parent = res.locals.parentScope as ParentScope | undefined;
+    return parent ? { ...data, [parent.field]: parent.id } : data;
+  }
+
+  /**
+   * Ensures that the entity targeted by a nested route belongs to the parent
+   * of the route. Entities of another parent are reported as not found.
+   *
+   * @param {Response} res - Express response object
+   * @param {string} id - Entity identifier
+   * @param {Object} [options] - Lookup options
+   * @param {boolean} [options.includeDeleted] - Also look at soft-deleted entities
+   * @param {boolean} [options.allowMissing] - Accept an unknown id (upsert)
+   * @returns {Promise<void>} Resolves when the entity belongs to the parent
+   * @throws {ApplicationError} When the entity belongs to another parent (404)
+   * @private
+   */
+  private async assertInParent(
+    res: Response,
+    id: string,
+    options: { includeDeleted?: boolean; allowMissing?: boolean } = {},
+  ): Promise<void> {
+    const parent = res.locals.parentScope as ParentScope | undefined;
+    if (!parent) {
+      return;
+    }
+
+    let entity: MongoDocument<TEntity>;
+    try {
+      entity = await this.service.read(id, {
+        includeDeleted: options.includeDeleted,
+      });
+    } catch (error) {
+      if (
+        options.allowMissing &&
+        error instanceof ApplicationError &&
+        error.type === ErrorType.NOT_FOUND_ERROR
+      ) {
+        return;
+      }
+      throw error;
+    }
+
+    if (
+      String((entity as Record<string, unknown>)[parent.field]) !== parent.id
+    ) {
+      throw new ApplicationError({
+        type: ErrorType.NOT_FOUND_ERROR,
+        message: `Entity with ID ${id} not found`,
+        statusCode: 404,
+        metadata: { requestedId: id, [parent.param]: parent.id },
+      });
+    }
+  }
+
+  /**
+   * Rejects the items of a nested bulk request that target entities of
+   * another parent, as not found. Unknown and malformed ids are left to the
+   * service, which reports them.
+   *
+   * @template TItem - Validated item type
+   * @param {Response} res - Express response object
+   * @param {BulkRequestDto<TItem>} dto - Validated bulk request
+   * @param {(item: TItem) => string} idOf - Identifier targeted by an item
+   * @returns {Promise<BulkRequestDto<TItem>>} Request restricted to the parent
+   * @private
+   */
+  private async withinParent<TItem>(
+    res: Response,
+    dto: BulkRequestDto<TItem>,
+    idOf: (item: TItem) => string,
+  ): Promise<BulkRequestDto<TItem>> {
+    if (!res.locals.parentScope) {
+      return dto;
+    }
+
+    const foreign = await Promise.all(
+      dto.items.map(({ data }) =>
+        this.assertInParent(res, idOf(data)).then(
+          () => false,
+          (error: unknown) =>
+            error instanceof ApplicationError &&
+            error.type === ErrorType.NOT_FOUND_ERROR,
+        ),
+      ),
+    );
+
+    return {
+      ...dto,
+      items: dto.items.filter((_item, position) => !foreign[position]),
+      rejected: [
+        ...dto.rejected,
+        ...dto.items
+          .filter((_item, position) => foreign[position])
+          .map(({ index, data }) => ({
+            index,
+            id: idOf(data),
+            status: "failed" as const,
+            error: notFoundItemError(idOf(data)),
+          })),
+      ],
+    };
+  }
+
+  /**
+   * Ensures the request is allowed to purge entities.
+   *
+   * @param {Request} req - Express request object
+   * @returns {Promise<void>} Resolves when the purge is authorized
+   * @throws {ApplicationError} When the purge is not authorized
+   * @private
+   */
+  private async authorizePurge(req: Request): Promise<void> {
+    const authorize = this.options.softDelete?.authorizePurge;
+    const allowed = authorize ? await authorize(req) : false;
+
+    if (!allowed) {
+      throw new ApplicationError({
+        type: ErrorType.AUTHORIZATION_ERROR,
+        message: "Not allowed to purge entities",
+        statusCode: 403,
+        metadata: { entityId: req.params["id"], operation: "purge" },
+      });
+    }
+  }
 }
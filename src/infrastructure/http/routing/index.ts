@@ -1,2 +1,3 @@
 export * from "./controller.js";
 export * from "./router.js";
+export type * from "./types.js";
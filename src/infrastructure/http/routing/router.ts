@@ -1,20 +1,41 @@
 import { Router } from "express";
 import type { CrudController } from "./controller.js";
+import type { CrudRouterOptions } from "./types.js";
 import type { ZodObject, ZodType } from "zod";
 
 import { validationMiddleware } from "../middlewares/datavalidator.js";
+import { projectionMiddleware } from "../middlewares/projection.js";
+import { requestContextMiddleware } from "../middlewares/requestcontext.js";
 
 /**
- * Generic CRUD Router.
+ * Generic CRUD Router. Routers passed as `children` are mounted under the
+ * entities of this one, e.g. `/:orderId/items`.
  * @param {CrudController<T>} controller - Crud Controller
  * @param {ZodObject<Record<string, ZodType>>} schema - Zod Schema.
+ * @param {CrudRouterOptions} [options] - Optional route configuration.
  * @returns {Router} Express router with CRUD endpoints
  */
 export function createCrudRouter<T>(
   controller: CrudController<T>,
   schema: ZodObject<Record<string, ZodType>>,
+  options: CrudRouterOptions = {},
 ): Router {
-  const router: Router = Router();
+  // Nested routers read the parent id from the parameters of the parent path
+  const router: Router = Router({ mergeParams: true });
+
+  // Request context (actor for audit fields, tenant), opened by the parent
+  // router for nested ones
+  if (options.requestContext !== false) {
+    router.use(
+      requestContextMiddleware({
+        resolveActor: options.resolveActor,
+        tenant: options.tenant,
+      }),
+    );
+  }
+
+  // Field selection (?fields / ?exclude) for read endpoints
+  const projection = projectionMiddleware(schema);
 
   // Create
   router.post(
@@ -26,8 +47,38 @@ export function createCrudRouter<T>(
     controller.create.bind(controller),
   );
 
+  // Bulk create, update and delete (registered before the /:id routes)
+  const bulkValidation = validationMiddleware<T>(schema, {
+    maxBulkItems: options.maxBulkItems,
+  });
+  router.post("/bulk", bulkValidation, controller.bulkCreate.bind(controller));
+  router.patch("/bulk", bulkValidation, controller.bulkUpdate.bind(controller));
+  router.delete(
+    "/bulk",
+    bulkValidation,
+    controller.bulkRemove.bind(controller),
+  );
+
+  // Change feed over Server-Sent Events, filtered like find
+  if (options.stream) {
+    router.get(
+      "/stream",
+      validationMiddleware<T>(schema),
+      controller.stream.bind(controller),
+    );
+  }
+
+  // Child resources, scoped to an existing parent entity
+  for (const child of options.children ?? []) {
+    router.use(
+      `/:${child.param}/${child.path}`,
+      controller.parentScope(child.param, child.field ?? child.param),
+      child.router,
+    );
+  }
+
   // Read by ID
-  router.get("/:id", controller.read.bind(controller));
+  router.get("/:id", projection, controller.read.bind(controller));
 
   // Update
   router.patch(
@@ -36,12 +87,25 @@ export function createCrudRouter<T>(
     controller.update.bind(controller),
   );
 
-  // Delete
+  // Replace (complete schema), creating the entity when upsert is enabled
+  router.put(
+    "/:id",
+    validationMiddleware<T>(schema),
+    controller.replace.bind(controller),
+  );
+
+  // Delete (soft delete when enabled, ?purge=true for a hard delete)
   router.delete("/:id", controller.remove.bind(controller));
 
+  // Restore
+  if (options.softDelete) {
+    router.post("/:id/restore", controller.restore.bind(controller));
+  }
+
   // Find
   router.get(
     "/",
+    projection,
     validationMiddleware<T>(schema),
     controller.find.bind(controller),
   );
@@ -0,0 +1,97 @@
+import type { Request, Router } from "express";
+
+/**
+ * Soft delete behaviour for the HTTP layer.
+ */
+export interface SoftDeleteOptions {
+  /** Decides whether a request may purge (hard delete) entities. Purge is denied when omitted */
+  authorizePurge?: (req: Request) => boolean | Promise<boolean>;
+}
+
+/**
+ * Server-Sent Events behaviour of the `GET /stream` route.
+ */
+export interface StreamOptions {
+  /** Interval between the comments keeping idle connections open (default 15000 ms) */
+  heartbeatIntervalMs?: number;
+}
+
+/**
+ * Options for a CRUD controller.
+ */
+export interface CrudControllerOptions {
+  /** Enables soft delete handling (restore, purge and includeDeleted) */
+  softDelete?: SoftDeleteOptions;
+  /** Rejects updates without an `If-Match` header with 428 Precondition Required */
+  requireIfMatch?: boolean;
+  /** Lets `PUT /:id` create the entity when the id does not exist */
+  upsert?: boolean;
+  /** Change feed streaming settings */
+  stream?: StreamOptions;
+}
+
+/**
+ * Parent of the entities served by a nested router, resolved from the URL
+ * (`/orders/:orderId/items`) and stored in `res.locals.parentScope`.
+ */
+export interface ParentScope {
+  /** Route parameter holding the parent id */
+  param: string;
+  /** Child field storing the parent id */
+  field: string;
+  /** Identifier of the parent entity */
+  id: string;
+}
+
+/**
+ * Child resource mounted under the entities of a CRUD router.
+ */
+export interface NestedRouterOptions {
+  /** Path segment of the child resource, e.g. `items` for `/orders/:orderId/items` */
+  path: string;
+  /** Route parameter holding the parent id, e.g. `orderId` */
+  param: string;
+  /** Child field storing the parent id (default: the parameter name) */
+  field?: string;
+  /** Router of the child resource, created with `createCrudRouter` */
+  router: Router;
+}
+
+/**
+ * Where the tenant of a request is read from:
+ * - `{ header }`: a request header, e.g. `X-Tenant-Id`
+ * - `{ subdomain }`: the subdomain of a base domain, e.g. `acme` for
+ *   `acme.example.com` with `{ subdomain: "example.com" }`
+ * - `{ claim }`: a claim of the authenticated credentials, read from
+ *   `req.auth` (express-jwt) or `req.user` (Passport)
+ * - a function returning the tenant of a request
+ */
+export type TenantResolver =
+  | { header: string }
+  | { subdomain: string }
+  | { claim: string }
+  | ((req: Request) => string | undefined);
+
+/**
+ * Options for the generated CRUD router.
+ */
+export interface CrudRouterOptions {
+  /** Adds the `POST /:id/restore` route */
+  softDelete?: boolean;
+  /** Resolves the actor recorded in createdBy/updatedBy/deletedBy */
+  resolveActor?: (req: Request) => string | undefined;
+  /** Resolves the tenant of every request, rejected with 400 when missing */
+  tenant?: TenantResolver;
+  /**
+   * Opens the request context of the actor and tenant (default true). Routers
+   * mounted as `children` of another CRUD router run in the context of their
+   * parent and set it to false.
+   */
+  requestContext?: boolean;
+  /** Maximum number of items accepted by the `/bulk` routes (default 1000) */
+  maxBulkItems?: number;
+  /** Adds the `GET /stream` Server-Sent Events route */
+  stream?: boolean;
+  /** Child resources mounted at `/:param/path`, scoped to an existing parent */
+  children?: NestedRouterOptions[];
+}
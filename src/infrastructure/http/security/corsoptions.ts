@@ -46,6 +46,11 @@ export function checkCorsOptions(allowedOrigins: string[]): CorsOptions {
     /**
      * The allowed headers for CORS requests.
      */
-    allowedHeaders: ["Accept", "Content-Type", "Authorization"],
+    allowedHeaders: ["Accept", "Content-Type", "Authorization", "If-Match"],
+
+    /**
+     * Response headers readable by the browser (ETag is needed for If-Match).
+     */
+    exposedHeaders: ["ETag"],
   };
 }
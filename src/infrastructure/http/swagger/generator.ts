@@ -1,7 +1,19 @@
 import type { ZodObject, ZodType } from "zod";
 import { z } from "zod";
 import type swaggerJsdoc from "swagger-jsdoc";
-import type { OpenAPISchemaObject } from "./types.js";
+import type { OpenAPISchemaObject, SwaggerNestedResource } from "./types.js";
+import {
+  describeFilterFields,
+  operatorsForKind,
+} from "../../tools/filtercompiler/index.js";
+import type { FilterOperator } from "../../tools/filtercompiler/index.js";
+import { describeReferences } from "../../tools/schemabuilder/index.js";
+import { resolveIdStrategy } from "../../persistance/ids.js";
+import type {
+  IdCodec,
+  IdStrategy,
+  UniqueConstraint,
+} from "../../persistance/types.js";
 
 /**
  * Converts a Zod schema to OpenAPI/Swagger schema
@@ -219,16 +231,56 @@ export interface SwaggerConfig<T> {
   resourceName: string;
   serverUrl: string;
   schema: ZodObject<Record<string, ZodType>>;
-  uniqueFields?: (keyof T)[];
+  uniqueFields?: UniqueConstraint<T>[];
+  softDelete?: boolean;
+  stream?: boolean;
+  upsert?: boolean;
+  textSearchFields?: string[];
+  children?: SwaggerNestedResource[];
+  idStrategy?: IdStrategy;
+  // Header carrying the tenant of a multi-tenant API
+  tenantHeader?: string;
+  // Route parameters of the parent resources, outermost first (nested resources only)
+  parents?: Array<{ param: string; field: string; idStrategy?: IdStrategy }>;
 }
 
 /**
  * Generates swagger-jsdoc options for CRUD API
  */
 export class SwaggerGenerator<T> {
+  /**
+   * Audit fields the repository maintains on every document
+   */
+  private static readonly auditProperties: Record<string, OpenAPISchemaObject> =
+    {
+      createdAt: {
+        type: "string",
+        format: "date-time",
+        description: "Creation timestamp",
+      },
+      updatedAt: {
+        type: "string",
+        format: "date-time",
+        description: "Last modification timestamp",
+      },
+      createdBy: {
+        type: "string",
+        nullable: true,
+        description: "Actor that created the entity",
+      },
+      updatedBy: {
+        type: "string",
+        nullable: true,
+        description: "Actor that last modified the entity",
+      },
+    };
+
   private readonly config: SwaggerConfig<T>;
   private readonly swaggerSchema: OpenAPISchemaObject;
+  // Request body schema: the parent field of a nested resource comes from the URL
+  private readonly bodySchema: OpenAPISchemaObject;
   private readonly example: unknown;
+  private readonly ids: IdCodec;
 
   /**
    * Creates a new SwaggerGenerator instance
@@ -237,7 +289,20 @@ export class SwaggerGenerator<T> {
   public constructor(config: SwaggerConfig<T>) {
     this.config = config;
     this.swaggerSchema = ZodToSwagger.convertSchema(config.schema);
-    this.example = ZodToSwagger.generateExample(config.schema);
+    this.ids = resolveIdStrategy(config.idStrategy);
+    const parentField = config.parents?.at(-1)?.field;
+    const body =
+      parentField && parentField in config.schema.shape
+        ? z.object(
+            Object.fromEntries(
+              Object.entries(config.schema.shape).filter(
+                ([key]) => key !== parentField,
+              ),
+            ),
+          )
+        : config.schema;
+    this.bodySchema = ZodToSwagger.convertSchema(body);
+    this.example = ZodToSwagger.generateExample(body);
   }
 
   /**
@@ -249,6 +314,8 @@ export class SwaggerGenerator<T> {
       this.config.resourceName.charAt(0).toUpperCase() +
       this.config.resourceName.slice(1);
 
+    const nested = this.nestedDefinitions();
+
     return {
       definition: {
         openapi: "3.0.0",
@@ -273,12 +340,31 @@ export class SwaggerGenerator<T> {
             name: capitalizedName,
             description: `${capitalizedName} operations`,
           },
+          ...nested.tags,
         ],
         components: {
-          schemas: this.generateSchemas(),
+          schemas: { ...this.generateSchemas(), ...nested.schemas },
           responses: this.generateResponses(),
+          headers: {
+            ETag: {
+              description:
+                "Entity version, send it back in If-Match to update safely",
+              schema: { type: "string", example: '"3"' },
+            },
+          },
+          ...(this.config.tenantHeader && {
+            securitySchemes: {
+              tenant: {
+                type: "apiKey",
+                in: "header",
+                name: this.config.tenantHeader,
+                description: "Tenant the request is served for",
+              },
+            },
+          }),
         },
-        paths: this.generatePaths(),
+        ...(this.config.tenantHeader && { security: [{ tenant: [] }] }),
+        paths: { ...this.generatePaths(), ...nested.paths },
       },
       apis: [], // No necesitamos archivos porque generamos todo programáticamente
     };
@@ -299,22 +385,41 @@ export class SwaggerGenerator<T> {
         properties: {
           _id: {
             type: "string",
-            description: "MongoDB ObjectId",
-            example: "507f1f77bcf86cd799439011",
+            description: this.ids.description,
+            ...(this.ids.example && { example: this.ids.example }),
           },
           ...this.swaggerSchema.properties,
+          ...SwaggerGenerator.auditProperties,
+          __v: {
+            type: "integer",
+            description: "Entity version, incremented on every write",
+            example: 0,
+          },
+          ...(this.config.softDelete && {
+            deletedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Soft delete timestamp",
+            },
+            deletedBy: {
+              type: "string",
+              nullable: true,
+              description: "Actor that soft-deleted the entity",
+            },
+          }),
         },
         required: ["_id", ...(this.swaggerSchema.required || [])],
       },
       [`${capitalizedName}Create`]: {
         type: "object",
-        properties: this.swaggerSchema.properties,
-        required: this.swaggerSchema.required || [],
+        properties: this.bodySchema.properties,
+        required: this.bodySchema.required || [],
         example: this.example,
       },
       [`${capitalizedName}Update`]: {
         type: "object",
-        properties: this.swaggerSchema.properties,
+        properties: this.bodySchema.properties,
         description: "All fields are optional for updates",
       },
       Error: {
@@ -334,6 +439,9 @@ export class SwaggerGenerator<T> {
                   "NOT_FOUND_ERROR",
                   "DUPLICATE_ERROR",
                   "DATABASE_ERROR",
+                  "AUTHORIZATION_ERROR",
+                  "CONCURRENCY_ERROR",
+                  "PRECONDITION_REQUIRED",
                   "SERVER_ERROR",
                 ],
               },
@@ -356,6 +464,61 @@ export class SwaggerGenerator<T> {
           },
         },
       },
+      BulkResponse: {
+        type: "object",
+        description:
+          "Outcome of a bulk request. In ordered mode every item after the first failure is skipped",
+        properties: {
+          success: { type: "boolean", example: false },
+          message: { type: "string", example: "2 of 3 entities created" },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                index: { type: "integer", example: 1 },
+                id: this.idSchema(),
+                status: {
+                  type: "string",
+                  enum: ["success", "failed", "skipped"],
+                },
+                data: {
+                  type: "object",
+                  description: "Resulting entity (create and update only)",
+                },
+                error: {
+                  type: "object",
+                  properties: {
+                    type: { type: "string", example: "DUPLICATE_ERROR" },
+                    message: {
+                      type: "string",
+                      example: "Duplicate value detected",
+                    },
+                    field: { type: "string", example: "email" },
+                    fields: {
+                      type: "array",
+                      items: { type: "string" },
+                      description:
+                        "Every field of the violated unique constraint",
+                      example: ["email"],
+                    },
+                  },
+                },
+              },
+            },
+          },
+          summary: {
+            type: "object",
+            properties: {
+              ordered: { type: "boolean", example: false },
+              succeeded: { type: "integer", example: 2 },
+              failed: { type: "integer", example: 1 },
+              skipped: { type: "integer", example: 0 },
+            },
+          },
+          timestamp: { type: "string", format: "date-time" },
+        },
+      },
       ListResponse: {
         type: "object",
         properties: {
@@ -371,6 +534,22 @@ export class SwaggerGenerator<T> {
             type: "integer",
             example: 10,
           },
+          pagination: {
+            type: "object",
+            description:
+              "Offset mode returns skip/total/currentPage/totalPages; cursor mode returns nextCursor/prevCursor",
+            properties: {
+              skip: { type: "integer", example: 0 },
+              limit: { type: "integer", example: 50 },
+              total: { type: "integer", example: 42 },
+              hasNext: { type: "boolean", example: true },
+              hasPrevious: { type: "boolean", example: false },
+              currentPage: { type: "integer", example: 1 },
+              totalPages: { type: "integer", example: 1 },
+              nextCursor: { type: "string", nullable: true },
+              prevCursor: { type: "string", nullable: true },
+            },
+          },
         },
       },
     };
@@ -381,6 +560,10 @@ export class SwaggerGenerator<T> {
    * @returns {Record<string, unknown>} Response definitions
    */
   private generateResponses(): Record<string, unknown> {
+    const constraints = (this.config.uniqueFields ?? []).map((constraint) =>
+      (Array.isArray(constraint) ? constraint : [constraint]).map(String),
+    );
+
     return {
       ValidationError: {
         description: "Validation error",
@@ -419,7 +602,13 @@ export class SwaggerGenerator<T> {
         },
       },
       DuplicateError: {
-        description: "Duplicate entry",
+        description: constraints.length
+          ? `Duplicate entry. Unique: ${constraints
+              .map((fields) =>
+                fields.length > 1 ? `(${fields.join(", ")})` : fields[0],
+              )
+              .join(", ")}`
+          : "Duplicate entry",
         content: {
           "application/json": {
             schema: { $ref: "#/components/schemas/Error" },
@@ -427,10 +616,55 @@ export class SwaggerGenerator<T> {
               success: false,
               error: {
                 type: "DUPLICATE_ERROR",
-                message: this.config.uniqueFields
-                  ? `Duplicate value for field(s): ${(this.config.uniqueFields as string[]).join(", ")}`
+                message: constraints[0]
+                  ? "Duplicate value detected"
                   : "Duplicate entry",
                 timestamp: new Date().toISOString(),
+                ...(constraints[0] && {
+                  details: {
+                    duplicateFields: constraints[0],
+                    operation: "create",
+                  },
+                }),
+              },
+            },
+          },
+        },
+      },
+      ConcurrencyError: {
+        description: "The If-Match version is stale",
+        headers: {
+          ETag: {
+            description: "Current entity version",
+            schema: { type: "string", example: '"4"' },
+          },
+        },
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+            example: {
+              success: false,
+              error: {
+                type: "CONCURRENCY_ERROR",
+                message: "Entity was modified by another request",
+                timestamp: new Date().toISOString(),
+                details: { expectedVersion: 3, currentVersion: 4 },
+              },
+            },
+          },
+        },
+      },
+      PreconditionRequired: {
+        description: "The If-Match header is required",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+            example: {
+              success: false,
+              error: {
+                type: "PRECONDITION_REQUIRED",
+                message: "If-Match header is required to update this resource",
+                timestamp: new Date().toISOString(),
               },
             },
           },
@@ -464,7 +698,7 @@ export class SwaggerGenerator<T> {
       this.config.resourceName.charAt(0).toUpperCase() +
       this.config.resourceName.slice(1);
 
-    return {
+    const paths: Record<string, unknown> = {
       [this.config.basePath]: {
         get: {
           tags: [capitalizedName],
@@ -545,21 +779,17 @@ export class SwaggerGenerator<T> {
           summary: `Get ${this.config.resourceName.slice(0, -1)} by ID`,
           description: `Retrieve a single ${this.config.resourceName.slice(0, -1)} by its ID`,
           parameters: [
-            {
-              name: "id",
-              in: "path",
-              required: true,
-              description: "MongoDB ObjectId",
-              schema: {
-                type: "string",
-                pattern: "^[a-f\\d]{24}$",
-                example: "507f1f77bcf86cd799439011",
-              },
-            },
+            this.idParameter(),
+            ...this.softDeleteParameters("includeDeleted"),
+            ...this.projectionParameters(),
+            ...this.expandParameters(),
           ],
           responses: {
             "200": {
               description: "Successful response",
+              headers: {
+                ETag: { $ref: "#/components/headers/ETag" },
+              },
               content: {
                 "application/json": {
                   schema: {
@@ -587,16 +817,14 @@ export class SwaggerGenerator<T> {
           summary: `Update ${this.config.resourceName.slice(0, -1)}`,
           description: `Partially update a ${this.config.resourceName.slice(0, -1)} by its ID`,
           parameters: [
+            this.idParameter(),
             {
-              name: "id",
-              in: "path",
-              required: true,
-              description: "MongoDB ObjectId",
-              schema: {
-                type: "string",
-                pattern: "^[a-f\\d]{24}$",
-                example: "507f1f77bcf86cd799439011",
-              },
+              name: "If-Match",
+              in: "header",
+              required: false,
+              description:
+                "ETag returned by a previous read or update. The update is rejected with 412 when the entity has changed since.",
+              schema: { type: "string", example: '"3"' },
             },
           ],
           requestBody: {
@@ -612,6 +840,9 @@ export class SwaggerGenerator<T> {
           responses: {
             "200": {
               description: "Entity updated successfully",
+              headers: {
+                ETag: { $ref: "#/components/headers/ETag" },
+              },
               content: {
                 "application/json": {
                   schema: {
@@ -632,25 +863,103 @@ export class SwaggerGenerator<T> {
             },
             "400": { $ref: "#/components/responses/ValidationError" },
             "404": { $ref: "#/components/responses/NotFoundError" },
+            "409": { $ref: "#/components/responses/DuplicateError" },
+            "412": { $ref: "#/components/responses/ConcurrencyError" },
+            "428": { $ref: "#/components/responses/PreconditionRequired" },
             "500": { $ref: "#/components/responses/ServerError" },
           },
         },
-        delete: {
+        put: {
           tags: [capitalizedName],
-          summary: `Delete ${this.config.resourceName.slice(0, -1)}`,
-          description: `Delete a ${this.config.resourceName.slice(0, -1)} by its ID`,
+          summary: `Replace ${this.config.resourceName.slice(0, -1)}`,
+          description: this.config.upsert
+            ? `Replace a ${this.config.resourceName.slice(0, -1)} with complete data, or create it with this ID when it does not exist. _id, createdAt and createdBy are kept.`
+            : `Replace a ${this.config.resourceName.slice(0, -1)} with complete data. _id, createdAt and createdBy are kept.`,
           parameters: [
+            this.idParameter(),
             {
-              name: "id",
-              in: "path",
-              required: true,
-              description: "MongoDB ObjectId",
-              schema: {
-                type: "string",
-                pattern: "^[a-f\\d]{24}$",
-                example: "507f1f77bcf86cd799439011",
+              name: "If-Match",
+              in: "header",
+              required: false,
+              description:
+                "ETag returned by a previous read or update. The replace is rejected with 412 when the entity has changed since.",
+              schema: { type: "string", example: '"3"' },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: `#/components/schemas/${capitalizedName}Create`,
+                },
               },
             },
+          },
+          responses: {
+            "200": {
+              description: "Entity replaced successfully",
+              headers: {
+                ETag: { $ref: "#/components/headers/ETag" },
+              },
+              content: {
+                "application/json": {
+                  schema: {
+                    allOf: [
+                      { $ref: "#/components/schemas/SuccessResponse" },
+                      {
+                        type: "object",
+                        properties: {
+                          data: {
+                            $ref: `#/components/schemas/${capitalizedName}`,
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            ...(this.config.upsert && {
+              "201": {
+                description: "Entity created with the given ID",
+                headers: {
+                  ETag: { $ref: "#/components/headers/ETag" },
+                },
+                content: {
+                  "application/json": {
+                    schema: {
+                      allOf: [
+                        { $ref: "#/components/schemas/SuccessResponse" },
+                        {
+                          type: "object",
+                          properties: {
+                            data: {
+                              $ref: `#/components/schemas/${capitalizedName}`,
+                            },
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            }),
+            "400": { $ref: "#/components/responses/ValidationError" },
+            "404": { $ref: "#/components/responses/NotFoundError" },
+            "409": { $ref: "#/components/responses/DuplicateError" },
+            "412": { $ref: "#/components/responses/ConcurrencyError" },
+            "428": { $ref: "#/components/responses/PreconditionRequired" },
+            "500": { $ref: "#/components/responses/ServerError" },
+          },
+        },
+        delete: {
+          tags: [capitalizedName],
+          summary: `Delete ${this.config.resourceName.slice(0, -1)}`,
+          description: `Delete a ${this.config.resourceName.slice(0, -1)} by its ID`,
+          parameters: [
+            this.idParameter(),
+            ...this.softDeleteParameters("purge"),
           ],
           responses: {
             "200": {
@@ -676,14 +985,479 @@ export class SwaggerGenerator<T> {
         },
       },
     };
+
+    paths[`${this.config.basePath}/bulk`] = this.generateBulkPaths();
+
+    if (this.config.stream) {
+      paths[`${this.config.basePath}/stream`] = {
+        get: {
+          tags: [capitalizedName],
+          summary: `Stream ${this.config.resourceName} changes`,
+          description: `Server-Sent Events feed of the changes applied to ${this.config.resourceName}. Events are named after the change (create, update, delete, restore) and carry its id; reconnect with \`Last-Event-ID\` to resume. The filters of the list endpoint apply, deletes are always sent.`,
+          parameters: [
+            ...this.filterParameters(),
+            {
+              name: "Last-Event-ID",
+              in: "header",
+              description: "Resume after this event",
+              required: false,
+              schema: { type: "string" },
+            },
+            {
+              name: "lastEventId",
+              in: "query",
+              description:
+                "Resume after this event, for clients that cannot set headers",
+              required: false,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Event stream",
+              content: {
+                "text/event-stream": {
+                  schema: { type: "string" },
+                },
+              },
+            },
+            "400": { $ref: "#/components/responses/ValidationError" },
+            "500": { $ref: "#/components/responses/ServerError" },
+          },
+        },
+      };
+    }
+
+    if (this.config.softDelete) {
+      paths[`${this.config.basePath}/{id}/restore`] = {
+        post: {
+          tags: [capitalizedName],
+          summary: `Restore ${this.config.resourceName.slice(0, -1)}`,
+          description: `Restore a soft-deleted ${this.config.resourceName.slice(0, -1)} by its ID`,
+          parameters: [this.idParameter()],
+          responses: {
+            "200": {
+              description: "Entity restored successfully",
+              content: {
+                "application/json": {
+                  schema: {
+                    allOf: [
+                      { $ref: "#/components/schemas/SuccessResponse" },
+                      {
+                        type: "object",
+                        properties: {
+                          data: {
+                            $ref: `#/components/schemas/${capitalizedName}`,
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            "404": { $ref: "#/components/responses/NotFoundError" },
+            "409": { $ref: "#/components/responses/DuplicateError" },
+            "500": { $ref: "#/components/responses/ServerError" },
+          },
+        },
+      };
+    }
+
+    const parentParameters = this.parentParameters();
+    if (parentParameters.length > 0) {
+      for (const item of Object.values(paths)) {
+        (item as Record<string, unknown>)["parameters"] = parentParameters;
+      }
+    }
+
+    return paths;
   }
 
   /**
-   * Generate query parameters for filtering
+   * Generate the path parameter of the entity identifier
+   * @returns {unknown} Path parameter definition, following the id strategy
+   */
+  private idParameter(): unknown {
+    return {
+      name: "id",
+      in: "path",
+      required: true,
+      description: this.ids.description,
+      schema: this.idSchema(),
+    };
+  }
+
+  /**
+   * Generate the schema of an identifier
+   * @param {IdCodec} [ids] - Id strategy (default: the one of the resource)
+   * @returns {OpenAPISchemaObject} String schema with the pattern and example of the strategy
+   */
+  private idSchema(ids: IdCodec = this.ids): OpenAPISchemaObject {
+    return {
+      type: "string",
+      ...(ids.pattern && { pattern: ids.pattern.source }),
+      ...(ids.example && { example: ids.example }),
+    };
+  }
+
+  /**
+   * Generate the path parameters identifying the parent resources
+   * @returns {unknown[]} Path parameter definitions, empty for top-level resources
+   */
+  private parentParameters(): unknown[] {
+    return (this.config.parents ?? []).map(({ param, idStrategy }) => ({
+      name: param,
+      in: "path",
+      required: true,
+      description: "Identifier of the parent entity",
+      schema: this.idSchema(resolveIdStrategy(idStrategy)),
+    }));
+  }
+
+  /**
+   * Generate the tags, schemas and paths of the nested resources, recursively
+   * @returns {{ tags: Array<{ name: string; description: string }>; schemas: Record<string, OpenAPISchemaObject>; paths: Record<string, unknown> }} Definitions to merge into the document
+   */
+  private nestedDefinitions(): {
+    tags: Array<{ name: string; description: string }>;
+    schemas: Record<string, OpenAPISchemaObject>;
+    paths: Record<string, unknown>;
+  } {
+    const definitions = {
+      tags: [] as Array<{ name: string; description: string }>,
+      schemas: {} as Record<string, OpenAPISchemaObject>,
+      paths: {} as Record<string, unknown>,
+    };
+
+    for (const child of this.config.children ?? []) {
+      const resourceName = child.resourceName ?? child.path;
+      const generator = new SwaggerGenerator({
+        title: this.config.title,
+        serverUrl: this.config.serverUrl,
+        basePath: `${this.config.basePath}/{${child.param}}/${child.path}`,
+        resourceName,
+        schema: child.schema,
+        uniqueFields: child.uniqueFields,
+        softDelete: child.softDelete,
+        stream: child.stream,
+        upsert: child.upsert,
+        textSearchFields: child.textSearchFields,
+        idStrategy: child.idStrategy,
+        children: child.children,
+        parents: [
+          ...(this.config.parents ?? []),
+          {
+            param: child.param,
+            field: child.field ?? child.param,
+            idStrategy: this.config.idStrategy,
+          },
+        ],
+      });
+      const capitalizedName =
+        resourceName.charAt(0).toUpperCase() + resourceName.slice(1);
+      const nested = generator.nestedDefinitions();
+
+      definitions.tags.push(
+        {
+          name: capitalizedName,
+          description: `${capitalizedName} operations`,
+        },
+        ...nested.tags,
+      );
+      Object.assign(
+        definitions.schemas,
+        generator.generateSchemas(),
+        nested.schemas,
+      );
+      Object.assign(definitions.paths, generator.generatePaths(), nested.paths);
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Generate the bulk create, update and delete operations
+   * @returns {Record<string, unknown>} Operations of the `/bulk` path
+   */
+  private generateBulkPaths(): Record<string, unknown> {
+    const capitalizedName =
+      this.config.resourceName.charAt(0).toUpperCase() +
+      this.config.resourceName.slice(1);
+
+    const ordered = {
+      type: "boolean",
+      default: true,
+      description:
+        "Stop at the first failing item (true) or process every item (false)",
+    };
+
+    return {
+      post: {
+        tags: [capitalizedName],
+        summary: `Create many ${this.config.resourceName}`,
+        description: `Create several ${this.config.resourceName} in one request. Each item is validated on its own and reported by index`,
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["items"],
+                properties: {
+                  items: {
+                    type: "array",
+                    items: {
+                      $ref: `#/components/schemas/${capitalizedName}Create`,
+                    },
+                  },
+                  ordered,
+                },
+              },
+            },
+          },
+        },
+        responses: this.bulkResponses("201"),
+      },
+      patch: {
+        tags: [capitalizedName],
+        summary: `Update many ${this.config.resourceName}`,
+        description: `Partially update several ${this.config.resourceName} in one request`,
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["items"],
+                properties: {
+                  items: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: ["id", "data"],
+                      properties: {
+                        id: this.idSchema(),
+                        data: {
+                          $ref: `#/components/schemas/${capitalizedName}Update`,
+                        },
+                      },
+                    },
+                  },
+                  ordered,
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          ...this.bulkResponses("200"),
+          "428": { $ref: "#/components/responses/PreconditionRequired" },
+        },
+      },
+      delete: {
+        tags: [capitalizedName],
+        summary: `Delete many ${this.config.resourceName}`,
+        description: `Delete several ${this.config.resourceName} by ID${this.config.softDelete ? " (soft delete)" : ""}`,
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["ids"],
+                properties: {
+                  ids: {
+                    type: "array",
+                    items: this.idSchema(),
+                  },
+                  ordered,
+                },
+              },
+            },
+          },
+        },
+        responses: this.bulkResponses("200"),
+      },
+    };
+  }
+
+  /**
+   * Generate the responses shared by the bulk operations
+   * @param {string} successStatus - Status code returned when every item succeeded
+   * @returns {Record<string, unknown>} Response definitions
+   */
+  private bulkResponses(successStatus: string): Record<string, unknown> {
+    return {
+      [successStatus]: {
+        description: "Every item succeeded",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/BulkResponse" },
+          },
+        },
+      },
+      "207": {
+        description: "Some items failed or were skipped",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/BulkResponse" },
+          },
+        },
+      },
+      "400": { $ref: "#/components/responses/ValidationError" },
+      "500": { $ref: "#/components/responses/ServerError" },
+    };
+  }
+
+  /**
+   * Generate the soft delete query parameters for a route
+   * @param {"includeDeleted" | "purge"} name - Parameter to document
+   * @returns {unknown[]} Query parameter definitions, empty when soft delete is disabled
+   */
+  private softDeleteParameters(name: "includeDeleted" | "purge"): unknown[] {
+    if (!this.config.softDelete) {
+      return [];
+    }
+
+    return [
+      {
+        name,
+        in: "query",
+        description:
+          name === "purge"
+            ? "Permanently delete the entity instead of soft deleting it (admin only)"
+            : "Include soft-deleted entities",
+        required: false,
+        schema: { type: "boolean", default: false },
+      },
+    ];
+  }
+
+  /**
+   * Generate the full-text search query parameters for the list route
+   * @returns {unknown[]} Query parameter definitions, empty when search is disabled
+   */
+  private textSearchParameters(): unknown[] {
+    const fields = this.config.textSearchFields;
+    if (!fields || fields.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        name: "q",
+        in: "query",
+        description: `Full-text search over ${fields.join(", ")}. Combines with the field filters. Use \`sortBy=textScore\` to rank results by relevance (not available with \`cursor\`).`,
+        required: false,
+        schema: { type: "string" },
+      },
+      {
+        name: "includeScore",
+        in: "query",
+        description:
+          "Add the relevance score of each result as `_score` (requires `q`)",
+        required: false,
+        schema: { type: "boolean", default: false },
+      },
+    ];
+  }
+
+  /**
+   * Generate the field selection query parameters for read routes
+   * @returns {unknown[]} Query parameter definitions for `fields` and `exclude`
+   */
+  private projectionParameters(): unknown[] {
+    const selectable = {
+      type: "array",
+      items: {
+        type: "string",
+        enum: [
+          ...Object.keys(this.swaggerSchema.properties || {}),
+          ...Object.keys(SwaggerGenerator.auditProperties),
+          ...(this.config.softDelete ? ["deletedAt", "deletedBy"] : []),
+        ],
+      },
+    };
+
+    return [
+      {
+        name: "fields",
+        in: "query",
+        description:
+          "Comma separated fields to return. `_id` and `__v` are always included. Cannot be combined with `exclude`.",
+        required: false,
+        style: "form",
+        explode: false,
+        schema: selectable,
+      },
+      {
+        name: "exclude",
+        in: "query",
+        description:
+          "Comma separated fields to leave out of the response. Cannot be combined with `fields`.",
+        required: false,
+        style: "form",
+        explode: false,
+        schema: selectable,
+      },
+    ];
+  }
+
+  /**
+   * Generate the reference expansion query parameter for read routes
+   * @returns {unknown[]} Query parameter definitions, empty when the schema has no reference
+   */
+  private expandParameters(): unknown[] {
+    const references = Object.keys(describeReferences(this.config.schema));
+    if (references.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        name: "expand",
+        in: "query",
+        description:
+          "Comma separated reference fields to replace with the referenced entities. Nested references use dots (e.g. `productId.categoryId`) when the configured depth allows it.",
+        required: false,
+        style: "form",
+        explode: false,
+        schema: { type: "array", items: { type: "string" } },
+        example: references.join(","),
+      },
+    ];
+  }
+
+  /**
+   * Describe the filter syntax of a field
+   * @param {string} key - Field name
+   * @param {FilterOperator[]} operators - Operators supported by the field
+   * @returns {string} Parameter description
+   */
+  private filterDescription(key: string, operators: FilterOperator[]): string {
+    const examples = operators
+      .filter((operator) => operator !== "eq")
+      .map((operator) => `\`${key}[${operator}]\``);
+
+    const lists = operators.some((operator) =>
+      ["in", "nin", "all"].includes(operator),
+    )
+      ? " List operators take comma separated values."
+      : "";
+
+    return examples.length > 0
+      ? `Filter by ${key} (exact match). Operators: ${examples.join(", ")}.${lists}`
+      : `Filter by ${key} (exact match)`;
+  }
+
+  /**
+   * Generate the field and audit filter query parameters
    * @returns {unknown[]} Query parameter definitions
    */
-  private generateQueryParameters(): unknown[] {
+  private filterParameters(): unknown[] {
     const parameters: unknown[] = [];
+    const filterFields = describeFilterFields(this.config.schema);
 
     if (this.swaggerSchema.properties) {
       for (const [key, value] of Object.entries(
@@ -692,13 +1466,87 @@ export class SwaggerGenerator<T> {
         parameters.push({
           name: key,
           in: "query",
-          description: `Filter by ${key}`,
+          description: this.filterDescription(
+            key,
+            filterFields.get(key)?.operators ?? [],
+          ),
           required: false,
           schema: value,
         });
       }
     }
 
+    const auditFilters: Record<string, OpenAPISchemaObject> = {
+      ...SwaggerGenerator.auditProperties,
+      ...(this.config.softDelete && {
+        deletedAt: { type: "string", format: "date-time" },
+        deletedBy: { type: "string" },
+      }),
+    };
+    for (const [key, value] of Object.entries(auditFilters)) {
+      parameters.push({
+        name: key,
+        in: "query",
+        description: this.filterDescription(
+          key,
+          operatorsForKind(value.format === "date-time" ? "date" : "string"),
+        ),
+        required: false,
+        schema: { type: value.type, format: value.format },
+      });
+    }
+
+    return parameters;
+  }
+
+  /**
+   * Generate query parameters for filtering
+   * @returns {unknown[]} Query parameter definitions
+   */
+  private generateQueryParameters(): unknown[] {
+    const parameters: unknown[] = this.filterParameters();
+
+    parameters.push(
+      {
+        name: "sortBy",
+        in: "query",
+        description: "Field to sort by",
+        required: false,
+        schema: {
+          type: "string",
+          enum: [
+            ...Object.keys(this.swaggerSchema.properties || {}),
+            ...Object.keys(SwaggerGenerator.auditProperties),
+            "_id",
+            ...(this.config.textSearchFields?.length ? ["textScore"] : []),
+          ],
+          default: "createdAt",
+        },
+      },
+      {
+        name: "sortOrder",
+        in: "query",
+        description: "Sort direction",
+        required: false,
+        schema: { type: "string", enum: ["asc", "desc"], default: "asc" },
+      },
+    );
+
+    parameters.push(...this.textSearchParameters());
+    parameters.push(...this.softDeleteParameters("includeDeleted"));
+    parameters.push(...this.projectionParameters());
+    parameters.push(...this.expandParameters());
+
+    parameters.push({
+      name: "cursor",
+      in: "query",
+      description:
+        "Keyset pagination cursor. Pass it empty to request the first page in cursor mode, then pass the `nextCursor` or `prevCursor` value from the previous response. Skips the total count and ignores `skip`.",
+      required: false,
+      allowEmptyValue: true,
+      schema: { type: "string" },
+    });
+
     return parameters;
   }
 }
@@ -29,6 +29,13 @@ export function createSwaggerMiddleware(
     serverUrl: config.serverUrl,
     schema: config.schema,
     uniqueFields: config.uniqueFields,
+    softDelete: config.softDelete,
+    stream: config.stream,
+    upsert: config.upsert,
+    textSearchFields: config.textSearchFields,
+    idStrategy: config.idStrategy,
+    tenantHeader: config.tenantHeader,
+    children: config.children,
   });
 
   const swaggerOptions = generator.generateSwaggerOptions();
@@ -99,6 +106,13 @@ export function generateSwaggerSpec(config: SwaggerMiddlewareConfig): object {
     serverUrl: config.serverUrl,
     schema: config.schema,
     uniqueFields: config.uniqueFields,
+    softDelete: config.softDelete,
+    stream: config.stream,
+    upsert: config.upsert,
+    textSearchFields: config.textSearchFields,
+    idStrategy: config.idStrategy,
+    tenantHeader: config.tenantHeader,
+    children: config.children,
   });
 
   const swaggerOptions = generator.generateSwaggerOptions();
@@ -127,6 +141,13 @@ export function createIsolatedSwaggerMiddleware(
     serverUrl: config.serverUrl,
     schema: config.schema,
     uniqueFields: config.uniqueFields,
+    softDelete: config.softDelete,
+    stream: config.stream,
+    upsert: config.upsert,
+    textSearchFields: config.textSearchFields,
+    idStrategy: config.idStrategy,
+    tenantHeader: config.tenantHeader,
+    children: config.children,
   });
 
   const swaggerOptions = generator.generateSwaggerOptions();
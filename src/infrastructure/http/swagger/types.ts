@@ -1,5 +1,6 @@
 import type { ZodObject, ZodType } from "zod";
 import type { SwaggerUiOptions } from "swagger-ui-express";
+import type { IdStrategy, UniqueConstraint } from "../../persistance/types.js";
 /**
  * OpenAPI Schema Object type
  */
@@ -23,6 +24,27 @@ export type OpenAPISchemaObject = {
   example?: unknown;
 };
 
+/**
+ * Child resource documented under the entities of a resource, at
+ * `{basePath}/{param}/{path}`.
+ */
+export type SwaggerNestedResource = {
+  path: string;
+  param: string;
+  // Child field storing the parent id (default: the parameter name)
+  field?: string;
+  // Default: the path
+  resourceName?: string;
+  schema: ZodObject<Record<string, ZodType>>;
+  uniqueFields?: UniqueConstraint[];
+  softDelete?: boolean;
+  stream?: boolean;
+  upsert?: boolean;
+  textSearchFields?: string[];
+  idStrategy?: IdStrategy;
+  children?: SwaggerNestedResource[];
+};
+
 /**
  * Swagger UI middleware configuration
  */
@@ -35,7 +57,14 @@ export type SwaggerMiddlewareConfig = {
   resourceName: string;
   serverUrl: string;
   schema: ZodObject<Record<string, ZodType>>;
-  uniqueFields?: (string | number)[];
+  uniqueFields?: UniqueConstraint[];
+  softDelete?: boolean;
+  stream?: boolean;
+  upsert?: boolean;
+  textSearchFields?: string[];
+  idStrategy?: IdStrategy;
+  tenantHeader?: string;
+  children?: SwaggerNestedResource[];
   // Opciones adicionales de swagger-ui-express
   swaggerUiOptions?: SwaggerUiOptions;
   customCss?: string;
@@ -1,3 +1,4 @@
+export * from "./context/index.js";
 export * from "./http/index.js";
 export * from "./logger/index.js";
 export * from "./persistance/index.js";
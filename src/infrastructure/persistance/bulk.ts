@@ -0,0 +1,197 @@
+import { ErrorType } from "#root/config/errors.js";
+import type {
+  BulkItemError,
+  BulkItemResult,
+  BulkResult,
+} from "#root/domain/index.js";
+
+/**
+ * @class BulkResultCollector
+ * @description Accumulates per-item outcomes of a bulk operation and applies
+ * ordered semantics: once an item fails, every later item is reported as
+ * skipped, whatever was recorded for it.
+ * @template T - The type of entities returned for successful items
+ */
+export class BulkResultCollector<T> {
+  private readonly results = new Map<number, BulkItemResult<T>>();
+
+  /**
+   * @param {number} size - Number of items in the bulk request
+   * @param {boolean} ordered - Whether processing stops at the first failure
+   */
+  public constructor(
+    private readonly size: number,
+    private readonly ordered: boolean,
+  ) {}
+
+  /**
+   * Records a successful item.
+   *
+   * @param {number} index - Position of the item in the request
+   * @param {string} [id] - Identifier of the affected entity
+   * @param {T} [data] - Resulting entity
+   */
+  public succeed(index: number, id?: string, data?: T): void {
+    this.record({ index, id, status: "success", data });
+  }
+
+  /**
+   * Records a failed item. The first outcome recorded for an item wins.
+   *
+   * @param {number} index - Position of the item in the request
+   * @param {BulkItemError} error - Reason of the failure
+   * @param {string} [id] - Identifier of the affected entity
+   */
+  public fail(index: number, error: BulkItemError, id?: string): void {
+    this.record({ index, id, status: "failed", error });
+  }
+
+  /**
+   * Records an outcome as-is, typically one produced by a nested bulk call.
+   * Skipped outcomes are left unrecorded.
+   *
+   * @param {BulkItemResult<T>} result - Outcome to record
+   */
+  public record(result: BulkItemResult<T>): void {
+    if (result.status !== "skipped" && !this.results.has(result.index)) {
+      this.results.set(result.index, result);
+    }
+  }
+
+  /**
+   * Checks whether an outcome has already been recorded for an item.
+   *
+   * @param {number} index - Position of the item in the request
+   * @returns {boolean} True when the item has an outcome
+   */
+  public has(index: number): boolean {
+    return this.results.has(index);
+  }
+
+  /**
+   * Position from which items must not be attempted anymore. In ordered mode
+   * this is the first failed item, otherwise the end of the request.
+   *
+   * @returns {number} Exclusive upper bound of the items still to attempt
+   */
+  public stopIndex(): number {
+    if (!this.ordered) {
+      return this.size;
+    }
+    let stop = this.size;
+    for (const result of this.results.values()) {
+      if (result.status === "failed" && result.index < stop) {
+        stop = result.index;
+      }
+    }
+    return stop;
+  }
+
+  /**
+   * Builds the final result. Items without an outcome, or placed after the
+   * first failure in ordered mode, are reported as skipped.
+   *
+   * @returns {BulkResult<T>} Aggregated outcome, sorted by index
+   */
+  public build(): BulkResult<T> {
+    const stop = this.stopIndex();
+    const results: BulkItemResult<T>[] = [];
+
+    for (let index = 0; index < this.size; index++) {
+      const result = this.results.get(index);
+      results.push(
+        result && index <= stop
+          ? result
+          : { index, id: result?.id, status: "skipped" },
+      );
+    }
+
+    const counts = { success: 0, failed: 0, skipped: 0 };
+    for (const result of results) {
+      counts[result.status]++;
+    }
+
+    return {
+      ordered: this.ordered,
+      succeeded: counts.success,
+      failed: counts.failed,
+      skipped: counts.skipped,
+      results,
+    };
+  }
+}
+
+/**
+ * Builds the item error reported for a unique constraint violation.
+ *
+ * @param {string[]} fields - Fields of the violated constraint
+ * @returns {BulkItemError} Item error
+ */
+export function duplicateItemError(fields: string[]): BulkItemError {
+  return {
+    type: ErrorType.DUPLICATE_ERROR,
+    message: "Duplicate value detected",
+    ...(fields.length === 1 && { field: fields[0] }),
+    fields,
+  };
+}
+
+/**
+ * Builds the item error reported for an id that matches no live entity.
+ *
+ * @param {string} id - Requested identifier
+ * @returns {BulkItemError} Item error
+ */
+export function notFoundItemError(id: string): BulkItemError {
+  return {
+    type: ErrorType.NOT_FOUND_ERROR,
+    message: `Entity with ID ${id} not found`,
+    field: "id",
+  };
+}
+
+/**
+ * Builds the item error reported for a malformed id.
+ *
+ * @returns {BulkItemError} Item error
+ */
+export function invalidIdItemError(): BulkItemError {
+  return {
+    type: ErrorType.VALIDATION_ERROR,
+    message: "Invalid entity identifier format",
+    field: "id",
+  };
+}
+
+/**
+ * Builds the item error reported for a missing, malformed or changed natural
+ * key.
+ *
+ * @param {string} field - Field holding the natural key
+ * @returns {BulkItemError} Item error
+ */
+export function naturalKeyItemError(field: string): BulkItemError {
+  return {
+    type: ErrorType.VALIDATION_ERROR,
+    message: "Invalid natural key",
+    field,
+  };
+}
+
+/**
+ * Builds the item error reported for references to missing entities.
+ *
+ * @param {string[]} violations - One `field: reason` entry per missing entity
+ * @returns {BulkItemError} Item error
+ */
+export function missingReferenceItemError(violations: string[]): BulkItemError {
+  const fields = [
+    ...new Set(violations.map((violation) => violation.split(":")[0]!)),
+  ];
+  return {
+    type: ErrorType.VALIDATION_ERROR,
+    message: `Referenced entity not found: ${violations.join("; ")}`,
+    ...(fields.length === 1 && { field: fields[0] }),
+    fields,
+  };
+}
@@ -0,0 +1,500 @@
+import { EventEmitter } from "node:events";
+import { randomUUID } from "node:crypto";
+import type {
+  ChangeStream,
+  ChangeStreamDocument,
+  Collection,
+  Document,
+  MongoClient,
+} from "mongodb";
+
+import { ApplicationError, ErrorType } from "#root/config/errors.js";
+import type {
+  ChangeEvent,
+  ChangeHandlers,
+  ChangeOperation,
+  ChangeSubscription,
+  EntityChange,
+  FindQuery,
+  IChangeFeed,
+  Logger,
+  MongoDocument,
+  WatchOptions,
+} from "#root/domain/index.js";
+import { requireTenantId } from "../context/index.js";
+import type { FieldCipher } from "./encryption.js";
+import { matchesFilter } from "./memoryquery.js";
+import type { InProcessChangeFeedOptions } from "./types.js";
+
+/**
+ * Change stream events reported by MongoChangeFeed.
+ */
+const WATCHED_OPERATIONS = ["insert", "update", "replace", "delete"];
+
+/**
+ * Tells whether the deployment behind a client supports change streams:
+ * replica sets and sharded clusters do, standalone servers do not.
+ *
+ * @param {MongoClient} client - Connected MongoDB client
+ * @returns {Promise<boolean>} True when change streams can be opened
+ */
+export async function supportsChangeStreams(
+  client: MongoClient,
+): Promise<boolean> {
+  const hello = await client.db("admin").command({ hello: 1 });
+  return hello["setName"] !== undefined || hello["msg"] === "isdbgrid";
+}
+
+/**
+ * @class InProcessChangeFeed
+ * @description Change feed fed by the mutations of the service, for
+ * deployments without change streams (standalone servers, in-memory or
+ * SQLite repositories). Only changes applied through this process are seen.
+ * Recent events are kept so that subscriptions can resume after them.
+ * @template TEntity - The domain entity type
+ */
+export class InProcessChangeFeed<TEntity> implements IChangeFeed<TEntity> {
+  private readonly emitter = new EventEmitter();
+  // Prefix of the event ids, so that ids of a previous process never match
+  private readonly instanceId = randomUUID().slice(0, 8);
+  private readonly history: ChangeEvent<TEntity>[] = [];
+  private readonly historySize: number;
+  private sequence = 0;
+
+  /**
+   * Creates an in-process change feed.
+   *
+   * @param {Logger} logger - Logger instance
+   * @param {InProcessChangeFeedOptions} [options] - History size
+   */
+  public constructor(
+    private readonly logger: Logger,
+    options: InProcessChangeFeedOptions = {},
+  ) {
+    this.historySize = options.historySize ?? 1000;
+    // One listener per open subscription
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Delivers a change to the current subscribers and records it.
+   *
+   * @param {EntityChange<TEntity>} change - Applied change
+   */
+  public publish(change: EntityChange<TEntity>): void {
+    const event: ChangeEvent<TEntity> = {
+      ...change,
+      id: `${this.instanceId}-${++this.sequence}`,
+      timestamp: new Date(),
+    };
+
+    this.history.push(event);
+    if (this.history.length > this.historySize) {
+      this.history.shift();
+    }
+    this.emitter.emit("change", event);
+  }
+
+  /**
+   * Subscribes to the published changes. With `resumeAfter`, the recorded
+   * events that followed it are delivered first; an unknown id (expired or
+   * from another process) starts the subscription from now.
+   *
+   * @param {WatchOptions<TEntity>} options - Filter and resume position
+   * @param {ChangeHandlers<TEntity>} handlers - Event and error callbacks
+   * @returns {Promise<ChangeSubscription>} Active subscription
+   */
+  public async watch(
+    options: WatchOptions<TEntity>,
+    handlers: ChangeHandlers<TEntity>,
+  ): Promise<ChangeSubscription> {
+    const filter = options.filter as Document | undefined;
+
+    /**
+     * Forwards an event when it matches the subscription filter.
+     *
+     * @param {ChangeEvent<TEntity>} event - Published event
+     */
+    const listener = (event: ChangeEvent<TEntity>): void => {
+      if (!event.document || !filter || matchesFilter(event.document, filter)) {
+        handlers.onChange(event);
+      }
+    };
+
+    if (options.resumeAfter !== undefined) {
+      const position = this.history.findIndex(
+        (event) => event.id === options.resumeAfter,
+      );
+      if (position === -1) {
+        this.logger.debug("ChangeFeed: Unknown resume position", {
+          resumeAfter: options.resumeAfter,
+        });
+      } else {
+        this.history.slice(position + 1).forEach(listener);
+      }
+    }
+
+    this.emitter.on("change", listener);
+    return {
+      /**
+       * Stops forwarding events to the subscriber.
+       *
+       * @returns {Promise<void>} Resolves once unsubscribed
+       */
+      close: async (): Promise<void> => {
+        this.emitter.off("change", listener);
+      },
+    };
+  }
+}
+
+/**
+ * @class MongoChangeFeed
+ * @description Change feed reading a MongoDB change stream, so that changes
+ * applied by every process (and outside the API) are seen. Requires a replica
+ * set or a sharded cluster. Event ids are the change stream resume tokens.
+ * @template TEntity - The domain entity type
+ */
+export class MongoChangeFeed<TEntity> implements IChangeFeed<TEntity> {
+  private readonly collection: Collection<Document>;
+
+  /**
+   * Creates a change feed on a collection.
+   *
+   * @param {MongoClient} client - Connected MongoDB client
+   * @param {string} databaseName - Database name
+   * @param {string} collectionName - Watched collection
+   * @param {Logger} logger - Logger instance
+   */
+  public constructor(
+    client: MongoClient,
+    databaseName: string,
+    private readonly collectionName: string,
+    private readonly logger: Logger,
+  ) {
+    this.collection = client.db(databaseName).collection(collectionName);
+  }
+
+  /**
+   * Ignores published changes: the change stream reports them.
+   */
+  public publish(): void {}
+
+  /**
+   * Opens a change stream on the collection. The filter is applied by the
+   * server on the changed documents; deletes are always delivered.
+   *
+   * @param {WatchOptions<TEntity>} options - Filter and resume position
+   * @param {ChangeHandlers<TEntity>} handlers - Event and error callbacks
+   * @returns {Promise<ChangeSubscription>} Active subscription
+   */
+  public async watch(
+    options: WatchOptions<TEntity>,
+    handlers: ChangeHandlers<TEntity>,
+  ): Promise<ChangeSubscription> {
+    const match: Document = { operationType: { $in: WATCHED_OPERATIONS } };
+    if (options.filter && Object.keys(options.filter).length > 0) {
+      match["$or"] = [
+        { operationType: "delete" },
+        { "updateDescription.updatedFields.deletedAt": { $type: "date" } },
+        this.onFullDocument(options.filter as Document),
+      ];
+    }
+
+    const stream: ChangeStream = this.collection.watch([{ $match: match }], {
+      fullDocument: "updateLookup",
+      ...(options.resumeAfter !== undefined && {
+        resumeAfter: { _data: options.resumeAfter },
+      }),
+    });
+    let closing = false;
+
+    /**
+     * Reports a stream failure once and releases the stream.
+     *
+     * @param {string} reason - Failure description
+     */
+    const fail = (reason: string): void => {
+      if (closing) return;
+      closing = true;
+      this.logger.error("ChangeFeed: Change stream failed", {
+        collectionName: this.collectionName,
+        reason,
+      });
+      handlers.onError(
+        new ApplicationError({
+          type: ErrorType.DATABASE_ERROR,
+          message: "Change stream failed",
+          statusCode: 500,
+          metadata: { collectionName: this.collectionName, reason },
+        }),
+      );
+      void stream.close();
+    };
+
+    stream.on("change", (change: ChangeStreamDocument) => {
+      const event = this.toChangeEvent(change);
+      if (event) handlers.onChange(event);
+    });
+    stream.on("error", (error: Error) => fail(error.message));
+    // Dropping or renaming the collection invalidates the stream
+    stream.on("close", () => fail("Change stream closed"));
+
+    return {
+      /**
+       * Closes the change stream.
+       *
+       * @returns {Promise<void>} Resolves once the stream is closed
+       */
+      close: async (): Promise<void> => {
+        closing = true;
+        await stream.close();
+      },
+    };
+  }
+
+  /**
+   * Converts a change stream event into a change event.
+   *
+   * @param {ChangeStreamDocument} change - Change stream event
+   * @returns {ChangeEvent<TEntity> | null} Change event, null for unwatched events
+   * @private
+   */
+  private toChangeEvent(
+    change: ChangeStreamDocument,
+  ): ChangeEvent<TEntity> | null {
+    if (
+      change.operationType !== "insert" &&
+      change.operationType !== "update" &&
+      change.operationType !== "replace" &&
+      change.operationType !== "delete"
+    ) {
+      return null;
+    }
+
+    let operation: ChangeOperation;
+    if (change.operationType === "insert") {
+      operation = "create";
+    } else if (change.operationType === "delete") {
+      operation = "delete";
+    } else {
+      const updatedFields: Document =
+        (change.operationType === "update" &&
+          change.updateDescription.updatedFields) ||
+        {};
+      operation =
+        "deletedAt" in updatedFields
+          ? updatedFields["deletedAt"]
+            ? "delete"
+            : "restore"
+          : "update";
+    }
+
+    const document =
+      operation !== "delete" && "fullDocument" in change && change.fullDocument
+        ? (change.fullDocument as MongoDocument<TEntity>)
+        : undefined;
+
+    return {
+      id: (change._id as { _data: string })._data,
+      operation,
+      documentId: String(change.documentKey._id),
+      ...(document && { document }),
+      timestamp: change.wallTime ?? new Date(),
+    };
+  }
+
+  /**
+   * Rewrites a find filter to apply to the `fullDocument` of change events.
+   *
+   * @param {Document} filter - Find filter
+   * @returns {Document} Filter on the changed documents
+   * @private
+   */
+  private onFullDocument(filter: Document): Document {
+    return Object.fromEntries(
+      Object.entries(filter).map(([key, condition]) =>
+        key === "$and" || key === "$or"
+          ? [
+              key,
+              (condition as Document[]).map((entry) =>
+                this.onFullDocument(entry),
+              ),
+            ]
+          : [`fullDocument.${key}`, condition],
+      ),
+    );
+  }
+}
+
+/**
+ * @class TenantChangeFeed
+ * @description Routes the changes of a multi-tenant resource to the feed of
+ * the tenant of the request. Feeds are created on first use and kept. With a
+ * tenant `field`, the feed is shared by the tenants (e.g. one change stream
+ * on a shared collection): subscriptions are filtered on the field and only
+ * receive the events of documents of their tenant, hard deletes excluded.
+ * @template TEntity - The domain entity type
+ */
+export class TenantChangeFeed<TEntity> implements IChangeFeed<TEntity> {
+  private readonly feeds = new Map<string, IChangeFeed<TEntity>>();
+
+  /**
+   * Creates a tenant-scoped change feed.
+   *
+   * @param {(tenantId: string) => IChangeFeed<TEntity>} feedFor - Creates the feed of a tenant
+   * @param {string} [field] - Tenant field of the documents, when the feed is shared
+   */
+  public constructor(
+    private readonly feedFor: (tenantId: string) => IChangeFeed<TEntity>,
+    private readonly field?: string,
+  ) {}
+
+  /**
+   * Delivers a change to the feed of the current tenant.
+   *
+   * @param {EntityChange<TEntity>} change - Applied change
+   */
+  public publish(change: EntityChange<TEntity>): void {
+    this.current(requireTenantId()).publish(change);
+  }
+
+  /**
+   * Subscribes to the changes of the current tenant.
+   *
+   * @param {WatchOptions<TEntity>} options - Filter and resume position
+   * @param {ChangeHandlers<TEntity>} handlers - Event and error callbacks
+   * @returns {Promise<ChangeSubscription>} Active subscription
+   */
+  public async watch(
+    options: WatchOptions<TEntity>,
+    handlers: ChangeHandlers<TEntity>,
+  ): Promise<ChangeSubscription> {
+    const tenantId = requireTenantId();
+    const feed = this.current(tenantId);
+    const { field } = this;
+    if (field === undefined) {
+      return feed.watch(options, handlers);
+    }
+
+    return feed.watch(
+      {
+        ...options,
+        filter: { ...options.filter, [field]: tenantId } as FindQuery<TEntity>,
+      },
+      {
+        ...handlers,
+        /**
+         * Forwards the events of the documents of the tenant.
+         *
+         * @param {ChangeEvent<TEntity>} event - Change event
+         */
+        onChange: (event: ChangeEvent<TEntity>): void => {
+          if ((event.document as Document | undefined)?.[field] === tenantId) {
+            handlers.onChange(event);
+          }
+        },
+      },
+    );
+  }
+
+  /**
+   * Returns the feed of a tenant, creating it on first use.
+   *
+   * @param {string} tenantId - Tenant identifier
+   * @returns {IChangeFeed<TEntity>} Feed of the tenant
+   * @private
+   */
+  private current(tenantId: string): IChangeFeed<TEntity> {
+    let feed = this.feeds.get(tenantId);
+    if (!feed) {
+      feed = this.feedFor(tenantId);
+      this.feeds.set(tenantId, feed);
+    }
+    return feed;
+  }
+}
+
+/**
+ * @class EncryptedChangeFeed
+ * @description Decrypts the documents of a feed reading the stored values,
+ * such as a MongoDB change stream. Filters on deterministic fields are
+ * translated to their ciphertexts. Events are delivered in order; a value
+ * that cannot be decrypted ends the subscription.
+ * @template TEntity - The domain entity type
+ */
+export class EncryptedChangeFeed<TEntity> implements IChangeFeed<TEntity> {
+  /**
+   * Creates a decrypting change feed.
+   *
+   * @param {IChangeFeed<TEntity>} feed - Feed of the stored documents
+   * @param {FieldCipher} cipher - Cipher of the encrypted fields
+   */
+  public constructor(
+    private readonly feed: IChangeFeed<TEntity>,
+    private readonly cipher: FieldCipher,
+  ) {}
+
+  /**
+   * Delivers a change to the wrapped feed.
+   *
+   * @param {EntityChange<TEntity>} change - Applied change
+   */
+  public publish(change: EntityChange<TEntity>): void {
+    this.feed.publish(change);
+  }
+
+  /**
+   * Subscribes to the changes, decrypted.
+   *
+   * @param {WatchOptions<TEntity>} options - Filter and resume position
+   * @param {ChangeHandlers<TEntity>} handlers - Event and error callbacks
+   * @returns {Promise<ChangeSubscription>} Active subscription
+   * @throws {ValidationError} When the filter cannot apply to encrypted values
+   */
+  public async watch(
+    options: WatchOptions<TEntity>,
+    handlers: ChangeHandlers<TEntity>,
+  ): Promise<ChangeSubscription> {
+    const filter = options.filter
+      ? await this.cipher.encryptQuery(options.filter)
+      : undefined;
+    let delivery = Promise.resolve();
+    let failed = false;
+
+    /**
+     * Reports the first failure, decryption or subscription one.
+     *
+     * @param {Error} error - Failure
+     */
+    const fail = (error: Error): void => {
+      if (!failed) {
+        failed = true;
+        handlers.onError(error);
+      }
+    };
+
+    return this.feed.watch(
+      { ...options, filter },
+      {
+        /**
+         * Decrypts an event, after the previous ones are delivered.
+         *
+         * @param {ChangeEvent<TEntity>} event - Change event
+         */
+        onChange: (event: ChangeEvent<TEntity>): void => {
+          delivery = delivery
+            .then(async () => {
+              const document =
+                event.document && (await this.cipher.decrypt(event.document));
+              if (!failed) {
+                handlers.onChange({ ...event, document });
+              }
+            })
+            .catch(fail);
+        },
+        onError: fail,
+      },
+    );
+  }
+}
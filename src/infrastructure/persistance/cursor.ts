@@ -0,0 +1,107 @@
+import { BSON } from "mongodb";
+
+import { ValidationError } from "#root/config/errors.js";
+import type { EntityId } from "#root/domain/index.js";
+
+/**
+ * Direction of a cursor token relative to the page it was issued from.
+ */
+export type CursorDirection = "after" | "before";
+
+/**
+ * Decoded content of an opaque pagination cursor. It captures the sort key
+ * value and the `_id` of the boundary document, plus the sort it was issued for.
+ */
+export type CursorPayload = {
+  direction: CursorDirection;
+  sortBy: string;
+  sortOrder: 1 | -1;
+  value: unknown;
+  id: EntityId;
+};
+
+/**
+ * Encodes a cursor payload into an opaque, URL-safe token.
+ * Extended JSON is used so that Dates and ObjectIds survive the round trip.
+ *
+ * @param {CursorPayload} payload - Cursor content to encode
+ * @returns {string} Base64url encoded cursor token
+ */
+export function encodeCursor(payload: CursorPayload): string {
+  const json = BSON.EJSON.stringify({
+    d: payload.direction,
+    k: payload.sortBy,
+    o: payload.sortOrder,
+    v: payload.value,
+    id: payload.id,
+  });
+  return Buffer.from(json, "utf8").toString("base64url");
+}
+
+/**
+ * Decodes an opaque cursor token produced by `encodeCursor`.
+ *
+ * @param {string} token - Cursor token received from the client
+ * @param {CursorDirection} [expected] - Option the token was passed as, `after` or `before`
+ * @returns {CursorPayload} Decoded cursor content
+ * @throws {ValidationError} When the token is malformed or points the other way
+ */
+export function decodeCursor(
+  token: string,
+  expected?: CursorDirection,
+): CursorPayload {
+  const payload = parseCursor(token);
+  if (expected && payload.direction !== expected) {
+    throw new ValidationError({
+      message: "Pagination cursor does not match the requested direction",
+      field: "cursor",
+      violations: [
+        `Cursor was issued as '${payload.direction}', not '${expected}'`,
+      ],
+    });
+  }
+  return payload;
+}
+
+/**
+ * Parses the content of a cursor token.
+ *
+ * @param {string} token - Cursor token received from the client
+ * @returns {CursorPayload} Decoded cursor content
+ * @throws {ValidationError} When the token is malformed
+ */
+function parseCursor(token: string): CursorPayload {
+  try {
+    const json = Buffer.from(token, "base64url").toString("utf8");
+    const raw = BSON.EJSON.parse(json) as {
+      d?: unknown;
+      k?: unknown;
+      o?: unknown;
+      v?: unknown;
+      id?: unknown;
+    };
+
+    if (
+      (raw.d !== "after" && raw.d !== "before") ||
+      typeof raw.k !== "string" ||
+      (raw.o !== 1 && raw.o !== -1) ||
+      !(raw.id instanceof BSON.ObjectId || typeof raw.id === "string")
+    ) {
+      throw new Error("Malformed cursor payload");
+    }
+
+    return {
+      direction: raw.d,
+      sortBy: raw.k,
+      sortOrder: raw.o,
+      value: raw.v,
+      id: raw.id,
+    };
+  } catch {
+    throw new ValidationError({
+      message: "Invalid pagination cursor",
+      field: "cursor",
+      violations: ["Cursor must be a token returned by a previous request"],
+    });
+  }
+}
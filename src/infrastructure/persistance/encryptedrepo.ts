@@ -0,0 +1,545 @@
+import type { ClientSession, Document } from "mongodb";
+
+import {
+  ApplicationError,
+  ErrorType,
+  ValidationError,
+} from "#root/config/errors.js";
+import type {
+  BulkOptions,
+  BulkRemoveOptions,
+  BulkResult,
+  BulkUpdateItem,
+  FindQuery,
+  IRepository,
+  MongoDocument,
+  PaginatedResult,
+  PaginationOptions,
+  ProjectedDocument,
+  ProjectionOptions,
+  QueryOptions,
+  RemoveOptions,
+  ReplaceOptions,
+  ReplaceResult,
+  SessionOptions,
+  UpdateOptions,
+} from "#root/domain/index.js";
+import { BulkResultCollector, duplicateItemError } from "./bulk.js";
+import type { FieldCipher } from "./encryption.js";
+import type { EncryptedRepositoryOptions } from "./types.js";
+
+/**
+ * @class EncryptedRepository
+ * @description Encrypts the encrypted fields of a resource before they reach
+ * the wrapped repository, and decrypts the entities it returns. Query
+ * conditions on deterministic fields are translated to their ciphertexts,
+ * so that equality filters and unique constraints keep working; encrypted
+ * fields cannot be sorted on. New values are encrypted with the current key
+ * only: while retired keys are listed, unique constraints on encrypted
+ * fields are checked here against the ciphertexts under every key, which
+ * the wrapped repository cannot compare.
+ * @template TEntity - The domain entity type
+ */
+export class EncryptedRepository<TEntity> implements IRepository<TEntity> {
+  private readonly uniqueConstraints: string[][];
+
+  /**
+   * @param {IRepository<TEntity>} repository - Repository storing the encrypted values
+   * @param {FieldCipher} cipher - Cipher of the encrypted fields
+   * @param {EncryptedRepositoryOptions<TEntity>} [options] - Unique constraints of the resource
+   */
+  public constructor(
+    private readonly repository: IRepository<TEntity>,
+    private readonly cipher: FieldCipher,
+    options: EncryptedRepositoryOptions<TEntity> = {},
+  ) {
+    this.uniqueConstraints = (options.uniqueFields ?? [])
+      .map((constraint) =>
+        (Array.isArray(constraint) ? constraint : [constraint]).map(String),
+      )
+      .filter((fields) => fields.some((field) => cipher.encrypts(field)));
+  }
+
+  /**
+   * Creates an entity with its encrypted fields encrypted.
+   *
+   * @param {TEntity} data - Entity data to create
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Created entity, decrypted
+   * @throws {ApplicationError} When an encrypted unique value is already stored under a retired key
+   */
+  public async create(
+    data: TEntity,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    await this.assertUnique(data, undefined, "create", options?.session);
+    return this.decrypted(
+      await this.repository.create(await this.cipher.encrypt(data), options),
+    );
+  }
+
+  /**
+   * Reads an entity by ID.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & ProjectionOptions} options - Read options, including a projection
+   * @returns {Promise<ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Read options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity, decrypted, or null
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    return this.decrypted(await this.repository.read(id, options));
+  }
+
+  /**
+   * Updates an entity with its encrypted fields encrypted.
+   *
+   * @param {string} id - Entity identifier
+   * @param {Partial<TEntity>} data - Fields to update
+   * @param {UpdateOptions} [options] - Optional expected version and session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Updated entity, decrypted, or null if not found
+   * @throws {ApplicationError} When an encrypted unique value is already stored under a retired key
+   */
+  public async update(
+    id: string,
+    data: Partial<TEntity>,
+    options?: UpdateOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    await this.assertUnique(data, id, "update", options?.session);
+    return this.decrypted(
+      await this.repository.update(
+        id,
+        await this.cipher.encrypt(data),
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Replaces an entity with its encrypted fields encrypted.
+   *
+   * @param {string} id - Entity identifier
+   * @param {TEntity} data - Complete entity data
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag
+   * @returns {Promise<ReplaceResult<TEntity> | null>} Stored entity, decrypted, null if not found
+   * @throws {ApplicationError} When an encrypted unique value is already stored under a retired key
+   */
+  public async replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity> | null> {
+    await this.assertUnique(data, id, "replace", options?.session);
+    const result = await this.repository.replace(
+      id,
+      await this.cipher.encrypt(data),
+      options,
+    );
+    return (
+      result && {
+        ...result,
+        document: await this.cipher.decrypt(result.document),
+      }
+    );
+  }
+
+  /**
+   * Removes an entity.
+   *
+   * @param {string} id - Entity identifier
+   * @param {RemoveOptions} [options] - Optional removal metadata
+   * @returns {Promise<boolean>} True if removed, false if not found
+   */
+  public async remove(id: string, options?: RemoveOptions): Promise<boolean> {
+    return this.repository.remove(id, options);
+  }
+
+  /**
+   * Restores a soft-deleted entity.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Restored entity, decrypted, or null
+   */
+  public async restore(
+    id: string,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    return this.decrypted(await this.repository.restore(id, options));
+  }
+
+  /**
+   * Permanently deletes an entity.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  public async purge(id: string, options?: SessionOptions): Promise<boolean> {
+    return this.repository.purge(id, options);
+  }
+
+  /**
+   * Finds entities matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & ProjectionOptions} options - Pagination options, including a projection
+   * @returns {Promise<PaginatedResult<ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions,
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & Partial<ProjectionOptions>} [options] - Pagination options
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity> | ProjectedDocument<TEntity>>>} Paginated results, decrypted
+   * @throws {ValidationError} When the query or the sort cannot apply to encrypted values
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions & Partial<ProjectionOptions>,
+  ): Promise<
+    | PaginatedResult<MongoDocument<TEntity>>
+    | PaginatedResult<ProjectedDocument<TEntity>>
+  > {
+    if (options?.sortBy !== undefined && this.cipher.encrypts(options.sortBy)) {
+      throw new ValidationError({
+        message: "Invalid sort field",
+        field: "sortBy",
+        violations: [`${options.sortBy}: encrypted fields cannot be sorted`],
+      });
+    }
+
+    const result = await this.repository.find(
+      await this.cipher.encryptQuery(query),
+      options,
+    );
+    return {
+      ...result,
+      data: await Promise.all(
+        result.data.map((document) => this.cipher.decrypt(document)),
+      ),
+    } as
+      | PaginatedResult<MongoDocument<TEntity>>
+      | PaginatedResult<ProjectedDocument<TEntity>>;
+  }
+
+  /**
+   * Finds the first entity matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & ProjectionOptions} options - Query options, including a projection
+   * @returns {Promise<ProjectedDocument<TEntity> | null>} First matching entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Query options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} First matching entity, decrypted, or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    return this.decrypted(
+      await this.repository.findOne(
+        await this.cipher.encryptQuery(query),
+        options,
+      ),
+    );
+  }
+
+  /**
+   * Counts the entities matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions} [options] - Optional query options
+   * @returns {Promise<number>} Number of matching entities
+   */
+  public async count(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<number> {
+    return this.repository.count(
+      await this.cipher.encryptQuery(query),
+      options,
+    );
+  }
+
+  /**
+   * Creates several entities with their encrypted fields encrypted.
+   *
+   * @param {TEntity[]} items - Entities to create
+   * @param {BulkOptions} [options] - Ordered mode and session
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, decrypted
+   */
+  public async bulkCreate(
+    items: TEntity[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    return this.runUnique(
+      items.map((data) => ({ data })),
+      options,
+      async (accepted) =>
+        this.decryptedBulk(
+          await this.repository.bulkCreate(
+            await Promise.all(
+              accepted.map(({ data }) => this.cipher.encrypt(data)),
+            ),
+            options,
+          ),
+        ),
+    );
+  }
+
+  /**
+   * Updates several entities with their encrypted fields encrypted.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Ids and fields to update
+   * @param {BulkOptions} [options] - Ordered mode and session
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, decrypted
+   */
+  public async bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    return this.runUnique(items, options, async (accepted) =>
+      this.decryptedBulk(
+        await this.repository.bulkUpdate(
+          await Promise.all(
+            accepted.map(async (item) => ({
+              ...item,
+              data: await this.cipher.encrypt(item.data),
+            })),
+          ),
+          options,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Removes several entities.
+   *
+   * @param {string[]} ids - Entity identifiers
+   * @param {BulkRemoveOptions} [options] - Ordered mode, session and actor
+   * @returns {Promise<BulkResult<never>>} Outcome of every item
+   */
+  public async bulkRemove(
+    ids: string[],
+    options?: BulkRemoveOptions,
+  ): Promise<BulkResult<never>> {
+    return this.repository.bulkRemove(ids, options);
+  }
+
+  /**
+   * Rejects a write whose encrypted unique values are held by another entity.
+   *
+   * @param {Partial<TEntity>} data - Written fields
+   * @param {string | undefined} id - Identifier of the written entity, undefined on create
+   * @param {string} operation - Operation, reported in the error
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @throws {ApplicationError} When a unique constraint is violated
+   * @private
+   */
+  private async assertUnique(
+    data: Partial<TEntity>,
+    id: string | undefined,
+    operation: string,
+    session?: ClientSession,
+  ): Promise<void> {
+    const duplicateFields = await this.findDuplicate(data, id, session);
+    if (duplicateFields) {
+      throw new ApplicationError({
+        type: ErrorType.DUPLICATE_ERROR,
+        message: "Duplicate value detected",
+        statusCode: 409,
+        metadata: { duplicateFields, operation },
+      });
+    }
+  }
+
+  /**
+   * Finds a unique constraint on encrypted fields whose values, once merged
+   * with the stored entity, are held by another live entity, under any key.
+   * With the current key alone, the wrapped repository detects duplicates.
+   *
+   * @param {Partial<TEntity>} data - Written fields
+   * @param {string} [id] - Identifier of the written entity, undefined on create
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @returns {Promise<string[] | undefined>} Fields of the violated constraint, undefined when none
+   * @private
+   */
+  private async findDuplicate(
+    data: Partial<TEntity>,
+    id?: string,
+    session?: ClientSession,
+  ): Promise<string[] | undefined> {
+    const written = data as Document;
+    const touched = this.uniqueConstraints.filter((fields) =>
+      fields.some((field) => written[field] !== undefined),
+    );
+    if (touched.length === 0 || !(await this.cipher.hasRetiredKeys())) {
+      return undefined;
+    }
+
+    // The stored entity gives the canonical form of the id, e.g. lowercase hex
+    const stored =
+      id !== undefined
+        ? await this.decrypted(await this.repository.read(id, { session }))
+        : null;
+    const ownId = stored ? String(stored._id) : id;
+    const values: Document = { ...stored, ...written };
+
+    for (const fields of touched) {
+      if (
+        fields.some(
+          (field) => values[field] === undefined || values[field] === null,
+        )
+      ) {
+        continue;
+      }
+      const query = Object.fromEntries(
+        fields.map((field) => [field, values[field]]),
+      ) as FindQuery<TEntity>;
+      const { data: holders } = await this.repository.find(
+        await this.cipher.encryptQuery(query),
+        { limit: 2, session },
+      );
+      if (holders.some(({ _id }) => String(_id) !== ownId)) {
+        return fields;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Runs a bulk write on the items whose encrypted unique values are free.
+   * The others fail with DUPLICATE_ERROR.
+   *
+   * @template TItem - Item type
+   * @param {TItem[]} items - Items of the request
+   * @param {BulkOptions} options - Ordered mode and session
+   * @param {(items: TItem[]) => Promise<BulkResult<MongoDocument<TEntity>>>} execute - Write of the accepted items
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item of the request
+   * @private
+   */
+  private async runUnique<
+    TItem extends { id?: string; data: Partial<TEntity> },
+  >(
+    items: TItem[],
+    options: BulkOptions,
+    execute: (items: TItem[]) => Promise<BulkResult<MongoDocument<TEntity>>>,
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    const collector = new BulkResultCollector<MongoDocument<TEntity>>(
+      items.length,
+      options.ordered ?? true,
+    );
+
+    const duplicates = await Promise.all(
+      items.map(({ id, data }) =>
+        this.findDuplicate(data, id, options.session).catch(
+          (error: unknown) => {
+            // Malformed ids and invalid data are reported by the write
+            if (error instanceof ValidationError) return undefined;
+            throw error;
+          },
+        ),
+      ),
+    );
+    duplicates.forEach((fields, index) => {
+      if (fields) {
+        collector.fail(index, duplicateItemError(fields), items[index]!.id);
+      }
+    });
+
+    const stop = collector.stopIndex();
+    const accepted = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ index }) => index < stop && !collector.has(index));
+
+    if (accepted.length > 0) {
+      const result = await execute(accepted.map(({ item }) => item));
+      // Results are positioned within `accepted`, map them back
+      for (const item of result.results) {
+        collector.record({ ...item, index: accepted[item.index]!.index });
+      }
+    }
+    return collector.build();
+  }
+
+  /**
+   * Decrypts a returned entity.
+   *
+   * @template T - Entity type
+   * @param {T | null} document - Entity returned by the wrapped repository
+   * @returns {Promise<T | null>} Decrypted entity, null when absent
+   * @private
+   */
+  private async decrypted<T>(document: T | null): Promise<T | null> {
+    return document && this.cipher.decrypt(document);
+  }
+
+  /**
+   * Decrypts the entities of a bulk result.
+   *
+   * @param {BulkResult<MongoDocument<TEntity>>} result - Result of the wrapped repository
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Result with decrypted entities
+   * @private
+   */
+  private async decryptedBulk(
+    result: BulkResult<MongoDocument<TEntity>>,
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    return {
+      ...result,
+      results: await Promise.all(
+        result.results.map(async (item) =>
+          item.data
+            ? { ...item, data: await this.cipher.decrypt(item.data) }
+            : item,
+        ),
+      ),
+    };
+  }
+}
@@ -0,0 +1,509 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+import type { Document } from "mongodb";
+
+import {
+  ApplicationError,
+  ErrorType,
+  ValidationError,
+} from "#root/config/errors.js";
+import type { FindQuery } from "#root/domain/index.js";
+import type { EncryptedFieldDefinition } from "../tools/schemabuilder/index.js";
+import type { EncryptionKeys, KeyProvider } from "./types.js";
+
+/**
+ * Prefix of the stored values: `enc:<key id>:<base64 of IV, tag and ciphertext>`.
+ */
+const CIPHERTEXT_PREFIX = "enc:";
+
+/**
+ * Key identifiers: they are part of every stored value.
+ */
+const KEY_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/**
+ * Sizes of the AES-256-GCM key, IV and authentication tag, in bytes.
+ */
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Operators an equality filter on a deterministic field may use.
+ */
+const EQUALITY_OPERATORS = new Set(["$eq", "$ne", "$in", "$nin"]);
+
+/**
+ * Keys derived from a configured key: one encrypts, the other derives the
+ * IVs of deterministic values.
+ */
+type DerivedKey = {
+  encryption: Buffer;
+  iv: Buffer;
+};
+
+/**
+ * Loaded keys, derived and validated.
+ */
+type Keyring = {
+  current: string;
+  keys: Map<string, DerivedKey>;
+};
+
+/**
+ * @class FieldCipher
+ * @description Encrypts the encrypted fields of a resource with AES-256-GCM.
+ * Values are serialized as JSON, bound to their field name and stored as
+ * `enc:<key id>:<payload>` strings, so that values encrypted with a retired
+ * key still decrypt. Deterministic fields derive their IV from the value:
+ * equal values give equal ciphertexts under a given key. Null values are
+ * stored as is, and values without the prefix (written before the field
+ * was encrypted) are returned as is.
+ */
+export class FieldCipher {
+  private keyring: Promise<Keyring> | null = null;
+
+  /**
+   * Creates the cipher of a resource.
+   *
+   * @param {KeyProvider} provider - Source of the keys
+   * @param {Record<string, EncryptedFieldDefinition>} fields - Encrypted fields of the resource
+   */
+  public constructor(
+    private readonly provider: KeyProvider,
+    private readonly fields: Record<string, EncryptedFieldDefinition>,
+  ) {}
+
+  /**
+   * Tells whether a field is encrypted.
+   *
+   * @param {string} field - Field name
+   * @returns {boolean} True for an encrypted field
+   */
+  public encrypts(field: string): boolean {
+    return Object.hasOwn(this.fields, field);
+  }
+
+  /**
+   * Encrypts the encrypted fields of written data with the current key.
+   *
+   * @template T - Data type
+   * @param {T} data - Written fields
+   * @returns {Promise<T>} Data to store
+   * @throws {ApplicationError} When the keys cannot be loaded
+   */
+  public async encrypt<T>(data: T): Promise<T> {
+    const keyring = await this.keys();
+    const document = { ...data } as Document;
+    for (const [field, { deterministic }] of Object.entries(this.fields)) {
+      const value: unknown = document[field];
+      if (value !== null && value !== undefined) {
+        document[field] = seal(
+          keyring,
+          keyring.current,
+          field,
+          value,
+          deterministic,
+        );
+      }
+    }
+    return document as T;
+  }
+
+  /**
+   * Decrypts the encrypted fields of a stored document.
+   *
+   * @template T - Document type
+   * @param {T} document - Stored document
+   * @returns {Promise<T>} Document with plaintext values
+   * @throws {ApplicationError} When a value was encrypted with an unknown key or altered
+   */
+  public async decrypt<T>(document: T): Promise<T> {
+    const keyring = await this.keys();
+    const decrypted = { ...document } as Document;
+    for (const field of Object.keys(this.fields)) {
+      const value: unknown = decrypted[field];
+      if (typeof value === "string" && value.startsWith(CIPHERTEXT_PREFIX)) {
+        decrypted[field] = open(keyring, field, value);
+      }
+    }
+    return decrypted as T;
+  }
+
+  /**
+   * Encrypts again, with the current key, the encrypted fields of a stored
+   * document, e.g. in a migration after a key rotation. Plaintext values
+   * are encrypted.
+   *
+   * @template T - Document type
+   * @param {T} document - Stored document
+   * @returns {Promise<T>} Document to store
+   */
+  public async reencrypt<T>(document: T): Promise<T> {
+    return this.encrypt(await this.decrypt(document));
+  }
+
+  /**
+   * Tells whether keys other than the current one are listed, in which case
+   * stored values may be encrypted under several keys.
+   *
+   * @returns {Promise<boolean>} True while retired keys are listed
+   * @throws {ApplicationError} When the keys cannot be loaded
+   */
+  public async hasRetiredKeys(): Promise<boolean> {
+    return (await this.keys()).keys.size > 1;
+  }
+
+  /**
+   * Translates the conditions of a query on encrypted fields. Equality
+   * conditions on deterministic fields match the ciphertexts of the value
+   * under every key; only `$exists` applies to the other encrypted fields.
+   *
+   * @template TEntity - The domain entity type
+   * @param {FindQuery<TEntity>} query - Query on plaintext values
+   * @returns {Promise<FindQuery<TEntity>>} Query on stored values
+   * @throws {ValidationError} When a condition cannot apply to encrypted values
+   */
+  public async encryptQuery<TEntity>(
+    query: FindQuery<TEntity>,
+  ): Promise<FindQuery<TEntity>> {
+    const conditions = Object.entries(this.fields).filter(
+      ([field]) => (query as Document)[field] !== undefined,
+    );
+    if (conditions.length === 0) {
+      return query;
+    }
+
+    const keyring = await this.keys();
+    const filter: Document = { ...query };
+    const violations: string[] = [];
+    for (const [field, { deterministic }] of conditions) {
+      const condition: unknown = filter[field];
+      const operators: Document = isOperatorObject(condition)
+        ? condition
+        : { $eq: condition };
+
+      const translated: Document = {};
+      for (const [operator, operand] of Object.entries(operators)) {
+        if (operator === "$exists") {
+          translated[operator] = operand;
+        } else if (!deterministic) {
+          violations.push(
+            `${field}: randomly encrypted fields cannot be filtered, use deterministic encryption`,
+          );
+        } else if (!EQUALITY_OPERATORS.has(operator)) {
+          violations.push(
+            `${field}: ${operator} is not supported on an encrypted field`,
+          );
+        } else {
+          const ciphertexts = (
+            Array.isArray(operand) ? operand : [operand]
+          ).flatMap((value: unknown) => candidates(keyring, field, value));
+          const target =
+            operator === "$eq" || operator === "$in" ? "$in" : "$nin";
+          const previous = translated[target] as unknown[] | undefined;
+          translated[target] =
+            previous === undefined
+              ? ciphertexts
+              : target === "$in"
+                ? previous.filter((value) => ciphertexts.includes(value))
+                : [...previous, ...ciphertexts];
+        }
+      }
+      filter[field] = translated;
+    }
+
+    if (violations.length > 0) {
+      throw new ValidationError({
+        message: "Invalid filter on encrypted fields",
+        field: "query",
+        violations,
+      });
+    }
+    return filter as FindQuery<TEntity>;
+  }
+
+  /**
+   * Loads the keys on first use. A failed load is retried on the next call.
+   *
+   * @returns {Promise<Keyring>} Derived keys
+   * @private
+   */
+  private async keys(): Promise<Keyring> {
+    if (!this.keyring) {
+      const keyring = Promise.resolve()
+        .then(() => this.provider.load())
+        .then(deriveKeyring);
+      keyring.catch(() => {
+        this.keyring = null;
+      });
+      this.keyring = keyring;
+    }
+    return this.keyring;
+  }
+}
+
+/**
+ * Reads the encryption keys from an environment variable listing
+ * `<id>:<base64 key>` pairs separated by commas, the current key first, e.g.
+ * `FIELD_ENCRYPTION_KEYS=2025-06:q8N...,2024-01:Zp3...`.
+ *
+ * @param {string} [variable] - Name of the variable
+ * @returns {KeyProvider} Provider reading the variable
+ */
+export function envKeyProvider(
+  variable = "FIELD_ENCRYPTION_KEYS",
+): KeyProvider {
+  /**
+   * Parses the keys listed in the variable.
+   *
+   * @returns {EncryptionKeys} Listed keys
+   * @throws {ApplicationError} When the variable is missing or malformed
+   */
+  const load = (): EncryptionKeys => {
+    const entries = (process.env[variable] ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== "")
+      .map((entry) => entry.split(":"));
+    if (entries.length === 0 || entries.some((entry) => entry.length !== 2)) {
+      throw keyError(
+        `${variable} must list <id>:<base64 key> pairs separated by commas`,
+        { variable },
+      );
+    }
+    return {
+      current: entries[0]![0]!,
+      keys: Object.fromEntries(
+        entries.map(([id, key]) => [id, Buffer.from(key!, "base64")]),
+      ),
+    };
+  };
+  return { load };
+}
+
+/**
+ * Reads the encryption keys from a JSON keyfile:
+ * `{ "current": "2025-06", "keys": { "2025-06": "<base64 key>", ... } }`.
+ * The file is read when the keys are first used.
+ *
+ * @param {string} path - Path of the keyfile
+ * @returns {KeyProvider} Provider reading the file
+ */
+export function fileKeyProvider(path: string): KeyProvider {
+  /**
+   * Reads and parses the keyfile.
+   *
+   * @returns {Promise<EncryptionKeys>} Keys of the file
+   * @throws {ApplicationError} When the file cannot be read or is malformed
+   */
+  const load = async (): Promise<EncryptionKeys> => {
+    let content: unknown;
+    try {
+      content = JSON.parse(await readFile(path, "utf8"));
+    } catch (error) {
+      throw keyError(`Cannot read the keyfile ${path}`, { path }, error);
+    }
+
+    const { current, keys } = (content ?? {}) as Record<string, unknown>;
+    if (
+      typeof current !== "string" ||
+      typeof keys !== "object" ||
+      keys === null ||
+      !Object.values(keys).every((key) => typeof key === "string")
+    ) {
+      throw keyError(
+        `The keyfile ${path} must hold "current" and base64 "keys" by id`,
+        { path },
+      );
+    }
+    return {
+      current,
+      keys: Object.fromEntries(
+        Object.entries(keys as Record<string, string>).map(([id, key]) => [
+          id,
+          Buffer.from(key, "base64"),
+        ]),
+      ),
+    };
+  };
+  return { load };
+}
+
+/**
+ * Validates the loaded keys and derives the encryption and IV keys.
+ *
+ * @param {EncryptionKeys} keys - Loaded keys
+ * @returns {Keyring} Derived keys
+ * @throws {ApplicationError} When a key is malformed or the current one is missing
+ */
+function deriveKeyring(keys: EncryptionKeys): Keyring {
+  const derived = new Map<string, DerivedKey>();
+  for (const [id, key] of Object.entries(keys.keys)) {
+    if (!KEY_ID_PATTERN.test(id)) {
+      throw keyError(
+        `Encryption key id ${id} must be 1 to 64 letters, digits, '.', '-' or '_'`,
+        { keyId: id },
+      );
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw keyError(`Encryption key ${id} must be ${KEY_LENGTH} bytes`, {
+        keyId: id,
+      });
+    }
+    derived.set(id, {
+      encryption: Buffer.from(
+        hkdfSync("sha256", key, Buffer.alloc(0), "field encryption", 32),
+      ),
+      iv: Buffer.from(
+        hkdfSync("sha256", key, Buffer.alloc(0), "deterministic iv", 32),
+      ),
+    });
+  }
+  if (!derived.has(keys.current)) {
+    throw keyError(`The current encryption key ${keys.current} is not listed`, {
+      keyId: keys.current,
+    });
+  }
+  return { current: keys.current, keys: derived };
+}
+
+/**
+ * Encrypts a value with a key.
+ *
+ * @param {Keyring} keyring - Derived keys
+ * @param {string} keyId - Key to encrypt with
+ * @param {string} field - Field holding the value, authenticated with it
+ * @param {unknown} value - Plaintext value
+ * @param {boolean} deterministic - Derive the IV from the value
+ * @returns {string} Stored value
+ */
+function seal(
+  keyring: Keyring,
+  keyId: string,
+  field: string,
+  value: unknown,
+  deterministic: boolean,
+): string {
+  const key = keyring.keys.get(keyId)!;
+  const plaintext = Buffer.from(JSON.stringify(value));
+  const iv = deterministic
+    ? createHmac("sha256", key.iv)
+        .update(`${field}\0`)
+        .update(plaintext)
+        .digest()
+        .subarray(0, IV_LENGTH)
+    : randomBytes(IV_LENGTH);
+
+  const cipher = createCipheriv("aes-256-gcm", key.encryption, iv);
+  cipher.setAAD(Buffer.from(field));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  return `${CIPHERTEXT_PREFIX}${keyId}:${payload.toString("base64")}`;
+}
+
+/**
+ * Decrypts a stored value.
+ *
+ * @param {Keyring} keyring - Derived keys
+ * @param {string} field - Field holding the value
+ * @param {string} value - Stored value
+ * @returns {unknown} Plaintext value
+ * @throws {ApplicationError} When the key is unknown or the value was altered
+ */
+function open(keyring: Keyring, field: string, value: string): unknown {
+  const separator = value.indexOf(":", CIPHERTEXT_PREFIX.length);
+  const keyId = value.slice(CIPHERTEXT_PREFIX.length, separator);
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw keyError(`Unknown encryption key ${keyId}`, { field, keyId });
+  }
+
+  const payload = Buffer.from(value.slice(separator + 1), "base64");
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key.encryption,
+      payload.subarray(0, IV_LENGTH),
+    );
+    decipher.setAAD(Buffer.from(field));
+    decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    const plaintext = Buffer.concat([
+      decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString());
+  } catch (error) {
+    throw new ApplicationError({
+      type: ErrorType.DATABASE_ERROR,
+      message: `Encrypted value of ${field} cannot be decrypted`,
+      metadata: { field, keyId },
+      cause: error as Error,
+    });
+  }
+}
+
+/**
+ * Lists the stored values a deterministic value may have: its ciphertext
+ * under every key. Null is stored as is.
+ *
+ * @param {Keyring} keyring - Derived keys
+ * @param {string} field - Field holding the value
+ * @param {unknown} value - Plaintext value
+ * @returns {unknown[]} Possible stored values
+ */
+function candidates(
+  keyring: Keyring,
+  field: string,
+  value: unknown,
+): unknown[] {
+  if (value === null) {
+    return [null];
+  }
+  return [...keyring.keys.keys()].map((keyId) =>
+    seal(keyring, keyId, field, value, true),
+  );
+}
+
+/**
+ * Builds the error reported for missing or malformed keys.
+ *
+ * @param {string} message - Error message
+ * @param {Record<string, unknown>} metadata - Key, variable or file concerned
+ * @param {unknown} [cause] - Underlying error
+ * @returns {ApplicationError} Configuration error
+ */
+function keyError(
+  message: string,
+  metadata: Record<string, unknown>,
+  cause?: unknown,
+): ApplicationError {
+  return new ApplicationError({
+    type: ErrorType.CONFIG_ERROR,
+    message,
+    metadata,
+    cause: cause instanceof Error ? cause : undefined,
+  });
+}
+
+/**
+ * Tells operator objects (`{ $in: [...] }`) apart from plain values.
+ *
+ * @param {unknown} value - Filter condition
+ * @returns {boolean} True when every key is an operator
+ */
+function isOperatorObject(value: unknown): value is Document {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"))
+  );
+}
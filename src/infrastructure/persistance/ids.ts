@@ -0,0 +1,245 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { ObjectId } from "mongodb";
+import type { Document } from "mongodb";
+
+import { ValidationError } from "#root/config/errors.js";
+import type { EntityId } from "#root/domain/index.js";
+import type { IdCodec, IdStrategy } from "./types.js";
+
+/**
+ * Alphabet of ULIDs (Crockford's base32).
+ */
+const CROCKFORD_BASE32 = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/**
+ * Resolves an id strategy into the operations the repositories need.
+ *
+ * @param {IdStrategy} [strategy] - Configured strategy (default: ObjectId)
+ * @returns {IdCodec} Generation, parsing and documentation of the ids
+ */
+export function resolveIdStrategy(strategy: IdStrategy = "objectId"): IdCodec {
+  switch (strategy) {
+    case "objectId":
+      return {
+        format: "MongoDB ObjectId format",
+        description: "MongoDB ObjectId",
+        bsonType: "objectId",
+        pattern: /^[a-f\d]{24}$/,
+        example: "507f1f77bcf86cd799439011",
+        generate: newObjectId,
+        parse: parseObjectId,
+      };
+    case "uuid":
+      return stringIds({
+        format: "UUID v4",
+        description: "UUID v4",
+        pattern:
+          /^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/,
+        example: "3b241101-e2bb-4255-8caf-4136c566a962",
+        generate: randomUUID,
+      });
+    case "uuidv7":
+      return stringIds({
+        format: "UUID v7",
+        description: "UUID v7, ordered by creation time",
+        pattern:
+          /^[\da-f]{8}-[\da-f]{4}-7[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/,
+        example: "01890a5d-ac96-774b-bcce-b302099a8057",
+        generate: uuidv7,
+      });
+    case "ulid":
+      return stringIds({
+        format: "ULID",
+        description: "ULID, ordered by creation time",
+        pattern: /^[0-7][\dA-HJKMNP-TV-Z]{25}$/,
+        example: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+        generate: ulid,
+      });
+  }
+
+  if ("field" in strategy) {
+    const { field } = strategy;
+    const codec = stringIds({
+      format: field,
+      description: `Natural key: the ${field} of the entity`,
+      pattern: strategy.pattern,
+      generate: String,
+    });
+
+    /**
+     * Reads the id of a new entity from its key field.
+     *
+     * @param {Document} data - Data of the new entity
+     * @returns {EntityId | null} The key, null when missing or malformed
+     */
+    const generate = (data: Document): EntityId | null =>
+      typeof data[field] === "string" ? codec.parse(data[field]) : null;
+
+    return { ...codec, field, generate };
+  }
+  return stringIds({
+    format: "identifier",
+    description: "Entity identifier",
+    pattern: strategy.pattern,
+    generate: strategy.generate,
+  });
+}
+
+/**
+ * Parses a requested id.
+ *
+ * @param {IdCodec} ids - Id strategy of the repository
+ * @param {string} id - Requested identifier
+ * @returns {EntityId} Stored identifier
+ * @throws {ValidationError} When the id does not match the strategy
+ */
+export function parseEntityId(ids: IdCodec, id: string): EntityId {
+  const parsed = ids.parse(id);
+  if (parsed === null) {
+    throw new ValidationError({
+      message: "Invalid entity identifier format",
+      field: "id",
+      violations: [`ID must be a valid ${ids.format}`],
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Generates the id of a new entity.
+ *
+ * @param {IdCodec} ids - Id strategy of the repository
+ * @param {Document} data - Data of the new entity
+ * @returns {EntityId} Identifier of the entity
+ * @throws {ValidationError} When the natural key is missing or malformed
+ */
+export function newEntityId(ids: IdCodec, data: Document): EntityId {
+  const id = ids.generate(data);
+  if (id === null) {
+    throw naturalKeyError(ids);
+  }
+  return id;
+}
+
+/**
+ * Tells whether a write would change the natural key of an entity, which
+ * would change its identifier.
+ *
+ * @param {IdCodec} ids - Id strategy of the repository
+ * @param {EntityId} id - Identifier of the written entity
+ * @param {Document} data - Written fields
+ * @returns {boolean} True when the key field is set to another value
+ */
+export function changesNaturalKey(
+  ids: IdCodec,
+  id: EntityId,
+  data: Document,
+): boolean {
+  return (
+    ids.field !== undefined &&
+    data[ids.field] !== undefined &&
+    data[ids.field] !== String(id)
+  );
+}
+
+/**
+ * Builds the error reported for a missing, malformed or changed natural key.
+ *
+ * @param {IdCodec} ids - Id strategy of the repository
+ * @returns {ValidationError} Validation error on the key field
+ */
+export function naturalKeyError(ids: IdCodec): ValidationError {
+  return new ValidationError({
+    message: "Invalid natural key",
+    field: ids.field,
+    violations: [
+      `${ids.field} identifies the entity: it is required, must be a valid ${ids.format} and cannot change`,
+    ],
+  });
+}
+
+/**
+ * Builds a strategy storing ids as strings. Without a pattern any non-empty
+ * string is accepted.
+ *
+ * @param {Pick<IdCodec, "format" | "description" | "pattern" | "example"> & { generate: () => string }} options - Format, documentation and generator
+ * @returns {IdCodec} String id strategy
+ */
+function stringIds(
+  options: Pick<IdCodec, "format" | "description" | "pattern" | "example"> & {
+    generate: () => string;
+  },
+): IdCodec {
+  const { pattern } = options;
+
+  /**
+   * Accepts any non-empty id matching the pattern.
+   *
+   * @param {string} id - Requested identifier
+   * @returns {EntityId | null} The id, null when malformed
+   */
+  const parse = (id: string): EntityId | null =>
+    id !== "" && (!pattern || pattern.test(id)) ? id : null;
+
+  return { ...options, bsonType: "string", parse };
+}
+
+/**
+ * Generates a MongoDB ObjectId.
+ *
+ * @returns {EntityId} New ObjectId
+ */
+function newObjectId(): EntityId {
+  return new ObjectId();
+}
+
+/**
+ * Parses a 24-character hexadecimal ObjectId.
+ *
+ * @param {string} id - Requested identifier
+ * @returns {EntityId | null} The ObjectId, null when malformed
+ */
+function parseObjectId(id: string): EntityId | null {
+  return ObjectId.isValid(id) && id.length === 24 ? new ObjectId(id) : null;
+}
+
+/**
+ * Generates a UUID v7: a millisecond timestamp followed by random bits, so
+ * that ids sort by creation time.
+ *
+ * @returns {string} UUID v7
+ */
+function uuidv7(): string {
+  const bytes = randomBytes(16);
+  bytes.writeUIntBE(Date.now(), 0, 6);
+  bytes[6] = (bytes[6]! & 0x0f) | 0x70;
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+  const hex = bytes.toString("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+/**
+ * Generates a ULID: a 10-character millisecond timestamp followed by 16
+ * random characters, so that ids sort by creation time.
+ *
+ * @returns {string} ULID
+ */
+function ulid(): string {
+  let time = Date.now();
+  let timestamp = "";
+  for (let position = 0; position < 10; position++) {
+    timestamp = CROCKFORD_BASE32[time % 32] + timestamp;
+    time = Math.floor(time / 32);
+  }
+  // 256 is a multiple of 32, so every character is equally likely
+  const random = [...randomBytes(16)]
+    .map((byte) => CROCKFORD_BASE32[byte % 32])
+    .join("");
+  return timestamp + random;
+}
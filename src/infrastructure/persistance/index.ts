@@ -1,2 +1,17 @@
 export * from "./mongoconnection.js";
 export * from "./mongorepo.js";
+export * from "./memoryrepo.js";
+export * from "./sqliterepo.js";
+export * from "./cursor.js";
+export * from "./ids.js";
+export type * from "./types.js";
+export * from "./unitofwork.js";
+export * from "./bulk.js";
+export * from "./changefeed.js";
+export * from "./tenantrepo.js";
+export * from "./encryption.js";
+export * from "./encryptedrepo.js";
+export * from "./indexes.js";
+export * from "./jsonschema.js";
+export * from "./migrations.js";
+export * from "./references.js";
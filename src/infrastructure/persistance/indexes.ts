@@ -0,0 +1,192 @@
+import type { CollationOptions, Document, IndexDescription } from "mongodb";
+
+import { ApplicationError, ErrorType } from "#root/config/errors.js";
+import type { IndexDefinition, IndexPlan } from "./types.js";
+
+/**
+ * Prefix of the indexes owned by the repository. Indexes with any other
+ * name are left alone by the reconciliation.
+ */
+export const MANAGED_INDEX_PREFIX = "idx_";
+
+/**
+ * Collation of case-insensitive indexes. Strength 2 ignores case but not accents.
+ */
+const CASE_INSENSITIVE_COLLATION: CollationOptions = {
+  locale: "en",
+  strength: 2,
+};
+
+/**
+ * Converts a declarative index definition into a driver index description.
+ *
+ * @param {IndexDefinition} definition - Declared index
+ * @returns {IndexDescription} Index description for `createIndexes`
+ * @throws {ApplicationError} When the definition is invalid (CONFIG_ERROR)
+ */
+export function toIndexDescription(
+  definition: IndexDefinition,
+): IndexDescription {
+  const fields = Object.entries(definition.fields) as [string, 1 | -1][];
+  const name = definition.name ?? defaultIndexName(fields);
+
+  const problems: string[] = [];
+  if (fields.length === 0) {
+    problems.push("at least one field is required");
+  }
+  if (!name.startsWith(MANAGED_INDEX_PREFIX)) {
+    problems.push(`name must start with "${MANAGED_INDEX_PREFIX}"`);
+  }
+  if (definition.expireAfterSeconds !== undefined) {
+    if (fields.length !== 1) {
+      problems.push("TTL indexes must have a single field");
+    }
+    if (
+      !Number.isInteger(definition.expireAfterSeconds) ||
+      definition.expireAfterSeconds < 0
+    ) {
+      problems.push("expireAfterSeconds must be a non-negative integer");
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ApplicationError({
+      type: ErrorType.CONFIG_ERROR,
+      message: `Invalid index definition ${name}: ${problems.join(", ")}`,
+      metadata: { index: name, problems },
+    });
+  }
+
+  const collation =
+    definition.collation ??
+    (definition.caseInsensitive ? CASE_INSENSITIVE_COLLATION : undefined);
+
+  return {
+    key: Object.fromEntries(fields),
+    name,
+    ...(definition.unique && { unique: true }),
+    ...(definition.sparse && { sparse: true }),
+    ...(definition.expireAfterSeconds !== undefined && {
+      expireAfterSeconds: definition.expireAfterSeconds,
+    }),
+    ...(definition.partialFilterExpression && {
+      partialFilterExpression: definition.partialFilterExpression,
+    }),
+    ...(collation && { collation }),
+  };
+}
+
+/**
+ * Compares the declared indexes with the ones found on the collection.
+ *
+ * @param {IndexDescription[]} desired - Declared indexes, all named
+ * @param {Document[]} existing - Result of `listIndexes`
+ * @returns {IndexPlan} Indexes to create, conflicting and stale indexes
+ * @throws {ApplicationError} When two declared indexes share a name (CONFIG_ERROR)
+ */
+export function planIndexes(
+  desired: IndexDescription[],
+  existing: Document[],
+): IndexPlan {
+  const current = new Map<string, Document>();
+  for (const index of existing) {
+    current.set(String(index["name"]), index);
+  }
+
+  const plan: IndexPlan = { missing: [], conflicts: [], stale: [] };
+  const declared = new Set<string>();
+
+  for (const index of desired) {
+    const name = index.name as string;
+    if (declared.has(name)) {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: `Index ${name} is declared more than once`,
+        metadata: { index: name },
+      });
+    }
+    declared.add(name);
+
+    const found = current.get(name);
+    if (!found) {
+      plan.missing.push(index);
+      continue;
+    }
+
+    const expected = indexSignature(index as Document);
+    const actual = indexSignature(found);
+    if (canonicalize(expected) !== canonicalize(actual)) {
+      plan.conflicts.push({ name, expected, actual });
+    }
+  }
+
+  for (const name of current.keys()) {
+    if (name.startsWith(MANAGED_INDEX_PREFIX) && !declared.has(name)) {
+      plan.stale.push(name);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Builds the default name of an index from its fields, e.g. `idx_category_1_price_-1`.
+ *
+ * @param {[string, 1 | -1][]} fields - Indexed fields and directions
+ * @returns {string} Index name
+ */
+function defaultIndexName(fields: [string, 1 | -1][]): string {
+  return `${MANAGED_INDEX_PREFIX}${fields
+    .map(([field, direction]) => `${field}_${direction}`)
+    .join("_")}`;
+}
+
+/**
+ * Extracts the options that define an index, leaving out server defaults and
+ * bookkeeping such as `v` or `ns`. Text indexes are compared on their weights
+ * because the server rewrites their key.
+ *
+ * @param {Document} index - Declared or existing index
+ * @returns {Document} Comparable index definition
+ */
+function indexSignature(index: Document): Document {
+  const key = index["key"] as Document;
+  const isText =
+    "_fts" in key || Object.values(key).some((value) => value === "text");
+  const collation = index["collation"] as CollationOptions | undefined;
+
+  return {
+    ...(isText ? { weights: index["weights"] } : { key: Object.entries(key) }),
+    unique: index["unique"] === true,
+    sparse: index["sparse"] === true,
+    expireAfterSeconds: index["expireAfterSeconds"],
+    partialFilterExpression: index["partialFilterExpression"],
+    collation: collation && {
+      locale: collation.locale,
+      // The server stores the default strength (3) when none was declared
+      strength: collation.strength ?? 3,
+    },
+  };
+}
+
+/**
+ * Serializes a value with sorted object keys so that equal definitions
+ * compare equal regardless of key order. Arrays keep their order.
+ *
+ * @param {unknown} value - Value to serialize
+ * @returns {string} Canonical JSON
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const entries = Object.entries(value as Document)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([name, entry]) => `${JSON.stringify(name)}:${canonicalize(entry)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,203 @@
+import type { Document } from "mongodb";
+import type { ZodObject, ZodType } from "zod";
+
+import { ZodToSwagger } from "../http/swagger/generator.js";
+import { describeEncryptedFields } from "../tools/schemabuilder/index.js";
+import type { OpenAPISchemaObject } from "../http/swagger/types.js";
+
+/**
+ * Properties the repository maintains on every document.
+ */
+const AUDIT_PROPERTIES: Record<string, Document> = {
+  createdAt: { bsonType: "date" },
+  updatedAt: { bsonType: "date" },
+  createdBy: { bsonType: ["string", "null"] },
+  updatedBy: { bsonType: ["string", "null"] },
+  __v: { bsonType: "number" },
+  deletedAt: { bsonType: ["date", "null"] },
+  deletedBy: { bsonType: ["string", "null"] },
+};
+
+/**
+ * Converts a resource schema into a MongoDB `$jsonSchema` validator. The
+ * schema is walked by `ZodToSwagger.convertSchema` and the resulting OpenAPI
+ * schema is translated to BSON types. Encrypted fields are stored as
+ * strings. The audit fields are added, and unknown fields stay allowed.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @param {"objectId" | "string"} [idType] - BSON type of `_id`, given by the id strategy
+ * @returns {Document} `$jsonSchema` document
+ */
+export function toMongoJsonSchema(
+  schema: ZodObject<Record<string, ZodType>>,
+  idType: "objectId" | "string" = "objectId",
+): Document {
+  const converted = toBsonSchema(ZodToSwagger.convertSchema(schema));
+  const encrypted = Object.keys(describeEncryptedFields(schema)).map(
+    (field) => {
+      const { bsonType, description } = converted["properties"][field];
+      const nullable = Array.isArray(bsonType) && bsonType.includes("null");
+      return [
+        field,
+        {
+          bsonType: nullable ? ["string", "null"] : "string",
+          ...(description && { description }),
+        },
+      ];
+    },
+  );
+  return {
+    ...converted,
+    properties: {
+      ...converted["properties"],
+      ...Object.fromEntries(encrypted),
+      ...AUDIT_PROPERTIES,
+      _id: { bsonType: idType },
+    },
+  };
+}
+
+/**
+ * Lists the failing paths reported by a document validation error (code 121),
+ * e.g. `price: type did not match` or `name: is required`.
+ *
+ * @param {Document | undefined} errInfo - `errInfo` of the server error
+ * @returns {string[]} One violation per failing rule
+ */
+export function documentValidationViolations(
+  errInfo: Document | undefined,
+): string[] {
+  const violations: string[] = [];
+  collectViolations(errInfo?.["details"], "", violations);
+  return [...new Set(violations)];
+}
+
+/**
+ * Translates an OpenAPI schema object into a `$jsonSchema` one.
+ *
+ * @param {OpenAPISchemaObject} schema - Converted OpenAPI schema
+ * @returns {Document} `$jsonSchema` fragment
+ */
+function toBsonSchema(schema: OpenAPISchemaObject): Document {
+  // Untranslatable Zod types fall back to an object without properties
+  if (schema.type === "object" && !schema.properties) {
+    return {};
+  }
+
+  const result: Document = {};
+  let bsonType: string;
+  switch (schema.type) {
+    case "string":
+      bsonType = schema.format === "date-time" ? "date" : "string";
+      break;
+    case "integer":
+      bsonType = "number";
+      result["multipleOf"] = 1;
+      break;
+    case "boolean":
+      bsonType = "bool";
+      break;
+    default:
+      bsonType = schema.type ?? "object";
+  }
+  result["bsonType"] = schema.nullable ? [bsonType, "null"] : bsonType;
+
+  if (schema.enum) {
+    result["enum"] = schema.nullable ? [...schema.enum, null] : schema.enum;
+  }
+  if (bsonType === "string") {
+    if (schema.minLength !== undefined) result["minLength"] = schema.minLength;
+    if (schema.maxLength !== undefined) result["maxLength"] = schema.maxLength;
+    if (schema.pattern !== undefined) result["pattern"] = schema.pattern;
+  }
+  if (schema.minimum !== undefined) {
+    result["minimum"] = schema.minimum;
+    if (schema.exclusiveMinimum) result["exclusiveMinimum"] = true;
+  }
+  if (schema.maximum !== undefined) {
+    result["maximum"] = schema.maximum;
+    if (schema.exclusiveMaximum) result["exclusiveMaximum"] = true;
+  }
+  if (schema.items) {
+    result["items"] = toBsonSchema(schema.items);
+  }
+  if (schema.properties) {
+    result["properties"] = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [
+        name,
+        toBsonSchema(property),
+      ]),
+    );
+  }
+  if (schema.required) {
+    result["required"] = schema.required;
+  }
+  if (schema.description) {
+    result["description"] = schema.description;
+  }
+  return result;
+}
+
+/**
+ * Walks the `details` of a validation error. Property and item rules extend
+ * the path, missing required properties and failed rules add a violation.
+ *
+ * @param {unknown} node - Detail node
+ * @param {string} path - Path of the node
+ * @param {string[]} violations - Collected violations
+ */
+function collectViolations(
+  node: unknown,
+  path: string,
+  violations: string[],
+): void {
+  if (Array.isArray(node)) {
+    for (const entry of node) {
+      collectViolations(entry, path, violations);
+    }
+    return;
+  }
+  if (!node || typeof node !== "object") {
+    return;
+  }
+
+  const detail = node as Document;
+  const here =
+    typeof detail["itemIndex"] === "number"
+      ? `${path}[${detail["itemIndex"]}]`
+      : path;
+
+  for (const property of (detail["propertiesNotSatisfied"] ??
+    []) as Document[]) {
+    collectViolations(
+      property["details"],
+      joinPath(here, String(property["propertyName"])),
+      violations,
+    );
+  }
+  for (const missing of (detail["missingProperties"] ?? []) as string[]) {
+    violations.push(`${joinPath(here, missing)}: is required`);
+  }
+
+  const nested = detail["schemaRulesNotSatisfied"] ?? detail["details"];
+  if (nested) {
+    collectViolations(nested, here, violations);
+  } else if (
+    typeof detail["reason"] === "string" &&
+    !detail["propertiesNotSatisfied"] &&
+    !detail["missingProperties"]
+  ) {
+    violations.push(`${here || "document"}: ${detail["reason"]}`);
+  }
+}
+
+/**
+ * Appends a property name to a path.
+ *
+ * @param {string} path - Parent path, empty at the root
+ * @param {string} name - Property name
+ * @returns {string} Dotted path
+ */
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
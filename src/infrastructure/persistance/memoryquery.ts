@@ -0,0 +1,342 @@
+import { ObjectId } from "mongodb";
+import type { Document } from "mongodb";
+
+import type { Projection } from "#root/domain/index.js";
+import {
+  assertSafePattern,
+  testPattern,
+} from "../tools/filtercompiler/index.js";
+
+/**
+ * Sort order of the value types, following the BSON comparison order.
+ */
+const TYPE_RANK = {
+  null: 1,
+  number: 2,
+  string: 3,
+  object: 4,
+  array: 5,
+  objectId: 7,
+  boolean: 8,
+  date: 9,
+} as const;
+
+/**
+ * Evaluates a find filter against a document with MongoDB semantics: plain
+ * values match by equality (any element for arrays) and objects whose keys
+ * all start with `$` are treated as operators. `$and`/`$or` are supported.
+ *
+ * @param {Document} document - Stored document
+ * @param {Document} filter - Filter, as produced by the filter compiler
+ * @returns {boolean} Whether the document matches
+ */
+export function matchesFilter(document: Document, filter: Document): boolean {
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === "$and") {
+      if (!(condition as Document[]).every((f) => matchesFilter(document, f))) {
+        return false;
+      }
+      continue;
+    }
+    if (key === "$or") {
+      if (!(condition as Document[]).some((f) => matchesFilter(document, f))) {
+        return false;
+      }
+      continue;
+    }
+
+    const value = valueAt(document, key);
+    const matches = isOperatorObject(condition)
+      ? Object.entries(condition).every(([operator, operand]) =>
+          matchesOperator(value, operator, operand),
+        )
+      : matchesValue(value, condition);
+    if (!matches) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Compares two values in BSON order. Values of different types are ordered
+ * by type, like MongoDB sorts mixed fields.
+ *
+ * @param {unknown} a - First value
+ * @param {unknown} b - Second value
+ * @returns {number} Negative, zero or positive like `Array.prototype.sort` expects
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const rankA = TYPE_RANK[typeOf(a)];
+  const rankB = TYPE_RANK[typeOf(b)];
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  const left = comparable(a);
+  const right = comparable(b);
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  if (typeof left === "boolean" && typeof right === "boolean") {
+    return Number(left) - Number(right);
+  }
+  return 0;
+}
+
+/**
+ * Applies a projection to a document. `_id` is always kept.
+ *
+ * @param {Document} document - Full document
+ * @param {Projection} projection - Include (1) or exclude (0) projection
+ * @returns {Document} Projected copy of the document
+ */
+export function applyProjection(
+  document: Document,
+  projection: Projection,
+): Document {
+  const including = Object.values(projection).includes(1);
+
+  if (including) {
+    const projected: Document = { _id: document["_id"] };
+    for (const [field, flag] of Object.entries(projection)) {
+      if (flag === 1 && document[field] !== undefined) {
+        projected[field] = document[field];
+      }
+    }
+    return projected;
+  }
+
+  const projected: Document = { ...document };
+  for (const field of Object.keys(projection)) {
+    if (field !== "_id") {
+      delete projected[field];
+    }
+  }
+  return projected;
+}
+
+/**
+ * Deep copies a document so that callers cannot mutate the stored state.
+ * ObjectIds are immutable and shared, Dates are copied.
+ *
+ * @param {T} value - Value to copy
+ * @returns {T} Copy of the value
+ * @template T - Value type
+ */
+export function cloneDocument<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneDocument) as T;
+  }
+  if (isPlainObject(value)) {
+    const copy: Document = {};
+    for (const [key, entry] of Object.entries(value)) {
+      copy[key] = cloneDocument(entry);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Builds a key that is equal for equal values, used to compare tuples of
+ * unique field values.
+ *
+ * @param {unknown} value - Value to serialize
+ * @returns {string} Comparison key
+ */
+export function valueKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(valueKey).join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).sort(([a], [b]) =>
+      a < b ? -1 : a > b ? 1 : 0,
+    );
+    return `{${entries
+      .map(([key, entry]) => `${JSON.stringify(key)}:${valueKey(entry)}`)
+      .join(",")}}`;
+  }
+  return `${typeOf(value)}:${JSON.stringify(comparable(value)) ?? "null"}`;
+}
+
+/**
+ * Reads a possibly dotted path from a document.
+ *
+ * @param {Document} document - Document to read
+ * @param {string} path - Field name or dotted path
+ * @returns {unknown} Value at the path, undefined when missing
+ */
+function valueAt(document: Document, path: string): unknown {
+  let current: unknown = document;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Document)[segment];
+  }
+  return current;
+}
+
+/**
+ * Evaluates a single query operator.
+ *
+ * @param {unknown} value - Field value of the document
+ * @param {string} operator - Operator, e.g. `$gte`
+ * @param {unknown} operand - Operator argument
+ * @returns {boolean} Whether the value satisfies the operator
+ * @throws {Error} When the operator is not supported or a `$regex` pattern is unsafe
+ */
+function matchesOperator(
+  value: unknown,
+  operator: string,
+  operand: unknown,
+): boolean {
+  switch (operator) {
+    case "$eq":
+      return matchesValue(value, operand);
+    case "$ne":
+      return !matchesValue(value, operand);
+    case "$gt":
+      return matchesRange(value, operand, (order) => order > 0);
+    case "$gte":
+      return matchesRange(value, operand, (order) => order >= 0);
+    case "$lt":
+      return matchesRange(value, operand, (order) => order < 0);
+    case "$lte":
+      return matchesRange(value, operand, (order) => order <= 0);
+    case "$in":
+      return (operand as unknown[]).some((entry) => matchesValue(value, entry));
+    case "$nin":
+      return !(operand as unknown[]).some((entry) =>
+        matchesValue(value, entry),
+      );
+    case "$all":
+      return (
+        Array.isArray(value) &&
+        (operand as unknown[]).every((entry) => matchesValue(value, entry))
+      );
+    case "$regex": {
+      assertSafePattern(String(operand));
+      const pattern = new RegExp(String(operand));
+      return candidates(value).some(
+        (entry) => typeof entry === "string" && testPattern(pattern, entry),
+      );
+    }
+    case "$exists":
+      return (value !== undefined) === Boolean(operand);
+    default:
+      throw new Error(`Unsupported query operator ${operator}`);
+  }
+}
+
+/**
+ * Equality with MongoDB semantics: an array matches when it equals the
+ * operand or contains it, and `null` matches missing fields.
+ *
+ * @param {unknown} value - Field value of the document
+ * @param {unknown} operand - Expected value
+ * @returns {boolean} Whether the value matches
+ */
+function matchesValue(value: unknown, operand: unknown): boolean {
+  if (operand === null) {
+    return value === null || value === undefined;
+  }
+  const expected = valueKey(operand);
+  return candidates(value).some((entry) => valueKey(entry) === expected);
+}
+
+/**
+ * Range comparison, only between values of the same type (any element for arrays).
+ *
+ * @param {unknown} value - Field value of the document
+ * @param {unknown} operand - Bound to compare with
+ * @param {(order: number) => boolean} accept - Decides from the comparison result
+ * @returns {boolean} Whether the value is in range
+ */
+function matchesRange(
+  value: unknown,
+  operand: unknown,
+  accept: (order: number) => boolean,
+): boolean {
+  return candidates(value).some(
+    (entry) =>
+      typeOf(entry) === typeOf(operand) &&
+      accept(compareValues(entry, operand)),
+  );
+}
+
+/**
+ * Values a field offers to a comparison: the value itself plus its elements
+ * when it is an array.
+ *
+ * @param {unknown} value - Field value
+ * @returns {unknown[]} Candidate values
+ */
+function candidates(value: unknown): unknown[] {
+  return Array.isArray(value) ? [value, ...value] : [value];
+}
+
+/**
+ * Classifies a value for comparisons.
+ *
+ * @param {unknown} value - Value to classify
+ * @returns {keyof typeof TYPE_RANK} Value type
+ */
+function typeOf(value: unknown): keyof typeof TYPE_RANK {
+  if (value === null || value === undefined) return "null";
+  if (value instanceof Date) return "date";
+  if (value instanceof ObjectId) return "objectId";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" || typeof value === "bigint") return "number";
+  if (typeof value === "string") return "string";
+  if (typeof value === "boolean") return "boolean";
+  return "object";
+}
+
+/**
+ * Converts Dates and ObjectIds into primitives that compare like them.
+ *
+ * @param {unknown} value - Value to convert
+ * @returns {unknown} Primitive value
+ */
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (value instanceof ObjectId) return value.toHexString();
+  if (typeof value === "bigint") return Number(value);
+  return value;
+}
+
+/**
+ * Tells operator objects (`{ $gte: 1 }`) apart from plain values.
+ *
+ * @param {unknown} value - Filter condition
+ * @returns {boolean} True when every key is an operator
+ */
+function isOperatorObject(value: unknown): value is Document {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"))
+  );
+}
+
+/**
+ * Checks for a plain object (not a Date, ObjectId or other class instance).
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for object literals
+ */
+function isPlainObject(value: unknown): value is Document {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
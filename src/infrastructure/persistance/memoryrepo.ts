@@ -0,0 +1,1135 @@
+import type { Document } from "mongodb";
+
+import {
+  ApplicationError,
+  ConcurrencyError,
+  ErrorType,
+  ValidationError,
+} from "#root/config/errors.js";
+import type {
+  BulkOptions,
+  BulkRemoveOptions,
+  BulkResult,
+  BulkUpdateItem,
+  EntityId,
+  FindQuery,
+  IRepository,
+  Logger,
+  MongoDocument,
+  PaginatedResult,
+  PaginationOptions,
+  Projection,
+  ProjectedDocument,
+  ProjectionOptions,
+  QueryOptions,
+  RemoveOptions,
+  ReplaceOptions,
+  ReplaceResult,
+  SessionOptions,
+  UpdateOptions,
+} from "#root/domain/index.js";
+import type { IdCodec, InMemoryRepositoryOptions } from "./types.js";
+import { getRequestContext } from "../context/index.js";
+import { decodeCursor, encodeCursor } from "./cursor.js";
+import {
+  BulkResultCollector,
+  duplicateItemError,
+  invalidIdItemError,
+  naturalKeyItemError,
+  notFoundItemError,
+} from "./bulk.js";
+import {
+  changesNaturalKey,
+  naturalKeyError,
+  newEntityId,
+  parseEntityId,
+  resolveIdStrategy,
+} from "./ids.js";
+import {
+  applyProjection,
+  cloneDocument,
+  compareValues,
+  matchesFilter,
+  valueKey,
+} from "./memoryquery.js";
+
+/**
+ * @class InMemoryRepository
+ * @description Repository keeping its documents in process memory. It honours
+ * the whole `IRepository` contract with the same semantics and error types
+ * as `MongoDbRepository` (pagination, cursors, unique constraints, soft
+ * delete, versions), so an API can run without any external service.
+ * Sessions are accepted and ignored: every operation is applied immediately.
+ * @template TEntity - The domain entity type
+ */
+export class InMemoryRepository<
+  TEntity extends Document,
+> implements IRepository<TEntity> {
+  private readonly documents = new Map<string, MongoDocument<TEntity>>();
+  private readonly uniqueConstraints: string[][];
+  private readonly softDelete: boolean;
+  private readonly textWeights: Record<string, number> | undefined;
+  private readonly ids: IdCodec;
+
+  /**
+   * @param {Logger} logger - Logger instance
+   * @param {InMemoryRepositoryOptions<TEntity>} [options] - Unique fields, soft delete, search fields and id strategy
+   */
+  public constructor(
+    private readonly logger: Logger,
+    options: InMemoryRepositoryOptions<TEntity> = {},
+  ) {
+    this.uniqueConstraints = (options.uniqueFields ?? [])
+      .map((constraint) =>
+        (Array.isArray(constraint) ? constraint : [constraint]).map(String),
+      )
+      .filter((fields) => fields.length > 0);
+    this.softDelete = options.softDelete ?? false;
+    const textWeights = Array.isArray(options.textSearchFields)
+      ? Object.fromEntries(options.textSearchFields.map((field) => [field, 1]))
+      : (options.textSearchFields as Record<string, number> | undefined);
+    this.textWeights =
+      textWeights && Object.keys(textWeights).length > 0
+        ? textWeights
+        : undefined;
+    this.ids = resolveIdStrategy(options.idStrategy);
+  }
+
+  /**
+   * Creates a new entity.
+   *
+   * @param {TEntity} data - Entity data to create
+   * @param {SessionOptions} [_options] - Accepted for compatibility, sessions are ignored
+   * @returns {Promise<MongoDocument<TEntity> | null>} Created entity
+   * @throws {ApplicationError} When a unique constraint would be violated (409)
+   */
+  public async create(
+    data: TEntity,
+    _options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    const violation = this.findUniqueViolation(data);
+    if (violation) {
+      throw this.duplicateError("Duplicate value detected", violation, {
+        operation: "create",
+      });
+    }
+
+    const document = this.newDocument(
+      data,
+      new Date(),
+      getRequestContext()?.actor ?? null,
+    );
+    if (this.documents.has(String(document._id))) {
+      throw this.duplicateError(
+        "Duplicate value detected",
+        [this.ids.field ?? "_id"],
+        { operation: "create" },
+      );
+    }
+    this.documents.set(String(document._id), document);
+
+    this.logger.debug("Entity created successfully", {
+      entityId: document._id,
+    });
+    return cloneDocument(document);
+  }
+
+  /**
+   * Reads an entity by ID.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions} [options] - Optional read options, including a projection
+   * @returns {Promise<MongoDocument<TEntity> | null>} Found entity or null
+   * @throws {ValidationError} When the id is malformed
+   */
+  public async read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Read options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    this.rejectExpand(options);
+    const document = this.documents.get(String(this.parseId(id)));
+    if (!document || !this.isVisible(document, options)) {
+      return null;
+    }
+    return this.output(document, options?.projection);
+  }
+
+  /**
+   * Updates an entity with partial data, bumping its version.
+   *
+   * @param {string} id - Entity identifier
+   * @param {Partial<TEntity>} data - Fields to update
+   * @param {UpdateOptions} [options] - Optional expected version
+   * @returns {Promise<MongoDocument<TEntity> | null>} Updated entity or null if not found
+   * @throws {ValidationError} When the id is malformed
+   * @throws {ConcurrencyError} When the expected version is no longer current
+   * @throws {ApplicationError} When a unique constraint would be violated (409)
+   */
+  public async update(
+    id: string,
+    data: Partial<TEntity>,
+    options?: UpdateOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    const entityId = this.parseId(id);
+    if (changesNaturalKey(this.ids, entityId, data)) {
+      throw naturalKeyError(this.ids);
+    }
+    const current = this.live(entityId);
+    if (!current) {
+      return null;
+    }
+
+    const expectedVersion = options?.expectedVersion;
+    if (
+      expectedVersion !== undefined &&
+      (current.__v ?? 0) !== expectedVersion
+    ) {
+      throw new ConcurrencyError({
+        message: "Entity was modified by another request",
+        expectedVersion,
+        currentVersion: current.__v ?? 0,
+        metadata: { entityId: id, operation: "update" },
+      });
+    }
+
+    const violation = this.findUniqueViolation(data, entityId);
+    if (violation) {
+      throw this.duplicateError(
+        "Update would violate unique constraint",
+        violation,
+        { entityId: id, operation: "update" },
+      );
+    }
+
+    const updated = this.write(current, data);
+    this.logger.debug("Entity updated successfully", {
+      entityId,
+      updatedFields: Object.keys(data),
+    });
+    return cloneDocument(updated);
+  }
+
+  /**
+   * Replaces an entity with complete data, keeping `_id`, `createdAt` and
+   * `createdBy`. With `upsert` a missing entity is created with the given ID.
+   *
+   * @param {string} id - Entity identifier
+   * @param {TEntity} data - Complete entity data
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag
+   * @returns {Promise<ReplaceResult<TEntity> | null>} Stored entity and whether it was created, null if not found
+   * @throws {ValidationError} When the id is malformed
+   * @throws {ConcurrencyError} When the expected version is no longer current
+   * @throws {ApplicationError} When a unique constraint is violated or the ID belongs to a deleted entity (409)
+   */
+  public async replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity> | null> {
+    const entityId = this.parseId(id);
+    if (changesNaturalKey(this.ids, entityId, data)) {
+      throw naturalKeyError(this.ids);
+    }
+    const stored = this.documents.get(String(entityId));
+    const current = this.live(entityId);
+
+    if (
+      !current &&
+      (!options?.upsert || options.expectedVersion !== undefined)
+    ) {
+      return null;
+    }
+    if (!current && stored) {
+      throw new ApplicationError({
+        type: ErrorType.DUPLICATE_ERROR,
+        message: "Entity is deleted, restore it before replacing it",
+        statusCode: 409,
+        metadata: { entityId: id, operation: "replace" },
+      });
+    }
+
+    const expectedVersion = options?.expectedVersion;
+    if (
+      current &&
+      expectedVersion !== undefined &&
+      (current.__v ?? 0) !== expectedVersion
+    ) {
+      throw new ConcurrencyError({
+        message: "Entity was modified by another request",
+        expectedVersion,
+        currentVersion: current.__v ?? 0,
+        metadata: { entityId: id, operation: "replace" },
+      });
+    }
+
+    const violation = this.findUniqueViolation(data, entityId);
+    if (violation) {
+      throw this.duplicateError(
+        "Replace would violate unique constraint",
+        violation,
+        { entityId: id, operation: "replace" },
+      );
+    }
+
+    const now = new Date();
+    const actor = getRequestContext()?.actor ?? null;
+    const document: MongoDocument<TEntity> = current
+      ? {
+          ...this.newDocument(
+            data,
+            current.createdAt,
+            current.createdBy ?? null,
+          ),
+          updatedAt: now,
+          updatedBy: actor,
+          __v: (current.__v ?? 0) + 1,
+        }
+      : this.newDocument(data, now, actor);
+    document._id = entityId;
+    this.documents.set(String(entityId), document);
+
+    this.logger.debug(
+      current ? "Entity replaced successfully" : "Entity created by replace",
+      { entityId: entityId },
+    );
+    return { document: cloneDocument(document), created: !current };
+  }
+
+  /**
+   * Removes an entity, or marks it as deleted when soft delete is enabled.
+   *
+   * @param {string} id - Entity identifier
+   * @param {RemoveOptions} [options] - Optional removal metadata
+   * @returns {Promise<boolean>} True if the entity was deleted, false if not found
+   * @throws {ValidationError} When the id is malformed
+   */
+  public async remove(id: string, options?: RemoveOptions): Promise<boolean> {
+    if (!this.softDelete) {
+      return this.purge(id);
+    }
+
+    const current = this.live(this.parseId(id));
+    if (!current) {
+      this.logger.warn("Repository: Entity to remove was not found", { id });
+      return false;
+    }
+
+    this.write(current, {
+      deletedAt: new Date(),
+      deletedBy: options?.deletedBy ?? getRequestContext()?.actor ?? null,
+    });
+    this.logger.info("Repository: Entity soft deleted successfully", { id });
+    return true;
+  }
+
+  /**
+   * Restores a soft-deleted entity.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [_options] - Accepted for compatibility, sessions are ignored
+   * @returns {Promise<MongoDocument<TEntity> | null>} Restored entity or null if no deleted entity was found
+   * @throws {ValidationError} When the id is malformed
+   * @throws {ApplicationError} When a live entity took over a unique value (409)
+   */
+  public async restore(
+    id: string,
+    _options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    const entityId = this.parseId(id);
+    const deleted = this.documents.get(String(entityId));
+    if (!deleted || !deleted.deletedAt) {
+      return null;
+    }
+
+    const violation = this.findUniqueViolation(deleted, entityId);
+    if (violation) {
+      throw this.duplicateError(
+        "Restore would violate unique constraint",
+        violation,
+        { entityId: id, operation: "restore" },
+      );
+    }
+
+    const restored = this.write(deleted, { deletedAt: null, deletedBy: null });
+    this.logger.info("Repository: Entity restored successfully", { id });
+    return cloneDocument(restored);
+  }
+
+  /**
+   * Permanently removes an entity, whether it is soft-deleted or not.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [_options] - Accepted for compatibility, sessions are ignored
+   * @returns {Promise<boolean>} True if the entity was deleted, false if not found
+   * @throws {ValidationError} When the id is malformed
+   */
+  public async purge(id: string, _options?: SessionOptions): Promise<boolean> {
+    const wasDeleted = this.documents.delete(String(this.parseId(id)));
+    if (wasDeleted) {
+      this.logger.info("Repository: Entity removed successfully", { id });
+    } else {
+      this.logger.warn("Repository: Entity to remove was not found", { id });
+    }
+    return wasDeleted;
+  }
+
+  /**
+   * Finds entities matching a query, with skip/limit or cursor pagination.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions} [options] - Pagination, sorting and search options, including a projection
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity>>>} A page of results
+   * @throws {ValidationError} When the cursor or the search options are invalid
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions,
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & Partial<ProjectionOptions>} [options] - Pagination options
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity> | ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & Partial<ProjectionOptions> = {},
+  ): Promise<
+    | PaginatedResult<MongoDocument<TEntity>>
+    | PaginatedResult<ProjectedDocument<TEntity>>
+  > {
+    this.rejectExpand(options);
+    if (options.useCursor || options.after || options.before) {
+      return this.findWithCursor(query, options);
+    }
+
+    const {
+      skip = 0,
+      limit = 20,
+      sortBy = "createdAt",
+      sortOrder = -1,
+    } = options;
+    const { documents, scores } = this.search(query, options);
+
+    if (sortBy === "textScore") {
+      documents.sort(
+        (a, b) =>
+          scores.get(String(b._id))! - scores.get(String(a._id))! ||
+          compareValues(a._id, b._id),
+      );
+    } else {
+      documents.sort((a, b) => this.compareBy(a, b, sortBy, sortOrder));
+    }
+
+    const total = documents.length;
+    const data = documents
+      .slice(skip, skip + limit)
+      .map((document) => this.output(document, options.projection, scores));
+
+    return {
+      data: data as MongoDocument<TEntity>[],
+      total,
+      skip,
+      limit,
+      hasNext: skip + limit < total,
+      hasPrevious: skip > 0,
+    };
+  }
+
+  /**
+   * Finds the first entity matching a query, in insertion order.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions} [options] - Optional query options, including a projection
+   * @returns {Promise<MongoDocument<TEntity> | null>} First matching entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Query options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    this.rejectExpand(options);
+    for (const document of this.documents.values()) {
+      if (
+        this.isVisible(document, options) &&
+        matchesFilter(document, query as Document)
+      ) {
+        return this.output(document, options?.projection);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Counts the entities matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions} [options] - Optional query options
+   * @returns {Promise<number>} Number of matching entities
+   */
+  public async count(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<number> {
+    let total = 0;
+    for (const document of this.documents.values()) {
+      if (
+        this.isVisible(document, options) &&
+        matchesFilter(document, query as Document)
+      ) {
+        total++;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Creates many entities. In ordered mode the first failure stops the batch.
+   *
+   * @param {TEntity[]} items - Entities to create
+   * @param {BulkOptions} [options] - Ordering options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   */
+  public async bulkCreate(
+    items: TEntity[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    const collector = new BulkResultCollector<MongoDocument<TEntity>>(
+      items.length,
+      options.ordered ?? true,
+    );
+    const now = new Date();
+    const actor = getRequestContext()?.actor ?? null;
+
+    for (const [index, data] of items.entries()) {
+      if (this.ids.field && this.ids.generate(data) === null) {
+        collector.fail(index, naturalKeyItemError(this.ids.field));
+        if (options.ordered ?? true) break;
+        continue;
+      }
+      const violation = this.findUniqueViolation(data);
+      const document = violation ? null : this.newDocument(data, now, actor);
+      if (!document || this.documents.has(String(document._id))) {
+        collector.fail(
+          index,
+          duplicateItemError(violation ?? [this.ids.field ?? "_id"]),
+        );
+        if (options.ordered ?? true) break;
+        continue;
+      }
+
+      this.documents.set(String(document._id), document);
+      collector.succeed(index, String(document._id), cloneDocument(document));
+    }
+
+    return collector.build();
+  }
+
+  /**
+   * Updates many entities. In ordered mode the first failure stops the batch.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Entity ids with their update data
+   * @param {BulkOptions} [options] - Ordering options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   */
+  public async bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    const ordered = options.ordered ?? true;
+    const collector = new BulkResultCollector<MongoDocument<TEntity>>(
+      items.length,
+      ordered,
+    );
+
+    for (const [index, { id, data }] of items.entries()) {
+      const current = this.bulkTarget(id, index, collector);
+      const keyChanged =
+        current && changesNaturalKey(this.ids, current._id, data);
+      if (keyChanged) {
+        collector.fail(index, naturalKeyItemError(this.ids.field!), id);
+      }
+      const violation =
+        current && !keyChanged && this.findUniqueViolation(data, current._id);
+      if (violation) {
+        collector.fail(index, duplicateItemError(violation), id);
+      }
+      if (!current || keyChanged || violation) {
+        if (ordered) break;
+        continue;
+      }
+
+      collector.succeed(index, id, cloneDocument(this.write(current, data)));
+    }
+
+    return collector.build();
+  }
+
+  /**
+   * Removes many entities, honouring soft delete like `remove`. In ordered
+   * mode the first unknown id stops the batch.
+   *
+   * @param {string[]} ids - Identifiers of the entities to remove
+   * @param {BulkRemoveOptions} [options] - Ordering and removal options
+   * @returns {Promise<BulkResult<never>>} Outcome of every id, by position
+   */
+  public async bulkRemove(
+    ids: string[],
+    options: BulkRemoveOptions = {},
+  ): Promise<BulkResult<never>> {
+    const ordered = options.ordered ?? true;
+    const collector = new BulkResultCollector<never>(ids.length, ordered);
+    const deletedAt = new Date();
+    const deletedBy = options.deletedBy ?? getRequestContext()?.actor ?? null;
+
+    for (const [index, id] of ids.entries()) {
+      const current = this.bulkTarget(id, index, collector);
+      if (!current) {
+        if (ordered) break;
+        continue;
+      }
+
+      if (this.softDelete) {
+        this.write(current, { deletedAt, deletedBy });
+      } else {
+        this.documents.delete(String(current._id));
+      }
+      collector.succeed(index, id);
+    }
+
+    return collector.build();
+  }
+
+  /**
+   * Keyset (cursor) pagination variant of `find`, with the same cursor
+   * tokens as `MongoDbRepository`.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions} options - Pagination options with optional `after`/`before` cursor
+   * @returns {PaginatedResult<MongoDocument<TEntity>>} A page of results with cursors
+   * @throws {ValidationError} When the cursor is malformed or was issued for another sort
+   * @private
+   */
+  private findWithCursor(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & Partial<ProjectionOptions>,
+  ): PaginatedResult<MongoDocument<TEntity>> {
+    const { limit = 20, sortBy = "createdAt", sortOrder = -1 } = options;
+
+    if (options.after && options.before) {
+      throw new ValidationError({
+        message: "Only one pagination cursor can be provided",
+        field: "cursor",
+        violations: ["Use either 'after' or 'before', not both"],
+      });
+    }
+    if (sortBy === "textScore") {
+      throw new ValidationError({
+        message: "Relevance sorting is not supported with cursor pagination",
+        field: "sortBy",
+        violations: ["Use skip/limit pagination to sort by textScore"],
+      });
+    }
+
+    const token = options.after ?? options.before;
+    const cursor = token
+      ? decodeCursor(token, options.after ? "after" : "before")
+      : undefined;
+    if (
+      cursor &&
+      (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder)
+    ) {
+      throw new ValidationError({
+        message: "Pagination cursor does not match the requested sort",
+        field: "cursor",
+        violations: [
+          `Cursor was issued for sortBy=${cursor.sortBy} and sortOrder=${cursor.sortOrder}`,
+        ],
+      });
+    }
+
+    const backwards = options.before !== undefined;
+    // Walking backwards reverses the sort, the page is flipped afterwards
+    const direction = (backwards ? -sortOrder : sortOrder) as 1 | -1;
+    const { documents, scores } = this.search(query, options);
+
+    const page = documents
+      .filter(
+        (document) =>
+          !cursor ||
+          direction *
+            (compareValues(this.sortValue(document, sortBy), cursor.value) ||
+              compareValues(document._id, cursor.id)) >
+            0,
+      )
+      .sort((a, b) => this.compareBy(a, b, sortBy, direction))
+      .slice(0, limit + 1);
+
+    const hasMore = page.length > limit;
+    const data = page.slice(0, limit);
+    if (backwards) {
+      data.reverse();
+    }
+
+    const hasNext = backwards ? cursor !== undefined : hasMore;
+    const hasPrevious = backwards ? hasMore : cursor !== undefined;
+    const first = data[0];
+    const last = data[data.length - 1];
+
+    return {
+      data: data.map(
+        (document) =>
+          this.output(
+            document,
+            options.projection,
+            scores,
+          ) as MongoDocument<TEntity>,
+      ),
+      skip: 0,
+      limit,
+      hasNext,
+      hasPrevious,
+      nextCursor:
+        hasNext && last
+          ? encodeCursor({
+              direction: "after",
+              sortBy,
+              sortOrder,
+              value: this.sortValue(last, sortBy),
+              id: last._id,
+            })
+          : null,
+      prevCursor:
+        hasPrevious && first
+          ? encodeCursor({
+              direction: "before",
+              sortBy,
+              sortOrder,
+              value: this.sortValue(first, sortBy),
+              id: first._id,
+            })
+          : null,
+    };
+  }
+
+  /**
+   * Collects the visible documents matching a query and, when searching, the
+   * relevance score of each one. Search terms are matched as whole words,
+   * case-insensitively, and each match counts the weight of its field.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions} options - Find options
+   * @returns {{ documents: MongoDocument<TEntity>[]; scores: Map<string, number> }} Matches and their scores by id
+   * @throws {ValidationError} When search is disabled or relevance is requested without a search
+   * @private
+   */
+  private search(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions,
+  ): { documents: MongoDocument<TEntity>[]; scores: Map<string, number> } {
+    if (options.search === undefined) {
+      if (options.sortBy === "textScore" || options.includeScore) {
+        throw new ValidationError({
+          message: "Relevance is only available when searching",
+          field: "search",
+          violations: [
+            "sortBy=textScore and includeScore require search terms",
+          ],
+        });
+      }
+    } else if (!this.textWeights) {
+      throw new ValidationError({
+        message: "Full-text search is not enabled for this resource",
+        field: "search",
+        violations: ["No text search fields are configured"],
+      });
+    }
+
+    const terms = words(options.search ?? "");
+    const documents: MongoDocument<TEntity>[] = [];
+    const scores = new Map<string, number>();
+
+    for (const document of this.documents.values()) {
+      if (
+        !this.isVisible(document, options) ||
+        !matchesFilter(document, query as Document)
+      ) {
+        continue;
+      }
+      if (options.search !== undefined) {
+        const score = this.textScore(document, terms);
+        if (score === 0) {
+          continue;
+        }
+        if (options.includeScore || options.sortBy === "textScore") {
+          scores.set(String(document._id), score);
+        }
+      }
+      documents.push(document);
+    }
+
+    return { documents, scores };
+  }
+
+  /**
+   * Scores a document against search terms.
+   *
+   * @param {MongoDocument<TEntity>} document - Candidate document
+   * @param {string[]} terms - Lower-cased search terms
+   * @returns {number} Weighted number of term matches, 0 when nothing matches
+   * @private
+   */
+  private textScore(document: MongoDocument<TEntity>, terms: string[]): number {
+    let score = 0;
+    for (const [field, weight] of Object.entries(this.textWeights ?? {})) {
+      const value = (document as Document)[field];
+      if (typeof value !== "string") {
+        continue;
+      }
+      const fieldWords = words(value);
+      for (const term of terms) {
+        score +=
+          weight * fieldWords.filter((fieldWord) => fieldWord === term).length;
+      }
+    }
+    return score;
+  }
+
+  /**
+   * Orders two documents on a field, ties broken by `_id` in the same direction.
+   *
+   * @param {MongoDocument<TEntity>} a - First document
+   * @param {MongoDocument<TEntity>} b - Second document
+   * @param {string} sortBy - Sort field
+   * @param {1 | -1} sortOrder - Sort direction
+   * @returns {number} Comparison result
+   * @private
+   */
+  private compareBy(
+    a: MongoDocument<TEntity>,
+    b: MongoDocument<TEntity>,
+    sortBy: string,
+    sortOrder: 1 | -1,
+  ): number {
+    return (
+      sortOrder *
+      (compareValues(this.sortValue(a, sortBy), this.sortValue(b, sortBy)) ||
+        compareValues(a._id, b._id))
+    );
+  }
+
+  /**
+   * Reads the sort key of a document.
+   *
+   * @param {MongoDocument<TEntity>} document - Document
+   * @param {string} sortBy - Sort field
+   * @returns {unknown} Sort key value
+   * @private
+   */
+  private sortValue(document: MongoDocument<TEntity>, sortBy: string): unknown {
+    return (document as Document)[sortBy];
+  }
+
+  /**
+   * Looks for a unique constraint the data would violate among the live
+   * entities. Only constraints touched by the data are checked; the other
+   * fields of a tuple are taken from the entity being updated.
+   *
+   * @param {Partial<TEntity>} data - Data being written
+   * @param {EntityId} [excludeId] - Entity being updated
+   * @returns {string[] | null} Fields of the violated constraint, or null when valid
+   * @private
+   */
+  private findUniqueViolation(
+    data: Partial<TEntity>,
+    excludeId?: EntityId,
+  ): string[] | null {
+    const stored = excludeId
+      ? this.documents.get(String(excludeId))
+      : undefined;
+    const values: Document = { ...stored, ...data };
+
+    for (const fields of this.uniqueConstraints) {
+      const touched = fields.some(
+        (field) => (data as Document)[field] !== undefined,
+      );
+      const key = touched ? this.uniqueKey(fields, values) : undefined;
+      if (key === undefined) {
+        continue;
+      }
+
+      for (const document of this.documents.values()) {
+        if (
+          !document.deletedAt &&
+          String(document._id) !== String(excludeId) &&
+          this.uniqueKey(fields, document) === key
+        ) {
+          this.logger.warn("Unique constraint violation detected", {
+            fields,
+            existingId: document._id,
+            excludeId,
+          });
+          return fields;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Builds the lookup key of the values a document holds for a unique constraint.
+   *
+   * @param {string[]} fields - Fields of the constraint
+   * @param {Document} values - Document or data holding the values
+   * @returns {string | undefined} Key combining the values, undefined when a value is missing
+   * @private
+   */
+  private uniqueKey(fields: string[], values: Document): string | undefined {
+    const tuple = fields.map((field) => values[field]);
+    return tuple.some((value) => value === undefined)
+      ? undefined
+      : valueKey(tuple);
+  }
+
+  /**
+   * Builds the error thrown for a unique constraint violation.
+   *
+   * @param {string} message - Error message
+   * @param {string[]} fields - Fields of the violated constraint
+   * @param {Record<string, unknown>} metadata - Operation details
+   * @returns {ApplicationError} Duplicate error (409)
+   * @private
+   */
+  private duplicateError(
+    message: string,
+    fields: string[],
+    metadata: Record<string, unknown>,
+  ): ApplicationError {
+    return new ApplicationError({
+      type: ErrorType.DUPLICATE_ERROR,
+      message,
+      statusCode: 409,
+      metadata: { duplicateFields: fields, ...metadata },
+    });
+  }
+
+  /**
+   * Resolves the live entity targeted by a bulk item, recording a failure
+   * for malformed and unknown ids.
+   *
+   * @param {string} id - Identifier from the bulk request
+   * @param {number} index - Position of the item
+   * @param {BulkResultCollector<T>} collector - Collector receiving the failures
+   * @returns {MongoDocument<TEntity> | undefined} Live entity, undefined on failure
+   * @template T - Collected entity type
+   * @private
+   */
+  private bulkTarget<T>(
+    id: string,
+    index: number,
+    collector: BulkResultCollector<T>,
+  ): MongoDocument<TEntity> | undefined {
+    const entityId = this.ids.parse(id);
+    if (entityId === null) {
+      collector.fail(index, invalidIdItemError(), id);
+      return undefined;
+    }
+
+    const current = this.live(entityId);
+    if (!current) {
+      collector.fail(index, notFoundItemError(id), id);
+    }
+    return current;
+  }
+
+  /**
+   * Builds a new document with its identifier and initial metadata.
+   *
+   * @param {TEntity} data - Entity data
+   * @param {Date} now - Creation timestamp
+   * @param {string | null} actor - Actor creating the entity
+   * @returns {MongoDocument<TEntity>} Document ready to be stored
+   * @private
+   */
+  private newDocument(
+    data: TEntity,
+    now: Date,
+    actor: string | null,
+  ): MongoDocument<TEntity> {
+    return {
+      _id: newEntityId(this.ids, data),
+      createdAt: now,
+      ...cloneDocument(data),
+      updatedAt: now,
+      createdBy: actor,
+      updatedBy: actor,
+      __v: 0,
+      ...(this.softDelete && { deletedAt: null, deletedBy: null }),
+    };
+  }
+
+  /**
+   * Applies changes to a stored document with the write metadata every
+   * update carries: the `__v` increment and the `updatedAt`/`updatedBy` stamp.
+   *
+   * @param {MongoDocument<TEntity>} current - Stored document
+   * @param {Document} changes - Fields to set
+   * @returns {MongoDocument<TEntity>} The new stored document
+   * @private
+   */
+  private write(
+    current: MongoDocument<TEntity>,
+    changes: Document,
+  ): MongoDocument<TEntity> {
+    const updated: MongoDocument<TEntity> = {
+      ...current,
+      ...cloneDocument(changes),
+      updatedAt: new Date(),
+      updatedBy: getRequestContext()?.actor ?? null,
+      __v: (current.__v ?? 0) + 1,
+    };
+    this.documents.set(String(current._id), updated);
+    return updated;
+  }
+
+  /**
+   * Returns a live (not soft-deleted) document.
+   *
+   * @param {EntityId} entityId - Entity identifier
+   * @returns {MongoDocument<TEntity> | undefined} Live document, if any
+   * @private
+   */
+  private live(entityId: EntityId): MongoDocument<TEntity> | undefined {
+    const document = this.documents.get(String(entityId));
+    return document && this.isVisible(document) ? document : undefined;
+  }
+
+  /**
+   * Tells whether a document is visible to a query. Soft-deleted documents
+   * are hidden unless `includeDeleted` is set.
+   *
+   * @param {MongoDocument<TEntity>} document - Stored document
+   * @param {QueryOptions} [options] - Query options
+   * @returns {boolean} True when the document is visible
+   * @private
+   */
+  private isVisible(
+    document: MongoDocument<TEntity>,
+    options?: QueryOptions,
+  ): boolean {
+    return (
+      !this.softDelete ||
+      options?.includeDeleted === true ||
+      !document.deletedAt
+    );
+  }
+
+  /**
+   * Copies a stored document for the caller, applying the projection and
+   * the relevance score when requested.
+   *
+   * @param {MongoDocument<TEntity>} document - Stored document
+   * @param {Projection} [projection] - Fields to include or exclude
+   * @param {Map<string, number>} [scores] - Relevance scores by id
+   * @returns {MongoDocument<TEntity> | ProjectedDocument<TEntity>} Document returned to the caller
+   * @private
+   */
+  private output(
+    document: MongoDocument<TEntity>,
+    projection?: Projection,
+    scores?: Map<string, number>,
+  ): MongoDocument<TEntity> | ProjectedDocument<TEntity> {
+    const copy: Document = cloneDocument(document);
+    const projected = projection ? applyProjection(copy, projection) : copy;
+    const score = scores?.get(String(document._id));
+    if (score !== undefined) {
+      projected["_score"] = score;
+    }
+    return projected as MongoDocument<TEntity>;
+  }
+
+  /**
+   * Parses an entity identifier.
+   *
+   * @param {string} id - Identifier received from the caller
+   * @returns {EntityId} Parsed identifier
+   * @throws {ValidationError} When the id does not match the id strategy
+   * @private
+   */
+  private parseId(id: string): EntityId {
+    return parseEntityId(this.ids, id);
+  }
+
+  /**
+   * Rejects reference expansion, which this repository does not support.
+   *
+   * @param {QueryOptions} [options] - Read options
+   * @throws {ValidationError} When an expansion is requested
+   * @private
+   */
+  private rejectExpand(options?: QueryOptions): void {
+    if (options?.expand && options.expand.length > 0) {
+      throw new ValidationError({
+        message: "Reference expansion is not supported by this repository",
+        field: "expand",
+        violations: ["Expansion requires the MongoDB repository"],
+      });
+    }
+  }
+}
+
+/**
+ * Splits text into lower-cased words.
+ *
+ * @param {string} text - Text to split
+ * @returns {string[]} Words, without punctuation
+ */
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+}
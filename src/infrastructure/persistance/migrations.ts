@@ -0,0 +1,462 @@
+import { readdir } from "node:fs/promises";
+import { hostname } from "node:os";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { randomUUID } from "node:crypto";
+import { MongoServerError } from "mongodb";
+import type { Collection, Db, MongoClient } from "mongodb";
+
+import { ApplicationError, ErrorType } from "#root/config/errors.js";
+import type { Logger } from "#root/domain/index.js";
+import type {
+  Migration,
+  MigrationRecord,
+  MigrationStatus,
+  MigratorOptions,
+  RunMigrationsOptions,
+} from "./types.js";
+
+/** Collection holding one record per applied migration */
+export const MIGRATIONS_COLLECTION = "_migrations";
+
+/** Collection holding the migration lock of each migrated collection */
+export const MIGRATION_LOCKS_COLLECTION = "_migration_locks";
+
+/** Migration file names: `<version>_<name>.js`, e.g. `003_rename_title.js` */
+const MIGRATION_FILE = /^(\d+)[_-](.+)\.(?:js|mjs|cjs|ts)$/;
+
+/**
+ * Lock document of a migrated collection.
+ */
+type MigrationLock = {
+  _id: string;
+  owner: string;
+  lockedAt: Date;
+  expiresAt: Date;
+};
+
+/**
+ * @class Migrator
+ * @description Applies and reverts versioned migrations on a collection.
+ * Applied versions are recorded in `_migrations`, and a lock stored in
+ * `_migration_locks` makes concurrent instances wait for each other instead
+ * of applying the same migration twice. The lock is renewed while
+ * migrations run and expires if its holder dies.
+ */
+export class Migrator {
+  private readonly db: Db;
+  private readonly records: Collection<MigrationRecord>;
+  private readonly locks: Collection<MigrationLock>;
+  private readonly lockTtlMs: number;
+  private readonly lockTimeoutMs: number;
+  private readonly pollIntervalMs: number;
+  private indexesReady = false;
+
+  /**
+   * @param {MongoClient} client - Connected MongoDB client
+   * @param {string} databaseName - Database holding the migrated collections
+   * @param {Logger} logger - Logger instance
+   * @param {MigratorOptions} [options] - Locking options
+   */
+  public constructor(
+    client: MongoClient,
+    databaseName: string,
+    private readonly logger: Logger,
+    options: MigratorOptions = {},
+  ) {
+    this.db = client.db(databaseName);
+    this.records = this.db.collection<MigrationRecord>(MIGRATIONS_COLLECTION);
+    this.locks = this.db.collection<MigrationLock>(MIGRATION_LOCKS_COLLECTION);
+    this.lockTtlMs = options.lockTtlMs ?? 60_000;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 120_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+  }
+
+  /**
+   * Applies the pending migrations of a collection in ascending version
+   * order. Each migration is recorded as soon as it succeeds, so a failure
+   * leaves the earlier ones applied.
+   *
+   * @param {string} collection - Migrated collection
+   * @param {Migration[]} migrations - Known migrations
+   * @param {number} [target] - Highest version to apply (default: latest)
+   * @returns {Promise<MigrationRecord[]>} Records of the migrations applied by this call
+   * @throws {ApplicationError} When the migrations are invalid (CONFIG_ERROR), a migration fails or the lock cannot be taken (DATABASE_ERROR)
+   */
+  public async up(
+    collection: string,
+    migrations: Migration[],
+    target = Infinity,
+  ): Promise<MigrationRecord[]> {
+    const sorted = sortMigrations(migrations);
+
+    return this.withLock(collection, async () => {
+      const applied = await this.appliedVersions(collection);
+      for (const version of applied.keys()) {
+        if (!sorted.some((migration) => migration.version === version)) {
+          this.logger.warn("Migrator: Applied migration is unknown", {
+            collection,
+            version,
+          });
+        }
+      }
+
+      const done: MigrationRecord[] = [];
+      for (const migration of sorted) {
+        if (migration.version > target || applied.has(migration.version)) {
+          continue;
+        }
+        const durationMs = await this.execute(collection, migration, "up");
+        const record: MigrationRecord = {
+          collection,
+          version: migration.version,
+          name: migration.name,
+          appliedAt: new Date(),
+          durationMs,
+        };
+        await this.records.insertOne(record);
+        done.push(record);
+      }
+
+      this.logger.info("Migrator: Collection is up to date", {
+        collection,
+        applied: done.length,
+      });
+      return done;
+    });
+  }
+
+  /**
+   * Reverts the applied migrations above a version, in descending order.
+   *
+   * @param {string} collection - Migrated collection
+   * @param {Migration[]} migrations - Known migrations
+   * @param {number} [target] - Version to migrate down to (default: 0, everything)
+   * @returns {Promise<MigrationRecord[]>} Records of the migrations reverted by this call
+   * @throws {ApplicationError} When an applied migration is unknown or has no `down` (CONFIG_ERROR), a migration fails or the lock cannot be taken (DATABASE_ERROR)
+   */
+  public async down(
+    collection: string,
+    migrations: Migration[],
+    target = 0,
+  ): Promise<MigrationRecord[]> {
+    const byVersion = new Map(
+      sortMigrations(migrations).map((migration) => [
+        migration.version,
+        migration,
+      ]),
+    );
+
+    return this.withLock(collection, async () => {
+      const applied = [...(await this.appliedVersions(collection)).values()]
+        .filter((record) => record.version > target)
+        .sort((a, b) => b.version - a.version);
+
+      const reverted: MigrationRecord[] = [];
+      for (const record of applied) {
+        const migration = byVersion.get(record.version);
+        if (!migration?.down) {
+          throw new ApplicationError({
+            type: ErrorType.CONFIG_ERROR,
+            message: `Migration ${record.version} of ${collection} cannot be reverted`,
+            metadata: {
+              collection,
+              version: record.version,
+              reason: migration ? "no down function" : "unknown migration",
+            },
+          });
+        }
+        await this.execute(collection, migration, "down");
+        await this.records.deleteOne({ collection, version: record.version });
+        reverted.push(record);
+      }
+      return reverted;
+    });
+  }
+
+  /**
+   * Lists the known migrations of a collection with their state.
+   *
+   * @param {string} collection - Migrated collection
+   * @param {Migration[]} migrations - Known migrations
+   * @returns {Promise<MigrationStatus[]>} State of every migration, by version
+   * @throws {ApplicationError} When the migrations are invalid (CONFIG_ERROR)
+   */
+  public async status(
+    collection: string,
+    migrations: Migration[],
+  ): Promise<MigrationStatus[]> {
+    const sorted = sortMigrations(migrations);
+    const applied = await this.appliedVersions(collection);
+    return sorted.map((migration) => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: record !== undefined,
+        ...(record && { appliedAt: record.appliedAt }),
+      };
+    });
+  }
+
+  /**
+   * Runs one migration step and measures it.
+   *
+   * @param {string} collection - Migrated collection
+   * @param {Migration} migration - Migration to run
+   * @param {"up" | "down"} direction - Step to run
+   * @returns {Promise<number>} Duration in milliseconds
+   * @throws {ApplicationError} When the step fails (DATABASE_ERROR)
+   * @private
+   */
+  private async execute(
+    collection: string,
+    migration: Migration,
+    direction: "up" | "down",
+  ): Promise<number> {
+    const metadata = {
+      collection,
+      version: migration.version,
+      name: migration.name,
+      direction,
+    };
+    this.logger.info("Migrator: Running migration", metadata);
+
+    const start = Date.now();
+    try {
+      await migration[direction]!({
+        db: this.db,
+        collection: this.db.collection(collection),
+        logger: this.logger,
+      });
+    } catch (error) {
+      this.logger.error("Migrator: Migration failed", { ...metadata, error });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: `Migration ${migration.version} (${migration.name}) of ${collection} failed`,
+        metadata: {
+          ...metadata,
+          originalError:
+            error instanceof Error ? error.message : "Unknown error",
+        },
+        cause: error instanceof Error ? error : undefined,
+      });
+    }
+    return Date.now() - start;
+  }
+
+  /**
+   * Reads the applied migrations of a collection.
+   *
+   * @param {string} collection - Migrated collection
+   * @returns {Promise<Map<number, MigrationRecord>>} Records by version
+   * @private
+   */
+  private async appliedVersions(
+    collection: string,
+  ): Promise<Map<number, MigrationRecord>> {
+    const records = await this.records
+      .find({ collection }, { projection: { _id: 0 } })
+      .toArray();
+    return new Map(records.map((record) => [record.version, record]));
+  }
+
+  /**
+   * Runs work while holding the migration lock of a collection. The lock is
+   * renewed every half TTL and released afterwards, even on failure.
+   *
+   * @template T
+   * @param {string} collection - Migrated collection
+   * @param {() => Promise<T>} work - Work to run under the lock
+   * @returns {Promise<T>} The value returned by the work
+   * @throws {ApplicationError} When the lock cannot be taken in time (DATABASE_ERROR)
+   * @private
+   */
+  private async withLock<T>(
+    collection: string,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    await this.ensureIndexes();
+    const owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+    await this.acquireLock(collection, owner);
+
+    const renewal = setInterval(() => {
+      this.locks
+        .updateOne(
+          { _id: collection, owner },
+          { $set: { expiresAt: new Date(Date.now() + this.lockTtlMs) } },
+        )
+        .catch((error: unknown) =>
+          this.logger.warn("Migrator: Lock renewal failed", {
+            collection,
+            error,
+          }),
+        );
+    }, this.lockTtlMs / 2);
+    renewal.unref();
+
+    try {
+      return await work();
+    } finally {
+      clearInterval(renewal);
+      await this.locks.deleteOne({ _id: collection, owner });
+    }
+  }
+
+  /**
+   * Takes the migration lock of a collection, waiting while another
+   * instance holds it. An expired lock is taken over.
+   *
+   * @param {string} collection - Migrated collection
+   * @param {string} owner - Identifier of this run
+   * @returns {Promise<void>}
+   * @throws {ApplicationError} When the lock is still held after the timeout (DATABASE_ERROR)
+   * @private
+   */
+  private async acquireLock(collection: string, owner: string): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      const now = new Date();
+      try {
+        // Matches a missing or expired lock; a live lock makes the upsert collide on _id
+        await this.locks.updateOne(
+          { _id: collection, expiresAt: { $lt: now } },
+          {
+            $set: {
+              owner,
+              lockedAt: now,
+              expiresAt: new Date(now.getTime() + this.lockTtlMs),
+            },
+          },
+          { upsert: true },
+        );
+        return;
+      } catch (error) {
+        if (!(error instanceof MongoServerError) || error.code !== 11000) {
+          throw error;
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        throw new ApplicationError({
+          type: ErrorType.DATABASE_ERROR,
+          message: `Timed out waiting for the migration lock of ${collection}`,
+          metadata: { collection, lockTimeoutMs: this.lockTimeoutMs },
+        });
+      }
+      this.logger.info("Migrator: Waiting for the migration lock", {
+        collection,
+      });
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Creates the unique index of the bookkeeping collection, once.
+   *
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async ensureIndexes(): Promise<void> {
+    if (this.indexesReady) {
+      return;
+    }
+    await this.records.createIndex(
+      { collection: 1, version: 1 },
+      { name: "idx_collection_version", unique: true },
+    );
+    this.indexesReady = true;
+  }
+}
+
+/**
+ * Loads the migration files of a directory. Files are named
+ * `<version>_<name>.js` and export an `up` function and optionally a `down`
+ * function; other files are ignored.
+ *
+ * @param {string} directory - Directory holding the migration files
+ * @returns {Promise<Migration[]>} Migrations, sorted by version
+ * @throws {ApplicationError} When a file does not export `up` or two files share a version (CONFIG_ERROR)
+ */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+  const files = (await readdir(directory))
+    .filter((file) => !file.endsWith(".d.ts"))
+    .sort();
+  const migrations: Migration[] = [];
+
+  for (const file of files) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const module = (await import(
+      pathToFileURL(resolve(join(directory, file))).href
+    )) as Partial<Pick<Migration, "up" | "down">>;
+    if (typeof module.up !== "function") {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: `Migration file ${file} does not export an up function`,
+        metadata: { directory, file },
+      });
+    }
+
+    migrations.push({
+      version: Number(match[1]),
+      name: match[2]!,
+      up: module.up,
+      ...(typeof module.down === "function" && { down: module.down }),
+    });
+  }
+
+  return sortMigrations(migrations);
+}
+
+/**
+ * Applies the pending migrations of a collection. Migrations are given
+ * directly or loaded from a directory of migration files.
+ *
+ * @param {RunMigrationsOptions} options - Client, collection, migrations and locking options
+ * @returns {Promise<MigrationRecord[]>} Records of the migrations applied by this call
+ * @throws {ApplicationError} When the migrations are invalid (CONFIG_ERROR) or fail (DATABASE_ERROR)
+ */
+export async function runMigrations(
+  options: RunMigrationsOptions,
+): Promise<MigrationRecord[]> {
+  const migrations =
+    typeof options.migrations === "string"
+      ? await loadMigrations(options.migrations)
+      : options.migrations;
+
+  return new Migrator(
+    options.client,
+    options.database,
+    options.logger,
+    options,
+  ).up(options.collection, migrations, options.target);
+}
+
+/**
+ * Validates migrations and sorts them by version.
+ *
+ * @param {Migration[]} migrations - Migrations to check
+ * @returns {Migration[]} Sorted copy of the migrations
+ * @throws {ApplicationError} When a version is not a positive integer or is used twice (CONFIG_ERROR)
+ */
+function sortMigrations(migrations: Migration[]): Migration[] {
+  const seen = new Set<number>();
+  for (const { version, name } of migrations) {
+    if (!Number.isInteger(version) || version < 1 || seen.has(version)) {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: seen.has(version)
+          ? `Migration version ${version} is used more than once`
+          : `Migration ${name} must have a positive integer version`,
+        metadata: { version, name },
+      });
+    }
+    seen.add(version);
+  }
+  return [...migrations].sort((a, b) => a.version - b.version);
+}
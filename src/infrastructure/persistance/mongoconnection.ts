@@ -1,4 +1,10 @@
-import { MongoClient } from "mongodb";
+import { setTimeout } from "node:timers/promises";
+import {
+  MongoClient,
+  MongoNetworkError,
+  MongoServerSelectionError,
+} from "mongodb";
+import type { MongoClientOptions as MongoDriverOptions } from "mongodb";
 import type { MongoClientOptions } from "./types";
 import type { Logger } from "../../domain/logger.interface.js";
 
@@ -10,6 +16,7 @@ import { localConfig } from "#root/config/local.js";
  */
 export class MongoConnection {
   private client: MongoClient | null = null;
+  private connecting: Promise<void> | null = null;
   private mongoClientOptions: MongoClientOptions;
   /**
    *
@@ -21,71 +28,245 @@ export class MongoConnection {
     private readonly logger: Logger,
   ) {
     this.mongoClientOptions = mongoClientOptions;
-    // Commented line shutdown, will be handle with Main Orchestor.
-    // this.registerForShutdown();
   }
 
   /**
-   * Establishes a connection to the MongoDB server.
-   * Throws an error if the connection fails.
+   * Establishes a connection to the MongoDB server. Failed attempts caused
+   * by the network or server selection are retried with exponential backoff;
+   * other failures (authentication, invalid options) are thrown at once.
+   * Concurrent callers share the attempt in flight, so a single client is
+   * ever created. Throws an error if the last attempt fails, after which
+   * connect() may be called again.
+   * @returns {Promise<void>} Resolves once the client is connected
    */
   public async connect(): Promise<void> {
     if (this.client) {
       return;
     }
-    try {
-      // Usar la configuración para la URI de la base de datos
-      const uri = `mongodb://${this.mongoClientOptions.host}:${this.mongoClientOptions.port}`; // e.g., 'mongodb://localhost:27017'
-      this.client = new MongoClient(uri, {
-        zlibCompressionLevel:
-          this.mongoClientOptions.compressionLevel ??
-          localConfig.mongo.compressionLevel,
-        compressors:
-          this.mongoClientOptions.compresors ?? localConfig.mongo.compresors,
-      });
-      await this.client.connect();
-      this.logger.debug("[MongoConnection] ✅ MongoDB connection established.");
-    } catch (error) {
-      this.logger.error(
-        `[MongoConnection] ❌ Failed to connect to MongoDB, error: ${String(error)}`,
-      );
-      throw error;
-    }
+
+    this.connecting ??= this.establish().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
   }
 
   /**
    * Returns the active MongoClient instance.
-   * Throws an error if the connection has not been established.
+   * Throws an error if the connection has not been established, including
+   * while connect() is still retrying.
    * @returns {MongoClient} The connected MongoClient instance.
    */
   public getClient(): MongoClient {
     if (!this.client) {
       throw new Error(
-        "[MongoConnection] MongoDB client is not available. Call connect() first.",
+        this.connecting
+          ? "[MongoConnection] MongoDB client is not available yet: the connection is still being established."
+          : "[MongoConnection] MongoDB client is not available. Call connect() first.",
       );
     }
     return this.client;
   }
 
   /**
-   * Closes the connection to the MongoDB server.
+   * Checks that the server answers, e.g. for a readiness probe.
+   * @throws {Error} When not connected or the server does not answer
+   */
+  public async ping(): Promise<void> {
+    await this.getClient().db("admin").command({ ping: 1 });
+  }
+
+  /**
+   * Closes the connection to the MongoDB server. Safe to call several times,
+   * and from several owners: the client is closed once. A connection still
+   * being established is awaited first, so that its client is not leaked.
    */
   public async disconnect(): Promise<void> {
-    await this.client?.close();
+    await this.connecting?.catch(() => undefined);
+    const client = this.client;
+    if (!client) {
+      return;
+    }
     this.client = null;
+    await client.close();
     this.logger.debug("[MongoConnection] MongoDB connection closed.");
-    process.exit(0);
   }
 
   /**
-   * Sets up listeners for process termination signals (SIGINT, SIGTERM)
-   * to ensure a graceful shutdown of the database connection.
-   * This method registers the `disconnect` method to be called upon receiving a shutdown signal.
+   * Runs the connection attempts of connect(), with retries.
+   * @returns {Promise<void>} Resolves once the client is connected
+   * @private
+   */
+  private async establish(): Promise<void> {
+    const retry = this.mongoClientOptions.connectRetry;
+    const attempts = Math.max(
+      retry?.attempts ?? localConfig.mongo.connectRetry?.attempts ?? 5,
+      1,
+    );
+    const initialDelayMs =
+      retry?.initialDelayMs ??
+      localConfig.mongo.connectRetry?.initialDelayMs ??
+      500;
+    const maxDelayMs =
+      retry?.maxDelayMs ?? localConfig.mongo.connectRetry?.maxDelayMs ?? 10000;
+
+    for (let attempt = 1; ; attempt++) {
+      const client = new MongoClient(
+        this.connectionString(),
+        this.clientOptions(),
+      );
+      this.monitorTopology(client);
+
+      try {
+        await client.connect();
+        this.client = client;
+        this.logger.info(
+          "[MongoConnection] ✅ MongoDB connection established.",
+          {
+            hosts: client.options.hosts.map((host) => host.toString()),
+            replicaSet: client.options.replicaSet,
+            attempt,
+          },
+        );
+        return;
+      } catch (error) {
+        await client.close().catch(() => undefined);
+
+        const retryable =
+          error instanceof MongoNetworkError ||
+          error instanceof MongoServerSelectionError;
+        if (!retryable || attempt >= attempts) {
+          this.logger.error(
+            `[MongoConnection] ❌ Failed to connect to MongoDB, error: ${String(error)}`,
+            { attempt, attempts },
+          );
+          throw error;
+        }
+
+        const delayMs = Math.min(
+          initialDelayMs * 2 ** (attempt - 1),
+          maxDelayMs,
+        );
+        this.logger.warn(
+          `[MongoConnection] Connection attempt ${attempt}/${attempts} failed, retrying in ${delayMs}ms`,
+          { error: error instanceof Error ? error.message : String(error) },
+        );
+        await setTimeout(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Builds the connection string: the configured `uri`, or one built from
+   * the host and port. Credentials are passed as client options so that
+   * they never need escaping.
+   * @returns {string} MongoDB connection string
    * @private
    */
-  private registerForShutdown(): void {
-    this.logger.debug("Registering MongoDB connection for graceful shutdown.");
-    process.on("SIGINT", () => this.disconnect());
-    process.on("SIGTERM", () => this.disconnect());
+  private connectionString(): string {
+    const { uri, host, port } = this.mongoClientOptions;
+    if (uri) {
+      return uri;
+    }
+
+    const hosts = (host ?? localConfig.mongo.host)
+      .split(",")
+      .map((entry) => entry.trim())
+      .map((entry) =>
+        entry.includes(":")
+          ? entry
+          : `${entry}:${port ?? localConfig.mongo.port}`,
+      );
+    return `mongodb://${hosts.join(",")}`; // e.g., 'mongodb://localhost:27017'
+  }
+
+  /**
+   * Maps the structured settings onto MongoClient options. Unset settings
+   * (undefined, or null when read from convict) are left out so that the
+   * driver defaults and the connection string options apply.
+   * @returns {MongoDriverOptions} Driver options
+   * @private
+   */
+  private clientOptions(): MongoDriverOptions {
+    const { auth, tls, pool, timeouts, ...options } = this.mongoClientOptions;
+    const settings: Record<string, unknown> = {
+      auth:
+        auth?.username || auth?.password
+          ? {
+              username: auth.username ?? undefined,
+              password: auth.password ?? undefined,
+            }
+          : undefined,
+      authSource: auth?.source,
+      authMechanism: auth?.mechanism,
+      replicaSet: options.replicaSet,
+      tls: tls?.enabled,
+      tlsCAFile: tls?.caFile,
+      tlsCertificateKeyFile: tls?.certificateKeyFile,
+      tlsCertificateKeyFilePassword: tls?.certificateKeyFilePassword,
+      tlsAllowInvalidCertificates: tls?.allowInvalidCertificates,
+      maxPoolSize: pool?.maxSize,
+      minPoolSize: pool?.minSize,
+      maxIdleTimeMS: pool?.maxIdleTimeMS,
+      connectTimeoutMS: timeouts?.connectMS,
+      serverSelectionTimeoutMS: timeouts?.serverSelectionMS,
+      socketTimeoutMS: timeouts?.socketMS,
+      retryWrites: options.retryWrites,
+      retryReads: options.retryReads,
+      appName: options.appName,
+      zlibCompressionLevel:
+        options.compressionLevel ?? localConfig.mongo.compressionLevel,
+      compressors: options.compresors ?? localConfig.mongo.compresors,
+    };
+
+    return Object.fromEntries(
+      Object.entries(settings).filter(
+        ([, value]) => value !== undefined && value !== null,
+      ),
+    ) as MongoDriverOptions;
+  }
+
+  /**
+   * Logs the topology events of a client: topology type changes (e.g. a
+   * replica set being discovered), server role changes (e.g. a primary
+   * stepping down), failed heartbeats and cleared connection pools.
+   * @param {MongoClient} client - Client to monitor
+   * @private
+   */
+  private monitorTopology(client: MongoClient): void {
+    client.on("topologyDescriptionChanged", (event) => {
+      if (event.previousDescription.type === event.newDescription.type) {
+        return;
+      }
+      this.logger.info("[MongoConnection] Topology changed", {
+        previousType: event.previousDescription.type,
+        type: event.newDescription.type,
+        setName: event.newDescription.setName,
+        servers: [...event.newDescription.servers.keys()],
+      });
+    });
+
+    client.on("serverDescriptionChanged", (event) => {
+      if (event.previousDescription.type === event.newDescription.type) {
+        return;
+      }
+      this.logger.info("[MongoConnection] Server role changed", {
+        address: event.address,
+        previousType: event.previousDescription.type,
+        type: event.newDescription.type,
+      });
+    });
+
+    client.on("serverHeartbeatFailed", (event) => {
+      this.logger.warn("[MongoConnection] Server heartbeat failed", {
+        address: event.connectionId,
+        error: event.failure.message,
+      });
+    });
+
+    client.on("connectionPoolCleared", (event) => {
+      this.logger.warn("[MongoConnection] Connection pool cleared", {
+        address: event.address,
+      });
+    });
   }
 }
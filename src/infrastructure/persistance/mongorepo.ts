@@ -1,24 +1,84 @@
-import { ObjectId, MongoServerError } from "mongodb";
+import { MongoServerError, MongoBulkWriteError } from "mongodb";
 
 import type {
   Collection,
   Db,
   Document,
   Filter,
+  ClientSession,
   FindOptions,
   MongoClient,
   OptionalUnlessRequiredId,
+  UpdateFilter,
   IndexDescription,
   CollectionInfo,
+  Sort,
   WithId,
 } from "mongodb";
 
-import { ValidationError, ApplicationError } from "#root/config/errors.js";
+import {
+  ValidationError,
+  ApplicationError,
+  ConcurrencyError,
+} from "#root/config/errors.js";
 import { ErrorType } from "#root/config/errors.js";
 import type { Logger } from "#root/domain/logger.interface";
 import type { MongoDocument } from "#root/domain/models/mongodocument";
-import type { IRepository } from "#root/domain/index.js";
-import type { PaginatedResult, PaginationOptions } from "#root/domain/index.js";
+import type {
+  BulkItemError,
+  BulkOptions,
+  BulkRemoveOptions,
+  BulkResult,
+  BulkUpdateItem,
+  EntityId,
+  FindQuery,
+  IRepository,
+  PaginatedResult,
+  PaginationOptions,
+  ProjectedDocument,
+  ProjectionOptions,
+  QueryOptions,
+  RemoveOptions,
+  ReplaceOptions,
+  ReplaceResult,
+  SessionOptions,
+  UpdateOptions,
+} from "#root/domain/index.js";
+import type {
+  ExpansionNode,
+  ExpansionOptions,
+  IdCodec,
+  IndexDefinition,
+  MongoRepositoryOptions,
+  ReferenceScope,
+  SchemaValidationOptions,
+  UniqueConstraint,
+} from "./types.js";
+import { planIndexes, toIndexDescription } from "./indexes.js";
+import {
+  documentValidationViolations,
+  toMongoJsonSchema,
+} from "./jsonschema.js";
+import { getRequestContext } from "../context/index.js";
+import { decodeCursor, encodeCursor } from "./cursor.js";
+import {
+  changesNaturalKey,
+  naturalKeyError,
+  newEntityId,
+  parseEntityId,
+  resolveIdStrategy,
+} from "./ids.js";
+import { expansionStages, planExpansion, referencedIds } from "./references.js";
+import type { ReferenceDefinition } from "../tools/schemabuilder/index.js";
+import type { CursorDirection } from "./cursor.js";
+import {
+  BulkResultCollector,
+  duplicateItemError,
+  invalidIdItemError,
+  missingReferenceItemError,
+  naturalKeyItemError,
+  notFoundItemError,
+} from "./bulk.js";
 
 /**
  * Enhanced MongoDB repository with proper error handling that integrates
@@ -27,12 +87,21 @@ import type { PaginatedResult, PaginationOptions } from "#root/domain/index.js";
  * @template TEntity The domain entity type.
  * @template TQuery The query type for filtering entities.
  */
-export class MongoDbRepository<TEntity extends Document>
-  implements IRepository<TEntity>
-{
+export class MongoDbRepository<
+  TEntity extends Document,
+> implements IRepository<TEntity> {
   protected readonly collection: Collection<MongoDocument<TEntity>>;
   private readonly collectionName: string;
-  private readonly uniqueFields: (keyof TEntity)[] | undefined;
+  private readonly uniqueConstraints: string[][];
+  private readonly softDelete: boolean;
+  private readonly textWeights: Record<string, number> | undefined;
+  private readonly indexes: IndexDefinition[];
+  private readonly dropStaleIndexes: boolean;
+  private readonly schemaValidation: SchemaValidationOptions | undefined;
+  private readonly references: Record<string, ReferenceDefinition>;
+  private readonly expansion: ExpansionOptions;
+  private readonly referenceScope: ReferenceScope;
+  private readonly ids: IdCodec;
   private readonly logger: Logger;
   private readonly db: Db;
 
@@ -41,25 +110,47 @@ export class MongoDbRepository<TEntity extends Document>
    * @param {MongoClient} mongoClient - Mongoclient
    * @param {string} dbName - Database Name
    * @param {string} collectionName - Collection Name
-   * @param {(keyof TEntity)[] | undefined} uniqueFields - Unique field to setup indexes
+   * @param {UniqueConstraint<TEntity>[] | undefined} uniqueFields - Unique fields or field tuples to setup indexes
    * @param {Logger} logger - Winston logger instance
+   * @param {MongoRepositoryOptions} [options] - Optional repository behaviour
    */
   public constructor(
     mongoClient: MongoClient,
     dbName: string,
     collectionName: string,
-    uniqueFields: (keyof TEntity)[] | undefined,
+    uniqueFields: UniqueConstraint<TEntity>[] | undefined,
     logger: Logger,
+    options: MongoRepositoryOptions = {},
   ) {
     this.collectionName = collectionName;
-    this.uniqueFields = uniqueFields;
+    this.uniqueConstraints = (uniqueFields ?? [])
+      .map((constraint) =>
+        (Array.isArray(constraint) ? constraint : [constraint]).map(String),
+      )
+      .filter((fields) => fields.length > 0);
+    this.softDelete = options.softDelete ?? false;
+    const textWeights = Array.isArray(options.textSearchFields)
+      ? Object.fromEntries(options.textSearchFields.map((field) => [field, 1]))
+      : (options.textSearchFields as Record<string, number> | undefined);
+    this.textWeights =
+      textWeights && Object.keys(textWeights).length > 0
+        ? textWeights
+        : undefined;
+    this.indexes = options.indexes ?? [];
+    this.dropStaleIndexes = options.dropStaleIndexes ?? false;
+    this.schemaValidation = options.schemaValidation;
+    this.references = options.references ?? {};
+    this.expansion = options.expand ?? {};
+    this.referenceScope = options.referenceScope ?? {};
+    this.ids = resolveIdStrategy(options.idStrategy);
     this.db = mongoClient.db(dbName);
     this.collection =
       this.db.collection<MongoDocument<TEntity>>(collectionName);
     this.logger = logger;
   }
   /**
-   * Initializes the repository collection and creates indexes if it doesn't exist.
+   * Initializes the repository collection, applies the schema validator
+   * when configured and reconciles its indexes.
    * @returns {Promise<boolean>} True if the collection was created, false if it already existed
    */
   public async initCollections(): Promise<boolean> {
@@ -68,12 +159,22 @@ export class MongoDbRepository<TEntity extends Document>
       .toArray();
 
     const isNewCollection = collectionsList.length === 0;
+    const validator = this.validatorOptions();
 
     if (isNewCollection) {
-      await this.db.createCollection(this.collectionName);
+      await this.db.createCollection(this.collectionName, validator);
+    } else if (validator) {
+      await this.db.command({ collMod: this.collectionName, ...validator });
+    }
+    if (validator) {
+      this.logger.info("Repository: Schema validator applied", {
+        collectionName: this.collectionName,
+        validationLevel: validator.validationLevel,
+        validationAction: validator.validationAction,
+      });
     }
 
-    await this.createIndexes();
+    await this.syncIndexes();
     return isNewCollection;
   }
 
@@ -82,29 +183,44 @@ export class MongoDbRepository<TEntity extends Document>
    * Throws structured errors that are handled by the global error handler.
    *
    * @param {TEntity} data - Entity data to create
+   * @param {SessionOptions} [options] - Optional session to run the write in
    * @returns {Promise<MongoDocument<TEntity> | null>} Created entity or null if duplicate
    * @throws {ApplicationError} When database operation fails
    */
-  public async create(data: TEntity): Promise<MongoDocument<TEntity> | null> {
+  public async create(
+    data: TEntity,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
     try {
       // Validate unique constraints before creation
-      const isValid = await this.validateUniqueConstraints(data);
-      if (!isValid) {
+      const violation = await this.findUniqueViolation(
+        data,
+        undefined,
+        options?.session,
+      );
+      if (violation) {
         throw new ApplicationError({
           type: ErrorType.DUPLICATE_ERROR,
           message: "Duplicate value detected",
           statusCode: 409,
+          metadata: {
+            duplicateFields: violation,
+            collectionName: this.collectionName,
+            operation: "create",
+          },
         });
       }
+      await this.assertReferences(data, options?.session);
 
-      const document: MongoDocument<TEntity> = {
-        _id: new ObjectId(),
-        createdAt: new Date(),
-        ...data,
-      };
+      const document = this.newDocument(
+        data,
+        new Date(),
+        getRequestContext()?.actor ?? null,
+      );
 
       await this.collection.insertOne(
         document as OptionalUnlessRequiredId<MongoDocument<TEntity>>,
+        { session: options?.session },
       );
 
       this.logger.debug("Entity created successfully", {
@@ -114,6 +230,15 @@ export class MongoDbRepository<TEntity extends Document>
 
       return document;
     } catch (error) {
+      // Re-throw application errors as-is
+      if (error instanceof ApplicationError) {
+        throw error;
+      }
+
+      if (error instanceof MongoServerError && error.code === 121) {
+        throw this.documentValidationError(error, "create");
+      }
+
       this.logger.error("Create operation failed", {
         error: error instanceof Error ? error.message : "Unknown error",
         data,
@@ -127,7 +252,10 @@ export class MongoDbRepository<TEntity extends Document>
           message: "Duplicate value detected",
           statusCode: 409,
           metadata: {
-            duplicateField: this.extractDuplicateField(error.message),
+            duplicateFields: this.duplicateFields(
+              error.message,
+              error["keyPattern"],
+            ),
             collectionName: this.collectionName,
             operation: "create",
           },
@@ -154,31 +282,47 @@ export class MongoDbRepository<TEntity extends Document>
    * Reads an entity by ID with proper error handling.
    *
    * @param {string} id - Entity identifier
+   * @param {QueryOptions} [options] - Optional read options, including a projection
    * @returns {Promise<MongoDocument<TEntity> | null>} Found entity or null
    * @throws {ApplicationError} When database operation fails
    */
-  public async read(id: string): Promise<MongoDocument<TEntity> | null> {
+  public async read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Read options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
     try {
-      let objectId: ObjectId;
+      const entityId = parseEntityId(this.ids, id);
+      const plan = this.expansionPlan(options?.expand);
 
-      // Validate ObjectId format
-      try {
-        objectId = new ObjectId(id);
-      } catch {
-        throw new ValidationError({
-          message: "Invalid entity identifier format",
-          field: "id",
-          violations: ["ID must be a valid MongoDB ObjectId format"],
-        });
+      let document = await this.collection.findOne(
+        this.scopeFilter({ _id: entityId }, options),
+        { session: options?.session, projection: options?.projection },
+      );
+      if (document && plan) {
+        [document] = await this.expand([document], plan, options?.session);
       }
 
-      const document = await this.collection.findOne({
-        _id: objectId,
-      } as Filter<MongoDocument<TEntity>>);
-
       if (document) {
         this.logger.debug("Entity retrieved successfully", {
-          entityId: objectId,
+          entityId,
           collectionName: this.collectionName,
         });
       }
@@ -217,52 +361,76 @@ export class MongoDbRepository<TEntity extends Document>
    *
    * @param {string} id - Entity identifier
    * @param {Partial<TEntity>} data - Update data
+   * @param {UpdateOptions} [options] - Optional update preconditions
    * @returns {Promise<MongoDocument<TEntity> | null>} Updated entity or null if not found
+   * @throws {ConcurrencyError} When the expected version is no longer current
    * @throws {ApplicationError} When database operation fails
    */
   public async update(
-    id: string | ObjectId,
+    id: string | EntityId,
     data: Partial<TEntity>,
+    options?: UpdateOptions,
   ): Promise<MongoDocument<TEntity> | null> {
     try {
-      let objectId: ObjectId;
-
-      // Validate ObjectId format
-      try {
-        objectId = typeof id === "string" ? new ObjectId(id) : id;
-      } catch {
-        throw new ValidationError({
-          message: "Invalid entity identifier format",
-          field: "id",
-          violations: ["ID must be a valid MongoDB ObjectId format"],
-        });
+      const entityId =
+        typeof id === "string" ? parseEntityId(this.ids, id) : id;
+      if (changesNaturalKey(this.ids, entityId, data)) {
+        throw naturalKeyError(this.ids);
       }
 
       // Validate unique constraints for update
-      const isValid = await this.validateUniqueConstraints(data, objectId);
-      if (!isValid) {
+      const violation = await this.findUniqueViolation(
+        data,
+        entityId,
+        options?.session,
+      );
+      if (violation) {
         throw new ApplicationError({
           type: ErrorType.DUPLICATE_ERROR,
           message: "Update would violate unique constraint",
           statusCode: 409,
           metadata: {
             entityId: id,
-            updateData: data,
-            uniqueFields: this.uniqueFields,
+            fields: Object.keys(data),
+            duplicateFields: violation,
             operation: "update",
           },
         });
       }
+      await this.assertReferences(data, options?.session);
+
+      const expectedVersion = options?.expectedVersion;
+      const filter: Document = { _id: entityId };
+      if (expectedVersion !== undefined) {
+        // Documents written before versioning have no __v and count as version 0
+        filter["__v"] =
+          expectedVersion === 0 ? { $in: [0, null] } : expectedVersion;
+      }
 
       const result = await this.collection.findOneAndUpdate(
-        { _id: objectId } as Filter<MongoDocument<TEntity>>,
-        { $set: data as Partial<MongoDocument<TEntity>> },
-        { returnDocument: "after" },
+        this.scopeFilter(filter),
+        this.withWriteMetadata({ $set: data }),
+        { returnDocument: "after", session: options?.session },
       );
 
+      if (!result && expectedVersion !== undefined) {
+        const current = await this.collection.findOne(
+          this.scopeFilter({ _id: entityId }),
+          { session: options?.session },
+        );
+        if (current) {
+          throw new ConcurrencyError({
+            message: "Entity was modified by another request",
+            expectedVersion,
+            currentVersion: current.__v ?? 0,
+            metadata: { entityId: id, operation: "update" },
+          });
+        }
+      }
+
       if (result) {
         this.logger.debug("Entity updated successfully", {
-          entityId: objectId,
+          entityId,
           collectionName: this.collectionName,
           updatedFields: Object.keys(data),
         });
@@ -278,6 +446,10 @@ export class MongoDbRepository<TEntity extends Document>
         throw error;
       }
 
+      if (error instanceof MongoServerError && error.code === 121) {
+        throw this.documentValidationError(error, "update");
+      }
+
       this.logger.error("Update operation failed", {
         error: error instanceof Error ? error.message : "Unknown error",
         id,
@@ -292,7 +464,10 @@ export class MongoDbRepository<TEntity extends Document>
           message: "Update would create duplicate value",
           statusCode: 409,
           metadata: {
-            duplicateField: this.extractDuplicateField(error.message),
+            duplicateFields: this.duplicateFields(
+              error.message,
+              error["keyPattern"],
+            ),
             entityId: id,
             operation: "update",
           },
@@ -316,29 +491,352 @@ export class MongoDbRepository<TEntity extends Document>
   }
 
   /**
-   * Permanently removes an entity from the persistence layer by its ID.
+   * Replaces an entity by its ID with complete data. The stored `_id`,
+   * `createdAt` and `createdBy` are kept. The replacement only applies to the
+   * version that was read, so that a concurrent write is reported instead of
+   * being overwritten. With `upsert` a missing entity is inserted with the
+   * given ID.
+   *
+   * @param {string | EntityId} id - The unique identifier of the entity to replace.
+   * @param {TEntity} data - Complete entity data.
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag.
+   * @returns {Promise<ReplaceResult<TEntity> | null>} Stored entity and whether it was created, null if not found.
+   * @throws {ValidationError} If the provided ID does not match the id strategy.
+   * @throws {ConcurrencyError} When the entity changed since the expected or read version.
+   * @throws {ApplicationError} When a unique constraint is violated, the ID belongs to a deleted entity, or the database fails.
+   */
+  public async replace(
+    id: string | EntityId,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity> | null> {
+    try {
+      const entityId =
+        typeof id === "string" ? parseEntityId(this.ids, id) : id;
+      if (changesNaturalKey(this.ids, entityId, data)) {
+        throw naturalKeyError(this.ids);
+      }
+
+      const session = options?.session;
+      const violation = await this.findUniqueViolation(data, entityId, session);
+      if (violation) {
+        throw new ApplicationError({
+          type: ErrorType.DUPLICATE_ERROR,
+          message: "Replace would violate unique constraint",
+          statusCode: 409,
+          metadata: {
+            entityId: id,
+            duplicateFields: violation,
+            operation: "replace",
+          },
+        });
+      }
+      await this.assertReferences(data, session);
+
+      const now = new Date();
+      const actor = getRequestContext()?.actor ?? null;
+      const current = await this.collection.findOne(
+        { _id: entityId } as Filter<MongoDocument<TEntity>>,
+        { session },
+      );
+
+      if (!current || (this.softDelete && current.deletedAt)) {
+        if (!options?.upsert || options.expectedVersion !== undefined) {
+          return null;
+        }
+        if (current) {
+          throw new ApplicationError({
+            type: ErrorType.DUPLICATE_ERROR,
+            message: "Entity is deleted, restore it before replacing it",
+            statusCode: 409,
+            metadata: { entityId: id, operation: "replace" },
+          });
+        }
+
+        const document = {
+          ...this.newDocument(data, now, actor),
+          _id: entityId,
+        };
+        await this.collection.insertOne(
+          document as OptionalUnlessRequiredId<MongoDocument<TEntity>>,
+          { session },
+        );
+        this.logger.debug("Entity created by replace", {
+          entityId,
+          collectionName: this.collectionName,
+        });
+        return { document, created: true };
+      }
+
+      const currentVersion = current.__v ?? 0;
+      const expectedVersion = options?.expectedVersion;
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        throw new ConcurrencyError({
+          message: "Entity was modified by another request",
+          expectedVersion,
+          currentVersion,
+          metadata: { entityId: id, operation: "replace" },
+        });
+      }
+
+      const document: MongoDocument<TEntity> = {
+        _id: entityId,
+        createdAt: current.createdAt,
+        ...data,
+        updatedAt: now,
+        createdBy: current.createdBy ?? null,
+        updatedBy: actor,
+        __v: currentVersion + 1,
+        ...(this.softDelete && { deletedAt: null, deletedBy: null }),
+      };
+      const result = await this.collection.replaceOne(
+        // Documents written before versioning have no __v
+        { _id: entityId, __v: current.__v ?? null } as Filter<
+          MongoDocument<TEntity>
+        >,
+        document,
+        { session },
+      );
+
+      if (result.matchedCount === 0) {
+        throw new ConcurrencyError({
+          message: "Entity was modified by another request",
+          expectedVersion: currentVersion,
+          metadata: { entityId: id, operation: "replace" },
+        });
+      }
+
+      this.logger.debug("Entity replaced successfully", {
+        entityId,
+        collectionName: this.collectionName,
+      });
+      return { document, created: false };
+    } catch (error) {
+      // Re-throw application errors as-is
+      if (
+        error instanceof ApplicationError ||
+        error instanceof ValidationError
+      ) {
+        throw error;
+      }
+
+      if (error instanceof MongoServerError && error.code === 121) {
+        throw this.documentValidationError(error, "replace");
+      }
+
+      this.logger.error("Replace operation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        id,
+        collectionName: this.collectionName,
+      });
+
+      // Handle MongoDB duplicate key errors
+      if (error instanceof MongoServerError && error.code === 11000) {
+        throw new ApplicationError({
+          type: ErrorType.DUPLICATE_ERROR,
+          message: "Replace would create duplicate value",
+          statusCode: 409,
+          metadata: {
+            duplicateFields: this.duplicateFields(
+              error.message,
+              error["keyPattern"],
+            ),
+            entityId: id,
+            operation: "replace",
+          },
+        });
+      }
+
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database operation failed during entity replace",
+        statusCode: 500,
+        metadata: {
+          operation: "replace",
+          entityId: id,
+          collectionName: this.collectionName,
+          originalError:
+            error instanceof Error ? error.message : "Unknown error",
+        },
+        cause: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  /**
+   * Removes an entity by its ID. With soft delete enabled the document is
+   * stamped with `deletedAt`/`deletedBy` and hidden from reads, otherwise it
+   * is permanently deleted.
    *
    * @param {string} id - The unique identifier of the entity to remove.
+   * @param {RemoveOptions} [options] - Optional removal metadata.
    * @returns {Promise<boolean>} True if the entity was deleted, false if it was not found.
-   * @throws {ValidationError} If the provided ID is not a valid ObjectId format.
+   * @throws {ValidationError} If the provided ID does not match the id strategy.
    * @throws {ApplicationError} When the deletion operation fails for other reasons.
    */
-  public async remove(id: string): Promise<boolean> {
-    this.logger.debug("Repository: Attempting to remove entity", { id });
+  public async remove(id: string, options?: RemoveOptions): Promise<boolean> {
+    if (!this.softDelete) {
+      return this.purge(id, { session: options?.session });
+    }
+
+    this.logger.debug("Repository: Attempting to soft delete entity", { id });
     try {
-      let objectId: ObjectId;
-      try {
-        objectId = new ObjectId(id);
-      } catch {
-        throw new ValidationError({
-          message: "Invalid entity identifier format",
-          field: "id",
+      const entityId = parseEntityId(this.ids, id);
+
+      const result = await this.collection.updateOne(
+        this.scopeFilter({ _id: entityId }),
+        this.withWriteMetadata({
+          $set: {
+            deletedAt: new Date(),
+            deletedBy: options?.deletedBy ?? getRequestContext()?.actor ?? null,
+          },
+        }),
+        { session: options?.session },
+      );
+
+      const wasDeleted = result.modifiedCount === 1;
+      if (wasDeleted) {
+        this.logger.info("Repository: Entity soft deleted successfully", {
+          id,
+        });
+      } else {
+        this.logger.warn("Repository: Entity to remove was not found", { id });
+      }
+
+      return wasDeleted;
+    } catch (error) {
+      if (error instanceof ValidationError) throw error; // Re-throw validation errors
+      if (error instanceof MongoServerError && error.code === 121) {
+        throw this.documentValidationError(error, "remove");
+      }
+
+      this.logger.error("Repository: Soft delete operation failed", { error });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database operation failed during entity removal.",
+        cause: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Restores a soft-deleted entity by clearing its deletion stamp.
+   *
+   * @param {string} id - The unique identifier of the entity to restore.
+   * @param {SessionOptions} [options] - Optional session to run the restore in.
+   * @returns {Promise<MongoDocument<TEntity> | null>} The restored entity, or null if no deleted entity was found.
+   * @throws {ValidationError} If the provided ID does not match the id strategy.
+   * @throws {ApplicationError} When the restore would violate a unique constraint or fails for other reasons.
+   */
+  public async restore(
+    id: string,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    if (!this.softDelete) {
+      return null;
+    }
+
+    this.logger.debug("Repository: Attempting to restore entity", { id });
+    try {
+      const entityId = parseEntityId(this.ids, id);
+
+      const deleted = await this.collection.findOne(
+        {
+          _id: entityId,
+          deletedAt: { $ne: null },
+        } as Filter<MongoDocument<TEntity>>,
+        { session: options?.session },
+      );
+      if (!deleted) {
+        return null;
+      }
+
+      // A live document may have taken over a unique value in the meantime
+      const violation = await this.findUniqueViolation(
+        deleted as Partial<TEntity>,
+        entityId,
+        options?.session,
+      );
+      if (violation) {
+        throw new ApplicationError({
+          type: ErrorType.DUPLICATE_ERROR,
+          message: "Restore would violate unique constraint",
+          statusCode: 409,
+          metadata: {
+            entityId: id,
+            duplicateFields: violation,
+            operation: "restore",
+          },
+        });
+      }
+
+      const result = await this.collection.findOneAndUpdate(
+        { _id: entityId, deletedAt: { $ne: null } } as Filter<
+          MongoDocument<TEntity>
+        >,
+        this.withWriteMetadata({
+          $set: { deletedAt: null, deletedBy: null },
+        }),
+        { returnDocument: "after", session: options?.session },
+      );
+
+      if (result) {
+        this.logger.info("Repository: Entity restored successfully", { id });
+      }
+
+      return result as MongoDocument<TEntity> | null;
+    } catch (error) {
+      if (error instanceof ApplicationError) throw error;
+
+      if (error instanceof MongoServerError && error.code === 121) {
+        throw this.documentValidationError(error, "restore");
+      }
+
+      this.logger.error("Repository: Restore operation failed", { error });
+
+      if (error instanceof MongoServerError && error.code === 11000) {
+        throw new ApplicationError({
+          type: ErrorType.DUPLICATE_ERROR,
+          message: "Restore would create duplicate value",
+          statusCode: 409,
+          metadata: {
+            duplicateFields: this.duplicateFields(
+              error.message,
+              error["keyPattern"],
+            ),
+            entityId: id,
+            operation: "restore",
+          },
         });
       }
 
-      const result = await this.collection.deleteOne({
-        _id: objectId,
-      } as Filter<MongoDocument<TEntity>>);
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database operation failed during entity restore.",
+        cause: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Permanently removes an entity from the persistence layer by its ID,
+   * whether it is soft-deleted or not.
+   *
+   * @param {string} id - The unique identifier of the entity to remove.
+   * @param {SessionOptions} [options] - Optional session to run the deletion in.
+   * @returns {Promise<boolean>} True if the entity was deleted, false if it was not found.
+   * @throws {ValidationError} If the provided ID does not match the id strategy.
+   * @throws {ApplicationError} When the deletion operation fails for other reasons.
+   */
+  public async purge(id: string, options?: SessionOptions): Promise<boolean> {
+    this.logger.debug("Repository: Attempting to remove entity", { id });
+    try {
+      const entityId = parseEntityId(this.ids, id);
+
+      const result = await this.collection.deleteOne(
+        { _id: entityId } as Filter<MongoDocument<TEntity>>,
+        { session: options?.session },
+      );
 
       const wasDeleted = result.deletedCount === 1;
       if (wasDeleted) {
@@ -363,19 +861,49 @@ export class MongoDbRepository<TEntity extends Document>
   /**
    * Finds multiple entities matching the specified query criteria with pagination.
    *
-   * @param {TQuery} query - The query criteria for filtering entities.
-   * @param {PaginationOptions} [options] - Optional pagination and sorting parameters.
+   * @param {FindQuery<TEntity>} query - The query criteria for filtering entities.
+   * @param {PaginationOptions} [options] - Optional pagination and sorting parameters, including a projection.
    * @returns {Promise<PaginatedResult<MongoDocument<TEntity>>>} A paginated list of results.
    * @throws {ApplicationError} When the query operation fails.
    */
   public async find(
-    query: Partial<TEntity>,
-    options: PaginationOptions = {},
-  ): Promise<PaginatedResult<MongoDocument<TEntity>>> {
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions,
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & Partial<ProjectionOptions>} [options] - Pagination options
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity> | ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & Partial<ProjectionOptions> = {},
+  ): Promise<
+    | PaginatedResult<MongoDocument<TEntity>>
+    | PaginatedResult<ProjectedDocument<TEntity>>
+  > {
+    // The session is not serializable, keep it out of the logs
+    const { session: _session, ...pagination } = options;
     this.logger.debug("Repository: Finding entities with query", {
       query,
-      options,
+      options: pagination,
     });
+    const plan = this.expansionPlan(options.expand);
+    if (options.useCursor || options.after || options.before) {
+      return this.findWithCursor(query, options, plan);
+    }
+
+    const search = this.textSearch(options);
+
     try {
       // Set default pagination and sorting options
       const {
@@ -385,18 +913,30 @@ export class MongoDbRepository<TEntity extends Document>
         sortOrder = -1,
       } = options;
 
-      const mongoQuery = query as Filter<MongoDocument<TEntity>>;
+      const mongoQuery = this.scopeFilter(
+        { ...(query as Filter<Document>), ...search.filter },
+        options,
+      );
       const findOptions: FindOptions = {
         skip,
         limit,
-        sort: { [sortBy]: sortOrder },
+        sort: search.sort ?? { [sortBy]: sortOrder },
+        projection: search.projection
+          ? { ...options.projection, ...search.projection }
+          : options.projection,
+        session: options.session,
       };
 
       // Run count and find queries in parallel for efficiency
-      const [total, data] = await Promise.all([
-        this.collection.countDocuments(mongoQuery),
+      const [total, documents] = await Promise.all([
+        this.collection.countDocuments(mongoQuery, {
+          session: options.session,
+        }),
         this.collection.find(mongoQuery, findOptions).toArray(),
       ]);
+      const data = plan
+        ? await this.expand(documents, plan, options.session)
+        : documents;
 
       const hasNext = skip + limit < total;
       const hasPrevious = skip > 0;
@@ -427,17 +967,44 @@ export class MongoDbRepository<TEntity extends Document>
   /**
    * Finds the first entity that matches the specified query criteria.
    *
-   * @param {TQuery} query - The query criteria for finding the entity.
+   * @param {FindQuery<TEntity>} query - The query criteria for finding the entity.
+   * @param {QueryOptions} [options] - Optional query options, including a projection.
    * @returns {Promise<MongoDocument<TEntity> | null>} The first matching entity or null if not found.
    * @throws {ApplicationError} When the query operation fails.
    */
   public async findOne(
-    query: Partial<TEntity>,
-  ): Promise<MongoDocument<TEntity> | null> {
+    query: FindQuery<TEntity>,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Query options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
     this.logger.debug("Repository: Finding single entity", { query });
+    const plan = this.expansionPlan(options?.expand);
     try {
-      const document: WithId<MongoDocument<TEntity>> | null =
-        await this.collection.findOne(query as Filter<MongoDocument<TEntity>>);
+      let document: WithId<MongoDocument<TEntity>> | null =
+        await this.collection.findOne(
+          this.scopeFilter(query as Filter<Document>, options),
+          { session: options?.session, projection: options?.projection },
+        );
+      if (document && plan) {
+        [document] = await this.expand([document], plan, options?.session);
+      }
 
       if (document) {
         this.logger.debug("Repository: Single entity found", {
@@ -460,15 +1027,20 @@ export class MongoDbRepository<TEntity extends Document>
   /**
    * Counts the total number of entities that match the specified query criteria.
    *
-   * @param {TQuery} query - The query criteria for counting entities.
+   * @param {FindQuery<TEntity>} query - The query criteria for counting entities.
+   * @param {QueryOptions} [options] - Optional query options.
    * @returns {Promise<number>} The total count of matching entities.
    * @throws {ApplicationError} When the count operation fails.
    */
-  public async count(query: Partial<TEntity>): Promise<number> {
+  public async count(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<number> {
     this.logger.debug("Repository: Counting entities", { query });
     try {
       const count = await this.collection.countDocuments(
-        query as Filter<MongoDocument<TEntity>>,
+        this.scopeFilter(query as Filter<Document>, options),
+        { session: options?.session },
       );
       this.logger.debug("Repository: Count operation successful", { count });
       return count;
@@ -483,80 +1055,754 @@ export class MongoDbRepository<TEntity extends Document>
   }
 
   /**
-   * Creates necessary indexes for the collection.
-   * @private
-   */
-  private async createIndexes(): Promise<void> {
-    // Only create explicit unique indexes for configured fields.
-
-    if (!this.uniqueFields) {
-      return;
-    }
-    const indexes: IndexDescription[] = this.uniqueFields.map((config) => ({
-      key: { [config]: 1 },
-      unique: true,
-      name: `idx_unique_${String(config)}`,
-    }));
-
-    if (indexes.length > 0) {
-      try {
-        await this.collection.createIndexes(indexes);
-      } catch (error) {
-        // Indexes may already exist (ok for idempotent init)
-
-        console.warn(
-          `Warning creating indexes for ${this.collectionName}:`,
-          error,
-        );
-      }
-    }
-  }
-
-  /**
-   * Validates unique field constraints before database operations.
+   * Creates many entities with a single `insertMany`. Unique fields of the
+   * whole batch are checked with one query before anything is written.
    *
-   * @param {Partial<TEntity>} data - Data to validate
-   * @param {ObjectId} [excludeId] - ID to exclude from uniqueness check (for updates)
-   * @returns {Promise<boolean>} True if valid, false if constraint violation
-   * @private
+   * @param {TEntity[]} items - Entities to create
+   * @param {BulkOptions} [options] - Ordering and session options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   * @throws {ApplicationError} When the operation fails as a whole
    */
-  private async validateUniqueConstraints(
-    data: Partial<TEntity>,
-    excludeId?: ObjectId,
-  ): Promise<boolean> {
-    if (!this.uniqueFields) {
-      return true;
-    }
+  public async bulkCreate(
+    items: TEntity[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    const ordered = options.ordered ?? true;
+    this.logger.debug("Repository: Bulk creating entities", {
+      count: items.length,
+      ordered,
+    });
 
     try {
-      for (const fieldName of this.uniqueFields) {
-        const fieldValue = data[fieldName];
-        if (fieldValue === undefined) {
-          continue;
-        }
-
-        const query: any = { [fieldName]: fieldValue };
-        if (excludeId) {
-          query._id = { $ne: excludeId };
-        }
+      const collector = new BulkResultCollector<MongoDocument<TEntity>>(
+        items.length,
+        ordered,
+      );
 
-        const existing = await this.collection.findOne(query);
-        if (existing) {
-          this.logger.warn("Unique constraint violation detected", {
-            field: fieldName,
-            value: fieldValue,
-            existingId: existing._id,
-            excludeId,
-          });
-          return false;
-        }
+      if (this.ids.field) {
+        items.forEach((data, index) => {
+          if (this.ids.generate(data) === null) {
+            collector.fail(index, naturalKeyItemError(this.ids.field!));
+          }
+        });
       }
-      return true;
+      const conflicts = await this.findUniqueConflicts(
+        items.map((data) => ({ data })),
+        options.session,
+      );
+      for (const [index, fields] of conflicts) {
+        collector.fail(index, duplicateItemError(fields));
+      }
+      const missing = await this.findMissingReferences(items, options.session);
+      for (const [index, violations] of missing) {
+        collector.fail(index, missingReferenceItemError(violations));
+      }
+
+      const now = new Date();
+      const actor = getRequestContext()?.actor ?? null;
+      const stop = collector.stopIndex();
+      const pending = items
+        .map((data, index) => ({ data, index }))
+        .filter(({ index }) => index < stop && !collector.has(index))
+        .map(({ data, index }) => ({
+          index,
+          document: this.newDocument(data, now, actor),
+        }));
+
+      if (pending.length > 0) {
+        const writeErrors = await this.collectWriteErrors(() =>
+          this.collection.insertMany(
+            pending.map(
+              ({ document }) =>
+                document as OptionalUnlessRequiredId<MongoDocument<TEntity>>,
+            ),
+            { ordered, session: options.session },
+          ),
+        );
+
+        pending.forEach(({ index, document }, position) => {
+          const id = String(document._id);
+          const error = writeErrors.get(position);
+          if (error) {
+            collector.fail(index, error, id);
+          } else {
+            collector.succeed(index, id, document);
+          }
+        });
+      }
+
+      const result = collector.build();
+      this.logger.info("Repository: Bulk create completed", {
+        succeeded: result.succeeded,
+        failed: result.failed,
+        skipped: result.skipped,
+      });
+      return result;
+    } catch (error) {
+      this.logger.error("Repository: Bulk create operation failed", { error });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database operation failed during bulk creation.",
+        cause: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Updates many entities with a single `bulkWrite`. Unknown ids are reported
+   * as not found and unique fields are checked with one query for the batch.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Entity ids with their update data
+   * @param {BulkOptions} [options] - Ordering and session options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  public async bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    const ordered = options.ordered ?? true;
+    this.logger.debug("Repository: Bulk updating entities", {
+      count: items.length,
+      ordered,
+    });
+
+    try {
+      const collector = new BulkResultCollector<MongoDocument<TEntity>>(
+        items.length,
+        ordered,
+      );
+      const targets = await this.resolveBulkTargets(
+        items.map(({ id }) => id),
+        collector,
+        options.session,
+      );
+      for (const { index, entityId } of targets) {
+        if (changesNaturalKey(this.ids, entityId, items[index]!.data)) {
+          collector.fail(
+            index,
+            naturalKeyItemError(this.ids.field!),
+            String(entityId),
+          );
+        }
+      }
+
+      const conflicts = await this.findUniqueConflicts(
+        targets.map(({ index, entityId }) => ({
+          data: items[index]!.data,
+          excludeId: entityId,
+        })),
+        options.session,
+      );
+      for (const [position, fields] of conflicts) {
+        const { index, entityId } = targets[position]!;
+        collector.fail(index, duplicateItemError(fields), String(entityId));
+      }
+      const missing = await this.findMissingReferences(
+        targets.map(({ index }) => items[index]!.data),
+        options.session,
+      );
+      for (const [position, violations] of missing) {
+        const { index, entityId } = targets[position]!;
+        collector.fail(
+          index,
+          missingReferenceItemError(violations),
+          String(entityId),
+        );
+      }
+
+      const stop = collector.stopIndex();
+      const pending = targets.filter(
+        ({ index }) => index < stop && !collector.has(index),
+      );
+
+      if (pending.length > 0) {
+        const writeErrors = await this.collectWriteErrors(() =>
+          this.collection.bulkWrite(
+            pending.map(({ index, entityId }) => ({
+              updateOne: {
+                filter: this.scopeFilter({ _id: entityId }),
+                update: this.withWriteMetadata({ $set: items[index]!.data }),
+              },
+            })),
+            { ordered, session: options.session },
+          ),
+        );
+
+        const updated = await this.collection
+          .find(
+            this.scopeFilter({
+              _id: { $in: pending.map(({ entityId }) => entityId) },
+            }),
+            { session: options.session },
+          )
+          .toArray();
+        const byId = new Map(
+          updated.map((document) => [String(document._id), document]),
+        );
+
+        pending.forEach(({ index, entityId }, position) => {
+          const id = String(entityId);
+          const error = writeErrors.get(position);
+          const document = byId.get(id);
+          if (error) {
+            collector.fail(index, error, id);
+          } else if (!document) {
+            // Removed by someone else between the existence check and the write
+            collector.fail(index, notFoundItemError(id), id);
+          } else {
+            collector.succeed(index, id, document as MongoDocument<TEntity>);
+          }
+        });
+      }
+
+      const result = collector.build();
+      this.logger.info("Repository: Bulk update completed", {
+        succeeded: result.succeeded,
+        failed: result.failed,
+        skipped: result.skipped,
+      });
+      return result;
+    } catch (error) {
+      this.logger.error("Repository: Bulk update operation failed", { error });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database operation failed during bulk update.",
+        cause: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Removes many entities with a single write. Soft-deletes them when soft
+   * delete is enabled, like `remove`.
+   *
+   * @param {string[]} ids - Identifiers of the entities to remove
+   * @param {BulkRemoveOptions} [options] - Ordering, session and removal options
+   * @returns {Promise<BulkResult<never>>} Outcome of every id, by position
+   * @throws {ApplicationError} When the operation fails as a whole
+   */
+  public async bulkRemove(
+    ids: string[],
+    options: BulkRemoveOptions = {},
+  ): Promise<BulkResult<never>> {
+    const ordered = options.ordered ?? true;
+    this.logger.debug("Repository: Bulk removing entities", {
+      count: ids.length,
+      ordered,
+      softDelete: this.softDelete,
+    });
+
+    try {
+      const collector = new BulkResultCollector<never>(ids.length, ordered);
+      const targets = await this.resolveBulkTargets(
+        ids,
+        collector,
+        options.session,
+      );
+
+      const stop = collector.stopIndex();
+      const pending = targets.filter(({ index }) => index < stop);
+
+      if (pending.length > 0) {
+        const filter = this.scopeFilter({
+          _id: { $in: pending.map(({ entityId }) => entityId) },
+        });
+
+        if (this.softDelete) {
+          await this.collection.updateMany(
+            filter,
+            this.withWriteMetadata({
+              $set: {
+                deletedAt: new Date(),
+                deletedBy:
+                  options.deletedBy ?? getRequestContext()?.actor ?? null,
+              },
+            }),
+            { session: options.session },
+          );
+        } else {
+          await this.collection.deleteMany(filter, {
+            session: options.session,
+          });
+        }
+
+        for (const { index, entityId } of pending) {
+          collector.succeed(index, String(entityId));
+        }
+      }
+
+      const result = collector.build();
+      this.logger.info("Repository: Bulk remove completed", {
+        succeeded: result.succeeded,
+        failed: result.failed,
+        skipped: result.skipped,
+      });
+      return result;
+    } catch (error) {
+      this.logger.error("Repository: Bulk remove operation failed", { error });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database operation failed during bulk removal.",
+        cause: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Keyset (cursor) pagination variant of `find`. Pages are anchored on the
+   * sort key plus `_id` of a boundary document instead of an offset, so the
+   * result stays stable under concurrent inserts and no count is performed.
+   *
+   * @param {FindQuery<TEntity>} query - The query criteria for filtering entities.
+   * @param {PaginationOptions} options - Pagination options with optional `after`/`before` cursor.
+   * @param {ExpansionNode[]} [plan] - References to expand on the page.
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity>>>} A page of results with cursors.
+   * @throws {ValidationError} When the cursor is malformed or was issued for another sort.
+   * @throws {ApplicationError} When the query operation fails.
+   * @private
+   */
+  private async findWithCursor(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & Partial<ProjectionOptions>,
+    plan?: ExpansionNode[],
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>> {
+    const { limit = 20, sortBy = "createdAt", sortOrder = -1 } = options;
+
+    if (options.after && options.before) {
+      throw new ValidationError({
+        message: "Only one pagination cursor can be provided",
+        field: "cursor",
+        violations: ["Use either 'after' or 'before', not both"],
+      });
+    }
+
+    if (sortBy === "textScore") {
+      throw new ValidationError({
+        message: "Relevance sorting is not supported with cursor pagination",
+        field: "sortBy",
+        violations: ["Use skip/limit pagination to sort by textScore"],
+      });
+    }
+    const search = this.textSearch(options);
+
+    const token = options.after ?? options.before;
+    const cursor = token
+      ? decodeCursor(token, options.after ? "after" : "before")
+      : undefined;
+    if (
+      cursor &&
+      (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder)
+    ) {
+      throw new ValidationError({
+        message: "Pagination cursor does not match the requested sort",
+        field: "cursor",
+        violations: [
+          `Cursor was issued for sortBy=${cursor.sortBy} and sortOrder=${cursor.sortOrder}`,
+        ],
+      });
+    }
+
+    try {
+      const backwards = options.before !== undefined;
+      // Walking backwards reverses the sort, the page is flipped afterwards
+      const direction = (backwards ? -sortOrder : sortOrder) as 1 | -1;
+      const operator = direction === 1 ? "$gt" : "$lt";
+
+      const filters: Filter<Document>[] = [
+        this.scopeFilter(
+          { ...(query as Filter<Document>), ...search.filter },
+          options,
+        ) as Filter<Document>,
+      ];
+      if (cursor) {
+        filters.push(
+          sortBy === "_id"
+            ? { _id: { [operator]: cursor.id } }
+            : this.keysetFilter(sortBy, direction, cursor.value, cursor.id),
+        );
+      }
+
+      const sort: Record<string, 1 | -1> =
+        sortBy === "_id"
+          ? { _id: direction }
+          : { [sortBy]: direction, _id: direction };
+
+      // The sort key anchors the cursors, fetch it even if it was not selected
+      let projection = options.projection;
+      let hideSortKey = false;
+      if (projection && sortBy !== "_id") {
+        const including = Object.values(projection).includes(1);
+        if (including && projection[sortBy] !== 1) {
+          projection = { ...projection, [sortBy]: 1 };
+          hideSortKey = true;
+        } else if (!including && projection[sortBy] === 0) {
+          const { [sortBy]: _excluded, ...rest } = projection;
+          projection = rest;
+          hideSortKey = true;
+        }
+      }
+
+      // Fetch one extra document to know whether another page exists
+      const documents = (await this.collection
+        .find({ $and: filters } as Filter<MongoDocument<TEntity>>, {
+          sort,
+          limit: limit + 1,
+          projection: search.projection
+            ? { ...projection, ...search.projection }
+            : projection,
+          session: options.session,
+        })
+        .toArray()) as MongoDocument<TEntity>[];
+
+      const hasMore = documents.length > limit;
+      let data = documents.slice(0, limit);
+      if (backwards) {
+        data.reverse();
+      }
+
+      const hasNext = backwards ? cursor !== undefined : hasMore;
+      const hasPrevious = backwards ? hasMore : cursor !== undefined;
+
+      /**
+       * Builds a cursor token anchored on the given document.
+       * @param {MongoDocument<TEntity> | undefined} doc - Boundary document
+       * @param {CursorDirection} cursorDirection - Direction the token points to
+       * @returns {string | null} Cursor token, or null when there is no document
+       */
+      const cursorFor = (
+        doc: MongoDocument<TEntity> | undefined,
+        cursorDirection: CursorDirection,
+      ): string | null =>
+        doc
+          ? encodeCursor({
+              direction: cursorDirection,
+              sortBy,
+              sortOrder,
+              value: (doc as Document)[sortBy],
+              id: doc._id,
+            })
+          : null;
+
+      this.logger.debug("Repository: Cursor find operation successful", {
+        found: data.length,
+        hasNext,
+        hasPrevious,
+      });
+
+      const nextCursor = hasNext
+        ? cursorFor(data[data.length - 1], "after")
+        : null;
+      const prevCursor = hasPrevious ? cursorFor(data[0], "before") : null;
+      if (plan) {
+        data = await this.expand(data, plan, options.session);
+      }
+
+      return {
+        data: hideSortKey
+          ? data.map((doc) => {
+              const { [sortBy]: _sortKey, ...rest } = doc as Document;
+              return rest as MongoDocument<TEntity>;
+            })
+          : data,
+        skip: 0,
+        limit,
+        hasNext,
+        hasPrevious,
+        nextCursor,
+        prevCursor,
+      };
+    } catch (error) {
+      this.logger.error("Repository: Cursor find operation failed", { error });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database operation failed during entity search.",
+        cause: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Builds the filter selecting the documents past a cursor boundary in the
+   * given direction. MongoDB sorts null and missing values first in ascending
+   * order, so they come after every value when walking descending.
+   *
+   * @param {string} sortBy - Sort field
+   * @param {1 | -1} direction - Effective sort direction
+   * @param {unknown} value - Sort value of the boundary document, undefined when missing
+   * @param {EntityId} id - Identifier of the boundary document
+   * @returns {Filter<Document>} Keyset filter
+   * @private
+   */
+  private keysetFilter(
+    sortBy: string,
+    direction: 1 | -1,
+    value: unknown,
+    id: EntityId,
+  ): Filter<Document> {
+    const operator = direction === 1 ? "$gt" : "$lt";
+
+    if (value === undefined || value === null) {
+      return (
+        direction === 1
+          ? {
+              $or: [
+                { [sortBy]: { $ne: null } },
+                { [sortBy]: null, _id: { $gt: id } },
+              ],
+            }
+          : { [sortBy]: null, _id: { $lt: id } }
+      ) as Filter<Document>;
+    }
+    return {
+      $or: [
+        { [sortBy]: { [operator]: value } },
+        ...(direction === 1 ? [] : [{ [sortBy]: null }]),
+        { [sortBy]: value, _id: { [operator]: id } },
+      ],
+    } as Filter<Document>;
+  }
+
+  /**
+   * Adds the write metadata every update must carry: the `__v` increment and
+   * the `updatedAt`/`updatedBy` audit stamp taken from the request context.
+   *
+   * @param {Document} update - Update operators to apply
+   * @returns {UpdateFilter<MongoDocument<TEntity>>} Update including version and audit fields
+   * @private
+   */
+  private withWriteMetadata(
+    update: Document,
+  ): UpdateFilter<MongoDocument<TEntity>> {
+    return {
+      ...update,
+      $set: {
+        ...update["$set"],
+        updatedAt: new Date(),
+        updatedBy: getRequestContext()?.actor ?? null,
+      },
+      $inc: { ...update["$inc"], __v: 1 },
+    };
+  }
+
+  /**
+   * Translates the full-text search options of a find into the `$text` filter,
+   * the relevance sort and the score projection to merge into the query.
+   *
+   * @param {PaginationOptions} options - Find options
+   * @returns {{ filter: Document; sort?: Sort; projection?: Document }} Query parts, with an empty filter when not searching
+   * @throws {ValidationError} When search is disabled or relevance is requested without a search
+   * @private
+   */
+  private textSearch(options: PaginationOptions): {
+    filter: Document;
+    sort?: Sort;
+    projection?: Document;
+  } {
+    if (options.search === undefined) {
+      if (options.sortBy === "textScore" || options.includeScore) {
+        throw new ValidationError({
+          message: "Relevance is only available when searching",
+          field: "search",
+          violations: [
+            "sortBy=textScore and includeScore require search terms",
+          ],
+        });
+      }
+      return { filter: {} };
+    }
+
+    if (!this.textWeights) {
+      throw new ValidationError({
+        message: "Full-text search is not enabled for this resource",
+        field: "search",
+        violations: ["No text search fields are configured"],
+      });
+    }
+
+    const relevance = { $meta: "textScore" } as const;
+    return {
+      filter: { $text: { $search: options.search } },
+      sort:
+        options.sortBy === "textScore"
+          ? { _score: relevance, _id: 1 }
+          : undefined,
+      projection: options.includeScore ? { _score: relevance } : undefined,
+    };
+  }
+
+  /**
+   * Restricts a filter to live documents when soft delete is enabled.
+   *
+   * @param {Document} filter - Base filter
+   * @param {QueryOptions} [options] - Query options, `includeDeleted` disables the restriction
+   * @returns {Filter<MongoDocument<TEntity>>} Scoped filter
+   * @private
+   */
+  private scopeFilter(
+    filter: Document,
+    options?: QueryOptions,
+  ): Filter<MongoDocument<TEntity>> {
+    if (!this.softDelete || options?.includeDeleted) {
+      return filter as Filter<MongoDocument<TEntity>>;
+    }
+    return { $and: [filter, { deletedAt: null }] } as Filter<
+      MongoDocument<TEntity>
+    >;
+  }
+
+  /**
+   * Reconciles the indexes of the collection with the declared ones: unique
+   * fields, the text search index and the `indexes` option. Missing indexes
+   * are created, stale `idx_*` indexes are reported (or dropped when
+   * `dropStaleIndexes` is set) and conflicting definitions abort the startup.
+   *
+   * @throws {ApplicationError} When an index is invalid, conflicts with an existing one or cannot be created
+   * @private
+   */
+  private async syncIndexes(): Promise<void> {
+    const desired = this.declaredIndexes();
+    const existing = await this.collection.listIndexes().toArray();
+    const plan = planIndexes(desired, existing);
+
+    if (plan.conflicts.length > 0) {
+      for (const conflict of plan.conflicts) {
+        this.logger.error(
+          "Repository: Index definition conflicts with the database",
+          {
+            collection: this.collectionName,
+            ...conflict,
+          },
+        );
+      }
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: `Conflicting index definitions on ${this.collectionName}. Drop or rename the existing indexes to apply the new definitions.`,
+        metadata: {
+          collection: this.collectionName,
+          indexes: plan.conflicts.map((conflict) => conflict.name),
+        },
+      });
+    }
+
+    for (const name of plan.stale) {
+      if (this.dropStaleIndexes) {
+        await this.collection.dropIndex(name);
+        this.logger.info("Repository: Stale index dropped", {
+          collection: this.collectionName,
+          index: name,
+        });
+      } else {
+        this.logger.warn("Repository: Stale index is no longer declared", {
+          collection: this.collectionName,
+          index: name,
+        });
+      }
+    }
+
+    if (plan.missing.length === 0) {
+      return;
+    }
+
+    try {
+      await this.collection.createIndexes(plan.missing);
+      this.logger.info("Repository: Indexes created", {
+        collection: this.collectionName,
+        indexes: plan.missing.map((index) => index.name),
+      });
+    } catch (error) {
+      this.logger.error("Repository: Index creation failed", {
+        collection: this.collectionName,
+        error,
+      });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: `Could not create the indexes of ${this.collectionName}.`,
+        metadata: {
+          collection: this.collectionName,
+          indexes: plan.missing.map((index) => index.name),
+        },
+        cause: error as Error,
+      });
+    }
+  }
+
+  /**
+   * Lists every index the collection should have.
+   *
+   * @returns {IndexDescription[]} Unique, text search and declared indexes
+   * @throws {ApplicationError} When a declared index is invalid
+   * @private
+   */
+  private declaredIndexes(): IndexDescription[] {
+    // Soft-deleted documents must not block new values
+    const liveOnly = this.softDelete
+      ? { partialFilterExpression: { deletedAt: { $type: "null" } } }
+      : {};
+
+    const indexes: IndexDescription[] = this.uniqueConstraints.map(
+      (fields) => ({
+        key: Object.fromEntries(fields.map((field) => [field, 1])),
+        unique: true,
+        name: `idx_unique_${fields.join("_")}`,
+        ...liveOnly,
+      }),
+    );
+
+    // A collection can hold a single text index, it covers every search field
+    if (this.textWeights) {
+      indexes.push({
+        key: Object.fromEntries(
+          Object.keys(this.textWeights).map((field) => [field, "text"]),
+        ),
+        weights: this.textWeights,
+        name: "idx_text_search",
+      });
+    }
+
+    for (const definition of this.indexes) {
+      indexes.push(
+        toIndexDescription(
+          definition.unique && !definition.partialFilterExpression
+            ? { ...definition, ...liveOnly }
+            : definition,
+        ),
+      );
+    }
+
+    return indexes;
+  }
+
+  /**
+   * Looks for a unique constraint the data would violate. Every constraint is
+   * checked with a single query.
+   *
+   * @param {Partial<TEntity>} data - Data to validate
+   * @param {EntityId} [excludeId] - ID to exclude from uniqueness check (for updates)
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @returns {Promise<string[] | null>} Fields of the violated constraint, or null when valid
+   * @private
+   */
+  private async findUniqueViolation(
+    data: Partial<TEntity>,
+    excludeId?: EntityId,
+    session?: ClientSession,
+  ): Promise<string[] | null> {
+    if (this.uniqueConstraints.length === 0) {
+      return null;
+    }
+
+    try {
+      const conflicts = await this.findUniqueConflicts(
+        [{ data, excludeId }],
+        session,
+      );
+      return conflicts.get(0) ?? null;
     } catch (error) {
       this.logger.error("Error validating unique constraints", {
         error: error instanceof Error ? error.message : "Unknown error",
         data,
-        uniqueFields: this.uniqueFields,
+        uniqueFields: this.uniqueConstraints,
       });
       throw new ApplicationError({
         type: ErrorType.DATABASE_ERROR,
@@ -564,8 +1810,8 @@ export class MongoDbRepository<TEntity extends Document>
         statusCode: 500,
         metadata: {
           operation: "validateUniqueConstraints",
-          data,
-          uniqueFields: this.uniqueFields,
+          fields: Object.keys(data),
+          uniqueFields: this.uniqueConstraints,
         },
         cause: error instanceof Error ? error : new Error(String(error)),
       });
@@ -573,14 +1819,527 @@ export class MongoDbRepository<TEntity extends Document>
   }
 
   /**
-   * Extracts the field name from MongoDB duplicate key error message.
+   * Validates the requested expansions against the reference fields.
+   *
+   * @param {string[]} [expand] - Requested paths
+   * @returns {ExpansionNode[] | undefined} Expansion tree, undefined when nothing is expanded
+   * @throws {ValidationError} When a path cannot be expanded
+   * @private
+   */
+  private expansionPlan(expand?: string[]): ExpansionNode[] | undefined {
+    if (!expand || expand.length === 0) {
+      return undefined;
+    }
+    return planExpansion(expand, this.references, this.expansion);
+  }
+
+  /**
+   * Replaces the references of read documents with the referenced entities,
+   * using one `$lookup` aggregation for the whole page. Only the fields the
+   * documents contain (after projection) are expanded.
+   *
+   * @param {T[]} documents - Read documents
+   * @param {ExpansionNode[]} plan - Expansions to apply
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @returns {Promise<T[]>} Documents with their references expanded
+   * @private
+   */
+  private async expand<T extends Document>(
+    documents: T[],
+    plan: ExpansionNode[],
+    session?: ClientSession,
+  ): Promise<T[]> {
+    if (documents.length === 0) {
+      return documents;
+    }
+
+    const expanded = await this.collection
+      .aggregate(
+        [
+          { $match: { _id: { $in: documents.map(({ _id }) => _id) } } },
+          {
+            $project: Object.fromEntries(plan.map(({ field }) => [field, 1])),
+          },
+          ...expansionStages(plan, this.referenceScope),
+        ],
+        { session },
+      )
+      .toArray();
+    const byId = new Map(
+      expanded.map((document) => [String(document._id), document]),
+    );
+
+    return documents.map((document) => {
+      const values = byId.get(String(document._id));
+      if (!values) {
+        return document;
+      }
+      const result: Document = { ...document };
+      for (const { field } of plan) {
+        if (field in result) {
+          result[field] = values[field];
+        }
+      }
+      return result as T;
+    });
+  }
+
+  /**
+   * Fails a write whose references point to missing entities.
+   *
+   * @param {Document} data - Written fields
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @throws {ValidationError} When a referenced entity does not exist
+   * @private
+   */
+  private async assertReferences(
+    data: Document,
+    session?: ClientSession,
+  ): Promise<void> {
+    const violations = (await this.findMissingReferences([data], session)).get(
+      0,
+    );
+    if (violations) {
+      throw new ValidationError({
+        message: "Referenced entity not found",
+        field:
+          violations.length === 1 ? violations[0]!.split(":")[0] : undefined,
+        violations,
+        metadata: { collectionName: this.collectionName },
+      });
+    }
+  }
+
+  /**
+   * Checks the references set by a batch of writes, with one query per
+   * referenced collection. Soft-deleted entities and entities outside the
+   * reference scope count as missing.
+   *
+   * @param {Document[]} items - Written fields, by position
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @returns {Promise<Map<number, string[]>>} Violations of the failing items, by position
+   * @private
+   */
+  private async findMissingReferences(
+    items: Document[],
+    session?: ClientSession,
+  ): Promise<Map<number, string[]>> {
+    const missing = new Map<number, string[]>();
+    if (Object.keys(this.references).length === 0) {
+      return missing;
+    }
+
+    const found = new Map<string, Set<string>>();
+    const referenced = items.map((data) =>
+      referencedIds(data, this.references),
+    );
+    for (const collection of new Set(
+      referenced.flat().map(({ collection }) => collection),
+    )) {
+      const ids = referenced
+        .flat()
+        .filter((reference) => reference.collection === collection)
+        .map(({ id, ids: codec }) => codec.parse(id))
+        .filter((id) => id !== null);
+      const existing = await this.db
+        .collection(this.referenceScope.collection?.(collection) ?? collection)
+        .find(
+          {
+            _id: { $in: ids },
+            deletedAt: null,
+            ...this.referenceScope.filter?.(),
+          } as Filter<Document>,
+          { projection: { _id: 1 }, session },
+        )
+        .toArray();
+      found.set(collection, new Set(existing.map(({ _id }) => String(_id))));
+    }
+
+    referenced.forEach((references, index) => {
+      const violations = references
+        .filter(({ collection, id, ids: codec }) => {
+          // Found ids are in canonical form, e.g. lowercase ObjectId hex
+          const parsed = codec.parse(id);
+          return parsed === null || !found.get(collection)?.has(String(parsed));
+        })
+        .map(
+          ({ field, collection, id }) =>
+            `${field}: no ${collection} entity with id ${id}`,
+        );
+      if (violations.length > 0) {
+        missing.set(index, violations);
+      }
+    });
+    return missing;
+  }
+
+  /**
+   * Builds a new document with its identifier and initial metadata.
+   *
+   * @param {TEntity} data - Entity data
+   * @param {Date} now - Creation timestamp
+   * @param {string | null} actor - Actor creating the entity
+   * @returns {MongoDocument<TEntity>} Document ready to be inserted
+   * @private
+   */
+  private newDocument(
+    data: TEntity,
+    now: Date,
+    actor: string | null,
+  ): MongoDocument<TEntity> {
+    return {
+      _id: newEntityId(this.ids, data),
+      createdAt: now,
+      ...data,
+      updatedAt: now,
+      createdBy: actor,
+      updatedBy: actor,
+      __v: 0,
+      // Explicit nulls keep live documents inside the partial unique indexes
+      ...(this.softDelete && { deletedAt: null, deletedBy: null }),
+    };
+  }
+
+  /**
+   * Parses the ids of a bulk request and keeps the ones pointing to live
+   * entities. Malformed and unknown ids are recorded as failures.
+   *
+   * @param {string[]} ids - Identifiers from the bulk request, by position
+   * @param {BulkResultCollector<T>} collector - Collector receiving the failures
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @returns {Promise<Array<{ index: number; entityId: EntityId }>>} Existing entities, by position
+   * @private
+   */
+  private async resolveBulkTargets<T>(
+    ids: string[],
+    collector: BulkResultCollector<T>,
+    session?: ClientSession,
+  ): Promise<Array<{ index: number; entityId: EntityId }>> {
+    const parsed: Array<{ index: number; entityId: EntityId }> = [];
+    ids.forEach((id, index) => {
+      const entityId = this.ids.parse(id);
+      if (entityId === null) {
+        collector.fail(index, invalidIdItemError(), id);
+      } else {
+        parsed.push({ index, entityId });
+      }
+    });
+
+    const existing =
+      parsed.length > 0
+        ? await this.collection
+            .find(
+              this.scopeFilter({
+                _id: { $in: parsed.map(({ entityId }) => entityId) },
+              }),
+              { projection: { _id: 1 }, session },
+            )
+            .toArray()
+        : [];
+    const existingIds = new Set(
+      existing.map((document) => String(document._id)),
+    );
+
+    return parsed.filter(({ index, entityId }) => {
+      const id = String(entityId);
+      if (!existingIds.has(id)) {
+        collector.fail(index, notFoundItemError(id), id);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Checks the unique constraints of a whole batch with a single query. An
+   * entry conflicts when its values are held by another stored entity or by
+   * an earlier entry of the same batch. Only constraints touched by the data
+   * are checked; for updates the untouched fields of a tuple are read from
+   * the stored entity.
+   *
+   * @param {Array<{ data: Partial<TEntity>; excludeId?: EntityId }>} entries - Batch data, `excludeId` being the entity being updated
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @returns {Promise<Map<number, string[]>>} Fields of the violated constraint by entry position
+   * @private
+   */
+  private async findUniqueConflicts(
+    entries: Array<{ data: Partial<TEntity>; excludeId?: EntityId }>,
+    session?: ClientSession,
+  ): Promise<Map<number, string[]>> {
+    const conflicts = new Map<number, string[]>();
+    if (this.uniqueConstraints.length === 0) {
+      return conflicts;
+    }
+
+    const stored = await this.storedUniqueValues(entries, session);
+
+    // Unique keys each entry would hold, by constraint
+    const claims = entries.map(({ data, excludeId }) => {
+      const values = {
+        ...(excludeId && stored.get(String(excludeId))),
+        ...data,
+      } as Document;
+      const keys: Array<{ fields: string[]; key: string }> = [];
+      for (const fields of this.uniqueConstraints) {
+        const touched = fields.some(
+          (field) => (data as Document)[field] !== undefined,
+        );
+        const key = touched ? this.uniqueKey(fields, values) : undefined;
+        if (key !== undefined) {
+          keys.push({ fields, key });
+        }
+      }
+      return { values, keys };
+    });
+
+    const clauses: Filter<Document>[] = [];
+    for (const { values, keys } of claims) {
+      for (const { fields } of keys) {
+        clauses.push(
+          Object.fromEntries(fields.map((field) => [field, values[field]])),
+        );
+      }
+    }
+    if (clauses.length === 0) {
+      return conflicts;
+    }
+
+    const existing = await this.collection
+      .find(this.scopeFilter({ $or: clauses }), {
+        projection: this.uniqueProjection(),
+        session,
+      })
+      .toArray();
+
+    // Unique key -> id of the entity (or batch entry) holding it
+    const owners = new Map<string, string>();
+    for (const document of existing) {
+      for (const fields of this.uniqueConstraints) {
+        const key = this.uniqueKey(fields, document);
+        if (key !== undefined) {
+          owners.set(key, String(document._id));
+        }
+      }
+    }
+
+    claims.forEach(({ keys }, position) => {
+      const self = String(entries[position]!.excludeId ?? `batch:${position}`);
+
+      const conflict = keys.find(({ key }) => {
+        const owner = owners.get(key);
+        return owner !== undefined && owner !== self;
+      });
+      if (conflict) {
+        conflicts.set(position, conflict.fields);
+        return;
+      }
+
+      for (const { key } of keys) {
+        owners.set(key, self);
+      }
+    });
+
+    if (conflicts.size > 0) {
+      this.logger.warn("Unique constraint violations detected", {
+        conflicts: Object.fromEntries(conflicts),
+      });
+    }
+    return conflicts;
+  }
+
+  /**
+   * Reads the unique field values of the entities being updated whose data
+   * only covers part of a compound constraint.
+   *
+   * @param {Array<{ data: Partial<TEntity>; excludeId?: EntityId }>} entries - Batch data
+   * @param {ClientSession} [session] - Session of the surrounding transaction, if any
+   * @returns {Promise<Map<string, Document>>} Stored unique values by entity id
+   * @private
+   */
+  private async storedUniqueValues(
+    entries: Array<{ data: Partial<TEntity>; excludeId?: EntityId }>,
+    session?: ClientSession,
+  ): Promise<Map<string, Document>> {
+    const ids: EntityId[] = [];
+    for (const { data, excludeId } of entries) {
+      const partial = this.uniqueConstraints.some(
+        (fields) =>
+          fields.some((field) => (data as Document)[field] !== undefined) &&
+          fields.some((field) => (data as Document)[field] === undefined),
+      );
+      if (excludeId && partial) {
+        ids.push(excludeId);
+      }
+    }
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const documents = await this.collection
+      .find({ _id: { $in: ids } } as Filter<MongoDocument<TEntity>>, {
+        projection: this.uniqueProjection(),
+        session,
+      })
+      .toArray();
+
+    const stored = new Map<string, Document>();
+    for (const { _id, ...values } of documents) {
+      stored.set(String(_id), values);
+    }
+    return stored;
+  }
+
+  /**
+   * Builds the projection selecting every field of the unique constraints.
+   *
+   * @returns {Document} Projection document
+   * @private
+   */
+  private uniqueProjection(): Document {
+    return Object.fromEntries(
+      this.uniqueConstraints.flat().map((field) => [field, 1]),
+    );
+  }
+
+  /**
+   * Builds the lookup key of the values a document holds for a unique constraint.
+   *
+   * @param {string[]} fields - Fields of the constraint
+   * @param {Document} values - Document or data holding the values
+   * @returns {string | undefined} Key combining fields and values, undefined when a value is missing
+   * @private
+   */
+  private uniqueKey(fields: string[], values: Document): string | undefined {
+    const tuple = fields.map((field) => values[field]);
+    if (tuple.some((value) => value === undefined)) {
+      return undefined;
+    }
+    return `${fields.join("+")}:${JSON.stringify(tuple)}`;
+  }
+
+  /**
+   * Runs a bulk write and turns the per-item write errors of a
+   * `MongoBulkWriteError` into item errors: duplicate keys and documents
+   * failing the collection validator are reported as such. Other errors are
+   * rethrown.
+   *
+   * @param {() => Promise<unknown>} write - Bulk write to run
+   * @returns {Promise<Map<number, BulkItemError>>} Item errors by position in the write
+   * @private
+   */
+  private async collectWriteErrors(
+    write: () => Promise<unknown>,
+  ): Promise<Map<number, BulkItemError>> {
+    try {
+      await write();
+      return new Map();
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) {
+        throw error;
+      }
+
+      const writeErrors = Array.isArray(error.writeErrors)
+        ? error.writeErrors
+        : [error.writeErrors];
+
+      return new Map(
+        writeErrors.map((writeError): [number, BulkItemError] => [
+          writeError.index,
+          writeError.code === 11000
+            ? duplicateItemError(this.duplicateFields(writeError.errmsg ?? ""))
+            : writeError.code === 121
+              ? {
+                  type: ErrorType.VALIDATION_ERROR,
+                  message: documentValidationViolations(
+                    writeError.errInfo,
+                  ).join("; "),
+                }
+              : {
+                  type: ErrorType.DATABASE_ERROR,
+                  message: writeError.errmsg ?? "Write operation failed",
+                },
+        ]),
+      );
+    }
+  }
+
+  /**
+   * Builds the collection options carrying the `$jsonSchema` validator.
+   *
+   * @returns {Document | undefined} Validator options, undefined when schema validation is off
+   * @private
+   */
+  private validatorOptions(): Document | undefined {
+    if (!this.schemaValidation) {
+      return undefined;
+    }
+    return {
+      validator: {
+        $jsonSchema: toMongoJsonSchema(
+          this.schemaValidation.schema,
+          this.ids.bsonType,
+        ),
+      },
+      validationLevel: this.schemaValidation.validationLevel ?? "strict",
+      validationAction: this.schemaValidation.validationAction ?? "error",
+    };
+  }
+
+  /**
+   * Converts a document validation failure (code 121) into a ValidationError
+   * listing the failing paths.
+   *
+   * @param {MongoServerError} error - Server error
+   * @param {string} operation - Operation that wrote the document
+   * @returns {ValidationError} Validation error (400)
+   * @private
+   */
+  private documentValidationError(
+    error: MongoServerError,
+    operation: string,
+  ): ValidationError {
+    const violations = documentValidationViolations(error.errInfo);
+    this.logger.warn("Document failed collection validation", {
+      operation,
+      violations,
+      collectionName: this.collectionName,
+    });
+    return new ValidationError({
+      message: "Document failed collection validation",
+      violations: violations.length > 0 ? violations : [error.message],
+      metadata: { operation, collectionName: this.collectionName },
+    });
+  }
+
+  /**
+   * Resolves the fields of the unique index behind a MongoDB duplicate key
+   * error, from its key pattern or else from the index named in the message.
    *
    * @param {string} errorMessage - MongoDB error message
-   * @returns {string} Field name that caused the duplicate error
+   * @param {Document} [keyPattern] - Key pattern reported by the server
+   * @returns {string[]} Fields of the violated index
    * @private
    */
-  private extractDuplicateField(errorMessage: string): string {
-    const match = errorMessage.match(/index:\s+([^\s]+)/);
-    return match?.[1] ?? "unknown_field";
+  private duplicateFields(
+    errorMessage: string,
+    keyPattern?: Document,
+  ): string[] {
+    // A natural key is stored as `_id`
+    if (
+      this.ids.field &&
+      (keyPattern?.["_id"] !== undefined ||
+        /index:\s+_id_\s/.test(errorMessage))
+    ) {
+      return [this.ids.field];
+    }
+    if (keyPattern && Object.keys(keyPattern).length > 0) {
+      return Object.keys(keyPattern);
+    }
+
+    const indexName = errorMessage.match(/index:\s+([^\s]+)/)?.[1];
+    const index = this.declaredIndexes().find(
+      (declared) => declared.name === indexName,
+    );
+    return index ? Object.keys(index.key) : [indexName ?? "unknown_field"];
   }
 }
@@ -0,0 +1,215 @@
+import type { Document } from "mongodb";
+
+import { ValidationError } from "#root/config/errors.js";
+import {
+  describeEncryptedFields,
+  describeReferences,
+} from "../tools/schemabuilder/index.js";
+import type { ReferenceDefinition } from "../tools/schemabuilder/index.js";
+import type {
+  ExpansionNode,
+  ExpansionOptions,
+  IdCodec,
+  ReferenceScope,
+} from "./types.js";
+
+/**
+ * Reference value found in the data of a write.
+ */
+export type ReferencedId = {
+  field: string;
+  collection: string;
+  id: string;
+  // Ids of the referenced resource
+  ids: IdCodec;
+};
+
+/**
+ * Turns the requested `expand` paths into an expansion tree. `a.b` expands
+ * `a`, then the `b` reference of the entity referenced by `a`.
+ * References whose declared schema has encrypted fields cannot be expanded,
+ * as the lookup would return the stored ciphertexts.
+ *
+ * @param {string[]} paths - Requested paths
+ * @param {Record<string, ReferenceDefinition>} references - Reference fields of the resource
+ * @param {ExpansionOptions} [options] - Allowed paths and maximum depth
+ * @returns {ExpansionNode[]} Expansions of the top-level references
+ * @throws {ValidationError} When a path is not a reference, too deep, not allowed or reaches encrypted entities
+ */
+export function planExpansion(
+  paths: string[],
+  references: Record<string, ReferenceDefinition>,
+  options: ExpansionOptions = {},
+): ExpansionNode[] {
+  const maxDepth = options.maxDepth ?? 1;
+  const violations: string[] = [];
+  const roots: ExpansionNode[] = [];
+
+  for (const path of new Set(paths)) {
+    const segments = path.split(".");
+    if (segments.length > maxDepth) {
+      violations.push(`${path}: expansion depth is limited to ${maxDepth}`);
+      continue;
+    }
+    if (options.fields && !options.fields.includes(path)) {
+      violations.push(`${path}: expansion is not allowed`);
+      continue;
+    }
+
+    let level = roots;
+    let available = references;
+    for (const [position, field] of segments.entries()) {
+      const reference = available[field];
+      if (!reference) {
+        violations.push(
+          `${segments.slice(0, position + 1).join(".")}: not a reference field`,
+        );
+        break;
+      }
+      const target = reference.schema?.();
+      if (target && Object.keys(describeEncryptedFields(target)).length > 0) {
+        // The lookup would inline the stored ciphertexts
+        violations.push(
+          `${segments.slice(0, position + 1).join(".")}: the referenced entities have encrypted fields`,
+        );
+        break;
+      }
+      let node = level.find((candidate) => candidate.field === field);
+      if (!node) {
+        node = { field, reference, children: [] };
+        level.push(node);
+      }
+      level = node.children;
+      available = target ? describeReferences(target) : {};
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new ValidationError({
+      message: "Invalid expand parameter",
+      field: "expand",
+      violations,
+    });
+  }
+  return roots;
+}
+
+/**
+ * Builds the aggregation stages replacing each planned reference with the
+ * referenced entity. References to missing or soft-deleted entities keep
+ * their identifier; arrays keep their order. Identifiers are converted to
+ * ObjectIds only for targets storing ObjectIds. The scope selects the
+ * collections and entities visible to the lookups, at every level.
+ *
+ * @param {ExpansionNode[]} nodes - Expansions to apply
+ * @param {ReferenceScope} [scope] - Where referenced entities are looked up
+ * @returns {Document[]} `$lookup`, `$set` and `$unset` stages
+ */
+export function expansionStages(
+  nodes: ExpansionNode[],
+  scope: ReferenceScope = {},
+): Document[] {
+  return nodes.flatMap(({ field, reference, children }) => {
+    const joined = `__expanded_${field}`;
+    const storedId =
+      reference.ids.bsonType === "objectId" ? toObjectId : String;
+    const lookup: Document = {
+      $lookup: {
+        from: scope.collection?.(reference.collection) ?? reference.collection,
+        let: { ref: `$${field}` },
+        pipeline: [
+          {
+            $match: {
+              deletedAt: null,
+              ...scope.filter?.(),
+              $expr: reference.many
+                ? {
+                    $in: [
+                      "$_id",
+                      {
+                        $map: {
+                          input: { $ifNull: ["$$ref", []] },
+                          as: "id",
+                          in: storedId("$$id"),
+                        },
+                      },
+                    ],
+                  }
+                : { $eq: ["$_id", storedId("$$ref")] },
+            },
+          },
+          ...expansionStages(children, scope),
+        ],
+        as: joined,
+      },
+    };
+
+    /**
+     * Expression of the referenced entity for an identifier, or the
+     * identifier itself when the entity is missing.
+     *
+     * @param {string} id - Identifier expression
+     * @returns {Document} Entity expression
+     */
+    const entityOf = (id: string): Document => ({
+      $ifNull: [
+        {
+          $first: {
+            $filter: {
+              input: `$${joined}`,
+              cond: { $eq: [{ $toString: "$$this._id" }, id] },
+            },
+          },
+        },
+        id,
+      ],
+    });
+
+    return [
+      lookup,
+      {
+        $set: {
+          [field]: reference.many
+            ? { $map: { input: `$${field}`, as: "id", in: entityOf("$$id") } }
+            : entityOf(`$${field}`),
+        },
+      },
+      { $unset: joined },
+    ];
+  });
+}
+
+/**
+ * Lists the references set by the data of a write, for the existence check.
+ * Null and absent references are skipped.
+ *
+ * @param {Document} data - Written fields
+ * @param {Record<string, ReferenceDefinition>} references - Reference fields of the resource
+ * @returns {ReferencedId[]} Referenced identifiers
+ */
+export function referencedIds(
+  data: Document,
+  references: Record<string, ReferenceDefinition>,
+): ReferencedId[] {
+  return Object.entries(references).flatMap(
+    ([field, { collection, many, ids }]) => {
+      const value: unknown = data[field];
+      const values = many && Array.isArray(value) ? value : [value];
+      return values
+        .filter((id): id is string => typeof id === "string")
+        .map((id) => ({ field, collection, id, ids }));
+    },
+  );
+}
+
+/**
+ * Converts an identifier expression to an ObjectId, null when malformed.
+ *
+ * @param {string} id - Identifier expression
+ * @returns {Document} Conversion expression
+ */
+function toObjectId(id: string): Document {
+  return {
+    $convert: { input: id, to: "objectId", onError: null, onNull: null },
+  };
+}
@@ -0,0 +1,1277 @@
+import type { Document } from "mongodb";
+import type { ZodObject, ZodType } from "zod";
+
+import {
+  ApplicationError,
+  ConcurrencyError,
+  ErrorType,
+  ValidationError,
+} from "#root/config/errors.js";
+import type {
+  BulkItemError,
+  BulkOptions,
+  BulkRemoveOptions,
+  BulkResult,
+  BulkUpdateItem,
+  EntityId,
+  FindQuery,
+  IRepository,
+  Logger,
+  MongoDocument,
+  PaginatedResult,
+  PaginationOptions,
+  ProjectedDocument,
+  ProjectionOptions,
+  QueryOptions,
+  RemoveOptions,
+  ReplaceOptions,
+  ReplaceResult,
+  SessionOptions,
+  UpdateOptions,
+} from "#root/domain/index.js";
+import type {
+  IdCodec,
+  SqlColumnKind,
+  SqliteDatabase,
+  SqliteRepositoryOptions,
+  SqliteValue,
+} from "./types.js";
+import { getRequestContext } from "../context/index.js";
+import { testPattern } from "../tools/filtercompiler/index.js";
+import { decodeCursor, encodeCursor } from "./cursor.js";
+import {
+  BulkResultCollector,
+  duplicateItemError,
+  invalidIdItemError,
+  naturalKeyItemError,
+  notFoundItemError,
+} from "./bulk.js";
+import {
+  changesNaturalKey,
+  naturalKeyError,
+  newEntityId,
+  parseEntityId,
+  resolveIdStrategy,
+} from "./ids.js";
+import { applyProjection } from "./memoryquery.js";
+import {
+  columnDefinition,
+  compileWhere,
+  describeColumns,
+  fromSqlValue,
+  quoteIdentifier,
+  toSqlValue,
+} from "./sqlquery.js";
+import type { SqlFragment } from "./sqlquery.js";
+
+/**
+ * Audit columns, stored next to the schema fields.
+ */
+const METADATA_FIELDS = new Set([
+  "_id",
+  "createdAt",
+  "updatedAt",
+  "createdBy",
+  "updatedBy",
+  "__v",
+  "deletedAt",
+  "deletedBy",
+]);
+
+/**
+ * Message of the duplicate error raised by each write operation.
+ */
+const DUPLICATE_MESSAGES: Record<string, string> = {
+  create: "Duplicate value detected",
+  update: "Update would violate unique constraint",
+  replace: "Replace would violate unique constraint",
+  restore: "Restore would violate unique constraint",
+};
+
+/**
+ * @class SqliteRepository
+ * @description Repository storing a resource in an embedded SQLite table.
+ * The table layout is derived from the resource schema: one typed column per
+ * scalar field, JSON text for arrays and nested objects, plus the `_id` and
+ * audit columns. Unique fields are enforced by unique indexes and errors are
+ * raised with the same types as `MongoDbRepository`, so the service,
+ * controller and router work unchanged on top of it.
+ *
+ * The database handle is synchronous (`better-sqlite3` or `node:sqlite`).
+ * Sessions are accepted and ignored. Fields outside the schema are not stored.
+ * @template TEntity - The domain entity type
+ */
+export class SqliteRepository<
+  TEntity extends Document,
+> implements IRepository<TEntity> {
+  private readonly table: string;
+  private readonly columns: Map<string, SqlColumnKind>;
+  private readonly uniqueConstraints: string[][];
+  private readonly softDelete: boolean;
+  private readonly ids: IdCodec;
+
+  /**
+   * Creates the repository and brings the table up to date: the table is
+   * created when missing, new schema fields get a column and the unique
+   * indexes are created.
+   *
+   * @param {SqliteDatabase} database - Open SQLite database
+   * @param {string} tableName - Table holding the resource
+   * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+   * @param {Logger} logger - Logger instance
+   * @param {SqliteRepositoryOptions<TEntity>} [options] - Unique fields, soft delete and id strategy
+   * @throws {ApplicationError} When a unique field is not part of the schema (CONFIG_ERROR)
+   */
+  public constructor(
+    private readonly database: SqliteDatabase,
+    private readonly tableName: string,
+    schema: ZodObject<Record<string, ZodType>>,
+    private readonly logger: Logger,
+    options: SqliteRepositoryOptions<TEntity> = {},
+  ) {
+    this.table = quoteIdentifier(tableName);
+    this.columns = describeColumns(schema);
+    this.uniqueConstraints = (options.uniqueFields ?? [])
+      .map((constraint) =>
+        (Array.isArray(constraint) ? constraint : [constraint]).map(String),
+      )
+      .filter((fields) => fields.length > 0);
+    this.softDelete = options.softDelete ?? false;
+    this.ids = resolveIdStrategy(options.idStrategy);
+
+    this.initTable();
+  }
+
+  /**
+   * Creates a new entity.
+   *
+   * @param {TEntity} data - Entity data to create
+   * @param {SessionOptions} [_options] - Accepted for compatibility, sessions are ignored
+   * @returns {Promise<MongoDocument<TEntity> | null>} Created entity
+   * @throws {ApplicationError} When a unique constraint is violated (409) or the database fails (500)
+   */
+  public async create(
+    data: TEntity,
+    _options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    try {
+      const document = this.insert(
+        data,
+        new Date(),
+        getRequestContext()?.actor ?? null,
+      );
+      this.logger.debug("Entity created successfully", {
+        entityId: document._id,
+      });
+      return document;
+    } catch (error) {
+      throw this.translateError(error, "create");
+    }
+  }
+
+  /**
+   * Reads an entity by ID.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions} [options] - Optional read options, including a projection
+   * @returns {Promise<MongoDocument<TEntity> | null>} Found entity or null
+   * @throws {ValidationError} When the id is malformed
+   */
+  public async read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Read options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    const entityId = this.parseId(id);
+    this.rejectExpand(options);
+    try {
+      const [document] = this.select(
+        this.where({ _id: entityId }, options),
+        "LIMIT 1",
+      );
+      return document ? this.project(document, options) : null;
+    } catch (error) {
+      throw this.translateError(error, "read", { entityId: id });
+    }
+  }
+
+  /**
+   * Updates an entity with partial data, bumping its version.
+   *
+   * @param {string} id - Entity identifier
+   * @param {Partial<TEntity>} data - Fields to update
+   * @param {UpdateOptions} [options] - Optional expected version
+   * @returns {Promise<MongoDocument<TEntity> | null>} Updated entity or null if not found
+   * @throws {ValidationError} When the id is malformed
+   * @throws {ConcurrencyError} When the expected version is no longer current
+   * @throws {ApplicationError} When a unique constraint is violated (409) or the database fails (500)
+   */
+  public async update(
+    id: string,
+    data: Partial<TEntity>,
+    options?: UpdateOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    const entityId = this.parseId(id);
+    if (changesNaturalKey(this.ids, entityId, data)) {
+      throw naturalKeyError(this.ids);
+    }
+    const expectedVersion = options?.expectedVersion;
+
+    try {
+      const updated = this.write(
+        this.where({
+          _id: entityId,
+          ...(expectedVersion !== undefined && { __v: expectedVersion }),
+        }),
+        this.fieldValues(data),
+      );
+
+      if (!updated && expectedVersion !== undefined) {
+        const [current] = this.select(this.where({ _id: entityId }), "LIMIT 1");
+        if (current) {
+          throw new ConcurrencyError({
+            message: "Entity was modified by another request",
+            expectedVersion,
+            currentVersion: current.__v ?? 0,
+            metadata: { entityId: id, operation: "update" },
+          });
+        }
+      }
+
+      if (updated) {
+        this.logger.debug("Entity updated successfully", {
+          entityId,
+          updatedFields: Object.keys(data),
+        });
+      }
+      return updated;
+    } catch (error) {
+      throw this.translateError(error, "update", { entityId: id });
+    }
+  }
+
+  /**
+   * Replaces an entity with complete data, keeping `_id`, `createdAt` and
+   * `createdBy`: schema fields missing from the data are cleared. With
+   * `upsert` a missing entity is created with the given ID.
+   *
+   * @param {string} id - Entity identifier
+   * @param {TEntity} data - Complete entity data
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag
+   * @returns {Promise<ReplaceResult<TEntity> | null>} Stored entity and whether it was created, null if not found
+   * @throws {ValidationError} When the id is malformed
+   * @throws {ConcurrencyError} When the expected version is no longer current
+   * @throws {ApplicationError} When a unique constraint is violated or the ID belongs to a deleted entity (409)
+   */
+  public async replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity> | null> {
+    const entityId = this.parseId(id);
+    if (changesNaturalKey(this.ids, entityId, data)) {
+      throw naturalKeyError(this.ids);
+    }
+    const expectedVersion = options?.expectedVersion;
+
+    try {
+      const replaced = this.write(
+        this.where({
+          _id: entityId,
+          ...(expectedVersion !== undefined && { __v: expectedVersion }),
+        }),
+        this.replacementValues(data),
+      );
+      if (replaced) {
+        this.logger.debug("Entity replaced successfully", { entityId });
+        return { document: replaced, created: false };
+      }
+
+      const [stored] = this.select(
+        this.where({ _id: entityId }, { includeDeleted: true }),
+        "LIMIT 1",
+      );
+      if (stored && !stored.deletedAt && expectedVersion !== undefined) {
+        throw new ConcurrencyError({
+          message: "Entity was modified by another request",
+          expectedVersion,
+          currentVersion: stored.__v ?? 0,
+          metadata: { entityId: id, operation: "replace" },
+        });
+      }
+      if (!options?.upsert || expectedVersion !== undefined) {
+        return null;
+      }
+      if (stored) {
+        throw new ApplicationError({
+          type: ErrorType.DUPLICATE_ERROR,
+          message: "Entity is deleted, restore it before replacing it",
+          statusCode: 409,
+          metadata: { entityId: id, operation: "replace" },
+        });
+      }
+
+      const document = this.insert(
+        data,
+        new Date(),
+        getRequestContext()?.actor ?? null,
+        entityId,
+      );
+      this.logger.debug("Entity created by replace", { entityId });
+      return { document, created: true };
+    } catch (error) {
+      throw this.translateError(error, "replace", { entityId: id });
+    }
+  }
+
+  /**
+   * Removes an entity, or marks it as deleted when soft delete is enabled.
+   *
+   * @param {string} id - Entity identifier
+   * @param {RemoveOptions} [options] - Optional removal metadata
+   * @returns {Promise<boolean>} True if the entity was deleted, false if not found
+   * @throws {ValidationError} When the id is malformed
+   */
+  public async remove(id: string, options?: RemoveOptions): Promise<boolean> {
+    if (!this.softDelete) {
+      return this.purge(id);
+    }
+
+    const entityId = this.parseId(id);
+    try {
+      const deleted = this.write(this.where({ _id: entityId }), {
+        deletedAt: toSqlValue("date", new Date()),
+        deletedBy: options?.deletedBy ?? getRequestContext()?.actor ?? null,
+      });
+      if (!deleted) {
+        this.logger.warn("Repository: Entity to remove was not found", { id });
+        return false;
+      }
+      this.logger.info("Repository: Entity soft deleted successfully", { id });
+      return true;
+    } catch (error) {
+      throw this.translateError(error, "removal", { entityId: id });
+    }
+  }
+
+  /**
+   * Restores a soft-deleted entity.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [_options] - Accepted for compatibility, sessions are ignored
+   * @returns {Promise<MongoDocument<TEntity> | null>} Restored entity or null if no deleted entity was found
+   * @throws {ValidationError} When the id is malformed
+   * @throws {ApplicationError} When a live entity took over a unique value (409)
+   */
+  public async restore(
+    id: string,
+    _options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    const entityId = this.parseId(id);
+    try {
+      const restored = this.write(
+        this.where(
+          { _id: entityId, deletedAt: { $ne: null } },
+          { includeDeleted: true },
+        ),
+        { deletedAt: null, deletedBy: null },
+      );
+      if (restored) {
+        this.logger.info("Repository: Entity restored successfully", { id });
+      }
+      return restored;
+    } catch (error) {
+      throw this.translateError(error, "restore", { entityId: id });
+    }
+  }
+
+  /**
+   * Permanently removes an entity, whether it is soft-deleted or not.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [_options] - Accepted for compatibility, sessions are ignored
+   * @returns {Promise<boolean>} True if the entity was deleted, false if not found
+   * @throws {ValidationError} When the id is malformed
+   */
+  public async purge(id: string, _options?: SessionOptions): Promise<boolean> {
+    const entityId = this.parseId(id);
+    try {
+      const { changes } = this.database
+        .prepare(`DELETE FROM ${this.table} WHERE "_id" = ?`)
+        .run(toSqlValue("id", entityId));
+      const wasDeleted = Number(changes) > 0;
+      if (wasDeleted) {
+        this.logger.info("Repository: Entity removed successfully", { id });
+      } else {
+        this.logger.warn("Repository: Entity to remove was not found", { id });
+      }
+      return wasDeleted;
+    } catch (error) {
+      throw this.translateError(error, "removal", { entityId: id });
+    }
+  }
+
+  /**
+   * Finds entities matching a query, with skip/limit or cursor pagination.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions} [options] - Pagination and sorting options, including a projection
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity>>>} A page of results
+   * @throws {ValidationError} When the sort field, the cursor or the search options are invalid
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions,
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & Partial<ProjectionOptions>} [options] - Pagination options
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity> | ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & Partial<ProjectionOptions> = {},
+  ): Promise<
+    | PaginatedResult<MongoDocument<TEntity>>
+    | PaginatedResult<ProjectedDocument<TEntity>>
+  > {
+    this.rejectSearch(options);
+    this.rejectExpand(options);
+    const sortBy = this.sortColumn(options.sortBy);
+
+    if (options.useCursor || options.after || options.before) {
+      return this.findWithCursor(query, options, sortBy);
+    }
+
+    const { skip = 0, limit = 20, sortOrder = -1 } = options;
+    const where = this.where(query as Document, options);
+
+    try {
+      const total = this.countWhere(where);
+      const data = this.select(
+        where,
+        `${this.orderBy(sortBy, sortOrder)} LIMIT ? OFFSET ?`,
+        [limit, skip],
+      ).map((document) => this.project(document, options));
+
+      return {
+        data: data as MongoDocument<TEntity>[],
+        total,
+        skip,
+        limit,
+        hasNext: skip + limit < total,
+        hasPrevious: skip > 0,
+      };
+    } catch (error) {
+      throw this.translateError(error, "search");
+    }
+  }
+
+  /**
+   * Finds the first entity matching a query, in insertion order.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions} [options] - Optional query options, including a projection
+   * @returns {Promise<MongoDocument<TEntity> | null>} First matching entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Query options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    this.rejectExpand(options);
+    try {
+      const [document] = this.select(
+        this.where(query as Document, options),
+        "ORDER BY rowid LIMIT 1",
+      );
+      return document ? this.project(document, options) : null;
+    } catch (error) {
+      throw this.translateError(error, "search");
+    }
+  }
+
+  /**
+   * Counts the entities matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions} [options] - Optional query options
+   * @returns {Promise<number>} Number of matching entities
+   */
+  public async count(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<number> {
+    try {
+      return this.countWhere(this.where(query as Document, options));
+    } catch (error) {
+      throw this.translateError(error, "count");
+    }
+  }
+
+  /**
+   * Creates many entities. In ordered mode the first failure stops the batch.
+   *
+   * @param {TEntity[]} items - Entities to create
+   * @param {BulkOptions} [options] - Ordering options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   */
+  public async bulkCreate(
+    items: TEntity[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    const ordered = options.ordered ?? true;
+    const collector = new BulkResultCollector<MongoDocument<TEntity>>(
+      items.length,
+      ordered,
+    );
+    const now = new Date();
+    const actor = getRequestContext()?.actor ?? null;
+
+    for (const [index, data] of items.entries()) {
+      try {
+        const document = this.insert(data, now, actor);
+        collector.succeed(index, String(document._id), document);
+      } catch (error) {
+        collector.fail(index, this.bulkItemError(error, "create"));
+        if (ordered) break;
+      }
+    }
+
+    return collector.build();
+  }
+
+  /**
+   * Updates many entities. In ordered mode the first failure stops the batch.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Entity ids with their update data
+   * @param {BulkOptions} [options] - Ordering options
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item, by position
+   */
+  public async bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    const ordered = options.ordered ?? true;
+    const collector = new BulkResultCollector<MongoDocument<TEntity>>(
+      items.length,
+      ordered,
+    );
+
+    for (const [index, { id, data }] of items.entries()) {
+      try {
+        const entityId = this.ids.parse(id);
+        if (entityId !== null && changesNaturalKey(this.ids, entityId, data)) {
+          collector.fail(index, naturalKeyItemError(this.ids.field!), id);
+          if (ordered) break;
+          continue;
+        }
+        const updated =
+          entityId === null
+            ? undefined
+            : this.write(this.where({ _id: entityId }), this.fieldValues(data));
+        if (updated) {
+          collector.succeed(index, id, updated);
+          continue;
+        }
+        collector.fail(
+          index,
+          updated === undefined ? invalidIdItemError() : notFoundItemError(id),
+          id,
+        );
+      } catch (error) {
+        collector.fail(index, this.bulkItemError(error, "update"), id);
+      }
+      if (ordered) break;
+    }
+
+    return collector.build();
+  }
+
+  /**
+   * Removes many entities, honouring soft delete like `remove`. In ordered
+   * mode the first unknown id stops the batch.
+   *
+   * @param {string[]} ids - Identifiers of the entities to remove
+   * @param {BulkRemoveOptions} [options] - Ordering and removal options
+   * @returns {Promise<BulkResult<never>>} Outcome of every id, by position
+   */
+  public async bulkRemove(
+    ids: string[],
+    options: BulkRemoveOptions = {},
+  ): Promise<BulkResult<never>> {
+    const ordered = options.ordered ?? true;
+    const collector = new BulkResultCollector<never>(ids.length, ordered);
+    const deletedAt = toSqlValue("date", new Date());
+    const deletedBy = options.deletedBy ?? getRequestContext()?.actor ?? null;
+
+    for (const [index, id] of ids.entries()) {
+      const entityId = this.ids.parse(id);
+      if (entityId === null) {
+        collector.fail(index, invalidIdItemError(), id);
+        if (ordered) break;
+        continue;
+      }
+
+      const where = this.where({ _id: entityId });
+      try {
+        const removed = this.softDelete
+          ? this.write(where, { deletedAt, deletedBy }) !== null
+          : Number(
+              this.database
+                .prepare(`DELETE FROM ${this.table} WHERE ${where.sql}`)
+                .run(...where.params).changes,
+            ) > 0;
+        if (removed) {
+          collector.succeed(index, id);
+          continue;
+        }
+        collector.fail(index, notFoundItemError(id), id);
+      } catch (error) {
+        collector.fail(index, this.bulkItemError(error, "removal"), id);
+      }
+      if (ordered) break;
+    }
+
+    return collector.build();
+  }
+
+  /**
+   * Keyset (cursor) pagination variant of `find`, with the same cursor
+   * tokens as `MongoDbRepository`.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions} options - Pagination options with optional `after`/`before` cursor
+   * @param {string} sortBy - Validated sort column
+   * @returns {PaginatedResult<MongoDocument<TEntity>>} A page of results with cursors
+   * @throws {ValidationError} When the cursor is malformed or was issued for another sort
+   * @private
+   */
+  private findWithCursor(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & Partial<ProjectionOptions>,
+    sortBy: string,
+  ): PaginatedResult<MongoDocument<TEntity>> {
+    const { limit = 20, sortOrder = -1 } = options;
+
+    if (options.after && options.before) {
+      throw new ValidationError({
+        message: "Only one pagination cursor can be provided",
+        field: "cursor",
+        violations: ["Use either 'after' or 'before', not both"],
+      });
+    }
+
+    const token = options.after ?? options.before;
+    const cursor = token
+      ? decodeCursor(token, options.after ? "after" : "before")
+      : undefined;
+    if (
+      cursor &&
+      (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder)
+    ) {
+      throw new ValidationError({
+        message: "Pagination cursor does not match the requested sort",
+        field: "cursor",
+        violations: [
+          `Cursor was issued for sortBy=${cursor.sortBy} and sortOrder=${cursor.sortOrder}`,
+        ],
+      });
+    }
+
+    const backwards = options.before !== undefined;
+    // Walking backwards reverses the sort, the page is flipped afterwards
+    const direction = (backwards ? -sortOrder : sortOrder) as 1 | -1;
+    const where = this.where(query as Document, options);
+    if (cursor) {
+      const keyset = this.keysetCondition(
+        sortBy,
+        direction,
+        cursor.value,
+        cursor.id,
+      );
+      where.sql = `(${where.sql}) AND ${keyset.sql}`;
+      where.params.push(...keyset.params);
+    }
+
+    let page: MongoDocument<TEntity>[];
+    try {
+      page = this.select(where, `${this.orderBy(sortBy, direction)} LIMIT ?`, [
+        limit + 1,
+      ]);
+    } catch (error) {
+      throw this.translateError(error, "search");
+    }
+
+    const hasMore = page.length > limit;
+    const data = page.slice(0, limit);
+    if (backwards) {
+      data.reverse();
+    }
+
+    const hasNext = backwards ? cursor !== undefined : hasMore;
+    const hasPrevious = backwards ? hasMore : cursor !== undefined;
+    const first = data[0];
+    const last = data[data.length - 1];
+
+    return {
+      data: data.map(
+        (document) => this.project(document, options) as MongoDocument<TEntity>,
+      ),
+      skip: 0,
+      limit,
+      hasNext,
+      hasPrevious,
+      nextCursor:
+        hasNext && last
+          ? encodeCursor({
+              direction: "after",
+              sortBy,
+              sortOrder,
+              value: (last as Document)[sortBy] ?? null,
+              id: last._id,
+            })
+          : null,
+      prevCursor:
+        hasPrevious && first
+          ? encodeCursor({
+              direction: "before",
+              sortBy,
+              sortOrder,
+              value: (first as Document)[sortBy] ?? null,
+              id: first._id,
+            })
+          : null,
+    };
+  }
+
+  /**
+   * Builds the condition selecting the rows after a cursor position. SQLite
+   * sorts `NULL` first in ascending order, like MongoDB sorts missing values.
+   *
+   * @param {string} sortBy - Sort column
+   * @param {1 | -1} direction - Effective sort direction
+   * @param {unknown} value - Sort value of the boundary document
+   * @param {EntityId} id - Identifier of the boundary document
+   * @returns {SqlFragment} Keyset condition
+   * @private
+   */
+  private keysetCondition(
+    sortBy: string,
+    direction: 1 | -1,
+    value: unknown,
+    id: EntityId,
+  ): SqlFragment {
+    const column = quoteIdentifier(sortBy);
+    const boundary = toSqlValue(this.columns.get(sortBy)!, value);
+    const entityId = toSqlValue("id", id);
+
+    if (boundary === null) {
+      return direction === 1
+        ? { sql: `(${column} IS NOT NULL OR "_id" > ?)`, params: [entityId] }
+        : { sql: `(${column} IS NULL AND "_id" < ?)`, params: [entityId] };
+    }
+    return direction === 1
+      ? {
+          sql: `(${column} > ? OR (${column} = ? AND "_id" > ?))`,
+          params: [boundary, boundary, entityId],
+        }
+      : {
+          sql: `(${column} < ? OR ${column} IS NULL OR (${column} = ? AND "_id" < ?))`,
+          params: [boundary, boundary, entityId],
+        };
+  }
+
+  /**
+   * Creates the table, adds the columns of new schema fields, creates the
+   * unique indexes and registers the `regexp` function used by `$regex`.
+   *
+   * @throws {ApplicationError} When a unique field is not part of the schema (CONFIG_ERROR)
+   * @private
+   */
+  private initTable(): void {
+    const unknownFields = this.uniqueConstraints
+      .flat()
+      .filter((field) => !this.columns.has(field));
+    if (unknownFields.length > 0) {
+      throw new ApplicationError({
+        type: ErrorType.CONFIG_ERROR,
+        message: `Unique fields are not part of the schema: ${unknownFields.join(", ")}`,
+        metadata: { table: this.tableName, fields: unknownFields },
+      });
+    }
+
+    const existing = new Set(
+      (
+        this.database
+          .prepare(`PRAGMA table_info(${this.table})`)
+          .all() as Array<{ name: string }>
+      ).map((column) => column.name),
+    );
+    const definitions = [...this.columns].map(([name, kind]) =>
+      columnDefinition(name, kind),
+    );
+
+    if (existing.size === 0) {
+      this.database.exec(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (${definitions.join(", ")})`,
+      );
+    } else {
+      for (const [name, kind] of this.columns) {
+        if (!existing.has(name)) {
+          this.database.exec(
+            `ALTER TABLE ${this.table} ADD COLUMN ${columnDefinition(name, kind)}`,
+          );
+          this.logger.info("Repository: Column added", {
+            table: this.tableName,
+            column: name,
+          });
+        }
+      }
+    }
+
+    for (const fields of this.uniqueConstraints) {
+      // Soft-deleted rows release their unique values
+      this.database.exec(
+        `CREATE UNIQUE INDEX IF NOT EXISTS ${quoteIdentifier(
+          `idx_unique_${this.tableName}_${fields.join("_")}`,
+        )} ON ${this.table} (${fields.map(quoteIdentifier).join(", ")})${
+          this.softDelete ? ` WHERE "deletedAt" IS NULL` : ""
+        }`,
+      );
+    }
+
+    this.database.function("regexp", (pattern: string, value: unknown) =>
+      typeof value === "string" && testPattern(new RegExp(pattern), value)
+        ? 1
+        : 0,
+    );
+  }
+
+  /**
+   * Inserts a new row with its identifier and initial metadata.
+   *
+   * @param {TEntity} data - Entity data
+   * @param {Date} now - Creation timestamp
+   * @param {string | null} actor - Actor creating the entity
+   * @param {EntityId} [id] - Identifier, generated from the strategy when omitted
+   * @returns {MongoDocument<TEntity>} Stored document
+   * @private
+   */
+  private insert(
+    data: TEntity,
+    now: Date,
+    actor: string | null,
+    id: EntityId = newEntityId(this.ids, data),
+  ): MongoDocument<TEntity> {
+    const values: Record<string, SqliteValue> = {
+      _id: toSqlValue("id", id),
+      createdAt: toSqlValue("date", now),
+      updatedAt: toSqlValue("date", now),
+      createdBy: actor,
+      updatedBy: actor,
+      __v: 0,
+      ...this.fieldValues(data),
+    };
+    const names = Object.keys(values);
+
+    const row = this.database
+      .prepare(
+        `INSERT INTO ${this.table} (${names.map(quoteIdentifier).join(", ")}) ` +
+          `VALUES (${names.map(() => "?").join(", ")}) RETURNING *`,
+      )
+      .get(...Object.values(values));
+    return this.toDocument(row as Record<string, unknown>);
+  }
+
+  /**
+   * Updates the row matching a condition with the write metadata every
+   * update carries: the `__v` increment and the `updatedAt`/`updatedBy` stamp.
+   *
+   * @param {SqlFragment} where - Row condition
+   * @param {Record<string, SqliteValue>} changes - Column values to set
+   * @returns {MongoDocument<TEntity> | null} Updated document, null when no row matched
+   * @private
+   */
+  private write(
+    where: SqlFragment,
+    changes: Record<string, SqliteValue>,
+  ): MongoDocument<TEntity> | null {
+    const values: Record<string, SqliteValue> = {
+      ...changes,
+      updatedAt: toSqlValue("date", new Date()),
+      updatedBy: getRequestContext()?.actor ?? null,
+    };
+    const assignments = Object.keys(values)
+      .map((name) => `${quoteIdentifier(name)} = ?`)
+      .concat(`"__v" = "__v" + 1`);
+
+    const row = this.database
+      .prepare(
+        `UPDATE ${this.table} SET ${assignments.join(", ")} WHERE ${where.sql} RETURNING *`,
+      )
+      .get(...Object.values(values), ...where.params);
+    return row ? this.toDocument(row as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Selects the documents matching a condition.
+   *
+   * @param {SqlFragment} where - Row condition
+   * @param {string} [suffix] - Trailing clauses such as `ORDER BY` and `LIMIT`
+   * @param {SqliteValue[]} [suffixParams] - Parameters of the trailing clauses
+   * @returns {MongoDocument<TEntity>[]} Matching documents
+   * @private
+   */
+  private select(
+    where: SqlFragment,
+    suffix = "",
+    suffixParams: SqliteValue[] = [],
+  ): MongoDocument<TEntity>[] {
+    return this.database
+      .prepare(`SELECT * FROM ${this.table} WHERE ${where.sql} ${suffix}`)
+      .all(...where.params, ...suffixParams)
+      .map((row) => this.toDocument(row as Record<string, unknown>));
+  }
+
+  /**
+   * Counts the rows matching a condition.
+   *
+   * @param {SqlFragment} where - Row condition
+   * @returns {number} Number of rows
+   * @private
+   */
+  private countWhere(where: SqlFragment): number {
+    const row = this.database
+      .prepare(`SELECT COUNT(*) AS total FROM ${this.table} WHERE ${where.sql}`)
+      .get(...where.params) as { total: number | bigint };
+    return Number(row.total);
+  }
+
+  /**
+   * Compiles a filter and adds the soft delete condition.
+   *
+   * @param {Document} filter - Find filter
+   * @param {QueryOptions} [options] - Query options
+   * @returns {SqlFragment} Row condition
+   * @private
+   */
+  private where(filter: Document, options?: QueryOptions): SqlFragment {
+    const condition = compileWhere(filter, this.columns);
+    if (this.softDelete && !options?.includeDeleted) {
+      condition.sql = `(${condition.sql}) AND "deletedAt" IS NULL`;
+    }
+    return condition;
+  }
+
+  /**
+   * Builds the `ORDER BY` clause, ties broken by `_id` in the same direction.
+   *
+   * @param {string} sortBy - Validated sort column
+   * @param {1 | -1} sortOrder - Sort direction
+   * @returns {string} ORDER BY clause
+   * @private
+   */
+  private orderBy(sortBy: string, sortOrder: 1 | -1): string {
+    const direction = sortOrder === 1 ? "ASC" : "DESC";
+    return `ORDER BY ${quoteIdentifier(sortBy)} ${direction}, "_id" ${direction}`;
+  }
+
+  /**
+   * Checks the sort field against the table columns.
+   *
+   * @param {string} [sortBy] - Requested sort field
+   * @returns {string} Sort column
+   * @throws {ValidationError} When the field is not a column
+   * @private
+   */
+  private sortColumn(sortBy = "createdAt"): string {
+    if (!this.columns.has(sortBy)) {
+      throw new ValidationError({
+        message: "Invalid sort field",
+        field: "sortBy",
+        violations: [`Cannot sort by ${sortBy}`],
+      });
+    }
+    return sortBy;
+  }
+
+  /**
+   * Rejects full-text search options, which this repository does not support.
+   *
+   * @param {PaginationOptions} options - Find options
+   * @throws {ValidationError} When search or relevance is requested
+   * @private
+   */
+  private rejectSearch(options: PaginationOptions): void {
+    if (
+      options.search !== undefined ||
+      options.sortBy === "textScore" ||
+      options.includeScore
+    ) {
+      throw new ValidationError({
+        message: "Full-text search is not enabled for this resource",
+        field: "search",
+        violations: ["No text search fields are configured"],
+      });
+    }
+  }
+
+  /**
+   * Rejects reference expansion, which this repository does not support.
+   *
+   * @param {QueryOptions} [options] - Read options
+   * @throws {ValidationError} When an expansion is requested
+   * @private
+   */
+  private rejectExpand(options?: QueryOptions): void {
+    if (options?.expand && options.expand.length > 0) {
+      throw new ValidationError({
+        message: "Reference expansion is not supported by this repository",
+        field: "expand",
+        violations: ["Expansion requires the MongoDB repository"],
+      });
+    }
+  }
+
+  /**
+   * Converts the schema fields of an entity into column values. Fields that
+   * are not part of the schema are dropped.
+   *
+   * @param {Partial<TEntity>} data - Entity data
+   * @returns {Record<string, SqliteValue>} Column values
+   * @private
+   */
+  private fieldValues(data: Partial<TEntity>): Record<string, SqliteValue> {
+    const values: Record<string, SqliteValue> = {};
+    for (const [name, value] of Object.entries(data)) {
+      const kind = this.columns.get(name);
+      if (kind && !METADATA_FIELDS.has(name) && value !== undefined) {
+        values[name] = toSqlValue(kind, value);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Converts complete entity data into column values for a replace: schema
+   * fields missing from the data are set to `NULL`.
+   *
+   * @param {TEntity} data - Complete entity data
+   * @returns {Record<string, SqliteValue>} Values of every schema column
+   * @private
+   */
+  private replacementValues(data: TEntity): Record<string, SqliteValue> {
+    const values = this.fieldValues(data);
+    for (const name of this.columns.keys()) {
+      if (!METADATA_FIELDS.has(name) && !(name in values)) {
+        values[name] = null;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Converts a row into a document shaped like the MongoDB ones. `NULL`
+   * schema fields are left out, as if they were never set.
+   *
+   * @param {Record<string, unknown>} row - Table row
+   * @returns {MongoDocument<TEntity>} Document
+   * @private
+   */
+  private toDocument(row: Record<string, unknown>): MongoDocument<TEntity> {
+    const document: Document = {
+      _id:
+        this.ids.bsonType === "objectId"
+          ? fromSqlValue("id", row["_id"])
+          : String(row["_id"]),
+      createdAt: fromSqlValue("date", row["createdAt"]),
+    };
+    for (const [name, kind] of this.columns) {
+      if (!METADATA_FIELDS.has(name) && row[name] !== null) {
+        document[name] = fromSqlValue(kind, row[name]);
+      }
+    }
+    Object.assign(document, {
+      updatedAt: fromSqlValue("date", row["updatedAt"]),
+      createdBy: row["createdBy"] ?? null,
+      updatedBy: row["updatedBy"] ?? null,
+      __v: Number(row["__v"] ?? 0),
+    });
+    if (this.softDelete) {
+      document["deletedAt"] = fromSqlValue("date", row["deletedAt"]);
+      document["deletedBy"] = row["deletedBy"] ?? null;
+    }
+    return document as MongoDocument<TEntity>;
+  }
+
+  /**
+   * Applies the requested projection to a document.
+   *
+   * @param {MongoDocument<TEntity>} document - Full document
+   * @param {Partial<ProjectionOptions>} [options] - Options carrying the projection
+   * @returns {MongoDocument<TEntity> | ProjectedDocument<TEntity>} Document returned to the caller
+   * @private
+   */
+  private project(
+    document: MongoDocument<TEntity>,
+    options?: Partial<ProjectionOptions>,
+  ): MongoDocument<TEntity> | ProjectedDocument<TEntity> {
+    return options?.projection
+      ? (applyProjection(
+          document,
+          options.projection,
+        ) as MongoDocument<TEntity>)
+      : document;
+  }
+
+  /**
+   * Maps a database error onto the application errors raised by
+   * `MongoDbRepository`. Unique index violations become duplicate errors.
+   *
+   * @param {unknown} error - Caught error
+   * @param {string} operation - Operation that failed
+   * @param {Record<string, unknown>} [metadata] - Operation details
+   * @returns {ApplicationError} Error to throw
+   * @private
+   */
+  private translateError(
+    error: unknown,
+    operation: string,
+    metadata: Record<string, unknown> = {},
+  ): ApplicationError {
+    if (error instanceof ApplicationError) {
+      return error;
+    }
+
+    const duplicateFields = this.duplicateFields(error);
+    if (duplicateFields) {
+      this.logger.warn("Unique constraint violation detected", {
+        fields: duplicateFields,
+        ...metadata,
+      });
+      return new ApplicationError({
+        type: ErrorType.DUPLICATE_ERROR,
+        message: DUPLICATE_MESSAGES[operation] ?? "Duplicate value detected",
+        statusCode: 409,
+        metadata: { duplicateFields, operation, ...metadata },
+      });
+    }
+
+    this.logger.error(`Repository: ${operation} operation failed`, { error });
+    return new ApplicationError({
+      type: ErrorType.DATABASE_ERROR,
+      message: `Database operation failed during entity ${operation}`,
+      statusCode: 500,
+      metadata: {
+        operation,
+        table: this.tableName,
+        ...metadata,
+        originalError: error instanceof Error ? error.message : "Unknown error",
+      },
+      cause: error instanceof Error ? error : undefined,
+    });
+  }
+
+  /**
+   * Builds the per-item error of a failed bulk write.
+   *
+   * @param {unknown} error - Caught error
+   * @param {string} operation - Bulk operation
+   * @returns {BulkItemError} Item error
+   * @private
+   */
+  private bulkItemError(error: unknown, operation: string): BulkItemError {
+    const translated = this.translateError(error, operation);
+    if (translated.type === ErrorType.DUPLICATE_ERROR) {
+      return duplicateItemError(
+        translated.metadata?.["duplicateFields"] as string[],
+      );
+    }
+    return {
+      type: translated.type,
+      message: translated.message,
+      ...(translated instanceof ValidationError && { field: translated.field }),
+    };
+  }
+
+  /**
+   * Extracts the fields of the violated unique index from a SQLite error,
+   * e.g. `UNIQUE constraint failed: products.sku, products.warehouse`.
+   *
+   * @param {unknown} error - Caught error
+   * @returns {string[] | null} Fields of the violated constraint, null for other errors
+   * @private
+   */
+  private duplicateFields(error: unknown): string[] | null {
+    const match = /UNIQUE constraint failed: (.+)$/.exec(
+      error instanceof Error ? error.message : "",
+    );
+    if (!match) {
+      return null;
+    }
+    const fields = match[1]!
+      .split(", ")
+      .map((column) => column.slice(column.lastIndexOf(".") + 1));
+    if (fields.includes("_id")) {
+      // A natural key is stored as `_id`
+      return this.ids.field ? [this.ids.field] : null;
+    }
+    return fields;
+  }
+
+  /**
+   * Parses an entity identifier.
+   *
+   * @param {string} id - Identifier received from the caller
+   * @returns {EntityId} Parsed identifier
+   * @throws {ValidationError} When the id does not match the id strategy
+   * @private
+   */
+  private parseId(id: string): EntityId {
+    return parseEntityId(this.ids, id);
+  }
+}
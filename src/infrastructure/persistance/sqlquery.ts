@@ -0,0 +1,420 @@
+import { ObjectId } from "mongodb";
+import type { Document } from "mongodb";
+import type { ZodObject, ZodType } from "zod";
+
+import {
+  assertSafePattern,
+  describeFilterFields,
+} from "../tools/filtercompiler/index.js";
+import { describeEncryptedFields } from "../tools/schemabuilder/index.js";
+import type { SqlColumnKind, SqliteValue } from "./types.js";
+
+/**
+ * Columns every table holds besides the schema fields.
+ */
+const METADATA_COLUMNS: Record<string, SqlColumnKind> = {
+  _id: "id",
+  createdAt: "date",
+  updatedAt: "date",
+  createdBy: "string",
+  updatedBy: "string",
+  __v: "number",
+  deletedAt: "date",
+  deletedBy: "string",
+};
+
+/**
+ * SQL declaration of each column kind.
+ */
+const COLUMN_TYPES: Record<SqlColumnKind, string> = {
+  id: "TEXT PRIMARY KEY",
+  string: "TEXT",
+  number: "REAL",
+  boolean: "INTEGER",
+  date: "INTEGER",
+  json: "TEXT",
+};
+
+/**
+ * SQL comparison of each range operator.
+ */
+const RANGE_OPERATORS: Record<string, string> = {
+  $gt: ">",
+  $gte: ">=",
+  $lt: "<",
+  $lte: "<=",
+};
+
+/**
+ * A SQL fragment with its positional parameters.
+ */
+export type SqlFragment = { sql: string; params: SqliteValue[] };
+
+/**
+ * Derives the table columns of a resource from its schema. Strings, numbers,
+ * booleans and dates get their own typed column, arrays and nested objects
+ * are stored as JSON text, encrypted fields as text. The `_id` and audit
+ * columns are always present.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @returns {Map<string, SqlColumnKind>} Column kinds by name
+ */
+export function describeColumns(
+  schema: ZodObject<Record<string, ZodType>>,
+): Map<string, SqlColumnKind> {
+  const columns = new Map<string, SqlColumnKind>();
+  const encrypted = describeEncryptedFields(schema);
+  for (const field of describeFilterFields(schema).values()) {
+    columns.set(
+      field.name,
+      Object.hasOwn(encrypted, field.name)
+        ? "string"
+        : field.kind === "array" || field.kind === "unsupported"
+          ? "json"
+          : field.kind,
+    );
+  }
+  for (const [name, kind] of Object.entries(METADATA_COLUMNS)) {
+    columns.set(name, kind);
+  }
+  return columns;
+}
+
+/**
+ * Builds the column definition used in `CREATE TABLE` and `ADD COLUMN`.
+ *
+ * @param {string} name - Column name
+ * @param {SqlColumnKind} kind - Column kind
+ * @returns {string} Column definition
+ */
+export function columnDefinition(name: string, kind: SqlColumnKind): string {
+  return `${quoteIdentifier(name)} ${COLUMN_TYPES[kind]}`;
+}
+
+/**
+ * Quotes a table, column or index name.
+ *
+ * @param {string} name - Identifier
+ * @returns {string} Quoted identifier
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Converts a document value into the value stored in a column.
+ *
+ * @param {SqlColumnKind} kind - Column kind
+ * @param {unknown} value - Document value
+ * @returns {SqliteValue} Bindable value; `null` for missing values
+ */
+export function toSqlValue(kind: SqlColumnKind, value: unknown): SqliteValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (kind) {
+    case "id":
+      return value instanceof ObjectId ? value.toHexString() : String(value);
+    case "date":
+      return value instanceof Date ? value.getTime() : Number(value);
+    case "boolean":
+      return value ? 1 : 0;
+    case "json":
+      return JSON.stringify(value);
+    default:
+      return value as SqliteValue;
+  }
+}
+
+/**
+ * Converts a stored column value back into a document value.
+ *
+ * @param {SqlColumnKind} kind - Column kind
+ * @param {unknown} value - Column value read from the database
+ * @returns {unknown} Document value
+ */
+export function fromSqlValue(kind: SqlColumnKind, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (kind) {
+    case "id":
+      return new ObjectId(String(value));
+    case "date":
+      return new Date(Number(value));
+    case "boolean":
+      return Number(value) !== 0;
+    case "json":
+      return JSON.parse(String(value));
+    case "number":
+      return Number(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Compiles a find filter into a SQL `WHERE` condition. It accepts what the
+ * filter compiler produces: equality values and the `$eq`, `$ne`, `$gt`,
+ * `$gte`, `$lt`, `$lte`, `$in`, `$nin`, `$all`, `$regex` and `$exists`
+ * operators, plus `$and`/`$or`. JSON columns match on their elements like
+ * MongoDB arrays do. `$regex` relies on a `regexp` SQL function.
+ *
+ * @param {Document} filter - Find filter
+ * @param {Map<string, SqlColumnKind>} columns - Table columns
+ * @returns {SqlFragment} Condition, `1` for an empty filter
+ * @throws {Error} When the filter uses an unknown field or an unsupported operator
+ */
+export function compileWhere(
+  filter: Document,
+  columns: Map<string, SqlColumnKind>,
+): SqlFragment {
+  const conditions: string[] = [];
+  const params: SqliteValue[] = [];
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === "$and" || key === "$or") {
+      const parts = (condition as Document[]).map((entry) =>
+        compileWhere(entry, columns),
+      );
+      // An empty $and matches everything, an empty $or nothing
+      const combined =
+        key === "$and" && parts.length === 0
+          ? { sql: "1", params: [] }
+          : combine(parts, key === "$and" ? " AND " : " OR ");
+      conditions.push(combined.sql);
+      params.push(...combined.params);
+      continue;
+    }
+
+    const kind = columns.get(key);
+    if (!kind) {
+      throw new Error(`Unknown filter field ${key}`);
+    }
+
+    const operators = isOperatorObject(condition)
+      ? Object.entries(condition)
+      : [["$eq", condition] as const];
+    for (const [operator, operand] of operators) {
+      const fragment = compileOperator(key, kind, operator, operand);
+      conditions.push(fragment.sql);
+      params.push(...fragment.params);
+    }
+  }
+
+  return {
+    sql: conditions.length > 0 ? conditions.join(" AND ") : "1",
+    params,
+  };
+}
+
+/**
+ * Compiles a single operator on a column.
+ *
+ * @param {string} name - Column name
+ * @param {SqlColumnKind} kind - Column kind
+ * @param {string} operator - Operator, e.g. `$gte`
+ * @param {unknown} operand - Operator argument
+ * @returns {SqlFragment} Condition
+ * @throws {Error} When the operator is not supported on the column
+ */
+function compileOperator(
+  name: string,
+  kind: SqlColumnKind,
+  operator: string,
+  operand: unknown,
+): SqlFragment {
+  const column = quoteIdentifier(name);
+
+  if (operator === "$exists") {
+    return { sql: `${column} IS ${operand ? "NOT " : ""}NULL`, params: [] };
+  }
+
+  if (kind === "json") {
+    return compileJsonOperator(column, operator, operand);
+  }
+
+  switch (operator) {
+    case "$eq":
+      return operand === null
+        ? { sql: `${column} IS NULL`, params: [] }
+        : { sql: `${column} = ?`, params: [toSqlValue(kind, operand)] };
+    case "$ne":
+      return operand === null
+        ? { sql: `${column} IS NOT NULL`, params: [] }
+        : {
+            sql: `(${column} IS NULL OR ${column} <> ?)`,
+            params: [toSqlValue(kind, operand)],
+          };
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte":
+      return {
+        sql: `${column} ${RANGE_OPERATORS[operator]} ?`,
+        params: [toSqlValue(kind, operand)],
+      };
+    case "$in":
+    case "$nin": {
+      const list = inList(column, kind, operand as unknown[]);
+      return operator === "$in" ? list : negate(list);
+    }
+    case "$regex":
+      assertSafePattern(String(operand));
+      return { sql: `${column} REGEXP ?`, params: [String(operand)] };
+    default:
+      throw new Error(`Unsupported query operator ${operator} on ${name}`);
+  }
+}
+
+/**
+ * Compiles an operator on a JSON column.
+ *
+ * @param {string} column - Quoted column name
+ * @param {string} operator - Operator, e.g. `$all`
+ * @param {unknown} operand - Operator argument
+ * @returns {SqlFragment} Condition
+ * @throws {Error} When the operator is not supported on JSON columns
+ */
+function compileJsonOperator(
+  column: string,
+  operator: string,
+  operand: unknown,
+): SqlFragment {
+  switch (operator) {
+    case "$eq":
+      return jsonEquals(column, operand);
+    case "$ne":
+      return negate(jsonEquals(column, operand));
+    case "$in":
+      return combine(
+        (operand as unknown[]).map((entry) => jsonEquals(column, entry)),
+        " OR ",
+      );
+    case "$nin":
+      return negate(
+        combine(
+          (operand as unknown[]).map((entry) => jsonEquals(column, entry)),
+          " OR ",
+        ),
+      );
+    case "$all":
+      return combine(
+        (operand as unknown[]).map((entry) => jsonEquals(column, entry)),
+        " AND ",
+      );
+    default:
+      throw new Error(`Unsupported query operator ${operator} on JSON field`);
+  }
+}
+
+/**
+ * Matches a JSON column against a value: a scalar matches any element of the
+ * stored array, an array the whole array.
+ *
+ * @param {string} column - Quoted column name
+ * @param {unknown} entry - Expected value
+ * @returns {SqlFragment} Condition
+ */
+function jsonEquals(column: string, entry: unknown): SqlFragment {
+  if (entry === null) {
+    return { sql: `${column} IS NULL`, params: [] };
+  }
+  if (Array.isArray(entry)) {
+    return { sql: `${column} = ?`, params: [JSON.stringify(entry)] };
+  }
+  return {
+    sql: `EXISTS (SELECT 1 FROM json_each(${column}) WHERE value = ?)`,
+    params: [elementValue(entry)],
+  };
+}
+
+/**
+ * Joins conditions with `AND` or `OR`. No condition never matches, like an
+ * empty `$in` or `$all` list in MongoDB.
+ *
+ * @param {SqlFragment[]} parts - Conditions
+ * @param {string} separator - `" AND "` or `" OR "`
+ * @returns {SqlFragment} Combined condition
+ */
+function combine(parts: SqlFragment[], separator: string): SqlFragment {
+  return {
+    sql:
+      parts.length > 0
+        ? `(${parts.map((part) => part.sql).join(separator)})`
+        : "0",
+    params: parts.flatMap((part) => part.params),
+  };
+}
+
+/**
+ * Negates a condition.
+ *
+ * @param {SqlFragment} fragment - Condition
+ * @returns {SqlFragment} Negated condition
+ */
+function negate(fragment: SqlFragment): SqlFragment {
+  return { sql: `NOT ${fragment.sql}`, params: fragment.params };
+}
+
+/**
+ * Builds an `IN` condition that also handles `null` in the list. Missing
+ * values are treated as `null`, like MongoDB does.
+ *
+ * @param {string} column - Quoted column name
+ * @param {SqlColumnKind} kind - Column kind
+ * @param {unknown[]} entries - Listed values
+ * @returns {SqlFragment} Condition, never `NULL` so that it can be negated
+ */
+function inList(
+  column: string,
+  kind: SqlColumnKind,
+  entries: unknown[],
+): SqlFragment {
+  const values = entries.filter((entry) => entry !== null);
+  const parts: string[] = [];
+  if (values.length > 0) {
+    parts.push(
+      `COALESCE(${column} IN (${values.map(() => "?").join(", ")}), 0)`,
+    );
+  }
+  if (values.length < entries.length) {
+    parts.push(`${column} IS NULL`);
+  }
+  return {
+    sql: parts.length > 0 ? `(${parts.join(" OR ")})` : "0",
+    params: values.map((entry) => toSqlValue(kind, entry)),
+  };
+}
+
+/**
+ * Converts a value to the form `json_each` yields for a stored element.
+ * Dates are serialized as ISO strings by `JSON.stringify` and booleans come
+ * back as integers.
+ *
+ * @param {unknown} value - Element value
+ * @returns {SqliteValue} Comparable element value
+ */
+function elementValue(value: unknown): SqliteValue {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof ObjectId) return value.toHexString();
+  if (typeof value === "object" && value !== null) return JSON.stringify(value);
+  return value as SqliteValue;
+}
+
+/**
+ * Tells operator objects (`{ $gte: 1 }`) apart from plain values.
+ *
+ * @param {unknown} value - Filter condition
+ * @returns {boolean} True when every key is an operator
+ */
+function isOperatorObject(value: unknown): value is Document {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"))
+  );
+}
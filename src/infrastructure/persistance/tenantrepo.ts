@@ -0,0 +1,748 @@
+import { ValidationError } from "#root/config/errors.js";
+import type {
+  BulkOptions,
+  BulkRemoveOptions,
+  BulkResult,
+  BulkUpdateItem,
+  FindQuery,
+  IRepository,
+  MongoDocument,
+  PaginatedResult,
+  PaginationOptions,
+  Projection,
+  ProjectedDocument,
+  ProjectionOptions,
+  QueryOptions,
+  RemoveOptions,
+  ReplaceOptions,
+  ReplaceResult,
+  SessionOptions,
+  UpdateOptions,
+} from "#root/domain/index.js";
+import { requireTenantId } from "../context/index.js";
+import { BulkResultCollector, notFoundItemError } from "./bulk.js";
+
+/**
+ * @class TenantScopedRepository
+ * @description Shares a repository between tenants: the tenant of the
+ * request is written to a field of every created entity and added to every
+ * filter. Entities of another tenant are reported as not found. Unique
+ * constraints and indexes of the wrapped repository should start with the
+ * tenant field.
+ * @template TEntity - The domain entity type
+ */
+export class TenantScopedRepository<TEntity> implements IRepository<TEntity> {
+  /**
+   * @param {IRepository<TEntity>} repository - Repository shared by the tenants
+   * @param {string} field - Field holding the tenant of an entity
+   */
+  public constructor(
+    private readonly repository: IRepository<TEntity>,
+    private readonly field: string,
+  ) {}
+
+  /**
+   * Creates an entity of the current tenant.
+   *
+   * @param {TEntity} data - Entity data to create
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Created entity
+   */
+  public async create(
+    data: TEntity,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    return this.repository.create(this.withTenant(data), options);
+  }
+
+  /**
+   * Reads an entity of the current tenant by ID.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & ProjectionOptions} options - Read options, including a projection
+   * @returns {Promise<ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above. The tenant field is read
+   * even when the projection leaves it out, then removed.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Read options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    const tenantId = requireTenantId();
+    const projection = options?.projection;
+    const document = projection
+      ? await this.repository.read(id, {
+          ...options,
+          projection: this.projectionWithTenant(projection),
+        })
+      : await this.repository.read(id, options);
+
+    if (!document || !this.belongsTo(document, tenantId)) {
+      return null;
+    }
+    if (projection && this.hidesTenant(projection)) {
+      const { [this.field]: _tenant, ...projected } = document as Record<
+        string,
+        unknown
+      >;
+      return projected as ProjectedDocument<TEntity>;
+    }
+    return document;
+  }
+
+  /**
+   * Updates an entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {Partial<TEntity>} data - Fields to update
+   * @param {UpdateOptions} [options] - Optional expected version and session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Updated entity or null if not found
+   */
+  public async update(
+    id: string,
+    data: Partial<TEntity>,
+    options?: UpdateOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    if (!(await this.owns(id, options))) {
+      return null;
+    }
+    return this.repository.update(id, this.withTenant(data), options);
+  }
+
+  /**
+   * Replaces an entity of the current tenant. With upsert, an unknown id is
+   * created for the current tenant; an id of another tenant is not found.
+   *
+   * @param {string} id - Entity identifier
+   * @param {TEntity} data - Complete entity data
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag
+   * @returns {Promise<ReplaceResult<TEntity> | null>} Stored entity, null if not found
+   */
+  public async replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity> | null> {
+    if (!(await this.owns(id, options))) {
+      return null;
+    }
+    return this.repository.replace(id, this.withTenant(data), options);
+  }
+
+  /**
+   * Removes an entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {RemoveOptions} [options] - Optional removal metadata
+   * @returns {Promise<boolean>} True if removed, false if not found
+   */
+  public async remove(id: string, options?: RemoveOptions): Promise<boolean> {
+    return (
+      (await this.owns(id, options)) && this.repository.remove(id, options)
+    );
+  }
+
+  /**
+   * Restores a soft-deleted entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Restored entity or null
+   */
+  public async restore(
+    id: string,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    if (!(await this.owns(id, options))) {
+      return null;
+    }
+    return this.repository.restore(id, options);
+  }
+
+  /**
+   * Permanently deletes an entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  public async purge(id: string, options?: SessionOptions): Promise<boolean> {
+    return (await this.owns(id, options)) && this.repository.purge(id, options);
+  }
+
+  /**
+   * Finds entities of the current tenant.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & ProjectionOptions} options - Pagination options, including a projection
+   * @returns {Promise<PaginatedResult<ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions,
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & Partial<ProjectionOptions>} [options] - Pagination options
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity> | ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions & Partial<ProjectionOptions>,
+  ): Promise<
+    | PaginatedResult<MongoDocument<TEntity>>
+    | PaginatedResult<ProjectedDocument<TEntity>>
+  > {
+    return this.repository.find(this.withinTenant(query), options);
+  }
+
+  /**
+   * Finds the first entity of the current tenant matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & ProjectionOptions} options - Query options, including a projection
+   * @returns {Promise<ProjectedDocument<TEntity> | null>} First matching entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Query options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} First matching entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    return this.repository.findOne(this.withinTenant(query), options);
+  }
+
+  /**
+   * Counts the entities of the current tenant matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions} [options] - Optional query options
+   * @returns {Promise<number>} Number of matching entities
+   */
+  public async count(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<number> {
+    return this.repository.count(this.withinTenant(query), options);
+  }
+
+  /**
+   * Creates several entities of the current tenant.
+   *
+   * @param {TEntity[]} items - Entities to create
+   * @param {BulkOptions} [options] - Ordered mode and session
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item
+   */
+  public async bulkCreate(
+    items: TEntity[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    return this.repository.bulkCreate(
+      items.map((data) => this.withTenant(data)),
+      options,
+    );
+  }
+
+  /**
+   * Updates several entities of the current tenant. Items targeting another
+   * tenant fail with NOT_FOUND.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Ids and fields to update
+   * @param {BulkOptions} [options] - Ordered mode and session
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item
+   */
+  public async bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options: BulkOptions = {},
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    return this.runOwned(
+      items,
+      (item) => item.id,
+      options,
+      (owned) =>
+        this.repository.bulkUpdate(
+          owned.map(({ id, data }) => ({ id, data: this.withTenant(data) })),
+          options,
+        ),
+    );
+  }
+
+  /**
+   * Removes several entities of the current tenant. Ids of another tenant
+   * fail with NOT_FOUND.
+   *
+   * @param {string[]} ids - Entity identifiers
+   * @param {BulkRemoveOptions} [options] - Ordered mode, session and actor
+   * @returns {Promise<BulkResult<never>>} Outcome of every item
+   */
+  public async bulkRemove(
+    ids: string[],
+    options: BulkRemoveOptions = {},
+  ): Promise<BulkResult<never>> {
+    return this.runOwned(
+      ids,
+      (id) => id,
+      options,
+      (owned) => this.repository.bulkRemove(owned, options),
+    );
+  }
+
+  /**
+   * Sets the tenant field of written data to the current tenant.
+   *
+   * @template T - Data type
+   * @param {T} data - Written fields
+   * @returns {T} Data bound to the current tenant
+   * @private
+   */
+  private withTenant<T>(data: T): T {
+    return { ...data, [this.field]: requireTenantId() };
+  }
+
+  /**
+   * Restricts a query to the current tenant.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @returns {FindQuery<TEntity>} Filters of the current tenant
+   * @private
+   */
+  private withinTenant(query: FindQuery<TEntity>): FindQuery<TEntity> {
+    return { ...query, [this.field]: requireTenantId() };
+  }
+
+  /**
+   * Tells whether an entity belongs to a tenant.
+   *
+   * @param {ProjectedDocument<TEntity>} document - Stored entity
+   * @param {string} tenantId - Tenant identifier
+   * @returns {boolean} True when the tenant field matches
+   * @private
+   */
+  private belongsTo(
+    document: ProjectedDocument<TEntity>,
+    tenantId: string,
+  ): boolean {
+    return (document as Record<string, unknown>)[this.field] === tenantId;
+  }
+
+  /**
+   * Tells whether an id is free or taken by the current tenant, soft-deleted
+   * entities included.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<boolean>} False when the id belongs to another tenant
+   * @throws {ValidationError} When the id is malformed
+   * @private
+   */
+  private async owns(id: string, options?: SessionOptions): Promise<boolean> {
+    const tenantId = requireTenantId();
+    const document = await this.repository.read(id, {
+      includeDeleted: true,
+      session: options?.session,
+    });
+    return !document || this.belongsTo(document, tenantId);
+  }
+
+  /**
+   * Runs a bulk operation on the items of the current tenant. The other
+   * items fail with NOT_FOUND; malformed and unknown ids are left to the
+   * wrapped repository, which reports them.
+   *
+   * @template TItem - Item type
+   * @template TResult - Entity type returned for successful items
+   * @param {TItem[]} items - Items of the request
+   * @param {(item: TItem) => string} idOf - Identifier targeted by an item
+   * @param {BulkOptions} options - Ordered mode and session
+   * @param {(items: TItem[]) => Promise<BulkResult<TResult>>} execute - Operation on the owned items
+   * @returns {Promise<BulkResult<TResult>>} Outcome of every item of the request
+   * @private
+   */
+  private async runOwned<TItem, TResult>(
+    items: TItem[],
+    idOf: (item: TItem) => string,
+    options: BulkOptions,
+    execute: (items: TItem[]) => Promise<BulkResult<TResult>>,
+  ): Promise<BulkResult<TResult>> {
+    const collector = new BulkResultCollector<TResult>(
+      items.length,
+      options.ordered ?? true,
+    );
+
+    const owned = await Promise.all(
+      items.map((item) =>
+        this.owns(idOf(item), options).catch((error: unknown) => {
+          if (error instanceof ValidationError) return true;
+          throw error;
+        }),
+      ),
+    );
+    items.forEach((item, index) => {
+      if (!owned[index]) {
+        collector.fail(index, notFoundItemError(idOf(item)), idOf(item));
+      }
+    });
+
+    const stop = collector.stopIndex();
+    const accepted = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ index }) => index < stop && !collector.has(index));
+
+    if (accepted.length > 0) {
+      const result = await execute(accepted.map(({ item }) => item));
+      // Results are positioned within `accepted`, map them back
+      for (const item of result.results) {
+        collector.record({ ...item, index: accepted[item.index]!.index });
+      }
+    }
+    return collector.build();
+  }
+
+  /**
+   * Tells whether a projection leaves the tenant field out.
+   *
+   * @param {Projection} projection - Requested projection
+   * @returns {boolean} True when the field is not returned
+   * @private
+   */
+  private hidesTenant(projection: Projection): boolean {
+    return Object.values(projection).includes(1)
+      ? projection[this.field] !== 1
+      : projection[this.field] === 0;
+  }
+
+  /**
+   * Extends a projection so that the tenant field is read.
+   *
+   * @param {Projection} projection - Requested projection
+   * @returns {Projection} Projection including the tenant field
+   * @private
+   */
+  private projectionWithTenant(projection: Projection): Projection {
+    const { [this.field]: _tenant, ...others } = projection;
+    return Object.values(projection).includes(1)
+      ? { ...others, [this.field]: 1 }
+      : others;
+  }
+}
+
+/**
+ * @class TenantPartitionedRepository
+ * @description Gives each tenant its own repository, e.g. a collection or a
+ * database per tenant. Repositories are created on the first request of
+ * their tenant and kept; a failed creation is retried on the next request.
+ * @template TEntity - The domain entity type
+ */
+export class TenantPartitionedRepository<
+  TEntity,
+> implements IRepository<TEntity> {
+  private readonly repositories = new Map<
+    string,
+    Promise<IRepository<TEntity>>
+  >();
+
+  /**
+   * @param {(tenantId: string) => IRepository<TEntity> | Promise<IRepository<TEntity>>} repositoryFor - Creates the repository of a tenant
+   */
+  public constructor(
+    private readonly repositoryFor: (
+      tenantId: string,
+    ) => IRepository<TEntity> | Promise<IRepository<TEntity>>,
+  ) {}
+
+  /**
+   * Creates an entity in the repository of the current tenant.
+   *
+   * @param {TEntity} data - Entity data to create
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Created entity
+   */
+  public async create(
+    data: TEntity,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    return (await this.current()).create(data, options);
+  }
+
+  /**
+   * Reads an entity of the current tenant by ID.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & ProjectionOptions} options - Read options, including a projection
+   * @returns {Promise<ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {string} id - Entity identifier
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Read options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} Found entity or null
+   */
+  public async read(
+    id: string,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    return (await this.current()).read(id, options);
+  }
+
+  /**
+   * Updates an entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {Partial<TEntity>} data - Fields to update
+   * @param {UpdateOptions} [options] - Optional expected version and session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Updated entity or null if not found
+   */
+  public async update(
+    id: string,
+    data: Partial<TEntity>,
+    options?: UpdateOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    return (await this.current()).update(id, data, options);
+  }
+
+  /**
+   * Replaces an entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {TEntity} data - Complete entity data
+   * @param {ReplaceOptions} [options] - Optional preconditions and upsert flag
+   * @returns {Promise<ReplaceResult<TEntity> | null>} Stored entity, null if not found
+   */
+  public async replace(
+    id: string,
+    data: TEntity,
+    options?: ReplaceOptions,
+  ): Promise<ReplaceResult<TEntity> | null> {
+    return (await this.current()).replace(id, data, options);
+  }
+
+  /**
+   * Removes an entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {RemoveOptions} [options] - Optional removal metadata
+   * @returns {Promise<boolean>} True if removed, false if not found
+   */
+  public async remove(id: string, options?: RemoveOptions): Promise<boolean> {
+    return (await this.current()).remove(id, options);
+  }
+
+  /**
+   * Restores a soft-deleted entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<MongoDocument<TEntity> | null>} Restored entity or null
+   */
+  public async restore(
+    id: string,
+    options?: SessionOptions,
+  ): Promise<MongoDocument<TEntity> | null> {
+    return (await this.current()).restore(id, options);
+  }
+
+  /**
+   * Permanently deletes an entity of the current tenant.
+   *
+   * @param {string} id - Entity identifier
+   * @param {SessionOptions} [options] - Optional session
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  public async purge(id: string, options?: SessionOptions): Promise<boolean> {
+    return (await this.current()).purge(id, options);
+  }
+
+  /**
+   * Finds entities of the current tenant.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & ProjectionOptions} options - Pagination options, including a projection
+   * @returns {Promise<PaginatedResult<ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options: PaginationOptions & ProjectionOptions,
+  ): Promise<PaginatedResult<ProjectedDocument<TEntity>>>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions,
+  ): Promise<PaginatedResult<MongoDocument<TEntity>>>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {PaginationOptions & Partial<ProjectionOptions>} [options] - Pagination options
+   * @returns {Promise<PaginatedResult<MongoDocument<TEntity> | ProjectedDocument<TEntity>>>} Paginated results
+   */
+  public async find(
+    query: FindQuery<TEntity>,
+    options?: PaginationOptions & Partial<ProjectionOptions>,
+  ): Promise<
+    | PaginatedResult<MongoDocument<TEntity>>
+    | PaginatedResult<ProjectedDocument<TEntity>>
+  > {
+    return (await this.current()).find(query, options);
+  }
+
+  /**
+   * Finds the first entity of the current tenant matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & ProjectionOptions} options - Query options, including a projection
+   * @returns {Promise<ProjectedDocument<TEntity> | null>} First matching entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options: QueryOptions & ProjectionOptions,
+  ): Promise<ProjectedDocument<TEntity> | null>;
+  /**
+   * Returns full documents when no projection is requested.
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<MongoDocument<TEntity> | null>;
+  /**
+   * Implementation shared by the overloads above.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions & Partial<ProjectionOptions>} [options] - Query options
+   * @returns {Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null>} First matching entity or null
+   */
+  public async findOne(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions & Partial<ProjectionOptions>,
+  ): Promise<MongoDocument<TEntity> | ProjectedDocument<TEntity> | null> {
+    return (await this.current()).findOne(query, options);
+  }
+
+  /**
+   * Counts the entities of the current tenant matching a query.
+   *
+   * @param {FindQuery<TEntity>} query - Query filters
+   * @param {QueryOptions} [options] - Optional query options
+   * @returns {Promise<number>} Number of matching entities
+   */
+  public async count(
+    query: FindQuery<TEntity>,
+    options?: QueryOptions,
+  ): Promise<number> {
+    return (await this.current()).count(query, options);
+  }
+
+  /**
+   * Creates several entities of the current tenant.
+   *
+   * @param {TEntity[]} items - Entities to create
+   * @param {BulkOptions} [options] - Ordered mode and session
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item
+   */
+  public async bulkCreate(
+    items: TEntity[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    return (await this.current()).bulkCreate(items, options);
+  }
+
+  /**
+   * Updates several entities of the current tenant.
+   *
+   * @param {BulkUpdateItem<TEntity>[]} items - Ids and fields to update
+   * @param {BulkOptions} [options] - Ordered mode and session
+   * @returns {Promise<BulkResult<MongoDocument<TEntity>>>} Outcome of every item
+   */
+  public async bulkUpdate(
+    items: BulkUpdateItem<TEntity>[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<MongoDocument<TEntity>>> {
+    return (await this.current()).bulkUpdate(items, options);
+  }
+
+  /**
+   * Removes several entities of the current tenant.
+   *
+   * @param {string[]} ids - Entity identifiers
+   * @param {BulkRemoveOptions} [options] - Ordered mode, session and actor
+   * @returns {Promise<BulkResult<never>>} Outcome of every item
+   */
+  public async bulkRemove(
+    ids: string[],
+    options?: BulkRemoveOptions,
+  ): Promise<BulkResult<never>> {
+    return (await this.current()).bulkRemove(ids, options);
+  }
+
+  /**
+   * Returns the repository of the current tenant, creating it on first use.
+   *
+   * @returns {Promise<IRepository<TEntity>>} Repository of the tenant
+   * @private
+   */
+  private async current(): Promise<IRepository<TEntity>> {
+    const tenantId = requireTenantId();
+    let repository = this.repositories.get(tenantId);
+    if (!repository) {
+      repository = Promise.resolve().then(() => this.repositoryFor(tenantId));
+      this.repositories.set(tenantId, repository);
+      repository.catch(() => this.repositories.delete(tenantId));
+    }
+    return repository;
+  }
+}
@@ -1,8 +1,371 @@
-import type { CompressorName } from "mongodb";
+import type {
+  CollationOptions,
+  Collection,
+  Db,
+  Document,
+  IndexDescription,
+  MongoClient,
+  TransactionOptions,
+} from "mongodb";
 
-export type MongoClientOptions = {
-  host: string;
-  port: string;
-  compressionLevel?: 0 | 6 | 1 | 8 | 2 | 3 | 4 | 5 | 7 | 9;
-  compresors?: Array<CompressorName>;
+import type { ZodObject, ZodType } from "zod";
+
+import type { MongoConfig } from "#root/config/types.js";
+import type { EntityId, Logger } from "#root/domain/index.js";
+import type { ReferenceDefinition } from "../tools/schemabuilder/index.js";
+
+/**
+ * Connection settings of a MongoConnection: a connection string (`uri`) or
+ * a host and port, plus structured authentication, TLS, pool, timeout and
+ * retry settings.
+ */
+export type MongoClientOptions = Omit<MongoConfig, "host" | "port"> & {
+  host?: string;
+  port?: string;
+};
+
+/**
+ * How a repository identifies its entities:
+ * - `"objectId"` (default): generated MongoDB ObjectIds
+ * - `"uuid"` / `"uuidv7"`: generated UUIDs, random or time-ordered
+ * - `"ulid"`: generated ULIDs, time-ordered
+ * - `{ field }`: natural key, the value of a string field (e.g. `sku`)
+ * - `{ generate }`: ids returned by a custom generator
+ * Ids other than ObjectIds are stored as strings.
+ */
+export type IdStrategy =
+  | "objectId"
+  | "uuid"
+  | "uuidv7"
+  | "ulid"
+  | { field: string; pattern?: RegExp }
+  | { generate: () => string; pattern?: RegExp };
+
+/**
+ * Resolved id strategy, shared by the repositories and the documentation.
+ */
+export type IdCodec = {
+  // Name of the format, used in error messages
+  format: string;
+  // Description of the ids in the documentation
+  description: string;
+  // How ids are stored
+  bsonType: "objectId" | "string";
+  // Valid ids match it; absent when any non-empty string is accepted
+  pattern?: RegExp;
+  // Sample id for the documentation
+  example?: string;
+  // Field holding the natural key
+  field?: string;
+  // Id of a new entity; null when the natural key is missing or malformed
+  generate(data: Document): EntityId | null;
+  // Stored id of a requested one; null when malformed
+  parse(id: string): EntityId | null;
+};
+
+/**
+ * Unique constraint on a collection: a single field, or a tuple of fields
+ * whose combination must be unique (e.g. `["sku", "warehouse"]`).
+ */
+export type UniqueConstraint<T = Record<string, unknown>> =
+  keyof T | (keyof T)[];
+
+/**
+ * Fields covered by the full-text index. A list gives every field the same
+ * weight, a map sets the weight of each field (higher ranks first).
+ */
+export type TextSearchFields<T = Record<string, unknown>> =
+  (keyof T & string)[] | Partial<Record<keyof T & string, number>>;
+
+/**
+ * Declarative index on a collection. Indexes are reconciled when the
+ * repository starts: missing ones are created and conflicting ones fail.
+ */
+export type IndexDefinition<T = Record<string, unknown>> = {
+  // Indexed fields in order, 1 for ascending and -1 for descending.
+  fields: Partial<
+    Record<(keyof T & string) | "createdAt" | "updatedAt" | "deletedAt", 1 | -1>
+  >;
+  // Index name, must start with "idx_". Derived from the fields when omitted.
+  name?: string;
+  unique?: boolean;
+  // Skip documents that do not contain the indexed fields.
+  sparse?: boolean;
+  // TTL: remove documents this many seconds after the (date) field value.
+  expireAfterSeconds?: number;
+  // Only index documents matching this filter.
+  partialFilterExpression?: Document;
+  // Compare strings ignoring case (shorthand for an en/strength 2 collation).
+  caseInsensitive?: boolean;
+  // Explicit collation, takes precedence over caseInsensitive.
+  collation?: CollationOptions;
+};
+
+/**
+ * Managed index whose definition differs from the one found in the database.
+ */
+export type IndexConflict = {
+  name: string;
+  expected: Document;
+  actual: Document;
+};
+
+/**
+ * Changes needed to bring the indexes of a collection in line with the
+ * declared ones. Only indexes named "idx_*" are considered managed.
+ */
+export type IndexPlan = {
+  // Declared indexes that do not exist yet.
+  missing: IndexDescription[];
+  // Declared indexes that exist with another definition.
+  conflicts: IndexConflict[];
+  // Managed indexes that are no longer declared.
+  stale: string[];
+};
+
+/**
+ * Server-side document validation: the resource schema is converted into a
+ * `$jsonSchema` validator applied to the collection.
+ */
+export type SchemaValidationOptions = {
+  schema: ZodObject<Record<string, ZodType>>;
+  // Which writes are validated (default "strict"; "moderate" skips invalid existing documents).
+  validationLevel?: "off" | "strict" | "moderate";
+  // Reject invalid documents ("error", default) or only log them ("warn").
+  validationAction?: "error" | "warn";
+};
+
+/**
+ * Limits of `?expand=`: which reference paths may be expanded, and how deep.
+ */
+export type ExpansionOptions = {
+  // Expandable paths, e.g. ["productId", "productId.categoryId"] (default: every reference).
+  fields?: string[];
+  // Maximum number of references in a path (default 1, no nested expansion).
+  maxDepth?: number;
+};
+
+/**
+ * Expansion of one reference field, with the expansions of the referenced
+ * entity's own references.
+ */
+export type ExpansionNode = {
+  field: string;
+  reference: ReferenceDefinition;
+  children: ExpansionNode[];
+};
+
+/**
+ * Where the entities referenced by a repository's documents are looked up,
+ * e.g. within the tenant of the request.
+ */
+export type ReferenceScope = {
+  // Collection holding the entities of a referenced collection, e.g. the
+  // collection of the tenant.
+  collection?: (collection: string) => string;
+  // Condition every referenced entity must meet, e.g. the tenant field.
+  filter?: () => Document;
+};
+
+/**
+ * Optional behaviour switches for a MongoDbRepository.
+ */
+export type MongoRepositoryOptions = {
+  // Mark documents with deletedAt/deletedBy instead of deleting them.
+  softDelete?: boolean;
+  // Fields of the weighted text index used by `search`.
+  textSearchFields?: TextSearchFields;
+  // Indexes to maintain besides the unique and text ones.
+  indexes?: IndexDefinition[];
+  // Drop managed "idx_*" indexes that are no longer declared (default: only report them).
+  dropStaleIndexes?: boolean;
+  // Validate documents on the server with a validator derived from the schema.
+  schemaValidation?: SchemaValidationOptions;
+  // Reference fields, checked on every write and expandable on reads.
+  references?: Record<string, ReferenceDefinition>;
+  // Limits of the reference expansion.
+  expand?: ExpansionOptions;
+  // Where referenced entities are checked and expanded from (default: the
+  // collection named by the reference, in the same database).
+  referenceScope?: ReferenceScope;
+  // Format of the entity ids (default: ObjectId).
+  idStrategy?: IdStrategy;
+};
+
+/**
+ * Options of an InMemoryRepository. They mirror the MongoDbRepository
+ * options so that both repositories behave alike.
+ */
+export type InMemoryRepositoryOptions<T = Record<string, unknown>> = {
+  // Unique fields or field tuples, checked on every write.
+  uniqueFields?: UniqueConstraint<T>[];
+  // Mark documents with deletedAt/deletedBy instead of deleting them.
+  softDelete?: boolean;
+  // Fields matched by `search`, optionally weighted.
+  textSearchFields?: TextSearchFields<T>;
+  // Format of the entity ids (default: ObjectId).
+  idStrategy?: IdStrategy;
+};
+
+/**
+ * Options of an EncryptedRepository.
+ */
+export type EncryptedRepositoryOptions<T = Record<string, unknown>> = {
+  // Unique fields or field tuples of the resource. Those holding encrypted
+  // fields are also checked against the values stored under retired keys.
+  uniqueFields?: UniqueConstraint<T>[];
+};
+
+/**
+ * Options of an InProcessChangeFeed.
+ */
+export type InProcessChangeFeedOptions = {
+  // Number of recent events kept to resume subscriptions (default 1000).
+  historySize?: number;
+};
+
+/**
+ * Value SQLite can bind to a statement parameter.
+ */
+export type SqliteValue = string | number | bigint | null;
+
+/**
+ * Prepared statement of a synchronous SQLite driver.
+ */
+export type SqliteStatement = {
+  run(...params: SqliteValue[]): { changes: number | bigint };
+  get(...params: SqliteValue[]): unknown;
+  all(...params: SqliteValue[]): unknown[];
+};
+
+/**
+ * Synchronous SQLite database handle. `better-sqlite3` databases and
+ * `node:sqlite` `DatabaseSync` instances both fit this shape.
+ */
+export type SqliteDatabase = {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): unknown;
+  function(
+    name: string,
+    implementation: (...args: never[]) => unknown,
+  ): unknown;
+};
+
+/**
+ * Storage class of a SQLite column, derived from the schema field type.
+ * Arrays and nested objects are stored as JSON text.
+ */
+export type SqlColumnKind =
+  "id" | "string" | "number" | "boolean" | "date" | "json";
+
+/**
+ * Options of a SqliteRepository.
+ */
+export type SqliteRepositoryOptions<T = Record<string, unknown>> = {
+  // Unique fields or field tuples, enforced by unique indexes.
+  uniqueFields?: UniqueConstraint<T>[];
+  // Mark rows with deletedAt/deletedBy instead of deleting them.
+  softDelete?: boolean;
+  // Format of the entity ids (default: ObjectId).
+  idStrategy?: IdStrategy;
+};
+
+/**
+ * What a migration receives: the database and the collection it migrates.
+ */
+export type MigrationContext = {
+  db: Db;
+  collection: Collection<Document>;
+  logger: Logger;
+};
+
+/**
+ * A versioned change to the documents of a collection. Versions are applied
+ * in ascending order and reverted in descending order.
+ */
+export type Migration = {
+  // Positive integer, unique per collection.
+  version: number;
+  name: string;
+  up(context: MigrationContext): Promise<void>;
+  // Optional, required to migrate down past this version.
+  down?(context: MigrationContext): Promise<void>;
+};
+
+/**
+ * Bookkeeping entry stored in `_migrations` for every applied migration.
+ */
+export type MigrationRecord = {
+  collection: string;
+  version: number;
+  name: string;
+  appliedAt: Date;
+  durationMs: number;
+};
+
+/**
+ * State of a known migration on a collection.
+ */
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt?: Date;
+};
+
+/**
+ * Locking options of a Migrator. The lock keeps concurrent instances from
+ * applying the same migrations twice.
+ */
+export type MigratorOptions = {
+  // How long a lock stays valid without being renewed (default 60s).
+  lockTtlMs?: number;
+  // How long to wait for a lock held by another instance (default 120s).
+  lockTimeoutMs?: number;
+  // Delay between two attempts to take the lock (default 1s).
+  pollIntervalMs?: number;
+};
+
+/**
+ * Options of `runMigrations`.
+ */
+export type RunMigrationsOptions = MigratorOptions & {
+  client: MongoClient;
+  database: string;
+  collection: string;
+  // Migrations, or a directory of `<version>_<name>.js` migration files.
+  migrations: Migration[] | string;
+  logger: Logger;
+  // Version to migrate up to (default: latest).
+  target?: number;
+};
+
+/**
+ * Tuning options for a UnitOfWork.
+ */
+export type UnitOfWorkOptions = {
+  // Total attempts for a transaction that keeps failing with a transient error.
+  maxAttempts?: number;
+  // Read/write concerns and read preference applied to every transaction.
+  transactionOptions?: TransactionOptions;
+};
+
+/**
+ * Keys of the field encryption: 32-byte AES-256 keys by identifier. New
+ * values are encrypted with the current key; every key decrypts the values
+ * it encrypted, so retired keys stay listed until their values are
+ * re-encrypted.
+ */
+export type EncryptionKeys = {
+  // Identifier of the key encrypting new values.
+  current: string;
+  keys: Record<string, Buffer>;
+};
+
+/**
+ * Source of the field encryption keys: a keyfile, the environment, a KMS...
+ * Keys are loaded on first use and kept.
+ */
+export type KeyProvider = {
+  load(): EncryptionKeys | Promise<EncryptionKeys>;
 };
@@ -0,0 +1,136 @@
+import { MongoError } from "mongodb";
+import type { ClientSession } from "mongodb";
+
+import { ApplicationError, ErrorType } from "#root/config/errors.js";
+import type { Logger } from "#root/domain/logger.interface.js";
+import type { IUnitOfWork } from "#root/domain/index.js";
+import type { MongoConnection } from "./mongoconnection.js";
+import type { UnitOfWorkOptions } from "./types.js";
+
+const TRANSIENT_TRANSACTION_ERROR = "TransientTransactionError";
+const UNKNOWN_COMMIT_RESULT = "UnknownTransactionCommitResult";
+
+/**
+ * @class UnitOfWork
+ * @description Runs a callback inside a MongoDB multi-document transaction.
+ * Every repository call that receives the provided session takes part in the
+ * transaction, so writes across several collections commit or abort together.
+ * Requires a replica set or sharded cluster.
+ */
+export class UnitOfWork implements IUnitOfWork {
+  private readonly maxAttempts: number;
+
+  /**
+   * @param {MongoConnection} connection - Connection used to start sessions
+   * @param {Logger} logger - Logger instance
+   * @param {UnitOfWorkOptions} [options] - Retry and transaction options
+   */
+  public constructor(
+    private readonly connection: MongoConnection,
+    private readonly logger: Logger,
+    private readonly options: UnitOfWorkOptions = {},
+  ) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  }
+
+  /**
+   * Executes the work inside a transaction. The whole callback is retried when
+   * the transaction fails with a `TransientTransactionError`, and the commit is
+   * retried on an `UnknownTransactionCommitResult`.
+   *
+   * @template T
+   * @param {(session: ClientSession) => Promise<T>} work - Operations to run atomically
+   * @returns {Promise<T>} The value returned by the work callback
+   * @throws {ApplicationError} When the transaction cannot be committed
+   */
+  public async withTransaction<T>(
+    work: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    const session = this.connection.getClient().startSession();
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        session.startTransaction(this.options.transactionOptions);
+        try {
+          const result = await work(session);
+          await this.commit(session);
+          return result;
+        } catch (error) {
+          if (session.inTransaction()) {
+            await session.abortTransaction();
+          }
+
+          if (
+            attempt < this.maxAttempts &&
+            this.hasErrorLabel(error, TRANSIENT_TRANSACTION_ERROR)
+          ) {
+            this.logger.warn("UnitOfWork: Retrying transient transaction", {
+              attempt,
+            });
+            continue;
+          }
+          throw error;
+        }
+      }
+    } catch (error) {
+      if (error instanceof ApplicationError) {
+        throw error;
+      }
+      this.logger.error("UnitOfWork: Transaction failed", { error });
+      throw new ApplicationError({
+        type: ErrorType.DATABASE_ERROR,
+        message: "Database transaction failed.",
+        cause: error as Error,
+      });
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Commits the active transaction, retrying while the outcome is unknown.
+   *
+   * @param {ClientSession} session - Session holding the transaction
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async commit(session: ClientSession): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await session.commitTransaction();
+        return;
+      } catch (error) {
+        if (
+          attempt < this.maxAttempts &&
+          this.hasErrorLabel(error, UNKNOWN_COMMIT_RESULT)
+        ) {
+          this.logger.warn("UnitOfWork: Retrying transaction commit", {
+            attempt,
+          });
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Checks an error and its `cause` chain for a driver error label. Repository
+   * errors wrap the driver error, so the label is usually one level down.
+   *
+   * @param {unknown} error - Error thrown inside the transaction
+   * @param {string} label - Driver error label to look for
+   * @returns {boolean} True when any error in the chain carries the label
+   * @private
+   */
+  private hasErrorLabel(error: unknown, label: string): boolean {
+    let current: unknown = error;
+    while (current instanceof Error) {
+      if (current instanceof MongoError && current.hasErrorLabel(label)) {
+        return true;
+      }
+      current = current.cause;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,317 @@
+import { z } from "zod";
+import type { ZodObject, ZodType } from "zod";
+
+import { ValidationError } from "#root/config/errors.js";
+import type {
+  CompileFilterOptions,
+  FilterField,
+  FilterFieldKind,
+  FilterOperator,
+} from "./types.js";
+import { assertSafePattern } from "./patterns.js";
+
+/** Longest pattern accepted by the `regex` operator */
+const MAX_REGEX_LENGTH = 256;
+
+/** Most values accepted by the list operators (`in`, `nin`, `all`) */
+const MAX_LIST_VALUES = 100;
+
+const OPERATORS_BY_KIND: Record<FilterFieldKind, FilterOperator[]> = {
+  string: [
+    "eq",
+    "ne",
+    "gt",
+    "gte",
+    "lt",
+    "lte",
+    "in",
+    "nin",
+    "regex",
+    "exists",
+  ],
+  number: ["eq", "ne", "gt", "gte", "lt", "lte", "in", "nin", "exists"],
+  date: ["eq", "ne", "gt", "gte", "lt", "lte", "in", "nin", "exists"],
+  boolean: ["eq", "ne", "exists"],
+  array: ["eq", "ne", "in", "nin", "all", "exists"],
+  unsupported: ["exists"],
+};
+
+const LIST_OPERATORS: FilterOperator[] = ["in", "nin", "all"];
+
+/** Operators whose values must satisfy the field schema, not only its type */
+const STRICT_OPERATORS: FilterOperator[] = ["eq", "ne", "in", "nin", "all"];
+
+/**
+ * Strips optional, nullable, default and effects wrappers from a schema.
+ * @param {z.ZodTypeAny} schema - Field schema
+ * @returns {z.ZodTypeAny} The innermost schema
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Classifies an unwrapped schema.
+ * @param {z.ZodTypeAny} schema - Unwrapped field schema
+ * @returns {FilterFieldKind} Value type of the field
+ */
+function kindOf(schema: z.ZodTypeAny): FilterFieldKind {
+  if (
+    schema instanceof z.ZodString ||
+    schema instanceof z.ZodEnum ||
+    schema instanceof z.ZodNativeEnum
+  ) {
+    return "string";
+  }
+  if (schema instanceof z.ZodNumber) return "number";
+  if (schema instanceof z.ZodBoolean) return "boolean";
+  if (schema instanceof z.ZodDate) return "date";
+  if (schema instanceof z.ZodArray) return "array";
+  return "unsupported";
+}
+
+/**
+ * Lists the operators supported by a field type.
+ *
+ * @param {FilterFieldKind} kind - Value type of the field
+ * @returns {FilterOperator[]} Supported operators
+ */
+export function operatorsForKind(kind: FilterFieldKind): FilterOperator[] {
+  return OPERATORS_BY_KIND[kind];
+}
+
+/**
+ * Describes every filterable field of a schema and its supported operators.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @returns {Map<string, FilterField>} Filterable fields by name
+ */
+export function describeFilterFields(
+  schema: ZodObject<Record<string, ZodType>>,
+): Map<string, FilterField> {
+  const fields = new Map<string, FilterField>();
+
+  for (const [name, fieldSchema] of Object.entries(schema.shape)) {
+    const unwrapped = unwrap(fieldSchema);
+    const kind = kindOf(unwrapped);
+    const valueSchema =
+      unwrapped instanceof z.ZodArray ? unwrap(unwrapped.element) : unwrapped;
+
+    fields.set(name, {
+      name,
+      kind,
+      valueSchema,
+      valueKind: kind === "array" ? kindOf(valueSchema) : kind,
+      operators: OPERATORS_BY_KIND[kind],
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Compiles find query parameters into a MongoDB filter. A plain value is an
+ * equality match (`price=10`), a bracketed operator maps to the matching
+ * query operator (`price[gte]=10` → `{ price: { $gte: 10 } }`). Fields and
+ * operators are checked against the schema and values are converted to the
+ * field type, so the result only ever contains known fields and operators.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @param {Record<string, unknown>} params - Parsed query parameters, pagination keys removed
+ * @param {CompileFilterOptions} [options] - Compilation options
+ * @returns {Record<string, unknown>} MongoDB filter
+ * @throws {ValidationError} When a field, operator or value is invalid
+ */
+export function compileFilter(
+  schema: ZodObject<Record<string, ZodType>>,
+  params: Record<string, unknown>,
+  options: CompileFilterOptions = {},
+): Record<string, unknown> {
+  const { coerceTypes = true } = options;
+  const fields = describeFilterFields(schema);
+  const filter: Record<string, unknown> = {};
+  const violations: string[] = [];
+
+  for (const [name, raw] of Object.entries(params)) {
+    const field = fields.get(name);
+    if (!field) {
+      violations.push(`${name}: Unknown filter field`);
+      continue;
+    }
+
+    if (typeof raw === "string") {
+      try {
+        filter[name] = parseValue(field, raw, true, coerceTypes);
+      } catch (error) {
+        violations.push(`${name}: ${(error as Error).message}`);
+      }
+      continue;
+    }
+
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      violations.push(`${name}: Filter must be a single value`);
+      continue;
+    }
+
+    const conditions: Record<string, unknown> = {};
+    for (const [operator, value] of Object.entries(raw)) {
+      const label = `${name}[${operator}]`;
+      try {
+        conditions[`$${operator}`] = compileCondition(
+          field,
+          operator,
+          value,
+          coerceTypes,
+        );
+      } catch (error) {
+        violations.push(`${label}: ${(error as Error).message}`);
+      }
+    }
+    filter[name] = conditions;
+  }
+
+  if (violations.length > 0) {
+    throw new ValidationError({
+      message: "Invalid filter parameters",
+      field: "query",
+      violations,
+    });
+  }
+
+  return filter;
+}
+
+/**
+ * Compiles the value of one bracketed operator.
+ *
+ * @param {FilterField} field - Field being filtered
+ * @param {string} operator - Operator from the query string
+ * @param {unknown} raw - Raw operator value
+ * @param {boolean} coerceTypes - Whether to convert values to the field type
+ * @returns {unknown} Value of the MongoDB operator
+ * @throws {Error} When the operator or value is invalid
+ */
+function compileCondition(
+  field: FilterField,
+  operator: string,
+  raw: unknown,
+  coerceTypes: boolean,
+): unknown {
+  if (!field.operators.includes(operator as FilterOperator)) {
+    throw new Error(
+      `Unsupported operator, expected one of: ${field.operators.join(", ")}`,
+    );
+  }
+  const op = operator as FilterOperator;
+  const strict = STRICT_OPERATORS.includes(op);
+
+  if (LIST_OPERATORS.includes(op)) {
+    const values = (Array.isArray(raw) ? raw : [raw]).flatMap((value) =>
+      typeof value === "string" ? value.split(",") : [value],
+    );
+    if (values.length > MAX_LIST_VALUES) {
+      throw new Error(`At most ${MAX_LIST_VALUES} values are allowed`);
+    }
+    return values.map((value) => {
+      if (typeof value !== "string") {
+        throw new Error("List values must be plain values");
+      }
+      return parseValue(field, value.trim(), strict, coerceTypes);
+    });
+  }
+
+  if (typeof raw !== "string") {
+    throw new Error("Operator value must be a single value");
+  }
+
+  if (op === "exists") {
+    if (raw !== "true" && raw !== "false") {
+      throw new Error("Expected true or false");
+    }
+    return raw === "true";
+  }
+
+  if (op === "regex") {
+    if (raw.length === 0 || raw.length > MAX_REGEX_LENGTH) {
+      throw new Error(
+        `Pattern must be between 1 and ${MAX_REGEX_LENGTH} characters`,
+      );
+    }
+    try {
+      new RegExp(raw);
+    } catch {
+      throw new Error("Invalid regular expression");
+    }
+    assertSafePattern(raw);
+    return raw;
+  }
+
+  return parseValue(field, raw, strict, coerceTypes);
+}
+
+/**
+ * Converts a raw query string value to the field value type.
+ *
+ * @param {FilterField} field - Field being filtered
+ * @param {string} raw - Raw value
+ * @param {boolean} strict - Also validate the value against the field schema
+ * @param {boolean} coerceTypes - Whether to convert the value to the field type
+ * @returns {unknown} Typed value
+ * @throws {Error} When the value does not match the field type
+ */
+function parseValue(
+  field: FilterField,
+  raw: string,
+  strict: boolean,
+  coerceTypes: boolean,
+): unknown {
+  let value: unknown = raw;
+
+  if (coerceTypes) {
+    switch (field.valueKind) {
+      case "number":
+        value = Number(raw);
+        if (raw.trim() === "" || Number.isNaN(value)) {
+          throw new Error("Expected number");
+        }
+        break;
+      case "boolean":
+        if (raw !== "true" && raw !== "false") {
+          throw new Error("Expected true or false");
+        }
+        value = raw === "true";
+        break;
+      case "date":
+        value = new Date(raw);
+        if (Number.isNaN((value as Date).getTime())) {
+          throw new Error("Expected date");
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (!strict) {
+    return value;
+  }
+
+  const result = field.valueSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((issue) => issue.message).join(", "),
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,3 @@
+export type * from "./types.js";
+export * from "./compiler.js";
+export * from "./patterns.js";
@@ -0,0 +1,262 @@
+/** Longest text the in-process adapters run a regular expression against */
+export const MAX_PATTERN_SUBJECT_LENGTH = 10_000;
+
+/** Characters each atom is probed with to find whether two atoms overlap */
+const PROBES = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  "\u00a0",
+  "\u00e9",
+  "\u2028",
+  "\u4e2d",
+];
+
+/** Group prefixes that are not part of the group content, e.g. `?:` or `?<name>` */
+const GROUP_KIND = /^\?(?:[:=!]|<[=!]|<[^>]*>)/;
+
+/** Quantifier following an atom, e.g. `*`, `+?` or `{2,5}` */
+const QUANTIFIER = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/;
+
+/**
+ * Group of a pattern being scanned.
+ */
+interface GroupScan {
+  // The group contains a quantifier or an alternation
+  ambiguous: boolean;
+  // Repeated atoms at the end of the alternatives before the current one
+  branchEnds: string[];
+  // The group is a lookaround, which matches no text
+  lookaround: boolean;
+  // Sources of the atoms the group content is made of
+  atoms: string[];
+  // Repeated atoms preceding the group
+  repeatedBefore: string[];
+}
+
+/**
+ * Number of times an atom can be matched.
+ */
+interface Repetition {
+  // Minimum number of matches
+  min: number;
+  // Maximum number of matches, Infinity when unbounded
+  max: number;
+  // Length of the quantifier in the pattern
+  length: number;
+}
+
+/**
+ * Rejects regular expressions prone to catastrophic backtracking before they
+ * are compiled: backreferences, repeated groups whose content can match the
+ * same text in several ways, e.g. `(a+)+`, `(a|aa)*` or `(\w?){10}`, and
+ * repetitions that can share the same characters without a required
+ * character between them telling them apart, e.g. `a*a*b` or `.*=.*`.
+ * Patterns such as `^\d{3}-\w+$`, `(ab)+` or `^\w+@\w+\.com$` are accepted.
+ *
+ * @param {string} pattern - Source of the regular expression
+ * @throws {Error} When the pattern is not safe to run
+ */
+export function assertSafePattern(pattern: string): void {
+  const groups: GroupScan[] = [scanGroup([])];
+  // Repeated atoms a following repetition could compete with
+  let repeated: string[] = [];
+
+  /**
+   * Applies the quantifier following an atom.
+   * @param {string} atom - Source of the atom
+   * @param {number} end - Index of the last character of the atom
+   * @returns {number} Index of the last character of the quantifier
+   */
+  const quantify = (atom: string, end: number): number => {
+    const repetition = readRepetition(pattern, end + 1);
+    const current = groups[groups.length - 1];
+    current.atoms.push(atom);
+    current.ambiguous ||= repetition.length > 0;
+
+    const repeats = repetition.max > 1 && repetition.max > repetition.min;
+    if (repeats && repeated.some((other) => overlaps(other, atom))) {
+      throw new Error(
+        "Repetitions of overlapping characters must be separated by a required character",
+      );
+    }
+    if (repetition.min > 0) {
+      // A required atom separates the repetitions it cannot be matched by
+      repeated = repeated.filter((other) => overlaps(other, atom));
+    }
+    if (repeats) {
+      repeated = [...repeated, atom];
+    }
+    return end + repetition.length;
+  };
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const current = groups[groups.length - 1];
+
+    if (char === "\\") {
+      const next = pattern[index + 1] ?? "";
+      if (/[1-9]/.test(next) || pattern.startsWith("k<", index + 1)) {
+        throw new Error("Backreferences are not allowed");
+      }
+      if (next === "b" || next === "B") {
+        index++;
+      } else {
+        const end = escapeEnd(pattern, index);
+        index = quantify(pattern.slice(index, end + 1), end);
+      }
+    } else if (char === "[") {
+      const end = classEnd(pattern, index);
+      index = quantify(pattern.slice(index, end + 1), end);
+    } else if (char === "(") {
+      const kind = GROUP_KIND.exec(pattern.slice(index + 1))?.[0] ?? "";
+      const group = scanGroup(repeated);
+      group.lookaround = /^\?<?[=!]$/.test(kind);
+      groups.push(group);
+      // Skip the group kind, e.g. (?: or (?<name>, so that its ? is not a quantifier
+      index += kind.length;
+    } else if (char === ")") {
+      const group = groups.pop();
+      if (!group || groups.length === 0) {
+        throw new Error("Invalid regular expression");
+      }
+      const repetition = readRepetition(pattern, index + 1);
+      if (group.ambiguous && repetition.max > 1) {
+        throw new Error(
+          "Nested quantifiers and repeated alternations are not allowed",
+        );
+      }
+      groups[groups.length - 1].ambiguous ||= group.ambiguous;
+      if (group.lookaround) {
+        // A lookaround matches no text, what follows it follows what precedes it
+        repeated = group.repeatedBefore;
+      } else {
+        // When the group can be skipped, its required atoms separate nothing
+        repeated = [
+          ...new Set([
+            ...group.branchEnds,
+            ...repeated,
+            ...(repetition.min === 0 ? group.repeatedBefore : []),
+          ]),
+        ];
+      }
+      index =
+        group.atoms.length > 0 && !group.lookaround
+          ? quantify(`(?:${group.atoms.join("|")})`, index)
+          : index + repetition.length;
+    } else if (char === "|") {
+      current.ambiguous = true;
+      // Alternatives are not in sequence, each one follows what precedes the group
+      current.branchEnds.push(...repeated);
+      repeated = [...current.repeatedBefore];
+    } else if (char !== "^" && char !== "$") {
+      index = quantify(char, index);
+    }
+  }
+}
+
+/**
+ * Runs a regular expression against a text no longer than
+ * `MAX_PATTERN_SUBJECT_LENGTH`, longer texts do not match.
+ *
+ * @param {RegExp} pattern - Compiled regular expression
+ * @param {string} subject - Text to search
+ * @returns {boolean} Whether the pattern matches the text
+ */
+export function testPattern(pattern: RegExp, subject: string): boolean {
+  return subject.length <= MAX_PATTERN_SUBJECT_LENGTH && pattern.test(subject);
+}
+
+/**
+ * Creates the scan state of a group.
+ *
+ * @param {string[]} repeatedBefore - Repeated atoms preceding the group
+ * @returns {GroupScan} Empty group scan
+ */
+function scanGroup(repeatedBefore: string[]): GroupScan {
+  return {
+    ambiguous: false,
+    branchEnds: [],
+    lookaround: false,
+    atoms: [],
+    repeatedBefore,
+  };
+}
+
+/**
+ * Reads the quantifier starting at an index, if any.
+ *
+ * @param {string} pattern - Source of the regular expression
+ * @param {number} start - Index following the quantified atom
+ * @returns {Repetition} Repetition of the atom, once when there is no quantifier
+ */
+function readRepetition(pattern: string, start: number): Repetition {
+  const match = QUANTIFIER.exec(pattern.slice(start));
+  if (!match) {
+    return { min: 1, max: 1, length: 0 };
+  }
+  const [source, symbol, min, range, max] = match;
+  if (symbol) {
+    return {
+      min: symbol === "+" ? 1 : 0,
+      max: symbol === "?" ? 1 : Infinity,
+      length: source.length,
+    };
+  }
+  return {
+    min: Number(min),
+    max: range === undefined ? Number(min) : max ? Number(max) : Infinity,
+    length: source.length,
+  };
+}
+
+/**
+ * Tells whether two atoms can match the same character, probing them with
+ * ASCII and a few non-ASCII characters, case-insensitively.
+ *
+ * @param {string} first - Source of an atom
+ * @param {string} second - Source of another atom
+ * @returns {boolean} Whether a probed character matches both atoms
+ */
+function overlaps(first: string, second: string): boolean {
+  const a = new RegExp(`^(?:${first})$`, "i");
+  const b = new RegExp(`^(?:${second})$`, "i");
+  return PROBES.some((probe) => a.test(probe) && b.test(probe));
+}
+
+/**
+ * Finds the end of an escape sequence, e.g. `\d`, `\x41` or `\u00e9`.
+ *
+ * @param {string} pattern - Source of the regular expression
+ * @param {number} start - Index of the backslash
+ * @returns {number} Index of the last character of the escape
+ */
+function escapeEnd(pattern: string, start: number): number {
+  const next = pattern[start + 1];
+  if (next === "x" && /^[\da-f]{2}/i.test(pattern.slice(start + 2))) {
+    return start + 3;
+  }
+  if (next === "u" && /^[\da-f]{4}/i.test(pattern.slice(start + 2))) {
+    return start + 5;
+  }
+  if (next === "c" && /^[a-z]/i.test(pattern.slice(start + 2))) {
+    return start + 2;
+  }
+  return Math.min(start + 1, pattern.length - 1);
+}
+
+/**
+ * Finds the end of a character class, whose content is taken literally.
+ *
+ * @param {string} pattern - Source of the regular expression
+ * @param {number} start - Index of the opening `[`
+ * @returns {number} Index of the closing `]`, or the last index when unclosed
+ */
+function classEnd(pattern: string, start: number): number {
+  for (let index = start + 1; index < pattern.length; index++) {
+    if (pattern[index] === "\\") {
+      index++;
+    } else if (pattern[index] === "]") {
+      return index;
+    }
+  }
+  return pattern.length - 1;
+}
@@ -0,0 +1,44 @@
+import type { z } from "zod";
+
+/**
+ * Operators accepted in find query strings, e.g. `price[gte]=10`.
+ */
+export type FilterOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "nin"
+  | "regex"
+  | "all"
+  | "exists";
+
+/**
+ * Value type of a filterable field, derived from its Zod schema.
+ */
+export type FilterFieldKind =
+  "string" | "number" | "boolean" | "date" | "array" | "unsupported";
+
+/**
+ * A filterable field with the operators its type supports.
+ */
+export type FilterField = {
+  name: string;
+  kind: FilterFieldKind;
+  // Schema of a single value (the element schema for arrays).
+  valueSchema: z.ZodTypeAny;
+  // Kind of a single value (the element kind for arrays).
+  valueKind: FilterFieldKind;
+  operators: FilterOperator[];
+};
+
+/**
+ * Options for compiling query parameters into a filter.
+ */
+export type CompileFilterOptions = {
+  // Convert string values to the field type before validating them.
+  coerceTypes?: boolean;
+};
@@ -1 +1,2 @@
 export * from "./schemabuilder/index.js";
+export * from "./filtercompiler/index.js";
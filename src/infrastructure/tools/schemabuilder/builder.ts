@@ -1,5 +1,8 @@
 import { z } from "zod";
 import type { SchemaDef } from "./types.js";
+import { reference } from "./references.js";
+import { encrypted } from "./encrypted.js";
+import type { FieldEncryption } from "./types.js";
 
 /**
  * Wraps a Zod schema with `.optional()` and/or `.default()`.
@@ -23,6 +26,21 @@ function withOptionalAndDefault<T extends z.ZodTypeAny>(
   return out;
 }
 
+/**
+ * Marks a field schema as encrypted when the field asks for it.
+ * @param {z.ZodTypeAny} schema - The Zod schema of the field
+ * @param {FieldEncryption | undefined} encryption - Encryption of the field
+ * @returns {z.ZodTypeAny} The same schema
+ */
+function withEncryption(
+  schema: z.ZodTypeAny,
+  encryption: FieldEncryption | undefined,
+): z.ZodTypeAny {
+  return encryption
+    ? encrypted(schema, { deterministic: encryption === "deterministic" })
+    : schema;
+}
+
 /**
  * Builds a Zod object schema from a declarative schema definition.
  *
@@ -43,7 +61,11 @@ export function buildSchema<TDef extends SchemaDef>(
         if (cfg.min !== undefined) s = s.min(cfg.min);
         if (cfg.max !== undefined) s = s.max(cfg.max);
         if (cfg.regex) s = s.regex(cfg.regex);
-        schema = withOptionalAndDefault(s, cfg.required, cfg.default);
+        schema = withOptionalAndDefault(
+          withEncryption(s, cfg.encrypted),
+          cfg.required,
+          cfg.default,
+        );
         break;
       }
       case "number": {
@@ -51,16 +73,24 @@ export function buildSchema<TDef extends SchemaDef>(
         if (cfg.int) s = s.int();
         if (cfg.min !== undefined) s = s.min(cfg.min);
         if (cfg.max !== undefined) s = s.max(cfg.max);
-        schema = withOptionalAndDefault(s, cfg.required, cfg.default);
+        schema = withOptionalAndDefault(
+          withEncryption(s, cfg.encrypted),
+          cfg.required,
+          cfg.default,
+        );
         break;
       }
       case "boolean": {
-        schema = withOptionalAndDefault(z.boolean(), cfg.required, cfg.default);
+        schema = withOptionalAndDefault(
+          withEncryption(z.boolean(), cfg.encrypted),
+          cfg.required,
+          cfg.default,
+        );
         break;
       }
       case "date": {
         schema = withOptionalAndDefault(
-          z.string().datetime(),
+          withEncryption(z.string().datetime(), cfg.encrypted),
           cfg.required,
           cfg.default,
         );
@@ -68,7 +98,7 @@ export function buildSchema<TDef extends SchemaDef>(
       }
       case "enum": {
         schema = withOptionalAndDefault(
-          z.enum(cfg.values),
+          withEncryption(z.enum(cfg.values), cfg.encrypted),
           cfg.required,
           cfg.default,
         );
@@ -91,6 +121,17 @@ export function buildSchema<TDef extends SchemaDef>(
         );
         break;
       }
+      case "ref": {
+        schema = withOptionalAndDefault(
+          reference(cfg.collection, {
+            schema: cfg.schema,
+            idStrategy: cfg.idStrategy,
+          }),
+          cfg.required,
+          undefined,
+        );
+        break;
+      }
       default: {
         const never: never = cfg as never;
         throw new Error(
@@ -0,0 +1,47 @@
+import type { ZodObject, ZodType } from "zod";
+import type { EncryptedFieldDefinition } from "./types.js";
+import { unwrap } from "./unwrap.js";
+
+/**
+ * Encryption of the schemas marked by `encrypted`.
+ */
+const encryptions = new WeakMap<ZodType, EncryptedFieldDefinition>();
+
+/**
+ * Marks the schema of a field as encrypted at rest. The repository stores
+ * the values encrypted with AES-GCM and returns them decrypted. Apply it
+ * last: `.optional()`, `.nullable()` and `.default()` may wrap it, other
+ * modifiers create a new, unmarked schema.
+ *
+ * @template T - Field schema type
+ * @param {T} schema - Field schema
+ * @param {Partial<EncryptedFieldDefinition>} [options] - Deterministic encryption, for equality filters and unique constraints
+ * @returns {T} The same schema
+ */
+export function encrypted<T extends ZodType>(
+  schema: T,
+  options: Partial<EncryptedFieldDefinition> = {},
+): T {
+  encryptions.set(schema, { deterministic: options.deterministic ?? false });
+  return schema;
+}
+
+/**
+ * Lists the encrypted fields of a schema. Optional, nullable and defaulted
+ * fields are included.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @returns {Record<string, EncryptedFieldDefinition>} Encryption by field name
+ */
+export function describeEncryptedFields(
+  schema: ZodObject<Record<string, ZodType>>,
+): Record<string, EncryptedFieldDefinition> {
+  const fields: Record<string, EncryptedFieldDefinition> = {};
+  for (const [field, fieldSchema] of Object.entries(schema.shape)) {
+    const encryption = encryptions.get(unwrap(fieldSchema));
+    if (encryption) {
+      fields[field] = encryption;
+    }
+  }
+  return fields;
+}
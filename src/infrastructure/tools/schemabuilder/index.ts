@@ -1,2 +1,4 @@
 export type * from "./types.js";
 export * from "./builder.js";
+export * from "./references.js";
+export * from "./encrypted.js";
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import type { ZodObject, ZodType } from "zod";
+import type { IdCodec } from "../../persistance/types.js";
+import { resolveIdStrategy } from "../../persistance/ids.js";
+import type { ReferenceDefinition, ReferenceTarget } from "./types.js";
+import { unwrap } from "./unwrap.js";
+
+/**
+ * Targets of the reference schemas created by `reference`, with their ids.
+ */
+const targets = new WeakMap<ZodType, ReferenceTarget & { ids: IdCodec }>();
+
+/**
+ * Creates the schema of a field holding the ID of another resource's entity.
+ * The field stores the ID as a string, in the format of the id strategy of
+ * the referenced resource; the repository checks that the entity exists and
+ * can inline it with `?expand=`.
+ *
+ * @param {string} collection - Collection of the referenced resource
+ * @param {Omit<ReferenceTarget, "collection">} [options] - Schema and id strategy of the referenced resource
+ * @returns {z.ZodString} Schema of the reference field
+ */
+export function reference(
+  collection: string,
+  options: Omit<ReferenceTarget, "collection"> = {},
+): z.ZodString {
+  const ids = resolveIdStrategy(options.idStrategy);
+  const base = z.string();
+  const schema = (
+    ids.pattern
+      ? base.regex(ids.pattern, "Invalid reference identifier")
+      : base.min(1, "Invalid reference identifier")
+  ).describe(`ID of a ${collection} entity`);
+  targets.set(schema, { collection, ...options, ids });
+  return schema;
+}
+
+/**
+ * Lists the reference fields of a schema, single or array ones. Optional,
+ * nullable and defaulted references are included.
+ *
+ * @param {ZodObject<Record<string, ZodType>>} schema - Resource schema
+ * @returns {Record<string, ReferenceDefinition>} References by field name
+ */
+export function describeReferences(
+  schema: ZodObject<Record<string, ZodType>>,
+): Record<string, ReferenceDefinition> {
+  const references: Record<string, ReferenceDefinition> = {};
+  for (const [field, fieldSchema] of Object.entries(schema.shape)) {
+    const inner = unwrap(fieldSchema);
+    const single = targets.get(inner);
+    const many =
+      inner instanceof z.ZodArray
+        ? targets.get(unwrap(inner.element as ZodType))
+        : undefined;
+
+    if (single) {
+      references[field] = { ...single, many: false };
+    } else if (many) {
+      references[field] = { ...many, many: true };
+    }
+  }
+  return references;
+}
@@ -1,10 +1,19 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import type { ZodObject, ZodType } from "zod";
+import type { IdCodec, IdStrategy } from "../../persistance/types.js";
 
 /**
  * Field descriptors and schema definition types
  * used by the schema builder.
  */
 
+/**
+ * Encryption of a field at rest: `true` encrypts every value with a random
+ * IV, `"deterministic"` derives the IV from the value, so that equal values
+ * give equal ciphertexts and equality filters and unique constraints work.
+ */
+export type FieldEncryption = boolean | "deterministic";
+
 export type StringField = {
   type: "string";
   min?: number;
@@ -13,6 +22,7 @@ export type StringField = {
   default?: string;
   required?: boolean;
   doc?: string;
+  encrypted?: FieldEncryption;
 };
 
 export type NumberField = {
@@ -23,6 +33,7 @@ export type NumberField = {
   default?: number;
   required?: boolean;
   doc?: string;
+  encrypted?: FieldEncryption;
 };
 
 export type BooleanField = {
@@ -30,6 +41,7 @@ export type BooleanField = {
   default?: boolean;
   required?: boolean;
   doc?: string;
+  encrypted?: FieldEncryption;
 };
 
 export type DateField = {
@@ -37,6 +49,7 @@ export type DateField = {
   default?: string;
   required?: boolean;
   doc?: string;
+  encrypted?: FieldEncryption;
 };
 
 export type EnumField<T extends readonly [string, ...string[]]> = {
@@ -45,6 +58,7 @@ export type EnumField<T extends readonly [string, ...string[]]> = {
   default?: T[number];
   required?: boolean;
   doc?: string;
+  encrypted?: FieldEncryption;
 };
 
 export type ArrayField = {
@@ -62,6 +76,18 @@ export type ObjectField = {
   doc?: string;
 };
 
+export type RefField = {
+  type: "ref";
+  // Collection of the referenced resource
+  collection: string;
+  // Schema of the referenced resource, to expand its own references
+  schema?: () => ZodObject<Record<string, ZodType>>;
+  // Id strategy of the referenced resource (default: ObjectId)
+  idStrategy?: IdStrategy;
+  required?: boolean;
+  doc?: string;
+};
+
 export type Field =
   | StringField
   | NumberField
@@ -69,9 +95,40 @@ export type Field =
   | DateField
   | EnumField<any>
   | ArrayField
-  | ObjectField;
+  | ObjectField
+  | RefField;
 
 /**
  * A schema definition is a record of property names to field definitions.
  */
 export type SchemaDef = Record<string, Field>;
+
+/**
+ * Target of a reference field.
+ */
+export type ReferenceTarget = {
+  // Collection of the referenced resource
+  collection: string;
+  // Schema of the referenced resource, to expand its own references
+  schema?: () => ZodObject<Record<string, ZodType>>;
+  // Id strategy of the referenced resource (default: ObjectId)
+  idStrategy?: IdStrategy;
+};
+
+/**
+ * Reference field of a schema, as found by `describeReferences`.
+ */
+export type ReferenceDefinition = ReferenceTarget & {
+  // True for an array of references
+  many: boolean;
+  // Ids of the referenced resource, resolved from its id strategy
+  ids: IdCodec;
+};
+
+/**
+ * Encrypted field of a schema, as found by `describeEncryptedFields`.
+ */
+export type EncryptedFieldDefinition = {
+  // Equal values give equal ciphertexts
+  deterministic: boolean;
+};
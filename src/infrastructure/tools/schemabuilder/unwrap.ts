@@ -0,0 +1,23 @@
+import { z } from "zod";
+import type { ZodType } from "zod";
+
+/**
+ * Removes the optional, nullable and default wrappers of a schema.
+ *
+ * @param {ZodType} schema - Field schema
+ * @returns {ZodType} Wrapped schema
+ */
+export function unwrap(schema: ZodType): ZodType {
+  let current = schema;
+  while (
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodNullable ||
+    current instanceof z.ZodDefault
+  ) {
+    current =
+      current instanceof z.ZodDefault
+        ? current._def.innerType
+        : current.unwrap();
+  }
+  return current;
+}